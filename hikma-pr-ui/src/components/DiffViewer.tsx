@@ -0,0 +1,226 @@
+import { Fragment, useEffect, useMemo, useRef } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { ChevronDown, ChevronUp } from "lucide-react";
+import { DiffChunk, DiffLine, FileDiff, Finding } from "@/data/mockData";
+
+export type DiffMode = 'unified' | 'split';
+
+interface DiffViewerProps {
+  diff: FileDiff;
+  mode: DiffMode;
+  onModeChange: (mode: DiffMode) => void;
+  activeFindingId?: string;
+  onActiveFindingChange: (findingId: string) => void;
+}
+
+// Pass issues use critical..low, plugin findings error/warning/info
+const SEVERITY_ORDER = ['info', 'low', 'warning', 'medium', 'high', 'error', 'critical'];
+
+const severityDot = (severity: string) => {
+  switch (severity) {
+    case 'critical':
+    case 'error':
+      return 'bg-red-500';
+    case 'high':
+      return 'bg-orange-500';
+    case 'medium':
+    case 'warning':
+      return 'bg-yellow-500';
+    case 'low':
+      return 'bg-blue-500';
+    default:
+      return 'bg-gray-400';
+  }
+};
+
+const lineBackground = (line?: DiffLine) =>
+  line?.type === 'addition' ? 'bg-green-50' : line?.type === 'deletion' ? 'bg-red-50' : '';
+
+const lineMarker = (line: DiffLine) =>
+  line.type === 'addition' ? '+' : line.type === 'deletion' ? '-' : ' ';
+
+/**
+ * Findings are placed on the head-version line they point at; the rest are shown above their chunk
+ */
+const placeFindings = (chunk: DiffChunk) => {
+  const newLines = new Set(chunk.lines.filter(line => line.newLine !== undefined).map(line => line.newLine));
+  const byLine = new Map<number, Finding[]>();
+  const unplaced: Finding[] = [];
+
+  for (const finding of chunk.findings) {
+    if (finding.line && newLines.has(finding.line)) {
+      byLine.set(finding.line, [...(byLine.get(finding.line) || []), finding]);
+    } else {
+      unplaced.push(finding);
+    }
+  }
+  return { byLine, unplaced };
+};
+
+/**
+ * Split view rows: a run of deletions is paired with the additions that follow it
+ */
+const toSplitRows = (lines: DiffLine[]): { left?: DiffLine; right?: DiffLine }[] => {
+  const rows: { left?: DiffLine; right?: DiffLine }[] = [];
+  for (let i = 0; i < lines.length;) {
+    if (lines[i].type === 'context') {
+      rows.push({ left: lines[i], right: lines[i] });
+      i++;
+      continue;
+    }
+    const deletions: DiffLine[] = [];
+    const additions: DiffLine[] = [];
+    while (i < lines.length && lines[i].type === 'deletion') deletions.push(lines[i++]);
+    while (i < lines.length && lines[i].type === 'addition') additions.push(lines[i++]);
+    for (let j = 0; j < Math.max(deletions.length, additions.length); j++) {
+      rows.push({ left: deletions[j], right: additions[j] });
+    }
+  }
+  return rows;
+};
+
+const DiffViewer = ({ diff, mode, onModeChange, activeFindingId, onActiveFindingChange }: DiffViewerProps) => {
+  const findingRefs = useRef(new Map<string, HTMLDivElement>());
+  const placed = useMemo(() => diff.chunks.map(placeFindings), [diff]);
+
+  // Jump order: chunk by chunk, unplaced findings first, then by line
+  const orderedFindings = useMemo(() => placed.flatMap(({ byLine, unplaced }) => [
+    ...unplaced,
+    ...[...byLine.entries()].sort(([a], [b]) => a - b).flatMap(([, findings]) => findings),
+  ]), [placed]);
+  const activeIndex = orderedFindings.findIndex(finding => finding.id === activeFindingId);
+
+  useEffect(() => {
+    if (activeFindingId) {
+      findingRefs.current.get(activeFindingId)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }
+  }, [activeFindingId, mode, diff]);
+
+  const jump = (step: number) => {
+    if (orderedFindings.length === 0) return;
+    const next = activeIndex === -1 ? (step > 0 ? 0 : orderedFindings.length - 1) : (activeIndex + step + orderedFindings.length) % orderedFindings.length;
+    onActiveFindingChange(orderedFindings[next].id);
+  };
+
+  const renderAnnotations = (findings: Finding[]) => findings.map(finding => (
+    <div
+      key={finding.id}
+      ref={element => {
+        if (element) findingRefs.current.set(finding.id, element);
+        else findingRefs.current.delete(finding.id);
+      }}
+      onClick={() => onActiveFindingChange(finding.id)}
+      className={`mx-2 my-1 rounded border-l-4 bg-white p-2 font-sans text-xs shadow-sm cursor-pointer ${
+        finding.id === activeFindingId ? 'border-l-blue-600 ring-2 ring-blue-300' : 'border-l-slate-300'
+      }`}
+    >
+      <div className="flex flex-wrap items-center gap-2">
+        <span className={`inline-block h-2 w-2 rounded-full ${severityDot(finding.severity)}`} />
+        <Badge variant="outline" className="text-[10px]">{finding.severity}</Badge>
+        <span className="font-medium text-slate-900">{finding.title}</span>
+        <span className="text-slate-500">{finding.type}</span>
+      </div>
+      {finding.description !== finding.title && <p className="mt-1 text-slate-700">{finding.description}</p>}
+      {finding.recommendation && <p className="mt-1 text-slate-600"><span className="font-medium">Fix:</span> {finding.recommendation}</p>}
+    </div>
+  ));
+
+  // Gutter marker with the most severe finding on the line
+  const renderMarker = (findings?: Finding[]) => {
+    if (!findings?.length) return <span className="inline-block w-2" />;
+    const worst = findings.reduce((a, b) => SEVERITY_ORDER.indexOf(b.severity) > SEVERITY_ORDER.indexOf(a.severity) ? b : a);
+    return (
+      <button
+        type="button"
+        title={findings.map(finding => finding.title).join('\n')}
+        onClick={() => onActiveFindingChange(findings[0].id)}
+        className={`inline-block h-2 w-2 rounded-full ${severityDot(worst.severity)}`}
+      />
+    );
+  };
+
+  const renderCode = (line?: DiffLine) => (
+    <span className={`flex-1 whitespace-pre-wrap break-all px-2 ${lineBackground(line)}`}>
+      {line ? `${lineMarker(line)} ${line.content}` : ''}
+    </span>
+  );
+
+  const renderNumber = (value?: number) => (
+    <span className="w-10 flex-shrink-0 select-none pr-2 text-right text-slate-400">{value ?? ''}</span>
+  );
+
+  return (
+    <div className="bg-white rounded border font-mono text-xs">
+      <div className="flex flex-wrap items-center justify-between gap-2 bg-slate-100 px-3 py-2 border-b">
+        <span className="text-slate-600 truncate">{diff.filePath}</span>
+        <div className="flex items-center gap-2 font-sans">
+          <span className="text-slate-600">
+            {orderedFindings.length === 0 ? 'No findings' : `Finding ${activeIndex + 1 || '–'} of ${orderedFindings.length}`}
+          </span>
+          <Button size="sm" variant="outline" className="h-7 px-2" onClick={() => jump(-1)} disabled={orderedFindings.length === 0} aria-label="Previous finding">
+            <ChevronUp className="h-3 w-3" />
+          </Button>
+          <Button size="sm" variant="outline" className="h-7 px-2" onClick={() => jump(1)} disabled={orderedFindings.length === 0} aria-label="Next finding">
+            <ChevronDown className="h-3 w-3" />
+          </Button>
+          <ToggleGroup type="single" size="sm" value={mode} onValueChange={value => value && onModeChange(value as DiffMode)}>
+            <ToggleGroupItem value="unified" className="h-7 text-xs">Unified</ToggleGroupItem>
+            <ToggleGroupItem value="split" className="h-7 text-xs">Split</ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+      </div>
+
+      {diff.chunks.map((chunk, chunkIndex) => {
+        const { byLine, unplaced } = placed[chunkIndex];
+        return (
+          <div key={chunk.chunkId} className="border-b last:border-b-0">
+            <div className="bg-blue-50 px-3 py-1 text-slate-500">
+              @@ lines {chunk.startLine ?? '?'}–{chunk.endLine ?? '?'}
+              {chunk.riskLevel && <span className="ml-2">· {chunk.riskLevel.toLowerCase()} risk</span>}
+            </div>
+            {renderAnnotations(unplaced)}
+
+            {mode === 'unified'
+              ? chunk.lines.map((line, index) => {
+                  const findings = line.newLine !== undefined ? byLine.get(line.newLine) : undefined;
+                  return (
+                    <Fragment key={index}>
+                      <div className="flex items-start">
+                        <span className="flex w-4 flex-shrink-0 justify-center pt-1">{renderMarker(findings)}</span>
+                        {renderNumber(line.oldLine)}
+                        {renderNumber(line.newLine)}
+                        {renderCode(line)}
+                      </div>
+                      {findings && renderAnnotations(findings)}
+                    </Fragment>
+                  );
+                })
+              : toSplitRows(chunk.lines).map((row, index) => {
+                  const findings = row.right?.newLine !== undefined ? byLine.get(row.right.newLine) : undefined;
+                  return (
+                    <Fragment key={index}>
+                      <div className="flex items-start">
+                        <div className="flex w-1/2 items-start border-r">
+                          {renderNumber(row.left?.oldLine)}
+                          {renderCode(row.left)}
+                        </div>
+                        <div className="flex w-1/2 items-start">
+                          <span className="flex w-4 flex-shrink-0 justify-center pt-1">{renderMarker(findings)}</span>
+                          {renderNumber(row.right?.newLine)}
+                          {renderCode(row.right)}
+                        </div>
+                      </div>
+                      {findings && renderAnnotations(findings)}
+                    </Fragment>
+                  );
+                })}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default DiffViewer;
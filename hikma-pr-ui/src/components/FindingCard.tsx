@@ -3,16 +3,52 @@ import { useState } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { AlertTriangle, AlertCircle, Info, Zap, ChevronDown, ChevronRight } from "lucide-react";
-import { Finding } from "@/data/mockData";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, AlertCircle, Info, Zap, ChevronDown, ChevronRight, EyeOff } from "lucide-react";
+import { Finding, FindingTriage } from "@/data/mockData";
+import { triageFinding } from "@/hooks/useReviews";
 
 interface FindingCardProps {
   finding: Finding;
   detailed?: boolean;
+  reviewId?: string; // Shows the triage controls for findings that can be triaged
 }
 
-const FindingCard = ({ finding, detailed = false }: FindingCardProps) => {
+const TRIAGE_LABELS: Record<string, string> = {
+  'open': 'Open',
+  'accepted': 'Accepted',
+  'false-positive': 'False positive',
+  'wont-fix': "Won't fix",
+  'fixed': 'Fixed',
+};
+
+// The reviewer's name is remembered between findings
+const AUTHOR_KEY = 'hikma-pr.triageAuthor';
+
+const FindingCard = ({ finding, detailed = false, reviewId }: FindingCardProps) => {
   const [isExpanded, setIsExpanded] = useState(detailed);
+  const [triage, setTriage] = useState<FindingTriage | undefined>(finding.triage);
+  const [status, setStatus] = useState(finding.triage?.status || 'open');
+  const [note, setNote] = useState(finding.triage?.note || '');
+  const [author, setAuthor] = useState(() => localStorage.getItem(AUTHOR_KEY) || '');
+  const [saving, setSaving] = useState(false);
+  const [triageError, setTriageError] = useState<string | null>(null);
+  const canTriage = !!reviewId && !!triage;
+
+  const handleTriage = async () => {
+    if (!reviewId) return;
+    setSaving(true);
+    setTriageError(null);
+    try {
+      localStorage.setItem(AUTHOR_KEY, author.trim());
+      setTriage(await triageFinding(reviewId, finding.id, { status, note: note.trim(), author: author.trim() }));
+    } catch (err) {
+      setTriageError(err instanceof Error ? err.message : 'Failed to save the triage');
+    } finally {
+      setSaving(false);
+    }
+  };
 
   const getSeverityIcon = (severity: string) => {
     switch (severity) {
@@ -60,7 +96,7 @@ const FindingCard = ({ finding, detailed = false }: FindingCardProps) => {
   };
 
   return (
-    <Card className={`bg-white shadow-sm border-l-4 ${getBorderColor(finding.severity)}`}>
+    <Card className={`bg-white shadow-sm border-l-4 ${getBorderColor(finding.severity)} ${triage?.dismissed ? 'opacity-60' : ''}`}>
       <CardContent className="p-4">
         <div className="space-y-3">
           <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
@@ -76,6 +112,12 @@ const FindingCard = ({ finding, detailed = false }: FindingCardProps) => {
                 <Badge variant="outline" className="bg-purple-100 text-purple-700 hidden sm:inline-flex">
                   {finding.plugin}
                 </Badge>
+                {triage && triage.status !== 'open' && (
+                  <Badge variant="outline" className={triage.dismissed ? 'bg-gray-100 text-gray-600' : 'bg-green-100 text-green-700'}>
+                    {triage.dismissed && <EyeOff className="h-3 w-3 mr-1" />}
+                    {TRIAGE_LABELS[triage.status] || triage.status}
+                  </Badge>
+                )}
               </div>
               
               <h4 className="font-semibold text-slate-900 text-sm sm:text-base">{finding.title}</h4>
@@ -115,6 +157,47 @@ const FindingCard = ({ finding, detailed = false }: FindingCardProps) => {
               <p className="text-sm text-green-700">{finding.recommendation}</p>
             </div>
           )}
+
+          {isExpanded && canTriage && (
+            <div className="pt-3 border-t border-slate-100 space-y-2">
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Select value={status} onValueChange={setStatus}>
+                  <SelectTrigger className="sm:w-44 text-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(TRIAGE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  placeholder="Note (optional)"
+                  value={note}
+                  onChange={event => setNote(event.target.value)}
+                  className="flex-1 text-sm"
+                />
+                <Input
+                  placeholder="Your name"
+                  value={author}
+                  onChange={event => setAuthor(event.target.value)}
+                  className="sm:w-36 text-sm"
+                />
+                <Button size="sm" onClick={handleTriage} disabled={saving} className="whitespace-nowrap">
+                  {saving ? 'Saving…' : 'Save triage'}
+                </Button>
+              </div>
+              {triage?.inheritedFrom && (
+                <p className="text-xs text-slate-500">Dismissed in an earlier review of this repository.</p>
+              )}
+              {triage?.updatedAt && !triage.inheritedFrom && (
+                <p className="text-xs text-slate-500">
+                  Triaged {new Date(triage.updatedAt).toLocaleString()}{triage.author ? ` by ${triage.author}` : ''}
+                </p>
+              )}
+              {triageError && <p className="text-xs text-red-600">{triageError}</p>}
+            </div>
+          )}
         </div>
       </CardContent>
     </Card>
@@ -0,0 +1,77 @@
+import { useEffect, useRef } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Activity } from "lucide-react";
+import { LiveReview } from "@/hooks/useReviewEvents";
+
+// Workflow nodes (src/graph/workflow.ts) in words
+const NODE_LABELS: Record<string, string> = {
+  establishContext: 'Fetching the pull request',
+  filterFiles: 'Filtering files',
+  setupFileChunks: 'Splitting files into chunks',
+  analyzeChunk: 'Analyzing chunks',
+  synthesizeFile: 'Summarizing files',
+  finalSynthesis: 'Writing the final report',
+};
+
+const ProgressRow = ({ label, done, total }: { label: string; done: number; total: number }) => (
+  <div className="space-y-1">
+    <div className="flex justify-between text-sm text-slate-600">
+      <span>{label}</span>
+      <span>{done}/{total}</span>
+    </div>
+    <Progress value={total > 0 ? (done / total) * 100 : 0} className="h-2" />
+  </div>
+);
+
+const LiveProgress = ({ live }: { live: LiveReview }) => {
+  const outputRef = useRef<HTMLPreElement>(null);
+
+  // Keep the newest tokens in view
+  useEffect(() => {
+    outputRef.current?.scrollTo({ top: outputRef.current.scrollHeight });
+  }, [live.output]);
+
+  const statusText = live.status === 'queued'
+    ? `queued${live.position ? ` (#${live.position})` : ''}`
+    : live.status || 'connecting';
+
+  return (
+    <Card className="bg-white shadow-sm mb-6 sm:mb-8">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Activity className="h-5 w-5 text-blue-600 animate-pulse" />
+          Live Progress
+        </CardTitle>
+        <Badge variant={live.status === 'failed' ? 'destructive' : 'secondary'}>{statusText}</Badge>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {live.node && (
+          <p className="text-sm text-slate-700">
+            {NODE_LABELS[live.node] || live.node}
+            {live.currentFile && <span className="text-slate-500"> · <code>{live.currentFile}</code></span>}
+          </p>
+        )}
+        {live.progress && (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <ProgressRow label="Files" done={live.progress.completed_files} total={live.progress.total_files} />
+            <ProgressRow label="Chunks" done={live.progress.completed_chunks} total={live.progress.total_chunks} />
+            <ProgressRow label="Passes" done={live.progress.completed_passes} total={live.progress.total_passes} />
+          </div>
+        )}
+        {live.error && <p className="text-sm text-red-600">{live.error}</p>}
+        {live.output && (
+          <pre ref={outputRef} className="max-h-72 overflow-auto rounded bg-slate-900 p-3 text-xs text-slate-100 whitespace-pre-wrap">
+            {live.output.trimStart()}
+          </pre>
+        )}
+        {!live.connected && live.status !== 'completed' && live.status !== 'failed' && (
+          <p className="text-xs text-slate-500">Waiting for the server...</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default LiveProgress;
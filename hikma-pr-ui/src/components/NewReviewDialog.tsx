@@ -0,0 +1,108 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Play } from "lucide-react";
+import { startReview } from "@/hooks/useReviews";
+
+const DEFAULT_PROVIDER = "default";
+
+const NewReviewDialog = () => {
+  const navigate = useNavigate();
+  const [open, setOpen] = useState(false);
+  const [url, setUrl] = useState("");
+  const [provider, setProvider] = useState(DEFAULT_PROVIDER);
+  const [server, setServer] = useState("");
+  const [model, setModel] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      const id = await startReview({
+        url: url.trim(),
+        provider: provider === DEFAULT_PROVIDER ? undefined : provider,
+        server: server.trim(),
+        model: model.trim(),
+      });
+      setOpen(false);
+      navigate(`/review/${id}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start the review');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button className="flex items-center gap-2">
+          <Play className="h-4 w-4" />
+          New Review
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Review a Pull Request</DialogTitle>
+            <DialogDescription>
+              The review runs on the server. Leave the model fields empty to use the server's configuration.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="review-url">Pull Request URL</Label>
+            <Input
+              id="review-url"
+              placeholder="https://github.com/owner/repo/pull/123"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Provider</Label>
+            <Select value={provider} onValueChange={setProvider}>
+              <SelectTrigger>
+                <SelectValue placeholder="Provider" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={DEFAULT_PROVIDER}>From configuration</SelectItem>
+                <SelectItem value="ollama">Ollama</SelectItem>
+                <SelectItem value="lmstudio">LM Studio</SelectItem>
+                <SelectItem value="openai">OpenAI compatible</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="review-server">LLM Server</Label>
+              <Input id="review-server" placeholder="http://localhost:11434" value={server} onChange={(e) => setServer(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="review-model">Model</Label>
+              <Input id="review-model" placeholder="qwen2.5-coder" value={model} onChange={(e) => setModel(e.target.value)} />
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <DialogFooter>
+            <Button type="submit" disabled={submitting || !url.trim()}>
+              {submitting ? 'Starting...' : 'Start Review'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default NewReviewDialog;
@@ -8,6 +8,16 @@ export interface Finding {
   line: number;
   plugin: string;
   recommendation: string;
+  triage?: FindingTriage; // Only for findings that can be triaged
+}
+
+export interface FindingTriage {
+  status: string;
+  note: string | null;
+  author: string | null;
+  updatedAt: string | null;
+  dismissed: boolean;
+  inheritedFrom?: string;
 }
 
 export interface Review {
@@ -45,6 +55,39 @@ export interface Review {
   };
 }
 
+export interface ReviewFile {
+  filePath: string;
+  analysis: string | null;
+  diffSize: number | null;
+  riskLevel: string | null;
+  issueCount: number;
+  pluginFindingCount: number;
+  linesAdded: number;
+  linesRemoved: number;
+  chunks: { chunkId: string; startLine: number | null; endLine: number | null; riskLevel: string | null }[];
+}
+
+export interface DiffLine {
+  type: 'addition' | 'deletion' | 'context';
+  content: string;
+  oldLine?: number;
+  newLine?: number;
+}
+
+export interface DiffChunk {
+  chunkId: string;
+  startLine: number | null;
+  endLine: number | null;
+  riskLevel: string | null;
+  lines: DiffLine[];
+  findings: Finding[];
+}
+
+export interface FileDiff {
+  filePath: string;
+  chunks: DiffChunk[];
+}
+
 export const mockSummaryStats = {
   totalReviews: 247,
   criticalFindings: 12,
@@ -0,0 +1,88 @@
+import { useState, useEffect } from 'react';
+
+export type ReviewRunStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface ReviewProgress {
+  total_files: number;
+  completed_files: number;
+  total_chunks: number;
+  completed_chunks: number;
+  total_passes: number;
+  completed_passes: number;
+}
+
+// Mirrors ReviewEvent in src/types/api.ts
+type ReviewEvent =
+  | { type: 'status'; status: ReviewRunStatus; position?: number; error?: string }
+  | { type: 'node'; node: string }
+  | { type: 'progress'; progress: ReviewProgress | null; currentFile: string | null }
+  | { type: 'token'; token: { source: string; file_path: string; chunk_id?: string; text: string } };
+
+export interface LiveReview {
+  status?: ReviewRunStatus;
+  position?: number;
+  error?: string;
+  node?: string;
+  progress: ReviewProgress | null;
+  currentFile: string | null;
+  output: string;        // Tail of the streamed LLM replies
+  outputSource?: string; // Pass or synthesis the latest reply belongs to
+  connected: boolean;
+}
+
+// Enough to follow the current reply without the page growing without bound
+const MAX_OUTPUT_CHARS = 6000;
+
+const INITIAL: LiveReview = { progress: null, currentFile: null, output: '', connected: false };
+
+/**
+ * Follows a running review through GET /api/reviews/:id/events; onFinished runs once it completes or fails
+ */
+export function useReviewEvents(id: string | undefined, enabled: boolean, onFinished?: () => void): LiveReview {
+  const [live, setLive] = useState<LiveReview>(INITIAL);
+
+  useEffect(() => {
+    if (!id || !enabled) return;
+
+    const source = new EventSource(`/api/reviews/${encodeURIComponent(id)}/events`);
+    source.onopen = () => setLive(current => ({ ...current, connected: true }));
+    source.onerror = () => setLive(current => ({ ...current, connected: false }));
+
+    source.onmessage = (message) => {
+      const event: ReviewEvent = JSON.parse(message.data);
+      switch (event.type) {
+        case 'status':
+          setLive(current => ({ ...current, status: event.status, position: event.position, error: event.error }));
+          if (event.status === 'completed' || event.status === 'failed') {
+            // The server ends the stream here; stop EventSource from reconnecting
+            source.close();
+            onFinished?.();
+          }
+          break;
+        case 'node':
+          setLive(current => ({ ...current, node: event.node }));
+          break;
+        case 'progress':
+          setLive(current => ({ ...current, progress: event.progress, currentFile: event.currentFile }));
+          break;
+        case 'token': {
+          const label = `${event.token.source} · ${event.token.file_path}`;
+          setLive(current => {
+            const output = current.outputSource === label ? current.output + event.token.text : `${current.output}\n\n▶ ${label}\n${event.token.text}`;
+            return { ...current, outputSource: label, output: output.slice(-MAX_OUTPUT_CHARS) };
+          });
+          break;
+        }
+      }
+    };
+
+    return () => {
+      source.close();
+      setLive(INITIAL);
+    };
+    // onFinished is a callback of the page; reconnecting whenever it changes would drop events
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [id, enabled]);
+
+  return live;
+}
@@ -1,55 +1,226 @@
-import { useState, useEffect } from 'react';
-import { mockReviews, mockSummaryStats, Review } from '@/data/mockData';
+import { useState, useEffect, useCallback } from 'react';
+import { mockReviews, mockSummaryStats, FileDiff, FindingTriage, Review, ReviewFile } from '@/data/mockData';
+
+export interface ReviewFilters {
+  page: number;
+  pageSize?: number;
+  search?: string;
+  status?: string;
+  severity?: string;
+}
 
 interface UseReviewsReturn {
   reviews: Review[];
   summaryStats: typeof mockSummaryStats;
+  total: number;
+  totalPages: number;
+  loading: boolean;
+  error: string | null;
+}
+
+interface UseReviewReturn {
+  review: Review | undefined;
   loading: boolean;
   error: string | null;
+  reload: () => void;
+}
+
+export interface TriageRequest {
+  status: string;
+  note?: string;
+  author?: string;
+}
+
+export interface StartReviewRequest {
+  url: string;
+  provider?: string;
+  server?: string;
+  model?: string;
+}
+
+async function fetchJson<T>(url: string): Promise<T> {
+  const response = await fetch(url);
+
+  if (!response.ok) {
+    throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+  }
+
+  const contentType = response.headers.get('content-type');
+  if (!contentType || !contentType.includes('application/json')) {
+    throw new Error('API returned non-JSON response');
+  }
+
+  return response.json();
 }
 
-export function useReviews(): UseReviewsReturn {
+function toQueryString(filters: ReviewFilters): string {
+  const params = new URLSearchParams({ page: String(filters.page), pageSize: String(filters.pageSize || 20) });
+  if (filters.search) params.set('q', filters.search);
+  if (filters.status && filters.status !== 'all') params.set('status', filters.status);
+  if (filters.severity && filters.severity !== 'all') params.set('severity', filters.severity);
+  return params.toString();
+}
+
+export function useReviews(filters: ReviewFilters = { page: 1 }): UseReviewsReturn {
   const [reviews, setReviews] = useState<Review[]>([]);
   const [summaryStats, setSummaryStats] = useState(mockSummaryStats);
+  const [total, setTotal] = useState(0);
+  const [totalPages, setTotalPages] = useState(0);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const queryString = toQueryString(filters);
 
   useEffect(() => {
+    let cancelled = false;
+
     const loadData = async () => {
+      setLoading(true);
       try {
         console.log('🔄 Fetching data from API...');
-        const response = await fetch('/api/reviews');
-        
-        if (!response.ok) {
-          throw new Error(`API request failed: ${response.status} ${response.statusText}`);
-        }
-        
-        const contentType = response.headers.get('content-type');
-        if (!contentType || !contentType.includes('application/json')) {
-          throw new Error('API returned non-JSON response');
-        }
-        
-        const data = await response.json();
-        setReviews(data.reviews || []);
-        setSummaryStats(data.summaryStats || mockSummaryStats);
+        const [page, stats] = await Promise.all([
+          fetchJson<{ reviews: Review[]; total: number; totalPages: number }>(`/api/reviews?${queryString}`),
+          fetchJson<typeof mockSummaryStats>('/api/stats'),
+        ]);
+        if (cancelled) return;
+
+        setReviews(page.reviews || []);
+        setTotal(page.total || 0);
+        setTotalPages(page.totalPages || 0);
+        setSummaryStats(stats || mockSummaryStats);
+        setError(null);
         setLoading(false);
-        
-        console.log(`✅ Loaded ${data.reviews?.length || 0} reviews from API`);
-        
+
+        console.log(`✅ Loaded ${page.reviews?.length || 0} of ${page.total || 0} reviews from API`);
+
       } catch (err) {
+        if (cancelled) return;
         console.error('❌ Failed to load data from API:', err);
         setError(err instanceof Error ? err.message : 'Failed to load data');
-        
+
         // Fallback to mock data only as last resort
         console.log('📝 Falling back to mock data');
         setReviews(mockReviews);
+        setTotal(mockReviews.length);
+        setTotalPages(1);
         setSummaryStats(mockSummaryStats);
         setLoading(false);
       }
     };
 
     loadData();
-  }, []);
+    return () => {
+      cancelled = true;
+    };
+  }, [queryString]);
+
+  return { reviews, summaryStats, total, totalPages, loading, error };
+}
+
+export function useReview(id: string | undefined): UseReviewReturn {
+  const [review, setReview] = useState<Review | undefined>(undefined);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [version, setVersion] = useState(0);
+  const reload = useCallback(() => setVersion(current => current + 1), []);
+
+  useEffect(() => {
+    if (!id) {
+      setLoading(false);
+      return;
+    }
+
+    const loadReview = async () => {
+      try {
+        setReview(await fetchJson<Review>(`/api/reviews/${encodeURIComponent(id)}`));
+        setError(null);
+      } catch (err) {
+        console.error('❌ Failed to load review from API:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load review');
+        setReview(mockReviews.find(r => r.id === id));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadReview();
+  }, [id, version]);
+
+  return { review, loading, error, reload };
+}
+
+/**
+ * Files of a review; null until loaded, or when the API is unavailable
+ */
+export function useReviewFiles(id: string | undefined, version = 0): ReviewFile[] | null {
+  const [files, setFiles] = useState<ReviewFile[] | null>(null);
+
+  useEffect(() => {
+    if (!id) return;
+    let cancelled = false;
+
+    fetchJson<ReviewFile[]>(`/api/reviews/${encodeURIComponent(id)}/files`)
+      .then(result => { if (!cancelled) setFiles(result); })
+      .catch(err => console.error('❌ Failed to load review files from API:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [id, version]);
+
+  return files;
+}
+
+/**
+ * A file's diff with its findings, loaded once enabled (e.g. when the diff is expanded)
+ */
+export function useFileDiff(id: string, filePath: string, enabled: boolean) {
+  const [diff, setDiff] = useState<FileDiff | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!enabled || diff) return;
+
+    fetchJson<FileDiff>(`/api/reviews/${encodeURIComponent(id)}/diff?file=${encodeURIComponent(filePath)}`)
+      .then(setDiff)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load the diff'));
+  }, [id, filePath, enabled, diff]);
+
+  return { diff, error };
+}
+
+/**
+ * Queue a review on the server; resolves to its id. Empty model fields use the server's configuration.
+ */
+export async function startReview(request: StartReviewRequest): Promise<string> {
+  const body = Object.fromEntries(Object.entries(request).filter(([, value]) => value));
+  const response = await fetch('/api/reviews', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  const result = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    const details = Array.isArray(result.details) ? `: ${result.details.join('; ')}` : '';
+    throw new Error(`${result.error || `Request failed: ${response.status}`}${details}`);
+  }
+  return result.id;
+}
+
+/**
+ * Record the triage status of a finding; resolves to the stored triage
+ */
+export async function triageFinding(reviewId: string, findingId: string, request: TriageRequest): Promise<FindingTriage> {
+  const response = await fetch(`/api/reviews/${encodeURIComponent(reviewId)}/findings/${encodeURIComponent(findingId)}/triage`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+  });
+  const result = await response.json().catch(() => ({}));
 
-  return { reviews, summaryStats, loading, error };
+  if (!response.ok) {
+    const details = Array.isArray(result.details) ? `: ${result.details.join('; ')}` : '';
+    throw new Error(`${result.error || `Request failed: ${response.status}`}${details}`);
+  }
+  return result;
 }
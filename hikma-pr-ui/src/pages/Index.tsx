@@ -9,16 +9,29 @@ import { SearchIcon, FilterIcon, Calendar, FileText, AlertTriangle, CheckCircle
 import { Link } from "react-router-dom";
 import QualityScoreDisplay from "@/components/QualityScoreDisplay";
 import FindingsBadge from "@/components/FindingsBadge";
+import NewReviewDialog from "@/components/NewReviewDialog";
 import { useReviews } from "@/hooks/useReviews";
 
 const Index = () => {
   const [searchTerm, setSearchTerm] = useState("");
   const [statusFilter, setStatusFilter] = useState("all");
   const [severityFilter, setSeverityFilter] = useState("all");
+  const [page, setPage] = useState(1);
   
-  const { reviews, summaryStats, loading, error } = useReviews();
+  // Filtering and paging happen on the server
+  const { reviews, summaryStats, total, totalPages, loading, error } = useReviews({
+    page,
+    search: searchTerm,
+    status: statusFilter,
+    severity: severityFilter,
+  });
+
+  const updateFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setPage(1);
+  };
 
-  if (loading) {
+  if (loading && reviews.length === 0 && !searchTerm && statusFilter === "all" && severityFilter === "all") {
     return (
       <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50 flex items-center justify-center">
         <div className="text-center">
@@ -29,23 +42,16 @@ const Index = () => {
     );
   }
 
-  const filteredReviews = reviews.filter(review => {
-    const matchesSearch = review.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         review.repository.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesStatus = statusFilter === "all" || review.status === statusFilter;
-    const matchesSeverity = severityFilter === "all" || 
-      review.findings.some(f => f.severity === severityFilter);
-    
-    return matchesSearch && matchesStatus && matchesSeverity;
-  });
-
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50 p-6">
       <div className="max-w-7xl mx-auto">
         {/* Header */}
-        <div className="mb-8">
-          <h1 className="text-4xl font-bold text-slate-900 mb-2">Hikma PR Insights Dashboard</h1>
-          <p className="text-slate-600">Intelligent Pull Request Analysis & Quality Insights</p>
+        <div className="mb-8 flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+          <div>
+            <h1 className="text-4xl font-bold text-slate-900 mb-2">Hikma PR Insights Dashboard</h1>
+            <p className="text-slate-600">Intelligent Pull Request Analysis & Quality Insights</p>
+          </div>
+          <NewReviewDialog />
         </div>
 
         {/* Summary Cards */}
@@ -103,14 +109,14 @@ const Index = () => {
                 <div className="relative">
                   <SearchIcon className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-slate-400" />
                   <Input
-                    placeholder="Search by PR title or repository..."
+                    placeholder="Search by PR URL or repository..."
                     value={searchTerm}
-                    onChange={(e) => setSearchTerm(e.target.value)}
+                    onChange={(e) => updateFilter(setSearchTerm)(e.target.value)}
                     className="pl-10"
                   />
                 </div>
               </div>
-              <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <Select value={statusFilter} onValueChange={updateFilter(setStatusFilter)}>
                 <SelectTrigger className="w-full lg:w-40">
                   <SelectValue placeholder="Status" />
                 </SelectTrigger>
@@ -121,7 +127,7 @@ const Index = () => {
                   <SelectItem value="failed">Failed</SelectItem>
                 </SelectContent>
               </Select>
-              <Select value={severityFilter} onValueChange={setSeverityFilter}>
+              <Select value={severityFilter} onValueChange={updateFilter(setSeverityFilter)}>
                 <SelectTrigger className="w-full lg:w-40">
                   <SelectValue placeholder="Severity" />
                 </SelectTrigger>
@@ -142,7 +148,7 @@ const Index = () => {
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
               <FilterIcon className="h-5 w-5" />
-              PR Reviews ({filteredReviews.length})
+              PR Reviews ({total})
             </CardTitle>
           </CardHeader>
           <CardContent>
@@ -160,7 +166,7 @@ const Index = () => {
                   </tr>
                 </thead>
                 <tbody>
-                  {filteredReviews.map((review) => (
+                  {reviews.map((review) => (
                     <tr key={review.id} className="border-b border-slate-100 hover:bg-slate-50 transition-colors">
                       <td className="py-4 px-4">
                         <Link 
@@ -197,13 +203,27 @@ const Index = () => {
               </table>
             </div>
             
-            {filteredReviews.length === 0 && (
+            {reviews.length === 0 && (
               <div className="text-center py-12">
                 <FileText className="mx-auto h-12 w-12 text-slate-400 mb-4" />
                 <h3 className="text-lg font-medium text-slate-900 mb-2">No reviews found</h3>
                 <p className="text-slate-600">Try adjusting your search or filter criteria.</p>
               </div>
             )}
+
+            {totalPages > 1 && (
+              <div className="flex items-center justify-between pt-4">
+                <p className="text-sm text-slate-600">Page {page} of {totalPages}</p>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                    Previous
+                  </Button>
+                  <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+                    Next
+                  </Button>
+                </div>
+              </div>
+            )}
           </CardContent>
         </Card>
       </div>
@@ -11,11 +11,22 @@ import ReactMarkdown from 'react-markdown';
 import QualityScoreDisplay from "@/components/QualityScoreDisplay";
 import FindingCard from "@/components/FindingCard";
 import QualityRadarChart from "@/components/QualityRadarChart";
-import { useReviews } from "@/hooks/useReviews";
+import LiveProgress from "@/components/LiveProgress";
+import DiffViewer, { DiffMode } from "@/components/DiffViewer";
+import { Finding } from "@/data/mockData";
+import { useFileDiff, useReview, useReviewFiles } from "@/hooks/useReviews";
+import { useReviewEvents } from "@/hooks/useReviewEvents";
 
 const ReviewDetail = () => {
   const { id } = useParams();
-  const { reviews, loading } = useReviews();
+  const { review, loading, error, reload } = useReview(id);
+  const [reloads, setReloads] = useState(0);
+  const files = useReviewFiles(id, reloads);
+  // Watch reviews that are still running; reload the results once they finish
+  const live = useReviewEvents(id, review?.status === 'in-progress' && !error, () => {
+    reload();
+    setReloads(count => count + 1);
+  });
   
   if (loading) {
     return (
@@ -28,8 +39,6 @@ const ReviewDetail = () => {
     );
   }
   
-  const review = reviews.find(r => r.id === id);
-  
   if (!review) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50 p-4 sm:p-6">
@@ -72,24 +81,21 @@ const ReviewDetail = () => {
     }
   }
 
-  // Group files by analysis status and findings
-  const fileAnalysis = [...new Set(review.findings.map(f => f.file))].map(file => {
-    const fileFindings = review.findings.filter(f => f.file === file);
-    const totalLines = Math.floor(Math.random() * 100) + 50; // Mock data
-    const addedLines = Math.floor(Math.random() * 30) + 5;
-    const removedLines = Math.floor(Math.random() * 15) + 2;
-    const chunks = Math.floor(Math.random() * 5) + 1;
-    
-    return {
-      file,
-      findings: fileFindings,
-      status: 'analyzed',
-      totalLines,
-      addedLines,
-      removedLines,
-      chunks
-    };
-  });
+  // Stored files with their findings; without the API, the files the findings point at
+  const fileAnalysis: FileCardData[] = files
+    ? files.map(file => ({
+        file: file.filePath,
+        findings: review.findings.filter(f => f.file === file.filePath),
+        status: file.analysis ? 'analyzed' : 'in progress',
+        addedLines: file.linesAdded,
+        removedLines: file.linesRemoved,
+        chunks: file.chunks.length,
+      }))
+    : [...new Set(review.findings.map(f => f.file))].map(file => ({
+        file,
+        findings: review.findings.filter(f => f.file === file),
+        status: 'analyzed',
+      }));
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50 p-4 sm:p-6">
@@ -127,6 +133,8 @@ const ReviewDetail = () => {
           </div>
         </div>
 
+        {review.status === 'in-progress' && <LiveProgress live={live} />}
+
         {/* Status and Summary Cards */}
         <div className="grid grid-cols-2 lg:grid-cols-6 gap-3 sm:gap-4 mb-6 sm:mb-8">
           <Card className="bg-white shadow-sm">
@@ -314,7 +322,7 @@ const ReviewDetail = () => {
               </CardHeader>
               <CardContent className="space-y-4">
                 {review.findings.map(finding => (
-                  <FindingCard key={finding.id} finding={finding} detailed />
+                  <FindingCard key={finding.id} finding={finding} reviewId={review.id} detailed />
                 ))}
                 
                 {review.findings.length === 0 && (
@@ -363,8 +371,8 @@ const ReviewDetail = () => {
               </CardHeader>
               <CardContent>
                 <div className="space-y-4">
-                  {fileAnalysis.map((file, index) => (
-                    <FileAnalysisCard key={index} fileData={file} />
+                  {fileAnalysis.map(file => (
+                    <FileAnalysisCard key={file.file} reviewId={review.id} fileData={file} canShowDiff={files !== null} />
                   ))}
                 </div>
               </CardContent>
@@ -419,8 +427,26 @@ const ReviewDetail = () => {
   );
 };
 
-const FileAnalysisCard = ({ fileData }: { fileData: any }) => {
+interface FileCardData {
+  file: string;
+  findings: Finding[];
+  status: string;
+  addedLines?: number;
+  removedLines?: number;
+  chunks?: number;
+}
+
+const FileAnalysisCard = ({ reviewId, fileData, canShowDiff }: { reviewId: string; fileData: FileCardData; canShowDiff: boolean }) => {
   const [isDiffExpanded, setIsDiffExpanded] = useState(false);
+  const [diffMode, setDiffMode] = useState<DiffMode>('unified');
+  const [activeFindingId, setActiveFindingId] = useState<string>();
+  const { diff, error } = useFileDiff(reviewId, fileData.file, isDiffExpanded);
+
+  // Picking a finding in the list opens the diff at its line
+  const showFinding = (findingId: string) => {
+    setIsDiffExpanded(true);
+    setActiveFindingId(findingId);
+  };
 
   return (
     <div className="border border-slate-200 rounded-lg">
@@ -434,7 +460,7 @@ const FileAnalysisCard = ({ fileData }: { fileData: any }) => {
             </div>
             <div className="flex items-center gap-4 text-xs text-slate-600 mt-1">
               <span>Analysis Status: <span className="text-green-600 font-medium">{fileData.status}</span></span>
-              <span>Chunks: {fileData.chunks}</span>
+              {fileData.chunks !== undefined && <span>Chunks: {fileData.chunks}</span>}
             </div>
           </div>
         </div>
@@ -450,16 +476,18 @@ const FileAnalysisCard = ({ fileData }: { fileData: any }) => {
             </Badge>
           )}
           
-          <div className="flex items-center gap-2 text-sm">
-            <span className="text-green-600 flex items-center gap-1">
-              <Plus className="h-3 w-3" />
-              {fileData.addedLines}
-            </span>
-            <span className="text-red-600 flex items-center gap-1">
-              <Minus className="h-3 w-3" />
-              {fileData.removedLines}
-            </span>
-          </div>
+          {fileData.addedLines !== undefined && (
+            <div className="flex items-center gap-2 text-sm">
+              <span className="text-green-600 flex items-center gap-1">
+                <Plus className="h-3 w-3" />
+                {fileData.addedLines}
+              </span>
+              <span className="text-red-600 flex items-center gap-1">
+                <Minus className="h-3 w-3" />
+                {fileData.removedLines}
+              </span>
+            </div>
+          )}
         </div>
       </div>
 
@@ -468,8 +496,16 @@ const FileAnalysisCard = ({ fileData }: { fileData: any }) => {
         <div className="p-4 border-t border-slate-200">
           <h4 className="text-sm font-medium text-slate-900 mb-3">Findings in this file:</h4>
           <div className="space-y-2">
-            {fileData.findings.map((finding: any, index: number) => (
-              <div key={index} className="flex items-start gap-3 p-3 bg-slate-50 rounded-lg">
+            {fileData.findings.map(finding => (
+              <button
+                key={finding.id}
+                type="button"
+                disabled={!canShowDiff}
+                onClick={() => showFinding(finding.id)}
+                className={`w-full text-left flex items-start gap-3 p-3 rounded-lg ${
+                  finding.id === activeFindingId ? 'bg-blue-50 ring-1 ring-blue-200' : 'bg-slate-50 hover:bg-slate-100'
+                }`}
+              >
                 <Badge 
                   variant="outline" 
                   className={`text-xs ${
@@ -483,48 +519,47 @@ const FileAnalysisCard = ({ fileData }: { fileData: any }) => {
                 </Badge>
                 <div className="flex-1 min-w-0">
                   <div className="font-medium text-sm text-slate-900">{finding.title}</div>
-                  <div className="text-xs text-slate-600 mt-1">Line {finding.line}</div>
+                  <div className="text-xs text-slate-600 mt-1">{finding.line ? `Line ${finding.line}` : 'Whole chunk'}</div>
                 </div>
-              </div>
+              </button>
             ))}
           </div>
         </div>
       )}
 
       {/* Collapsible Diff View */}
-      <Collapsible open={isDiffExpanded} onOpenChange={setIsDiffExpanded}>
-        <CollapsibleTrigger asChild>
-          <Button 
-            variant="ghost" 
-            className="w-full justify-between p-4 border-t border-slate-200 rounded-none hover:bg-slate-50"
-          >
-            <span className="text-sm font-medium">View Diff</span>
-            {isDiffExpanded ? (
-              <ChevronDown className="h-4 w-4" />
-            ) : (
-              <ChevronRight className="h-4 w-4" />
-            )}
-          </Button>
-        </CollapsibleTrigger>
-        <CollapsibleContent>
-          <div className="p-4 border-t border-slate-200 bg-slate-50">
-            <div className="bg-white rounded border font-mono text-xs">
-              <div className="bg-slate-100 px-3 py-2 border-b text-slate-600">
-                {fileData.file}
-              </div>
-              <div className="p-3 space-y-1">
-                <div className="text-red-600">- const oldFunction = () =&gt; {'{'}</div>
-                <div className="text-red-600">-   // old implementation</div>
-                <div className="text-red-600">- {'}'}</div>
-                <div className="text-green-600">+ const newFunction = () =&gt; {'{'}</div>
-                <div className="text-green-600">+   // improved implementation</div>
-                <div className="text-green-600">+   // with better error handling</div>
-                <div className="text-green-600">+ {'}'}</div>
-              </div>
+      {canShowDiff && (
+        <Collapsible open={isDiffExpanded} onOpenChange={setIsDiffExpanded}>
+          <CollapsibleTrigger asChild>
+            <Button 
+              variant="ghost" 
+              className="w-full justify-between p-4 border-t border-slate-200 rounded-none hover:bg-slate-50"
+            >
+              <span className="text-sm font-medium">View Diff</span>
+              {isDiffExpanded ? (
+                <ChevronDown className="h-4 w-4" />
+              ) : (
+                <ChevronRight className="h-4 w-4" />
+              )}
+            </Button>
+          </CollapsibleTrigger>
+          <CollapsibleContent>
+            <div className="p-4 border-t border-slate-200 bg-slate-50">
+              {diff ? (
+                <DiffViewer
+                  diff={diff}
+                  mode={diffMode}
+                  onModeChange={setDiffMode}
+                  activeFindingId={activeFindingId}
+                  onActiveFindingChange={setActiveFindingId}
+                />
+              ) : (
+                <p className="text-sm text-slate-600">{error ? `Could not load the diff: ${error}` : 'Loading diff...'}</p>
+              )}
             </div>
-          </div>
-        </CollapsibleContent>
-      </Collapsible>
+          </CollapsibleContent>
+        </Collapsible>
+      )}
     </div>
   );
 };
@@ -1,3 +1,6 @@
+// Run through `npm test`: the scripts start Jest with node --experimental-vm-modules,
+// which the tree-sitter runtime needs for its dynamic import() calls. Node flags
+// cannot be set from this file.
 module.exports = {
   preset: 'ts-jest',
   testEnvironment: 'node',
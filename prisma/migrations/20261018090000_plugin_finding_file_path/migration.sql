@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "PluginFinding" ADD COLUMN "filePath" TEXT;
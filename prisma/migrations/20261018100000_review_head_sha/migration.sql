@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Review" ADD COLUMN "headSha" TEXT;
+ALTER TABLE "Review" ADD COLUMN "previousReviewId" TEXT;
@@ -0,0 +1,12 @@
+-- CreateTable
+CREATE TABLE "PassCacheEntry" (
+    "key" TEXT NOT NULL PRIMARY KEY,
+    "passType" TEXT NOT NULL,
+    "modelProvider" TEXT NOT NULL,
+    "modelName" TEXT NOT NULL,
+    "response" TEXT NOT NULL,
+    "output" JSONB NOT NULL,
+    "hits" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastHitAt" DATETIME
+);
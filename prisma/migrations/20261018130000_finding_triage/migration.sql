@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "FindingTriage" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "reviewId" TEXT NOT NULL,
+    "findingId" TEXT NOT NULL,
+    "fingerprint" TEXT NOT NULL,
+    "repository" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "note" TEXT,
+    "author" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "FindingTriage_reviewId_fkey" FOREIGN KEY ("reviewId") REFERENCES "Review" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FindingTriage_reviewId_findingId_key" ON "FindingTriage"("reviewId", "findingId");
+
+-- CreateIndex
+CREATE INDEX "FindingTriage_repository_fingerprint_idx" ON "FindingTriage"("repository", "fingerprint");
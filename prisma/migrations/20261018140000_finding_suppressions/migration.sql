@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "FindingSuppression" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "repository" TEXT NOT NULL,
+    "rule" TEXT NOT NULL,
+    "messagePattern" TEXT NOT NULL,
+    "fileGlob" TEXT NOT NULL,
+    "codeFingerprint" TEXT,
+    "example" TEXT NOT NULL,
+    "reason" TEXT,
+    "reviewId" TEXT NOT NULL,
+    "findingId" TEXT NOT NULL,
+    "hits" INTEGER NOT NULL DEFAULT 0,
+    "lastHitAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "FindingSuppression_reviewId_fkey" FOREIGN KEY ("reviewId") REFERENCES "Review" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FindingSuppression_reviewId_findingId_key" ON "FindingSuppression"("reviewId", "findingId");
+
+-- CreateIndex
+CREATE INDEX "FindingSuppression_repository_idx" ON "FindingSuppression"("repository");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "AnalysisPass" ADD COLUMN "modelProvider" TEXT;
+ALTER TABLE "AnalysisPass" ADD COLUMN "modelName" TEXT;
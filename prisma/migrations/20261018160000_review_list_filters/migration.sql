@@ -0,0 +1,61 @@
+-- AlterTable
+ALTER TABLE "Review" ADD COLUMN "repository" TEXT;
+ALTER TABLE "AnalysisPass" ADD COLUMN "criticalIssues" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "AnalysisPass" ADD COLUMN "highIssues" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "AnalysisPass" ADD COLUMN "mediumIssues" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "AnalysisPass" ADD COLUMN "lowIssues" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "AnalysisPass" ADD COLUMN "infoIssues" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "Review_repository_idx" ON "Review"("repository");
+
+-- Count the issues of existing passes; an issue without a severity counts as
+-- medium, and issues stored as a JSON-encoded string are decoded first.
+-- The repository of existing reviews is parsed from prUrl when the API server starts.
+UPDATE "AnalysisPass" SET
+  "criticalIssues" = (
+    SELECT COUNT(*) FROM json_each(CASE
+      WHEN json_type("AnalysisPass"."issuesFound") = 'array' THEN "AnalysisPass"."issuesFound"
+      WHEN json_type("AnalysisPass"."issuesFound") = 'text' AND json_valid(json_extract("AnalysisPass"."issuesFound", '$'))
+        AND json_type(json_extract("AnalysisPass"."issuesFound", '$')) = 'array' THEN json_extract("AnalysisPass"."issuesFound", '$')
+      ELSE '[]'
+    END)
+    WHERE lower(CASE WHEN json_each.type = 'object' THEN coalesce(json_extract(json_each.value, '$.severity'), 'medium') ELSE 'medium' END) = 'critical'
+  ),
+  "highIssues" = (
+    SELECT COUNT(*) FROM json_each(CASE
+      WHEN json_type("AnalysisPass"."issuesFound") = 'array' THEN "AnalysisPass"."issuesFound"
+      WHEN json_type("AnalysisPass"."issuesFound") = 'text' AND json_valid(json_extract("AnalysisPass"."issuesFound", '$'))
+        AND json_type(json_extract("AnalysisPass"."issuesFound", '$')) = 'array' THEN json_extract("AnalysisPass"."issuesFound", '$')
+      ELSE '[]'
+    END)
+    WHERE lower(CASE WHEN json_each.type = 'object' THEN coalesce(json_extract(json_each.value, '$.severity'), 'medium') ELSE 'medium' END) = 'high'
+  ),
+  "mediumIssues" = (
+    SELECT COUNT(*) FROM json_each(CASE
+      WHEN json_type("AnalysisPass"."issuesFound") = 'array' THEN "AnalysisPass"."issuesFound"
+      WHEN json_type("AnalysisPass"."issuesFound") = 'text' AND json_valid(json_extract("AnalysisPass"."issuesFound", '$'))
+        AND json_type(json_extract("AnalysisPass"."issuesFound", '$')) = 'array' THEN json_extract("AnalysisPass"."issuesFound", '$')
+      ELSE '[]'
+    END)
+    WHERE lower(CASE WHEN json_each.type = 'object' THEN coalesce(json_extract(json_each.value, '$.severity'), 'medium') ELSE 'medium' END) = 'medium'
+  ),
+  "lowIssues" = (
+    SELECT COUNT(*) FROM json_each(CASE
+      WHEN json_type("AnalysisPass"."issuesFound") = 'array' THEN "AnalysisPass"."issuesFound"
+      WHEN json_type("AnalysisPass"."issuesFound") = 'text' AND json_valid(json_extract("AnalysisPass"."issuesFound", '$'))
+        AND json_type(json_extract("AnalysisPass"."issuesFound", '$')) = 'array' THEN json_extract("AnalysisPass"."issuesFound", '$')
+      ELSE '[]'
+    END)
+    WHERE lower(CASE WHEN json_each.type = 'object' THEN coalesce(json_extract(json_each.value, '$.severity'), 'medium') ELSE 'medium' END) = 'low'
+  ),
+  "infoIssues" = (
+    SELECT COUNT(*) FROM json_each(CASE
+      WHEN json_type("AnalysisPass"."issuesFound") = 'array' THEN "AnalysisPass"."issuesFound"
+      WHEN json_type("AnalysisPass"."issuesFound") = 'text' AND json_valid(json_extract("AnalysisPass"."issuesFound", '$'))
+        AND json_type(json_extract("AnalysisPass"."issuesFound", '$')) = 'array' THEN json_extract("AnalysisPass"."issuesFound", '$')
+      ELSE '[]'
+    END)
+    WHERE lower(CASE WHEN json_each.type = 'object' THEN coalesce(json_extract(json_each.value, '$.severity'), 'medium') ELSE 'medium' END) = 'info'
+  )
+WHERE json_valid("issuesFound");
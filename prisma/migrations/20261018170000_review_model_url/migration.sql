@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Review" ADD COLUMN "modelUrl" TEXT;
+
+-- Reviews stored the server URL as their provider; move it to its own column
+UPDATE "Review" SET "modelUrl" = "modelProvider", "modelProvider" = NULL WHERE "modelProvider" LIKE '%://%';
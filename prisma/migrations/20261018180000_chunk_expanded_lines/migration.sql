@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ChunkAnalysis" ADD COLUMN "expandedLines" JSONB;
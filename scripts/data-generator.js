@@ -10,25 +10,50 @@ function getDatabasePath() {
   return path.join(hikmaDir, 'reviews.db');
 }
 
+// Review URL shapes - keep in sync with src/codeHosts/reviewUrl.ts
+const REVIEW_URL_PATTERNS = [
+  // GitLab: /group/subgroup/project/-/merge_requests/123
+  { regex: /^\/(.+)\/([^/]+)\/-\/merge_requests\/(\d+)/, owner: 1, repo: 2, number: 3, label: 'MR !' },
+  // Bitbucket Server: /projects/KEY/repos/slug/pull-requests/123
+  { regex: /\/(?:projects|users)\/([^/]+)\/repos\/([^/]+)\/pull-requests\/(\d+)/, owner: 1, repo: 2, number: 3, label: 'PR #' },
+  // GitHub: /owner/repo/pull/123
+  { regex: /^\/([^/]+)\/([^/]+)\/pull\/(\d+)/, owner: 1, repo: 2, number: 3, label: 'PR #' }
+];
+
+function parseReviewUrl(prUrl) {
+  try {
+    const url = new URL(prUrl);
+    for (const pattern of REVIEW_URL_PATTERNS) {
+      const match = url.pathname.match(pattern.regex);
+      if (match) {
+        return {
+          owner: match[pattern.owner],
+          repo: match[pattern.repo],
+          number: match[pattern.number],
+          label: pattern.label
+        };
+      }
+    }
+  } catch (e) {
+    // Invalid URL
+  }
+  return null;
+}
+
 // Helper functions
 function extractPRTitle(prUrl) {
   // Try to extract PR title from URL or return a default
-  const match = prUrl.match(/\/pull\/(\d+)/);
-  if (match) {
-    return `PR #${match[1]}`;
+  const parsed = parseReviewUrl(prUrl);
+  if (parsed) {
+    return `${parsed.label}${parsed.number}`;
   }
   return 'Pull Request Analysis';
 }
 
 function extractRepoName(prUrl) {
-  try {
-    const url = new URL(prUrl);
-    const pathParts = url.pathname.split('/');
-    if (pathParts.length >= 3) {
-      return `${pathParts[1]}/${pathParts[2]}`;
-    }
-  } catch (e) {
-    // Invalid URL
+  const parsed = parseReviewUrl(prUrl);
+  if (parsed) {
+    return `${parsed.owner}/${parsed.repo}`;
   }
   return 'unknown/repo';
 }
@@ -55,6 +80,8 @@ function calculateQualityScore(review) {
 
 function transformFindings(review) {
   const findings = [];
+  // Findings without a file of their own belong to the file of their chunk
+  const chunkFiles = new Map((review.chunkAnalyses || []).map(chunk => [chunk.chunkId, chunk.filePath]));
   
   // Transform plugin findings
   (review.pluginFindings || []).forEach(pf => {
@@ -64,7 +91,7 @@ function transformFindings(review) {
       type: pf.pluginName,
       title: pf.message,
       description: pf.message,
-      file: 'Unknown', // Plugin findings don't have file info in current schema
+      file: pf.filePath || chunkFiles.get(pf.chunkId) || 'Unknown',
       line: pf.line || 0,
       plugin: pf.pluginName,
       recommendation: 'See analysis details'
@@ -74,17 +101,19 @@ function transformFindings(review) {
   // Transform analysis pass issues
   (review.analysisPasses || []).forEach(pass => {
     const issues = JSON.parse(pass.issuesFound || '[]');
-    issues.forEach((issue, index) => {
+    issues.forEach((entry, index) => {
+      // Older reviews stored issues as plain strings
+      const issue = typeof entry === 'string' ? { title: entry } : entry;
       findings.push({
         id: `${pass.id}_${index}`,
         severity: issue.severity?.toLowerCase() || 'medium',
         type: pass.passType.replace('_', ' ').replace(/\b\w/g, l => l.toUpperCase()),
         title: issue.title || issue.description || 'Analysis Finding',
-        description: issue.description || issue.title || 'See analysis details',
-        file: issue.file || 'Multiple files',
-        line: issue.line || 0,
+        description: issue.evidence || issue.description || issue.title || 'See analysis details',
+        file: issue.file_path || issue.file || chunkFiles.get(pass.chunkId) || 'Multiple files',
+        line: issue.line_start || issue.line || 0,
         plugin: `${pass.passType} Analysis`,
-        recommendation: issue.recommendation || 'See recommendations in analysis'
+        recommendation: issue.suggested_fix || issue.recommendation || 'See recommendations in analysis'
       });
     });
   });
@@ -235,6 +264,7 @@ async function generateReviewsData(dbPath) {
         json_group_array(
           DISTINCT json_object(
             'id', ap.id,
+            'chunkId', ap.chunkId,
             'passType', ap.passType,
             'analysisResult', ap.analysisResult,
             'riskLevel', ap.riskLevel,
@@ -248,6 +278,8 @@ async function generateReviewsData(dbPath) {
             'pluginName', pf.pluginName,
             'message', pf.message,
             'severity', pf.severity,
+            'chunkId', pf.chunkId,
+            'filePath', pf.filePath,
             'line', pf.line
           )
         ) FILTER (WHERE pf.id IS NOT NULL) as pluginFindings
@@ -1,100 +1,66 @@
 #!/usr/bin/env node
 
-const express = require('express');
 const path = require('path');
 const fs = require('fs');
-const os = require('os');
-const { generateReviewsData } = require('./data-generator');
-
-// Get the correct database path (same as your main app)
-function getDatabasePath() {
-  const homeDir = os.homedir();
-  const hikmaDir = path.join(homeDir, '.hikmapr');
-  return path.join(hikmaDir, 'reviews.db');
-}
+
+// The server lives in src/api; this script runs its compiled version
+const distPath = path.join(__dirname, '../dist');
 
 async function startUI(options = {}) {
-  const { port = 3000, dbPath, skipDataGeneration = false, skipBuild = false } = options;
-  
-  // Use the correct database path if not provided
-  const actualDbPath = dbPath || getDatabasePath();
-  
-  console.log('🚀 Starting PR Analysis UI...');
-  
-  // Check if UI build exists (unless we're skipping build check for API-only mode)
-  if (!skipBuild) {
-    const uiPath = path.join(__dirname, '../dist/ui');
-    if (!fs.existsSync(uiPath)) {
-      console.error('❌ UI build not found. Please run: npm run build-ui');
-      process.exit(1);
-    }
-  }
-  
-  let reviewsData = { reviews: [], summaryStats: { totalReviews: 0, criticalFindings: 0, avgQualityScore: 0, activeRepos: 0 } };
-  
-  if (!skipDataGeneration) {
-    try {
-      console.log('📊 Generating data from SQLite database...');
-      reviewsData = await generateReviewsData(actualDbPath);
-      console.log(`✅ Loaded ${reviewsData.reviews.length} reviews`);
-    } catch (error) {
-      console.warn('⚠️  Failed to load database:', error.message);
-      console.log('📝 Using empty dataset (UI will show no data)');
-    }
+  const { port = 3000, dbPath, configPath, skipBuild = false } = options;
+
+  if (!fs.existsSync(path.join(distPath, 'api/server.js'))) {
+    console.error('❌ Server not built. Please run: npm run build');
+    process.exit(1);
   }
-  
-  // Create Express app
-  const app = express();
-  
-  // Serve static files from UI build (only if not in API-only mode)
-  if (!skipBuild) {
-    const uiPath = path.join(__dirname, '../dist/ui');
-    app.use(express.static(uiPath));
+
+  // An explicit database wins over the default one in ~/.hikmapr
+  if (dbPath) {
+    process.env.DATABASE_URL = `file:${path.resolve(dbPath)}`;
   }
-  
-  // API endpoint for reviews data
-  app.get('/api/reviews', (req, res) => {
-    res.json(reviewsData);
-  });
-  
-  // Health check endpoint
-  app.get('/api/health', (req, res) => {
-    res.json({ 
-      status: 'ok', 
-      reviewCount: reviewsData.reviews.length,
-      timestamp: new Date().toISOString()
-    });
-  });
-  
-  // Catch-all handler: send back React app's index.html file for client-side routing
-  // (only if not in API-only mode)
-  if (!skipBuild) {
-    const uiPath = path.join(__dirname, '../dist/ui');
-    app.get('*', (req, res) => {
-      res.sendFile(path.join(uiPath, 'index.html'));
-    });
+  require(path.join(distPath, 'config/databaseConfig')).setupDatabaseConfig();
+
+  const uiPath = path.join(distPath, 'ui');
+  if (!skipBuild && !fs.existsSync(uiPath)) {
+    console.error('❌ UI build not found. Please run: npm run build-ui');
+    process.exit(1);
   }
-  
-  // Start server
-  const server = app.listen(port, () => {
-    console.log('');
-    console.log('🎉 PR Analysis UI is ready!');
-    console.log(`📱 Open: http://localhost:${port}`);
-    console.log(`📊 Reviews loaded: ${reviewsData.reviews.length}`);
-    console.log(`🔍 Critical findings: ${reviewsData.summaryStats.criticalFindings}`);
-    console.log('');
-    console.log('Press Ctrl+C to stop the server');
-  });
-  
+
+  console.log('🚀 Starting PR Analysis UI...');
+
+  const { PrismaClient } = require('@prisma/client');
+  const { startApiServer } = require(path.join(distPath, 'api/server'));
+  const prisma = new PrismaClient();
+
+  // Reviews started from the UI run in this process with the plugins and configuration of the CLI
+  const { PluginService } = require(path.join(distPath, 'services/pluginService'));
+  const { loadConfiguration } = require(path.join(distPath, 'config/configLoader'));
+  const { ReviewQueue } = require(path.join(distPath, 'api/reviewQueue'));
+  const { createReviewRunner } = require(path.join(distPath, 'api/reviewRunner'));
+  const pluginService = new PluginService(path.join(distPath, 'plugins'));
+  await pluginService.loadPlugins();
+  const { config } = loadConfiguration({ configPath });
+  const launcher = { queue: new ReviewQueue(createReviewRunner({ prisma, pluginService, config })), config };
+
+  const server = await startApiServer({ port, prisma, uiPath: skipBuild ? undefined : uiPath, launcher });
+
+  console.log('');
+  console.log(skipBuild ? '🎉 PR Analysis API is ready!' : '🎉 PR Analysis UI is ready!');
+  console.log(`📱 Open: http://localhost:${port}`);
+  console.log(`🔌 API: http://localhost:${port}/api/reviews`);
+  console.log('');
+  console.log('Press Ctrl+C to stop the server');
+
   // Graceful shutdown
   process.on('SIGINT', () => {
     console.log('\n👋 Shutting down gracefully...');
-    server.close(() => {
+    server.close(async () => {
+      await prisma.$disconnect();
       console.log('✅ Server stopped');
       process.exit(0);
     });
   });
-  
+
   return server;
 }
 
@@ -102,7 +68,7 @@ async function startUI(options = {}) {
 if (require.main === module) {
   const args = process.argv.slice(2);
   const options = {};
-  
+
   // Parse command line arguments
   for (let i = 0; i < args.length; i++) {
     switch (args[i]) {
@@ -112,15 +78,15 @@ if (require.main === module) {
       case '--db':
         options.dbPath = args[++i];
         break;
-      case '--skip-data':
-        options.skipDataGeneration = true;
+      case '--config':
+        options.configPath = args[++i];
         break;
       case '--skip-build':
         options.skipBuild = true;
         break;
     }
   }
-  
+
   startUI(options).catch(error => {
     console.error('❌ Failed to start UI:', error.message);
     process.exit(1);
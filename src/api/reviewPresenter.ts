@@ -0,0 +1,199 @@
+/**
+ * Review Presenter
+ *
+ * Turns stored reviews into the shapes the web UI renders. Scores and
+ * metrics are the same heuristics the UI has always shown.
+ */
+import { tryParseReviewUrl } from '../codeHosts/reviewUrl';
+import { TriageDecision, isDismissed } from '../services/findingTriage';
+import { IssueCounts } from '../services/passOutputParser';
+import { ApiFinding, ApiFindingTriage, ApiReview, ReviewStatus } from '../types/api';
+
+/**
+ * A review row with just the related data the presenter needs
+ */
+export interface ReviewRecord {
+  id: string;
+  prUrl: string;
+  error: string | null;
+  createdAt: Date;
+  modelProvider: string | null;
+  modelName: string | null;
+  startedAt: Date | null;
+  completedAt: Date | null;
+  analysisPasses: (PassRecord & IssueCounts)[];
+  pluginFindings: PluginFindingRecord[];
+  fileAnalyses: { analysis: string }[];
+  chunkTokens: number;
+}
+
+export interface PassRecord {
+  id: string;
+  passType: string;
+  issuesFound: unknown;
+  recommendations?: unknown;
+  chunk?: { filePath: string };  // Where issues without a file of their own belong
+}
+
+export interface PluginFindingRecord {
+  id: string;
+  pluginName: string;
+  message: string;
+  severity: string;
+  filePath: string | null;
+  line: number | null;
+  chunk?: { filePath: string };
+}
+
+const SEVERITY_PENALTY: Partial<IssueCounts> = { criticalIssues: 20, highIssues: 10, mediumIssues: 5, lowIssues: 2 };
+
+export const getReviewStatus = (review: { completedAt: Date | null; error: string | null }): ReviewStatus =>
+  review.completedAt ? 'completed' : (review.error ? 'failed' : 'in-progress');
+
+export const getRepositoryName = (prUrl: string): string => {
+  const ref = tryParseReviewUrl(prUrl);
+  return ref ? `${ref.owner}/${ref.repo}` : 'unknown/repo';
+};
+
+const getReviewTitle = (prUrl: string): string => {
+  const ref = tryParseReviewUrl(prUrl);
+  if (!ref) return 'Pull Request Analysis';
+  if (ref.host === 'local') {
+    const range = new URLSearchParams(prUrl.split('?')[1] || '');
+    return `Local ${range.get('base') || 'main'}...${range.get('head') || 'HEAD'}`;
+  }
+  return ref.host === 'gitlab' ? `MR !${ref.number}` : `PR #${ref.number}`;
+};
+
+// Older reviews stored issues and recommendations as JSON strings of plain strings
+const asList = (value: unknown): any[] => {
+  if (typeof value === 'string') {
+    try {
+      return asList(JSON.parse(value));
+    } catch {
+      return [];
+    }
+  }
+  return Array.isArray(value) ? value : [];
+};
+
+const formatPassType = (passType: string): string =>
+  passType.replace(/_/g, ' ').replace(/\b\w/g, letter => letter.toUpperCase());
+
+/**
+ * Findings of a review: plugin findings first, then the issues of every pass
+ */
+export const toFindings = (passes: PassRecord[], pluginFindings: PluginFindingRecord[]): ApiFinding[] => {
+  const findings: ApiFinding[] = pluginFindings.map(finding => ({
+    id: finding.id,
+    severity: finding.severity.toLowerCase(),
+    type: finding.pluginName,
+    title: finding.message,
+    description: finding.message,
+    file: finding.filePath || finding.chunk?.filePath || 'Unknown', // Findings stored before filePath existed have no file
+    line: finding.line || 0,
+    plugin: finding.pluginName,
+    recommendation: 'See analysis details',
+  }));
+
+  for (const pass of passes) {
+    asList(pass.issuesFound).forEach((entry, index) => {
+      const issue = typeof entry === 'string' ? { title: entry } : entry;
+      findings.push({
+        id: `${pass.id}_${index}`,
+        severity: issue.severity?.toLowerCase() || 'medium',
+        type: formatPassType(pass.passType),
+        title: issue.title || issue.description || 'Analysis Finding',
+        description: issue.evidence || issue.description || issue.title || 'See analysis details',
+        file: issue.file_path || issue.file || pass.chunk?.filePath || 'Multiple files',
+        line: issue.line_start || issue.line || 0,
+        plugin: `${pass.passType} Analysis`,
+        recommendation: issue.suggested_fix || issue.recommendation || 'See recommendations in analysis',
+      });
+    });
+  }
+
+  return findings;
+};
+
+/**
+ * Triage of a finding of the review; untriaged findings are open
+ */
+export const toApiTriage = (reviewId: string, decision?: TriageDecision): ApiFindingTriage => {
+  if (!decision) return { status: 'open', note: null, author: null, updatedAt: null, dismissed: false };
+  return {
+    status: decision.status,
+    note: decision.note,
+    author: decision.author,
+    updatedAt: decision.updatedAt.toISOString(),
+    dismissed: isDismissed(decision),
+    ...(decision.reviewId !== reviewId ? { inheritedFrom: decision.reviewId } : {}),
+  };
+};
+
+/**
+ * 100 minus a penalty per pass issue, by severity, from the issue counts of
+ * the passes or their sums
+ */
+export const getQualityScore = (passes: Partial<Record<keyof IssueCounts, number | null>>[]): number => {
+  const penalty = passes.reduce((sum, pass) => sum + Object.entries(SEVERITY_PENALTY)
+    .reduce((passSum, [column, weight]) => passSum + (pass[column as keyof IssueCounts] || 0) * weight, 0), 0);
+  return Math.max(0, Math.min(100, 100 - penalty));
+};
+
+const getQualityMetrics = (findings: ApiFinding[]): ApiReview['quality'] => {
+  const count = (severity: string) => findings.filter(finding => finding.severity === severity).length;
+  const critical = count('critical');
+  const high = count('high');
+  const medium = count('medium');
+
+  return {
+    security: Math.max(20, 100 - (critical * 30 + high * 15)),
+    performance: Math.max(20, 100 - (critical * 25 + high * 12)),
+    maintainability: Math.max(20, 100 - (medium * 8 + high * 10)),
+    standards: Math.max(20, 100 - findings.length * 3),
+  };
+};
+
+const formatDate = (date: Date | null): string => date ? date.toISOString().split('T')[0] : 'Unknown';
+const formatTime = (date: Date | null): string => date ? date.toLocaleString() : 'Unknown';
+
+export const toApiReview = (review: ReviewRecord): ApiReview => {
+  const findings = toFindings(review.analysisPasses, review.pluginFindings);
+  const durationSeconds = review.startedAt && review.completedAt
+    ? Math.round((review.completedAt.getTime() - review.startedAt.getTime()) / 1000)
+    : undefined;
+  const fileCount = review.fileAnalyses.length;
+
+  return {
+    id: review.id,
+    title: getReviewTitle(review.prUrl),
+    repository: getRepositoryName(review.prUrl),
+    author: 'Unknown', // Not stored
+    date: formatDate(review.createdAt),
+    url: review.prUrl,
+    status: getReviewStatus(review),
+    qualityScore: getQualityScore(review.analysisPasses),
+    filesAnalyzed: fileCount,
+    linesOfCode: review.chunkTokens,
+    linesAdded: 0, // Not stored
+    linesRemoved: 0, // Not stored
+    findings,
+    semantic: {
+      summary: review.fileAnalyses[0]?.analysis || 'Analysis in progress',
+      impact: findings.length > 5 ? 'High impact - multiple issues found' : 'Low to medium impact',
+      suggestions: review.analysisPasses
+        .map(pass => asList(pass.recommendations)[0] || 'See detailed analysis')
+        .slice(0, 3),
+    },
+    quality: getQualityMetrics(findings),
+    analysisPerformance: {
+      llmProvider: review.modelProvider || 'Unknown',
+      modelUsed: review.modelName || 'Unknown',
+      startTime: formatTime(review.startedAt),
+      endTime: formatTime(review.completedAt),
+      totalDuration: durationSeconds !== undefined ? `${durationSeconds}s` : 'Unknown',
+      averagePerFile: durationSeconds !== undefined && fileCount > 0 ? `${Math.round(durationSeconds / fileCount)}s` : 'Unknown',
+    },
+  };
+};
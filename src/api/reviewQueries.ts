@@ -0,0 +1,453 @@
+/**
+ * Review Queries
+ *
+ * Database reads behind the reviews REST API. Lists filter, count and page
+ * in the database and load the related rows of the requested page only; the
+ * workflow state column, which holds whole diffs, is read for single reviews only.
+ */
+import { Prisma, PrismaClient } from '@prisma/client';
+import {
+  ApiFileDiff,
+  ApiReviewDetail,
+  ApiReviewFile,
+  ApiReviewPage,
+  ApiSummaryStats,
+  ReviewEvent,
+  ReviewStatus,
+} from '../types/api';
+import { toDiffLines } from '../services/diffParser';
+import { loadReviewTriage } from '../services/findingTriage';
+import { ISSUE_COUNT_COLUMNS } from '../services/passOutputParser';
+import { ISSUE_SEVERITIES } from '../config/hikmaConfig';
+import { getRepositoryKey } from '../codeHosts/reviewUrl';
+import { IssueSeverity } from '../types/analysis';
+import { DiffLine } from '../types/plugins';
+import { ReviewRecord, getQualityScore, getReviewStatus, toApiReview, toApiTriage, toFindings } from './reviewPresenter';
+
+const STATUSES: ReviewStatus[] = ['completed', 'in-progress', 'failed'];
+const RISK_ORDER = ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'];
+const MAX_PAGE_SIZE = 100;
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface ReviewListQuery {
+  page: number;
+  pageSize: number;
+  repo?: string;        // owner/name, as shown in the UI
+  status?: ReviewStatus;
+  severity?: string;    // Reviews with at least one finding of this severity
+  from?: Date;
+  to?: Date;            // Exclusive; a date-only value includes that whole day
+  q?: string;           // Substring of the PR URL
+}
+
+const REVIEW_COLUMNS = {
+  id: true,
+  prUrl: true,
+  error: true,
+  createdAt: true,
+  modelProvider: true,
+  modelName: true,
+  startedAt: true,
+  completedAt: true,
+} satisfies Prisma.ReviewSelect;
+
+const CHUNK_FILE = { select: { filePath: true } } as const;
+const ISSUE_COUNTS = {
+  criticalIssues: true,
+  highIssues: true,
+  mediumIssues: true,
+  lowIssues: true,
+  infoIssues: true,
+} satisfies Prisma.AnalysisPassSelect;
+const PASS_COLUMNS = {
+  id: true,
+  reviewId: true,
+  passType: true,
+  issuesFound: true,
+  recommendations: true,
+  chunk: CHUNK_FILE,
+  ...ISSUE_COUNTS,
+} satisfies Prisma.AnalysisPassSelect;
+const PLUGIN_FINDING_COLUMNS = {
+  id: true,
+  reviewId: true,
+  pluginName: true,
+  message: true,
+  severity: true,
+  filePath: true,
+  line: true,
+  chunk: CHUNK_FILE,
+} satisfies Prisma.PluginFindingSelect;
+
+type ReviewRow = Prisma.ReviewGetPayload<{ select: typeof REVIEW_COLUMNS }>;
+
+const groupByReview = <T extends { reviewId: string }>(rows: T[]): Map<string, T[]> => {
+  const groups = new Map<string, T[]>();
+  for (const row of rows) {
+    groups.set(row.reviewId, [...(groups.get(row.reviewId) || []), row]);
+  }
+  return groups;
+};
+
+const parseDate = (value: string, name: string, errors: string[], endOfDay = false): Date | undefined => {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    errors.push(`${name}: expected a date (YYYY-MM-DD or ISO 8601), got "${value}"`);
+    return undefined;
+  }
+  if (endOfDay && DATE_ONLY.test(value)) {
+    date.setUTCDate(date.getUTCDate() + 1);
+  }
+  return date;
+};
+
+const parsePositiveInt = (value: string, name: string, errors: string[]): number | undefined => {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1) {
+    errors.push(`${name}: expected a whole number of at least 1, got "${value}"`);
+    return undefined;
+  }
+  return number;
+};
+
+/**
+ * Validates the query string of GET /api/reviews
+ */
+export const parseReviewListQuery = (query: Record<string, unknown>): { value?: ReviewListQuery; errors: string[] } => {
+  const errors: string[] = [];
+  const params: Record<string, string> = {};
+  for (const [name, value] of Object.entries(query)) {
+    if (typeof value !== 'string') {
+      errors.push(`${name}: expected a single value`);
+    } else if (value !== '') {
+      params[name] = value;
+    }
+  }
+
+  const value: ReviewListQuery = { page: 1, pageSize: 20 };
+  if (params.page) value.page = parsePositiveInt(params.page, 'page', errors) ?? 1;
+  if (params.pageSize) {
+    value.pageSize = Math.min(parsePositiveInt(params.pageSize, 'pageSize', errors) ?? 20, MAX_PAGE_SIZE);
+  }
+  if (params.status) {
+    if (STATUSES.includes(params.status as ReviewStatus)) {
+      value.status = params.status as ReviewStatus;
+    } else {
+      errors.push(`status: expected one of ${STATUSES.join(', ')}, got "${params.status}"`);
+    }
+  }
+  if (params.from) value.from = parseDate(params.from, 'from', errors);
+  if (params.to) value.to = parseDate(params.to, 'to', errors, true);
+  if (params.repo) value.repo = params.repo;
+  if (params.severity) value.severity = params.severity.toLowerCase();
+  if (params.q) value.q = params.q;
+
+  return errors.length > 0 ? { errors } : { value, errors };
+};
+
+const getStatusFilter = (status?: ReviewStatus): Prisma.ReviewWhereInput => {
+  switch (status) {
+    case 'completed': return { completedAt: { not: null } };
+    case 'failed': return { completedAt: null, error: { not: null } };
+    case 'in-progress': return { completedAt: null, error: null };
+    default: return {};
+  }
+};
+
+/**
+ * Passes, plugin findings, file summaries and chunk sizes of the given reviews
+ */
+const loadReviewRecords = async (prisma: PrismaClient, rows: ReviewRow[]): Promise<ReviewRecord[]> => {
+  const reviewIds = rows.map(row => row.id);
+  const [passes, pluginFindings, fileAnalyses, chunkSizes] = await Promise.all([
+    prisma.analysisPass.findMany({ where: { reviewId: { in: reviewIds } }, select: PASS_COLUMNS, orderBy: { createdAt: 'asc' } }),
+    prisma.pluginFinding.findMany({ where: { reviewId: { in: reviewIds } }, select: PLUGIN_FINDING_COLUMNS, orderBy: { createdAt: 'asc' } }),
+    prisma.fileAnalysis.findMany({ where: { reviewId: { in: reviewIds } }, select: { reviewId: true, analysis: true }, orderBy: { createdAt: 'asc' } }),
+    prisma.chunkAnalysis.groupBy({ by: ['reviewId'], where: { reviewId: { in: reviewIds } }, _sum: { sizeTokens: true } }),
+  ]);
+
+  const passesByReview = groupByReview(passes);
+  const findingsByReview = groupByReview(pluginFindings);
+  const filesByReview = groupByReview(fileAnalyses);
+  return rows.map(row => ({
+    ...row,
+    analysisPasses: passesByReview.get(row.id) || [],
+    pluginFindings: findingsByReview.get(row.id) || [],
+    fileAnalyses: filesByReview.get(row.id) || [],
+    chunkTokens: chunkSizes.find(size => size.reviewId === row.id)?._sum.sizeTokens || 0,
+  }));
+};
+
+/**
+ * Reviews with at least one finding of the severity: a pass issue, counted
+ * by severity on its pass, or a plugin finding
+ */
+const getSeverityFilter = (severity?: string): Prisma.ReviewWhereInput => {
+  if (!severity) return {};
+  const passFilter: Prisma.ReviewWhereInput[] = ISSUE_SEVERITIES.includes(severity as IssueSeverity)
+    ? [{ analysisPasses: { some: { [ISSUE_COUNT_COLUMNS[severity as IssueSeverity]]: { gt: 0 } } } }]
+    : [];
+  return { OR: [...passFilter, { pluginFindings: { some: { severity } } }] };
+};
+
+/**
+ * Fills in the repository of reviews stored before the column existed; the
+ * name is parsed from the URL, which differs per code host. Run once when the
+ * API server starts, so the read queries below never write.
+ */
+export const backfillRepositories = async (prisma: PrismaClient): Promise<void> => {
+  const rows = await prisma.review.findMany({ where: { repository: null }, select: { id: true, prUrl: true } });
+  const idsByRepository = new Map<string, string[]>();
+  for (const row of rows) {
+    const repository = getRepositoryKey(row.prUrl);
+    idsByRepository.set(repository, [...(idsByRepository.get(repository) || []), row.id]);
+  }
+  for (const [repository, ids] of idsByRepository) {
+    await prisma.review.updateMany({ where: { id: { in: ids } }, data: { repository } });
+  }
+};
+
+/**
+ * One page of reviews, newest first
+ */
+export const listReviews = async (prisma: PrismaClient, query: ReviewListQuery): Promise<ApiReviewPage> => {
+  const where: Prisma.ReviewWhereInput = {
+    ...getStatusFilter(query.status),
+    ...getSeverityFilter(query.severity),
+    repository: query.repo ? query.repo.toLowerCase() : undefined,
+    createdAt: { gte: query.from, lt: query.to },
+    prUrl: query.q ? { contains: query.q } : undefined,
+  };
+  const [total, rows] = await Promise.all([
+    prisma.review.count({ where }),
+    prisma.review.findMany({
+      where,
+      select: REVIEW_COLUMNS,
+      orderBy: { createdAt: 'desc' },
+      skip: (query.page - 1) * query.pageSize,
+      take: query.pageSize,
+    }),
+  ]);
+  const records = await loadReviewRecords(prisma, rows);
+
+  return {
+    reviews: records.map(toApiReview),
+    page: query.page,
+    pageSize: query.pageSize,
+    total,
+    totalPages: Math.ceil(total / query.pageSize),
+  };
+};
+
+/**
+ * A single review with the triage of its findings, or null when there is none with the id
+ */
+export const getReviewDetail = async (prisma: PrismaClient, reviewId: string): Promise<ApiReviewDetail | null> => {
+  const row = await prisma.review.findUnique({
+    where: { id: reviewId },
+    select: { ...REVIEW_COLUMNS, headSha: true, previousReviewId: true, state: true },
+  });
+  if (!row) return null;
+
+  const { state, headSha, previousReviewId, ...columns } = row;
+  const [[record], triage] = await Promise.all([loadReviewRecords(prisma, [columns]), loadReviewTriage(prisma, row)]);
+  const workflowState = (state || {}) as { final_report?: string; progress?: ApiReviewDetail['progress'] };
+  const review = toApiReview(record);
+  const triageable = new Set(triage.findings.map(finding => finding.id));
+
+  return {
+    ...review,
+    findings: review.findings.map(finding => triageable.has(finding.id)
+      ? { ...finding, triage: toApiTriage(reviewId, triage.decisions.get(finding.id)) }
+      : finding),
+    error: row.error,
+    headSha,
+    previousReviewId,
+    finalReport: workflowState.final_report || null,
+    progress: workflowState.progress || null,
+  };
+};
+
+/**
+ * Where a review stands, as events for watchers of reviews this server is not running
+ * (e.g. ones started from the CLI); null when there is no such review
+ */
+export const getReviewProgressEvents = async (prisma: PrismaClient, reviewId: string): Promise<ReviewEvent[] | null> => {
+  const row = await prisma.review.findUnique({ where: { id: reviewId }, select: { completedAt: true, error: true, state: true } });
+  if (!row) return null;
+
+  const state = (row.state || {}) as { progress?: ApiReviewDetail['progress']; current_file?: string };
+  const status = getReviewStatus(row);
+  return [
+    { type: 'progress', progress: state.progress || null, currentFile: state.current_file || null },
+    status === 'in-progress'
+      ? { type: 'status', status: 'running' }
+      : { type: 'status', status, ...(row.error ? { error: row.error } : {}) },
+  ];
+};
+
+/**
+ * Lines of a chunk's diff not yet in `shown`; pieces of a split hunk overlap by a few lines
+ */
+const newDiffLines = (shown: Set<string>, filePath: string, diffContent: string): DiffLine[] =>
+  toDiffLines(diffContent).filter(line => {
+    const key = `${filePath}:${line.oldLine}:${line.newLine}`;
+    if (shown.has(key)) return false;
+    shown.add(key);
+    return true;
+  });
+
+const highestRisk = (levels: (string | null)[]): string | null =>
+  levels.reduce<string | null>((highest, level) => {
+    if (!level) return highest;
+    return !highest || RISK_ORDER.indexOf(level.toUpperCase()) > RISK_ORDER.indexOf(highest) ? level.toUpperCase() : highest;
+  }, null);
+
+/**
+ * Files of a review with their chunks, or null when there is no such review
+ */
+export const getReviewFiles = async (prisma: PrismaClient, reviewId: string): Promise<ApiReviewFile[] | null> => {
+  if (!(await prisma.review.findUnique({ where: { id: reviewId }, select: { id: true } }))) return null;
+
+  const [chunks, fileAnalyses] = await Promise.all([
+    prisma.chunkAnalysis.findMany({
+      where: { reviewId },
+      select: {
+        chunkId: true,
+        filePath: true,
+        startLine: true,
+        endLine: true,
+        sizeTokens: true,
+        diffContent: true,
+        analysisPasses: { select: { riskLevel: true, issuesFound: true } },
+        _count: { select: { pluginFindings: true } },
+      },
+      orderBy: [{ filePath: 'asc' }, { startLine: 'asc' }],
+    }),
+    prisma.fileAnalysis.findMany({ where: { reviewId }, select: { fileName: true, analysis: true, diffSize: true } }),
+  ]);
+
+  const files = new Map<string, ApiReviewFile>();
+  const getFile = (filePath: string): ApiReviewFile => {
+    if (!files.has(filePath)) {
+      files.set(filePath, { filePath, analysis: null, diffSize: null, riskLevel: null, issueCount: 0, pluginFindingCount: 0, linesAdded: 0, linesRemoved: 0, chunks: [] });
+    }
+    return files.get(filePath)!;
+  };
+
+  const shown = new Set<string>();
+  for (const chunk of chunks) {
+    const file = getFile(chunk.filePath);
+    for (const line of newDiffLines(shown, chunk.filePath, chunk.diffContent)) {
+      if (line.type === 'addition') file.linesAdded++;
+      if (line.type === 'deletion') file.linesRemoved++;
+    }
+    const issueCount = chunk.analysisPasses.reduce((sum, pass) => sum + (Array.isArray(pass.issuesFound) ? pass.issuesFound.length : 0), 0);
+    const riskLevel = highestRisk(chunk.analysisPasses.map(pass => pass.riskLevel));
+    file.chunks.push({
+      chunkId: chunk.chunkId,
+      startLine: chunk.startLine,
+      endLine: chunk.endLine,
+      sizeTokens: chunk.sizeTokens,
+      riskLevel,
+      issueCount,
+      pluginFindingCount: chunk._count.pluginFindings,
+    });
+    file.riskLevel = highestRisk([file.riskLevel, riskLevel]);
+    file.issueCount += issueCount;
+    file.pluginFindingCount += chunk._count.pluginFindings;
+  }
+
+  for (const fileAnalysis of fileAnalyses) {
+    const file = getFile(fileAnalysis.fileName);
+    file.analysis = fileAnalysis.analysis;
+    file.diffSize = fileAnalysis.diffSize;
+  }
+
+  return [...files.values()];
+};
+
+/**
+ * A file's diff, assembled from the stored chunks, with each chunk's findings;
+ * null when the review has no chunks of that file
+ */
+export const getFileDiff = async (prisma: PrismaClient, reviewId: string, filePath: string): Promise<ApiFileDiff | null> => {
+  const chunks = await prisma.chunkAnalysis.findMany({
+    where: { reviewId, filePath },
+    select: {
+      chunkId: true,
+      startLine: true,
+      endLine: true,
+      diffContent: true,
+      analysisPasses: { select: { ...PASS_COLUMNS, riskLevel: true }, orderBy: { createdAt: 'asc' } },
+      pluginFindings: { select: PLUGIN_FINDING_COLUMNS, orderBy: { line: 'asc' } },
+    },
+    orderBy: { startLine: 'asc' },
+  });
+  if (chunks.length === 0) return null;
+
+  const shown = new Set<string>();
+  return {
+    filePath,
+    chunks: chunks.map(chunk => ({
+      chunkId: chunk.chunkId,
+      startLine: chunk.startLine,
+      endLine: chunk.endLine,
+      riskLevel: highestRisk(chunk.analysisPasses.map(pass => pass.riskLevel)),
+      lines: newDiffLines(shown, filePath, chunk.diffContent),
+      findings: toFindings(chunk.analysisPasses, chunk.pluginFindings),
+    })),
+  };
+};
+
+/**
+ * A chunk of a review with its analysis passes, or null when the review has no such chunk
+ */
+export const getChunkPasses = async (prisma: PrismaClient, reviewId: string, chunkId: string) => {
+  const chunk = await prisma.chunkAnalysis.findFirst({
+    where: { reviewId, chunkId },
+    include: { analysisPasses: { orderBy: { createdAt: 'asc' } } },
+  });
+  if (!chunk) return null;
+
+  const { analysisPasses, ...chunkColumns } = chunk;
+  return { chunk: chunkColumns, passes: analysisPasses };
+};
+
+/**
+ * Plugin findings of a review, or null when there is no such review
+ */
+export const getPluginFindings = async (
+  prisma: PrismaClient,
+  reviewId: string,
+  filters: { severity?: string; file?: string } = {}
+) => {
+  if (!(await prisma.review.findUnique({ where: { id: reviewId }, select: { id: true } }))) return null;
+
+  return prisma.pluginFinding.findMany({
+    where: { reviewId, severity: filters.severity, filePath: filters.file },
+    orderBy: [{ filePath: 'asc' }, { line: 'asc' }],
+  });
+};
+
+/**
+ * Dashboard totals over every stored review, counted by the database
+ */
+export const getSummaryStats = async (prisma: PrismaClient): Promise<ApiSummaryStats> => {
+  const [totalReviews, repositories, issuesByReview] = await Promise.all([
+    prisma.review.count(),
+    prisma.review.groupBy({ by: ['repository'] }),
+    prisma.analysisPass.groupBy({ by: ['reviewId'], _sum: ISSUE_COUNTS }),
+  ]);
+
+  // Reviews without passes have no penalty
+  const scoreTotal = issuesByReview.reduce((sum, { _sum }) => sum + getQualityScore([_sum]), 0)
+    + 100 * (totalReviews - issuesByReview.length);
+
+  return {
+    totalReviews,
+    criticalFindings: issuesByReview.reduce((sum, { _sum }) => sum + (_sum.criticalIssues || 0), 0),
+    avgQualityScore: totalReviews > 0 ? Math.round(scoreTotal / totalReviews) : 0,
+    activeRepos: repositories.length,
+  };
+};
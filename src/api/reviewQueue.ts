@@ -0,0 +1,111 @@
+/**
+ * Review Queue
+ *
+ * Runs the reviews started from the web UI one after another in the server process
+ * (the workflow keeps its services in module state, so two runs would trample each
+ * other) and fans their events out to the clients watching them.
+ */
+import { EventEmitter } from 'events';
+import { ReviewEvent } from '../types/api';
+
+export interface ReviewJob {
+  id: string;
+  url: string;
+  provider: string;
+  llmUrl: string;
+  llmModel: string;
+}
+
+export type ReviewJobRunner = (job: ReviewJob, emit: (event: ReviewEvent) => void) => Promise<void>;
+
+type ReplayedEventType = Exclude<ReviewEvent['type'], 'token'>;
+
+// What a client connecting midway needs to catch up, the last event of each type;
+// streamed tokens are not replayed
+type ReviewSnapshot = { [T in ReplayedEventType]?: Extract<ReviewEvent, { type: T }> };
+
+const remember = <T extends ReplayedEventType>(snapshot: ReviewSnapshot, type: T, event: ReviewSnapshot[T]): void => {
+  snapshot[type] = event;
+};
+
+export class ReviewQueue {
+  private waiting: ReviewJob[] = [];
+  private running?: ReviewJob;
+  private snapshots = new Map<string, ReviewSnapshot>();
+  private events = new EventEmitter();
+
+  constructor(private runJob: ReviewJobRunner) {
+    this.events.setMaxListeners(0); // One listener per watching client
+  }
+
+  /**
+   * Queue a review and start it once the reviews ahead of it are done.
+   * Returns its place in the queue, 1 being next to run.
+   */
+  enqueue(job: ReviewJob): number {
+    this.waiting.push(job);
+    const position = this.waiting.length;
+    this.publish(job.id, { type: 'status', status: 'queued', position });
+    void this.drain();
+    return position;
+  }
+
+  /**
+   * Events to replay to a new watcher, the status last, or undefined for reviews this server did not run
+   */
+  getSnapshot(id: string): ReviewEvent[] | undefined {
+    const snapshot = this.snapshots.get(id);
+    if (!snapshot) return undefined;
+    const events: (ReviewEvent | undefined)[] = [snapshot.node, snapshot.progress, snapshot.status];
+    return events.filter((event): event is ReviewEvent => event !== undefined);
+  }
+
+  /**
+   * Listen to a review's events; returns the function that stops listening
+   */
+  subscribe(id: string, listener: (event: ReviewEvent) => void): () => void {
+    this.events.on(id, listener);
+    return () => {
+      this.events.off(id, listener);
+    };
+  }
+
+  private publish(id: string, event: ReviewEvent): void {
+    const snapshot = this.snapshots.get(id);
+    if (event.type === 'status') {
+      this.snapshots.set(id, { ...snapshot, status: event });
+    } else if (snapshot && event.type !== 'token') {
+      remember(snapshot, event.type, event);
+    }
+    this.events.emit(id, event);
+  }
+
+  private async drain(): Promise<void> {
+    if (this.running) return;
+
+    while (this.waiting.length > 0) {
+      const job = this.waiting.shift()!;
+      this.running = job;
+      this.waiting.forEach((waitingJob, index) => {
+        this.publish(waitingJob.id, { type: 'status', status: 'queued', position: index + 1 });
+      });
+
+      let finished = false;
+      const emit = (event: ReviewEvent) => {
+        if (event.type === 'status' && event.status !== 'running' && event.status !== 'queued') finished = true;
+        this.publish(job.id, event);
+      };
+
+      try {
+        await this.runJob(job, emit);
+        // Runners report how the review ended; one that did not just ran to the end
+        if (!finished) emit({ type: 'status', status: 'completed' });
+      } catch (error: any) {
+        // E.g. a PR that cannot be fetched, which fails before the workflow starts
+        emit({ type: 'status', status: 'failed', error: error.message || String(error) });
+      }
+    }
+
+    this.running = undefined;
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * Review Runner
+ *
+ * Validates reviews requested through the API and runs them with the review command's
+ * handler, so they are stored, resumable and reported exactly like CLI reviews.
+ */
+import { PrismaClient } from '@prisma/client';
+import { v4 as uuidv4 } from 'uuid';
+import { HikmaConfig, PROVIDERS } from '../config/hikmaConfig';
+import { getRepositoryKey, tryParseReviewUrl } from '../codeHosts/reviewUrl';
+import { reviewCommandHandler } from '../commands/review';
+import { PluginService } from '../services/pluginService';
+import { ApiReviewRequest } from '../types/api';
+import { ReviewJob, ReviewJobRunner, ReviewQueue } from './reviewQueue';
+
+export interface ReviewRunnerOptions {
+  prisma: PrismaClient;
+  pluginService: PluginService;
+  config: HikmaConfig;   // Loaded when the server starts; the request only picks the model
+}
+
+/**
+ * Check a POST /api/reviews body, filling in the model from the configuration
+ */
+export const parseReviewRequest = (body: unknown, config: HikmaConfig): { value?: ReviewJob; errors: string[] } => {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return { errors: ['expected a JSON object with url, provider, server and model'] };
+  }
+
+  const request = body as Partial<Record<keyof ApiReviewRequest, unknown>>;
+  const errors: string[] = [];
+  const text = (key: keyof ApiReviewRequest, fallback?: string): string | undefined => {
+    const value = request[key] ?? fallback;
+    if (value === undefined) {
+      errors.push(`${key}: required`);
+    } else if (typeof value !== 'string' || value.trim() === '') {
+      errors.push(`${key}: expected a non-empty string`);
+    } else {
+      return value.trim();
+    }
+    return undefined;
+  };
+
+  const defaults = config.models.default;
+  const url = text('url');
+  const provider = text('provider', defaults.provider);
+  const llmUrl = text('server', defaults.url);
+  const llmModel = text('model', defaults.model);
+
+  const reviewRef = url ? tryParseReviewUrl(url) : undefined;
+  if (url && !reviewRef) {
+    errors.push(`url: not a GitHub, GitLab or Bitbucket Server pull request URL, got "${url}"`);
+  } else if (reviewRef?.host === 'local') {
+    errors.push('url: local repositories can only be reviewed from the CLI');
+  }
+  if (provider && !(PROVIDERS as readonly string[]).includes(provider)) {
+    errors.push(`provider: expected one of ${PROVIDERS.join(', ')}, got "${provider}"`);
+  }
+  if (llmUrl && !/^https?:\/\//.test(llmUrl)) {
+    errors.push(`server: expected an http(s) URL, got "${llmUrl}"`);
+  }
+
+  if (errors.length > 0) return { errors };
+  return { value: { id: uuidv4(), url: url!, provider: provider!, llmUrl: llmUrl!, llmModel: llmModel! }, errors };
+};
+
+/**
+ * Runs queued reviews; a review that fails before its workflow starts keeps the error on its row
+ */
+export const createReviewRunner = ({ prisma, pluginService, config }: ReviewRunnerOptions): ReviewJobRunner =>
+  async (job, emit) => {
+    try {
+      await reviewCommandHandler({
+        taskId: job.id,
+        url: job.url,
+        prisma,
+        provider: job.provider,
+        llmUrl: job.llmUrl,
+        llmModel: job.llmModel,
+        pluginService,
+        githubMethod: config.github.method,
+        config: { ...config, models: { ...config.models, default: { provider: job.provider, url: job.llmUrl, model: job.llmModel } } },
+        onEvent: emit,
+      });
+    } catch (error: any) {
+      await prisma.review.update({ where: { id: job.id }, data: { error: error.message || String(error) } }).catch(() => undefined);
+      throw error;
+    }
+  };
+
+/**
+ * Queue a review, storing it right away so it is listed while it waits; returns its place in the queue
+ */
+export const queueReview = async (prisma: PrismaClient, queue: ReviewQueue, job: ReviewJob): Promise<number> => {
+  await prisma.review.create({
+    data: {
+      id: job.id,
+      prUrl: job.url,
+      repository: getRepositoryKey(job.url),
+      state: { pr_url: job.url, task_id: job.id },
+      modelProvider: job.provider,
+      modelUrl: job.llmUrl,
+      modelName: job.llmModel,
+    },
+  });
+  return queue.enqueue(job);
+};
@@ -0,0 +1,197 @@
+/**
+ * Reviews REST API
+ *
+ *   GET /api/reviews                               page of reviews (page, pageSize, repo, status, severity, from, to, q)
+ *   GET /api/reviews/:id                           one review with its final report and progress
+ *   GET /api/reviews/:id/files                     files of a review with per-chunk risk and issue counts
+ *   GET /api/reviews/:id/diff?file=<path>          a file's diff by chunk, with the findings on its lines
+ *   GET /api/reviews/:id/chunks/:chunkId/passes    a chunk's diff and its analysis passes
+ *   GET /api/reviews/:id/plugin-findings           plugin findings (severity, file)
+ *   GET /api/reviews/:id/events                    server-sent events of a running review
+ *   GET /api/stats                                 dashboard totals
+ *   POST /api/reviews                              queue a review (url, provider, server, model)
+ *   PUT /api/reviews/:id/findings/:findingId/triage triage a finding (status, note, author)
+ *
+ * Every request reads the database, so reviews show up as soon as they are stored.
+ * Reviews run by this server stream their node transitions, progress and LLM replies;
+ * others (e.g. started from the CLI) are polled from the database.
+ */
+import { NextFunction, Request, RequestHandler, Response, Router } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { HikmaConfig } from '../config/hikmaConfig';
+import { parseTriageInput, triageFinding } from '../services/findingTriage';
+import { ReviewEvent } from '../types/api';
+import { ReviewQueue } from './reviewQueue';
+import { parseReviewRequest, queueReview } from './reviewRunner';
+import {
+  getChunkPasses,
+  getFileDiff,
+  getReviewProgressEvents,
+  getPluginFindings,
+  getReviewDetail,
+  getReviewFiles,
+  getSummaryStats,
+  listReviews,
+  parseReviewListQuery,
+} from './reviewQueries';
+import { toApiTriage } from './reviewPresenter';
+
+// Express 4 does not pass rejected promises on to the error handler by itself
+const asyncRoute = (handler: (req: Request, res: Response) => Promise<void>): RequestHandler =>
+  (req: Request, res: Response, next: NextFunction) => {
+    handler(req, res).catch(next);
+  };
+
+const sendOrNotFound = (res: Response, body: unknown, what: string) => {
+  if (body === null) {
+    res.status(404).json({ error: `${what} not found` });
+  } else {
+    res.json(body);
+  }
+};
+
+const queryString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value !== '' ? value : undefined;
+
+const POLL_INTERVAL_MS = 3000;
+const HEARTBEAT_INTERVAL_MS = 15000; // Keeps proxies from closing quiet streams
+
+const isFinal = (event: ReviewEvent) =>
+  event.type === 'status' && (event.status === 'completed' || event.status === 'failed');
+
+/**
+ * Runs reviews requested through the API; without it POST /api/reviews is unavailable
+ */
+export interface ReviewLauncher {
+  queue: ReviewQueue;
+  config: HikmaConfig;
+}
+
+/**
+ * Stream a review's events until it completes or fails, or the client goes away
+ */
+const streamReviewEvents = async (prisma: PrismaClient, reviewId: string, res: Response, queue?: ReviewQueue) => {
+  const replay = queue?.getSnapshot(reviewId) || await getReviewProgressEvents(prisma, reviewId);
+  if (!replay) {
+    res.status(404).json({ error: `Review ${reviewId} not found` });
+    return;
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+
+  const timers: NodeJS.Timeout[] = [];
+  let unsubscribe = () => {};
+  let closed = false;
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    timers.forEach(clearInterval);
+    unsubscribe();
+    res.end();
+  };
+  const send = (event: ReviewEvent) => {
+    if (closed) return;
+    res.write(`data: ${JSON.stringify(event)}\n\n`);
+    if (isFinal(event)) close();
+  };
+
+  res.on('close', close);
+  replay.forEach(send);
+  if (replay.some(isFinal)) return;
+
+  timers.push(setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS));
+
+  if (queue?.getSnapshot(reviewId)) {
+    unsubscribe = queue.subscribe(reviewId, send);
+    return;
+  }
+
+  let last = JSON.stringify(replay);
+  timers.push(setInterval(() => {
+    getReviewProgressEvents(prisma, reviewId).then(events => {
+      const current = JSON.stringify(events);
+      if (!events || current === last) return;
+      last = current;
+      events.forEach(send);
+    }).catch(error => console.error(`Polling review ${reviewId} failed:`, error.message));
+  }, POLL_INTERVAL_MS));
+};
+
+export const createReviewsRouter = (prisma: PrismaClient, launcher?: ReviewLauncher): Router => {
+  const router = Router();
+
+  router.get('/stats', asyncRoute(async (req, res) => {
+    res.json(await getSummaryStats(prisma));
+  }));
+
+  router.get('/reviews', asyncRoute(async (req, res) => {
+    const { value, errors } = parseReviewListQuery(req.query);
+    if (!value) {
+      res.status(400).json({ error: 'Invalid query', details: errors });
+      return;
+    }
+    res.json(await listReviews(prisma, value));
+  }));
+
+  router.post('/reviews', asyncRoute(async (req, res) => {
+    if (!launcher) {
+      res.status(503).json({ error: 'This server cannot run reviews; start it with `hikma-pr ui`' });
+      return;
+    }
+    const { value, errors } = parseReviewRequest(req.body, launcher.config);
+    if (!value) {
+      res.status(400).json({ error: 'Invalid review request', details: errors });
+      return;
+    }
+    const position = await queueReview(prisma, launcher.queue, value);
+    res.status(202).json({ id: value.id, status: 'queued', position });
+  }));
+
+  router.get('/reviews/:id/events', asyncRoute(async (req, res) => {
+    await streamReviewEvents(prisma, req.params.id, res, launcher?.queue);
+  }));
+
+  router.get('/reviews/:id', asyncRoute(async (req, res) => {
+    sendOrNotFound(res, await getReviewDetail(prisma, req.params.id), `Review ${req.params.id}`);
+  }));
+
+  router.get('/reviews/:id/files', asyncRoute(async (req, res) => {
+    sendOrNotFound(res, await getReviewFiles(prisma, req.params.id), `Review ${req.params.id}`);
+  }));
+
+  router.get('/reviews/:id/diff', asyncRoute(async (req, res) => {
+    const file = queryString(req.query.file);
+    if (!file) {
+      res.status(400).json({ error: 'Invalid query', details: ['file: required'] });
+      return;
+    }
+    sendOrNotFound(res, await getFileDiff(prisma, req.params.id, file), `Diff of ${file} in review ${req.params.id}`);
+  }));
+
+  router.put('/reviews/:id/findings/:findingId/triage', asyncRoute(async (req, res) => {
+    const { id, findingId } = req.params;
+    const { value, errors } = parseTriageInput(req.body || {});
+    if (!value) {
+      res.status(400).json({ error: 'Invalid triage', details: errors });
+      return;
+    }
+    const decision = await triageFinding(prisma, id, findingId, value);
+    sendOrNotFound(res, decision && toApiTriage(id, decision), `Triageable finding ${findingId} of review ${id}`);
+  }));
+
+  router.get('/reviews/:id/chunks/:chunkId/passes', asyncRoute(async (req, res) => {
+    const { id, chunkId } = req.params;
+    sendOrNotFound(res, await getChunkPasses(prisma, id, chunkId), `Chunk ${chunkId} of review ${id}`);
+  }));
+
+  router.get('/reviews/:id/plugin-findings', asyncRoute(async (req, res) => {
+    const filters = { severity: queryString(req.query.severity), file: queryString(req.query.file) };
+    sendOrNotFound(res, await getPluginFindings(prisma, req.params.id, filters), `Review ${req.params.id}`);
+  }));
+
+  return router;
+};
@@ -0,0 +1,63 @@
+/**
+ * Web UI Server
+ *
+ * Serves the reviews API and, when built, the web UI from the same origin.
+ */
+import express, { NextFunction, Request, Response } from 'express';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Server } from 'http';
+import { PrismaClient } from '@prisma/client';
+import { ReviewLauncher, createReviewsRouter } from './reviewsRouter';
+import { backfillRepositories } from './reviewQueries';
+import chalk from 'chalk';
+
+export interface ApiServerOptions {
+  prisma: PrismaClient;
+  uiPath?: string;   // Built UI to serve; API only when unset or missing
+  launcher?: ReviewLauncher; // Lets the UI start reviews
+}
+
+export const createApiApp = ({ prisma, uiPath, launcher }: ApiServerOptions) => {
+  const app = express();
+  app.use(express.json());
+
+  app.get('/api/health', async (req, res) => {
+    res.json({
+      status: 'ok',
+      reviewCount: await prisma.review.count().catch(() => null),
+      timestamp: new Date().toISOString(),
+    });
+  });
+
+  app.use('/api', createReviewsRouter(prisma, launcher));
+
+  app.use('/api', (req, res) => {
+    res.status(404).json({ error: `No API route for ${req.method} ${req.originalUrl}` });
+  });
+
+  // Client-side routes all load the UI's index.html
+  if (uiPath && fs.existsSync(uiPath)) {
+    app.use(express.static(uiPath));
+    app.get('*', (req, res) => {
+      res.sendFile(path.join(uiPath, 'index.html'));
+    });
+  }
+
+  app.use((error: Error, req: Request, res: Response, next: NextFunction) => {
+    console.error(chalk.red(`❌ ${req.method} ${req.originalUrl} failed:`), error.message);
+    res.status(500).json({ error: error.message });
+  });
+
+  return app;
+};
+
+export const startApiServer = async (options: ApiServerOptions & { port: number }): Promise<Server> => {
+  // Reviews stored before the repository column existed get one before the API serves them
+  await backfillRepositories(options.prisma);
+
+  return new Promise((resolve, reject) => {
+    const server = createApiApp(options).listen(options.port, () => resolve(server));
+    server.on('error', reject);
+  });
+};
@@ -0,0 +1,211 @@
+/**
+ * Bitbucket Server Provider
+ *
+ * Fetches pull requests through the Bitbucket Server / Data Center REST API
+ * (1.0). Authenticates with an HTTP access token from BITBUCKET_TOKEN.
+ */
+import axios, { AxiosInstance } from 'axios';
+import chalk from 'chalk';
+import {
+  CodeHostProvider,
+  CodeHostProviderOptions,
+  PublishResult,
+  PullRequestDetails,
+  PullRequestRef,
+  ReviewSubmission
+} from '../types/codeHost';
+import { extractFingerprint, isSummaryBody } from './reviewMarkers';
+
+const PAGE_SIZE = 100;
+
+interface BitbucketComment {
+  id: number;
+  version: number;
+  text: string;
+}
+
+// Participant status for each review event; COMMENT leaves the status alone
+const PARTICIPANT_STATUS: Record<string, string | undefined> = {
+  APPROVE: 'APPROVED',
+  REQUEST_CHANGES: 'NEEDS_WORK',
+};
+
+export class BitbucketServerProvider implements CodeHostProvider {
+  readonly type = 'bitbucket-server' as const;
+  readonly ref: PullRequestRef;
+  private http: AxiosInstance;
+
+  constructor(ref: PullRequestRef, options: CodeHostProviderOptions = {}) {
+    this.ref = ref;
+    const token = options.token || process.env.BITBUCKET_TOKEN;
+
+    this.http = axios.create({
+      baseURL: options.apiBaseUrl || `${ref.origin}/rest/api/1.0`,
+      headers: token ? { Authorization: `Bearer ${token}` } : {}
+    });
+  }
+
+  private get repoPath(): string {
+    return `/projects/${encodeURIComponent(this.ref.owner)}/repos/${encodeURIComponent(this.ref.repo)}`;
+  }
+
+  private get pullPath(): string {
+    return `${this.repoPath}/pull-requests/${this.ref.number}`;
+  }
+
+  async getDetails(): Promise<PullRequestDetails> {
+    console.log(chalk.blue(`\n📋 Fetching PR details via Bitbucket Server API...`));
+    const { data } = await this.http.get(this.pullPath);
+
+    // Line stats are not part of the PR resource, so derive them from the diff
+    let additions = 0;
+    let deletions = 0;
+    const diff = await this.getFullDiff();
+    for (const line of (diff || '').split('\n')) {
+      if (line.startsWith('+') && !line.startsWith('+++')) additions++;
+      else if (line.startsWith('-') && !line.startsWith('---')) deletions++;
+    }
+
+    console.log(chalk.blue(`📋 Title: "${chalk.yellow(data.title)}"`));
+
+    return {
+      title: data.title,
+      body: data.description || null,
+      author: data.author?.user?.name || 'unknown',
+      state: data.state,
+      additions,
+      deletions,
+      source_branch: data.fromRef?.displayId,
+      target_branch: data.toRef?.displayId,
+      head_sha: data.fromRef?.latestCommit,
+    };
+  }
+
+  async getChangedFiles(): Promise<string[]> {
+    console.log(chalk.blue(`\n📁 Fetching changed files list via Bitbucket Server API...`));
+    const filenames: string[] = [];
+
+    let start = 0;
+    for (;;) {
+      const { data } = await this.http.get(`${this.pullPath}/changes`, {
+        params: { start, limit: PAGE_SIZE }
+      });
+      filenames.push(...data.values.map((change: { path: { toString: string } }) => change.path.toString));
+      if (data.isLastPage) break;
+      start = data.nextPageStart;
+    }
+
+    console.log(chalk.green(`✅ Found ${chalk.yellow(filenames.length)} changed files`));
+    return filenames;
+  }
+
+  async getFullDiff(): Promise<string | null> {
+    console.log(chalk.blue(`\n📄 Fetching FULL PR diff via Bitbucket Server API (single call)...`));
+    const { data } = await this.http.get(`${this.pullPath}.diff`, { responseType: 'text' });
+
+    return data && String(data).trim() ? String(data) : null;
+  }
+
+  async getChangedFilesBetween(fromSha: string, toSha: string): Promise<string[]> {
+    // Bitbucket lists the changes reachable from `from` that are not in `to`
+    const filenames: string[] = [];
+
+    let start = 0;
+    for (;;) {
+      const { data } = await this.http.get(`${this.repoPath}/compare/changes`, {
+        params: { from: toSha, to: fromSha, start, limit: PAGE_SIZE }
+      });
+      filenames.push(...data.values.map((change: { path: { toString: string } }) => change.path.toString));
+      if (data.isLastPage) break;
+      start = data.nextPageStart;
+    }
+
+    return filenames;
+  }
+
+  /**
+   * Posts findings as anchored comments plus one general summary comment.
+   * Comments from an earlier publish are edited in place.
+   */
+  async publishReview(review: ReviewSubmission): Promise<PublishResult> {
+    console.log(chalk.blue(`\n📤 Publishing review to Bitbucket PR #${this.ref.number}...`));
+
+    const existing = new Map<string, BitbucketComment>();
+    let summary: BitbucketComment | undefined;
+    let username: string | undefined;
+
+    let start = 0;
+    for (;;) {
+      const response = await this.http.get(`${this.pullPath}/activities`, {
+        params: { start, limit: PAGE_SIZE }
+      });
+      // Bitbucket reports the authenticated user in a response header
+      username = username || response.headers['x-ausername'];
+
+      for (const activity of response.data.values) {
+        if (activity.action !== 'COMMENTED' || !activity.comment) continue;
+        const fingerprint = extractFingerprint(activity.comment.text);
+        if (fingerprint) existing.set(fingerprint, activity.comment);
+        if (isSummaryBody(activity.comment.text)) summary = activity.comment;
+      }
+      if (response.data.isLastPage) break;
+      start = response.data.nextPageStart;
+    }
+
+    let created = 0;
+    let updated = 0;
+    for (const comment of review.comments) {
+      const previous = existing.get(comment.fingerprint);
+      if (previous) {
+        await this.http.put(`${this.pullPath}/comments/${previous.id}`, { text: comment.body, version: previous.version });
+        updated++;
+        continue;
+      }
+
+      await this.http.post(`${this.pullPath}/comments`, {
+        text: comment.body,
+        anchor: {
+          path: comment.path,
+          line: comment.line,
+          lineType: comment.oldLine !== undefined ? 'CONTEXT' : 'ADDED',
+          fileType: 'TO',
+          diffType: 'EFFECTIVE'
+        }
+      });
+      created++;
+    }
+
+    if (summary) {
+      await this.http.put(`${this.pullPath}/comments/${summary.id}`, { text: review.body, version: summary.version });
+      console.log(chalk.green(`✅ Updated earlier review summary`));
+    } else {
+      await this.http.post(`${this.pullPath}/comments`, { text: review.body });
+    }
+
+    const status = PARTICIPANT_STATUS[review.event];
+    if (status && username) {
+      try {
+        await this.http.put(`${this.pullPath}/participants/${encodeURIComponent(username)}`, { status });
+      } catch (error: any) {
+        console.log(chalk.yellow(`⚠️  Could not set review status ${status} (${error.response?.status || error.message})`));
+      }
+    }
+
+    console.log(chalk.green(`✅ Review published: ${created} new, ${updated} updated inline comments`));
+
+    return { created, updated, summaryUpdated: !!summary, url: this.ref.url };
+  }
+
+  async getFileContent(filePath: string, gitRef: string): Promise<string | null> {
+    try {
+      const { data } = await this.http.get(
+        `${this.repoPath}/raw/${filePath.split('/').map(encodeURIComponent).join('/')}`,
+        { params: { at: gitRef }, responseType: 'text' }
+      );
+      return String(data);
+    } catch (error: any) {
+      if (error.response?.status === 404) return null;
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Code Host Factory
+ *
+ * Picks the provider implementation for a review from its URL (or local
+ * source), so callers only ever deal with the CodeHostProvider interface.
+ */
+import { CodeHostProvider, CodeHostProviderOptions } from '../types/codeHost';
+import { LocalSource } from '../types/analysis';
+import { parseReviewUrl } from './reviewUrl';
+import { GitHubProvider } from './githubProvider';
+import { GitLabProvider } from './gitlabProvider';
+import { BitbucketServerProvider } from './bitbucketServerProvider';
+import { LocalGitProvider } from './localGitProvider';
+
+export const createCodeHostProvider = (
+  target: { url: string; localSource?: LocalSource },
+  options: CodeHostProviderOptions = {}
+): CodeHostProvider => {
+  if (target.localSource) {
+    return new LocalGitProvider(target.localSource);
+  }
+
+  const ref = parseReviewUrl(target.url);
+
+  switch (ref.host) {
+    case 'github':
+      return new GitHubProvider(ref, options);
+    case 'gitlab':
+      return new GitLabProvider(ref, options);
+    case 'bitbucket-server':
+      return new BitbucketServerProvider(ref, options);
+    default:
+      throw new Error(`Local review URLs need a local source: ${target.url}`);
+  }
+};
@@ -0,0 +1,244 @@
+/**
+ * GitHub Provider
+ *
+ * Reaches GitHub either through the gh CLI (default, uses the user's gh login)
+ * or the REST API with GITHUB_TOKEN. GitHub Enterprise is supported through
+ * the `/api/v3` endpoint of the instance.
+ */
+import axios, { AxiosInstance } from 'axios';
+import chalk from 'chalk';
+import {
+  CodeHostProvider,
+  CodeHostProviderOptions,
+  GitHubMethod,
+  PublishResult,
+  PullRequestDetails,
+  PullRequestRef,
+  ReviewSubmission
+} from '../types/codeHost';
+import {
+  getPrDetailsViaCli,
+  getChangedFilesViaCli,
+  getFullPrDiffViaCli,
+  getFileContentViaCli,
+  getAuthTokenViaCli
+} from '../services/githubService';
+import { UPDATE_MARKER, extractFingerprint, isOwnReviewBody, isSummaryBody } from './reviewMarkers';
+
+const PAGE_SIZE = 100;
+
+export class GitHubProvider implements CodeHostProvider {
+  readonly type = 'github' as const;
+  readonly ref: PullRequestRef;
+  private method: GitHubMethod;
+  private baseURL: string;
+  private token?: string;
+  private http?: AxiosInstance;
+
+  constructor(ref: PullRequestRef, options: CodeHostProviderOptions = {}) {
+    this.ref = ref;
+    this.method = options.githubMethod || 'cli';
+    this.token = options.token || process.env.GITHUB_TOKEN;
+    this.baseURL = options.apiBaseUrl
+      || (ref.origin === 'https://github.com' ? 'https://api.github.com' : `${ref.origin}/api/v3`);
+
+    if (this.method === 'sdk') {
+      this.http = this.createClient(this.token);
+    }
+  }
+
+  private createClient(token?: string): AxiosInstance {
+    return axios.create({
+      baseURL: this.baseURL,
+      headers: {
+        Accept: 'application/vnd.github+json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {})
+      }
+    });
+  }
+
+  /**
+   * Writes always go through the REST API; in CLI mode the token of the
+   * gh login is borrowed unless GITHUB_TOKEN is set.
+   */
+  private async getApiClient(): Promise<AxiosInstance> {
+    if (!this.http) {
+      const token = this.token || await getAuthTokenViaCli(new URL(this.ref.origin).host);
+      this.http = this.createClient(token);
+    }
+    return this.http;
+  }
+
+  /**
+   * Fetches every page of a list endpoint
+   */
+  private async getAllPages<T>(http: AxiosInstance, url: string): Promise<T[]> {
+    const items: T[] = [];
+    for (let page = 1; ; page++) {
+      const { data } = await http.get(url, { params: { per_page: PAGE_SIZE, page } });
+      items.push(...data);
+      if (data.length < PAGE_SIZE) break;
+    }
+    return items;
+  }
+
+  private get pullPath(): string {
+    return `/repos/${this.ref.owner}/${this.ref.repo}/pulls/${this.ref.number}`;
+  }
+
+  async getDetails(): Promise<PullRequestDetails> {
+    if (!this.http) {
+      return getPrDetailsViaCli(this.ref.url);
+    }
+
+    console.log(chalk.blue(`\n📋 Fetching PR details via GitHub API...`));
+    const { data } = await this.http.get(this.pullPath);
+
+    return {
+      title: data.title,
+      body: data.body,
+      author: data.user?.login || 'unknown',
+      state: data.state,
+      additions: data.additions || 0,
+      deletions: data.deletions || 0,
+      source_branch: data.head?.ref,
+      target_branch: data.base?.ref,
+      head_sha: data.head?.sha,
+    };
+  }
+
+  async getChangedFiles(): Promise<string[]> {
+    if (!this.http) {
+      return getChangedFilesViaCli(this.ref.url);
+    }
+
+    console.log(chalk.blue(`\n📁 Fetching changed files list via GitHub API...`));
+    const filenames: string[] = [];
+
+    for (let page = 1; ; page++) {
+      const { data } = await this.http.get(`${this.pullPath}/files`, {
+        params: { per_page: PAGE_SIZE, page }
+      });
+      filenames.push(...data.map((file: { filename: string }) => file.filename));
+      if (data.length < PAGE_SIZE) break;
+    }
+
+    console.log(chalk.green(`✅ Found ${chalk.yellow(filenames.length)} changed files`));
+    return filenames;
+  }
+
+  async getFullDiff(): Promise<string | null> {
+    if (!this.http) {
+      return getFullPrDiffViaCli(this.ref.url);
+    }
+
+    console.log(chalk.blue(`\n📄 Fetching FULL PR diff via GitHub API (single call)...`));
+    const { data } = await this.http.get(this.pullPath, {
+      headers: { Accept: 'application/vnd.github.v3.diff' },
+      responseType: 'text'
+    });
+
+    return data && String(data).trim() ? String(data) : null;
+  }
+
+  async getFileContent(filePath: string, gitRef: string): Promise<string | null> {
+    if (!this.http) {
+      return getFileContentViaCli(this.ref.owner, this.ref.repo, filePath, gitRef);
+    }
+
+    try {
+      const { data } = await this.http.get(
+        `/repos/${this.ref.owner}/${this.ref.repo}/contents/${filePath.split('/').map(encodeURIComponent).join('/')}`,
+        { params: { ref: gitRef }, headers: { Accept: 'application/vnd.github.raw' }, responseType: 'text' }
+      );
+      return String(data);
+    } catch (error: any) {
+      if (error.response?.status === 404) return null;
+      throw error;
+    }
+  }
+
+  async getChangedFilesBetween(fromSha: string, toSha: string): Promise<string[]> {
+    // Two dots compare the commits directly instead of from their merge base
+    const http = await this.getApiClient();
+    const { data } = await http.get(`/repos/${this.ref.owner}/${this.ref.repo}/compare/${fromSha}..${toSha}`);
+    return (data.files || []).map((file: { filename: string }) => file.filename);
+  }
+
+  /**
+   * Posts the findings as one PR review. Comments and the summary from an
+   * earlier publish are edited in place; only new findings create a review.
+   */
+  async publishReview(review: ReviewSubmission): Promise<PublishResult> {
+    const http = await this.getApiClient();
+
+    console.log(chalk.blue(`\n📤 Publishing review to GitHub PR #${this.ref.number}...`));
+
+    const existingComments = await this.getAllPages<{ id: number; body: string }>(http, `${this.pullPath}/comments`);
+    const commentIds = new Map<string, number>();
+    for (const comment of existingComments) {
+      const fingerprint = extractFingerprint(comment.body);
+      if (fingerprint) commentIds.set(fingerprint, comment.id);
+    }
+
+    let updated = 0;
+    const newComments = [];
+    for (const comment of review.comments) {
+      const existingId = commentIds.get(comment.fingerprint);
+      if (existingId) {
+        await http.patch(`/repos/${this.ref.owner}/${this.ref.repo}/pulls/comments/${existingId}`, { body: comment.body });
+        updated++;
+      } else {
+        newComments.push({ path: comment.path, line: comment.line, side: 'RIGHT', body: comment.body });
+      }
+    }
+
+    const existingReviews = await this.getAllPages<{ id: number; body: string; state: string; html_url: string }>(
+      http, `${this.pullPath}/reviews`
+    );
+    const previousSummary = existingReviews.filter(existing => isSummaryBody(existing.body)).pop();
+
+    if (previousSummary) {
+      await http.put(`${this.pullPath}/reviews/${previousSummary.id}`, { body: review.body });
+      console.log(chalk.green(`✅ Updated earlier review summary`));
+    }
+
+    // A new verdict needs a new review, since GitHub cannot change the event of a submitted one
+    const previousState = existingReviews.filter(existing => isOwnReviewBody(existing.body)).pop()?.state;
+    const eventChanged = !!previousSummary && review.event !== 'COMMENT' && previousState !== GITHUB_REVIEW_STATES[review.event];
+
+    let url = previousSummary?.html_url;
+    if (!previousSummary || newComments.length > 0 || eventChanged) {
+      const payload = {
+        commit_id: review.commitSha,
+        body: previousSummary
+          ? `Hikma PR re-review: ${newComments.length} new finding(s). The summary above has been updated.\n\n${UPDATE_MARKER}`
+          : review.body,
+        event: review.event,
+        comments: newComments
+      };
+
+      let response;
+      try {
+        response = await http.post(`${this.pullPath}/reviews`, payload);
+      } catch (error: any) {
+        // GitHub refuses APPROVE/REQUEST_CHANGES on your own PR; keep the content as a comment
+        if (error.response?.status !== 422 || review.event === 'COMMENT') throw error;
+        console.log(chalk.yellow(`⚠️  GitHub rejected the ${review.event} event, posting as COMMENT instead`));
+        response = await http.post(`${this.pullPath}/reviews`, { ...payload, event: 'COMMENT' });
+      }
+      url = response.data.html_url;
+    }
+
+    console.log(chalk.green(`✅ Review published: ${newComments.length} new, ${updated} updated inline comments`));
+
+    return { created: newComments.length, updated, summaryUpdated: !!previousSummary, url };
+  }
+}
+
+// Review state GitHub reports for each submitted event
+const GITHUB_REVIEW_STATES: Record<string, string> = {
+  APPROVE: 'APPROVED',
+  REQUEST_CHANGES: 'CHANGES_REQUESTED',
+  COMMENT: 'COMMENTED',
+};
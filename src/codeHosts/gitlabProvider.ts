@@ -0,0 +1,241 @@
+/**
+ * GitLab Provider
+ *
+ * Fetches merge requests through the GitLab REST API (v4), for gitlab.com and
+ * self-hosted instances. Authenticates with GITLAB_TOKEN when set.
+ */
+import axios, { AxiosInstance } from 'axios';
+import chalk from 'chalk';
+import {
+  CodeHostProvider,
+  CodeHostProviderOptions,
+  PublishResult,
+  PullRequestDetails,
+  PullRequestRef,
+  ReviewSubmission
+} from '../types/codeHost';
+import { extractFingerprint, isSummaryBody } from './reviewMarkers';
+
+const PAGE_SIZE = 100;
+
+interface GitLabDiff {
+  old_path: string;
+  new_path: string;
+  diff: string;
+  new_file: boolean;
+  renamed_file: boolean;
+  deleted_file: boolean;
+}
+
+interface GitLabDiscussion {
+  id: string;
+  notes: { id: number; body: string }[];
+}
+
+export class GitLabProvider implements CodeHostProvider {
+  readonly type = 'gitlab' as const;
+  readonly ref: PullRequestRef;
+  private http: AxiosInstance;
+  private diffs?: GitLabDiff[];
+
+  constructor(ref: PullRequestRef, options: CodeHostProviderOptions = {}) {
+    this.ref = ref;
+    const token = options.token || process.env.GITLAB_TOKEN;
+
+    this.http = axios.create({
+      baseURL: options.apiBaseUrl || `${ref.origin}/api/v4`,
+      headers: token ? { 'PRIVATE-TOKEN': token } : {}
+    });
+  }
+
+  private get projectPath(): string {
+    return `/projects/${encodeURIComponent(`${this.ref.owner}/${this.ref.repo}`)}`;
+  }
+
+  private get mergeRequestPath(): string {
+    return `${this.projectPath}/merge_requests/${this.ref.number}`;
+  }
+
+  /**
+   * Fetches (once) every per-file diff of the merge request
+   */
+  private async getDiffs(): Promise<GitLabDiff[]> {
+    if (this.diffs) return this.diffs;
+
+    const diffs: GitLabDiff[] = [];
+    for (let page = 1; ; page++) {
+      const { data } = await this.http.get(`${this.mergeRequestPath}/diffs`, {
+        params: { per_page: PAGE_SIZE, page }
+      });
+      diffs.push(...data);
+      if (data.length < PAGE_SIZE) break;
+    }
+
+    this.diffs = diffs;
+    return diffs;
+  }
+
+  async getDetails(): Promise<PullRequestDetails> {
+    console.log(chalk.blue(`\n📋 Fetching MR details via GitLab API...`));
+    const { data } = await this.http.get(this.mergeRequestPath);
+
+    // GitLab does not report line stats on the MR itself, so count them from the diffs
+    let additions = 0;
+    let deletions = 0;
+    for (const file of await this.getDiffs()) {
+      for (const line of file.diff.split('\n')) {
+        if (line.startsWith('+')) additions++;
+        else if (line.startsWith('-')) deletions++;
+      }
+    }
+
+    console.log(chalk.blue(`📋 Title: "${chalk.yellow(data.title)}"`));
+
+    return {
+      title: data.title,
+      body: data.description || null,
+      author: data.author?.username || 'unknown',
+      state: data.state,
+      additions,
+      deletions,
+      source_branch: data.source_branch,
+      target_branch: data.target_branch,
+      head_sha: data.sha,
+    };
+  }
+
+  async getChangedFiles(): Promise<string[]> {
+    console.log(chalk.blue(`\n📁 Fetching changed files list via GitLab API...`));
+    const filenames = (await this.getDiffs()).map(file => file.new_path);
+    console.log(chalk.green(`✅ Found ${chalk.yellow(filenames.length)} changed files`));
+    return filenames;
+  }
+
+  async getFullDiff(): Promise<string | null> {
+    console.log(chalk.blue(`\n📄 Building FULL MR diff from GitLab API...`));
+    const diffs = await this.getDiffs();
+    if (diffs.length === 0) return null;
+
+    return diffs.map(file => toGitDiff(file)).join('\n');
+  }
+
+  async getChangedFilesBetween(fromSha: string, toSha: string): Promise<string[]> {
+    const { data } = await this.http.get(`${this.projectPath}/repository/compare`, {
+      params: { from: fromSha, to: toSha, straight: true }
+    });
+    return (data.diffs || []).map((file: GitLabDiff) => file.new_path);
+  }
+
+  /**
+   * Posts findings as diff discussions plus one summary note. Notes from an
+   * earlier publish are edited in place instead of posted again.
+   */
+  async publishReview(review: ReviewSubmission): Promise<PublishResult> {
+    console.log(chalk.blue(`\n📤 Publishing review to GitLab MR !${this.ref.number}...`));
+
+    const { data: mergeRequest } = await this.http.get(this.mergeRequestPath);
+    const diffRefs = mergeRequest.diff_refs || {};
+
+    const discussions: GitLabDiscussion[] = [];
+    for (let page = 1; ; page++) {
+      const { data } = await this.http.get(`${this.mergeRequestPath}/discussions`, {
+        params: { per_page: PAGE_SIZE, page }
+      });
+      discussions.push(...data);
+      if (data.length < PAGE_SIZE) break;
+    }
+
+    const existingNotes = new Map<string, { discussionId: string; noteId: number }>();
+    let summaryNoteId: number | undefined;
+    for (const discussion of discussions) {
+      for (const note of discussion.notes) {
+        const fingerprint = extractFingerprint(note.body);
+        if (fingerprint) existingNotes.set(fingerprint, { discussionId: discussion.id, noteId: note.id });
+        if (isSummaryBody(note.body)) summaryNoteId = note.id;
+      }
+    }
+
+    let created = 0;
+    let updated = 0;
+    for (const comment of review.comments) {
+      const existing = existingNotes.get(comment.fingerprint);
+      if (existing) {
+        await this.http.put(
+          `${this.mergeRequestPath}/discussions/${existing.discussionId}/notes/${existing.noteId}`,
+          { body: comment.body }
+        );
+        updated++;
+        continue;
+      }
+
+      await this.http.post(`${this.mergeRequestPath}/discussions`, {
+        body: comment.body,
+        position: {
+          position_type: 'text',
+          base_sha: diffRefs.base_sha,
+          start_sha: diffRefs.start_sha,
+          head_sha: review.commitSha || diffRefs.head_sha,
+          old_path: comment.path,
+          new_path: comment.path,
+          new_line: comment.line,
+          ...(comment.oldLine !== undefined ? { old_line: comment.oldLine } : {})
+        }
+      });
+      created++;
+    }
+
+    if (summaryNoteId) {
+      await this.http.put(`${this.mergeRequestPath}/notes/${summaryNoteId}`, { body: review.body });
+      console.log(chalk.green(`✅ Updated earlier review summary`));
+    } else {
+      await this.http.post(`${this.mergeRequestPath}/notes`, { body: review.body });
+    }
+
+    // GitLab has no "request changes" verdict; withdrawing our approval is the closest match
+    try {
+      if (review.event === 'APPROVE') {
+        await this.http.post(`${this.mergeRequestPath}/approve`);
+      } else if (review.event === 'REQUEST_CHANGES') {
+        await this.http.post(`${this.mergeRequestPath}/unapprove`);
+      }
+    } catch (error: any) {
+      console.log(chalk.yellow(`⚠️  Could not apply ${review.event} to the MR (${error.response?.status || error.message})`));
+    }
+
+    console.log(chalk.green(`✅ Review published: ${created} new, ${updated} updated inline comments`));
+
+    return { created, updated, summaryUpdated: !!summaryNoteId, url: this.ref.url };
+  }
+
+  async getFileContent(filePath: string, gitRef: string): Promise<string | null> {
+    try {
+      const { data } = await this.http.get(
+        `${this.projectPath}/repository/files/${encodeURIComponent(filePath)}/raw`,
+        { params: { ref: gitRef }, responseType: 'text' }
+      );
+      return String(data);
+    } catch (error: any) {
+      if (error.response?.status === 404) return null;
+      throw error;
+    }
+  }
+}
+
+/**
+ * GitLab returns only the hunks of each file; add the git headers so the
+ * result can be processed like `gh pr diff` output.
+ */
+const toGitDiff = (file: GitLabDiff): string => {
+  const header = [`diff --git a/${file.old_path} b/${file.new_path}`];
+
+  if (file.new_file) header.push('new file mode 100644');
+  if (file.deleted_file) header.push('deleted file mode 100644');
+  if (file.renamed_file) header.push(`rename from ${file.old_path}`, `rename to ${file.new_path}`);
+
+  header.push(
+    `--- ${file.new_file ? '/dev/null' : `a/${file.old_path}`}`,
+    `+++ ${file.deleted_file ? '/dev/null' : `b/${file.new_path}`}`
+  );
+
+  return `${header.join('\n')}\n${file.diff.replace(/\n$/, '')}`;
+};
@@ -0,0 +1,53 @@
+/**
+ * Local Git Provider
+ *
+ * Exposes a local checkout (base...head) through the same interface as the
+ * hosted providers, so the workflow does not need to special-case it.
+ */
+import { CodeHostProvider, PullRequestDetails, PullRequestRef } from '../types/codeHost';
+import { LocalSource } from '../types/analysis';
+import {
+  buildLocalReviewUrl,
+  getPrDetailsViaGit,
+  getChangedFilesViaGit,
+  getFullDiffViaGit,
+  getFileContentViaGit,
+  getChangedFilesBetweenViaGit
+} from '../services/localGitService';
+import { parseReviewUrl } from './reviewUrl';
+
+export class LocalGitProvider implements CodeHostProvider {
+  readonly type = 'local' as const;
+  readonly ref: PullRequestRef;
+  private source: LocalSource;
+
+  constructor(source: LocalSource) {
+    this.source = source;
+    this.ref = parseReviewUrl(buildLocalReviewUrl(source));
+  }
+
+  async getDetails(): Promise<PullRequestDetails> {
+    const details = await getPrDetailsViaGit(this.source);
+    return {
+      ...details,
+      source_branch: this.source.head,
+      target_branch: this.source.base,
+    };
+  }
+
+  getChangedFiles(): Promise<string[]> {
+    return getChangedFilesViaGit(this.source);
+  }
+
+  getFullDiff(): Promise<string | null> {
+    return getFullDiffViaGit(this.source);
+  }
+
+  getFileContent(filePath: string, gitRef: string): Promise<string | null> {
+    return getFileContentViaGit(this.source, filePath, gitRef);
+  }
+
+  getChangedFilesBetween(fromSha: string, toSha: string): Promise<string[]> {
+    return getChangedFilesBetweenViaGit(this.source, fromSha, toSha);
+  }
+}
@@ -0,0 +1,26 @@
+// Review Markers - Hidden HTML comments that identify what Hikma PR posted
+
+export const SUMMARY_MARKER = '<!-- hikma-pr:summary -->';
+
+// Follow-up reviews posted when a re-publish adds findings or changes the verdict
+export const UPDATE_MARKER = '<!-- hikma-pr:update -->';
+
+const FINDING_MARKER = /<!-- hikma-pr:finding:([a-f0-9]+) -->/;
+
+export const findingMarker = (fingerprint: string): string => `<!-- hikma-pr:finding:${fingerprint} -->`;
+
+/**
+ * Returns the fingerprint of an inline comment we posted earlier, or null
+ * for comments written by anyone else.
+ */
+export const extractFingerprint = (body: string | null | undefined): string | null => {
+  return body?.match(FINDING_MARKER)?.[1] || null;
+};
+
+export const isSummaryBody = (body: string | null | undefined): boolean => {
+  return !!body && body.includes(SUMMARY_MARKER);
+};
+
+export const isOwnReviewBody = (body: string | null | undefined): boolean => {
+  return isSummaryBody(body) || (!!body && body.includes(UPDATE_MARKER));
+};
@@ -0,0 +1,105 @@
+/**
+ * Review URL parsing
+ *
+ * The single place that understands PR/MR web URLs. Hosts are recognised by
+ * the shape of the path rather than the hostname, so self-hosted GitLab,
+ * GitHub Enterprise and Bitbucket Server instances work out of the box.
+ */
+import { PullRequestRef } from '../types/codeHost';
+
+// https://github.com/owner/repo/pull/123
+const GITHUB_PATH = /^\/([^/]+)\/([^/]+)\/pull\/(\d+)/;
+
+// https://gitlab.com/group/subgroup/project/-/merge_requests/123
+const GITLAB_PATH = /^\/(.+)\/([^/]+)\/-\/merge_requests\/(\d+)/;
+
+// https://bitbucket.example.com[/context]/projects/KEY/repos/slug/pull-requests/123
+// https://bitbucket.example.com[/context]/users/name/repos/slug/pull-requests/123
+const BITBUCKET_SERVER_PATH = /^(.*?)\/(projects|users)\/([^/]+)\/repos\/([^/]+)\/pull-requests\/(\d+)/;
+
+/**
+ * Parses a review URL, returning null when no known host matches.
+ */
+export const tryParseReviewUrl = (url: string): PullRequestRef | null => {
+  if (url.startsWith('local://')) {
+    const repoPath = decodeURIComponent(url.slice('local://'.length).split('?')[0]);
+    return {
+      host: 'local',
+      url,
+      origin: 'local://',
+      owner: 'local',
+      repo: repoPath.split('/').filter(Boolean).pop() || 'repository',
+      number: 0,
+    };
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+
+  const pathname = parsed.pathname;
+
+  const gitlab = pathname.match(GITLAB_PATH);
+  if (gitlab) {
+    return {
+      host: 'gitlab',
+      url,
+      origin: parsed.origin,
+      owner: gitlab[1],
+      repo: gitlab[2],
+      number: parseInt(gitlab[3], 10),
+    };
+  }
+
+  const bitbucket = pathname.match(BITBUCKET_SERVER_PATH);
+  if (bitbucket) {
+    const [, contextPath, scope, key, slug, id] = bitbucket;
+    return {
+      host: 'bitbucket-server',
+      url,
+      origin: `${parsed.origin}${contextPath}`,
+      owner: scope === 'users' ? `~${key}` : key,
+      repo: slug,
+      number: parseInt(id, 10),
+    };
+  }
+
+  const github = pathname.match(GITHUB_PATH);
+  if (github) {
+    return {
+      host: 'github',
+      url,
+      origin: parsed.origin,
+      owner: github[1],
+      repo: github[2],
+      number: parseInt(github[3], 10),
+    };
+  }
+
+  return null;
+};
+
+/**
+ * Parses a review URL, throwing a descriptive error for unsupported formats.
+ */
+export const parseReviewUrl = (url: string): PullRequestRef => {
+  const ref = tryParseReviewUrl(url);
+  if (!ref) {
+    throw new Error(
+      `Unsupported review URL: ${url}. Expected a GitHub pull request, GitLab merge request or Bitbucket Server pull request URL.`
+    );
+  }
+  return ref;
+};
+
+/**
+ * owner/name of the repository a review URL points at, lowercased; what
+ * stored reviews are filtered by
+ */
+export const getRepositoryKey = (url: string): string => {
+  const ref = tryParseReviewUrl(url);
+  return (ref ? `${ref.owner}/${ref.repo}` : 'unknown/repo').toLowerCase();
+};
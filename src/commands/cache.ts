@@ -0,0 +1,61 @@
+/**
+ * Handler for the 'cache' command - inspects and clears the pass cache
+ */
+import { PrismaClient } from '@prisma/client';
+import { PassCache } from '../services/passCache';
+import chalk from 'chalk';
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes}B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)}KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+};
+
+/**
+ * Shows how many pass replies are cached and how often they were reused
+ */
+export const cacheStatsHandler = async (prisma: PrismaClient) => {
+  const stats = await new PassCache(prisma).getStats();
+
+  console.log(chalk.bold.cyan(`\n💾 Pass Cache`));
+  console.log(chalk.bold.cyan('='.repeat(50)));
+
+  if (stats.entries === 0) {
+    console.log(chalk.yellow(`📭 The cache is empty. Passes are cached as reviews run.`));
+    return;
+  }
+
+  console.log(chalk.blue(`📦 Entries: ${chalk.yellow(stats.entries)} (${formatBytes(stats.sizeBytes)})`));
+  console.log(chalk.blue(`🎯 Total hits: ${chalk.yellow(stats.totalHits)}`));
+  if (stats.oldest && stats.newest) {
+    console.log(chalk.gray(`📅 ${stats.oldest.toLocaleString()} → ${stats.newest.toLocaleString()}`));
+  }
+
+  console.log(chalk.blue(`\n🤖 By model:`));
+  stats.byModel.forEach(model => {
+    console.log(chalk.gray(`   ${model.provider} ${chalk.yellow(model.model)}: ${model.entries} entries, ${model.hits} hits`));
+  });
+
+  console.log(chalk.bold.cyan('\n' + '='.repeat(50)));
+  console.log(chalk.blue(`💡 To clear the cache: ${chalk.cyan('hikma-pr cache clear')}`));
+};
+
+/**
+ * Deletes cached pass replies, optionally only those older than N days
+ */
+export const cacheClearHandler = async (prisma: PrismaClient, daysOld?: number) => {
+  let cutoffDate: Date | undefined;
+  if (daysOld !== undefined) {
+    cutoffDate = new Date();
+    cutoffDate.setDate(cutoffDate.getDate() - daysOld);
+  }
+
+  const deleted = await new PassCache(prisma).clear(cutoffDate);
+
+  if (deleted > 0) {
+    const scope = daysOld !== undefined ? ` older than ${daysOld} days` : '';
+    console.log(chalk.green(`✅ Removed ${deleted} cached pass${deleted === 1 ? '' : 'es'}${scope}`));
+  } else {
+    console.log(chalk.blue(`📭 Nothing to remove from the cache.`));
+  }
+};
@@ -0,0 +1,147 @@
+/**
+ * Handler for 'review --ci' - runs a review as a CI gate
+ *
+ * Progress output is silenced, the gate policies of the config are evaluated
+ * on what the review stored, a JSON summary is written for the pipeline and
+ * the exit code says whether the gate passed.
+ */
+import { PrismaClient } from '@prisma/client';
+import { DEFAULT_HIKMA_CONFIG } from '../config/hikmaConfig';
+import { loadReviewTriage } from '../services/findingTriage';
+import { GateCheck, GateCounts, countReviewOutput, evaluateReviewGate } from '../services/reviewGate';
+import { ReviewState } from '../types/analysis';
+import { ReviewOutcome, reviewCommandHandler } from './review';
+import chalk from 'chalk';
+import fs from 'fs';
+import path from 'path';
+
+export const CI_EXIT_CODES = {
+  passed: 0,
+  failed: 1, // The review completed and broke a gate policy
+  error: 2,  // The review did not complete
+} as const;
+
+export type CiStatus = keyof typeof CI_EXIT_CODES;
+
+export interface CiSummary {
+  status: CiStatus;
+  exitCode: number;
+  reviewId: string | null;
+  prUrl: string | null;
+  decision: string | null;
+  risk: string | null;
+  counts: Omit<GateCounts, 'risk'> | null;
+  checks: GateCheck[];
+  reportPath: string | null;
+  error: string | null;
+}
+
+/**
+ * Drops everything written to stdout until the returned function is called;
+ * warnings and errors on stderr still reach the CI log
+ */
+const silenceStdout = (): (() => void) => {
+  const write = process.stdout.write;
+  process.stdout.write = ((_chunk: unknown, encoding?: unknown, callback?: unknown) => {
+    const done = typeof encoding === 'function' ? encoding : callback;
+    if (typeof done === 'function') done();
+    return true;
+  }) as typeof process.stdout.write;
+  return () => {
+    process.stdout.write = write;
+  };
+};
+
+const errorSummary = (prUrl: string | null, error: string, reviewId: string | null = null): CiSummary => ({
+  status: 'error',
+  exitCode: CI_EXIT_CODES.error,
+  reviewId,
+  prUrl,
+  decision: null,
+  risk: null,
+  counts: null,
+  checks: [],
+  reportPath: null,
+  error,
+});
+
+/**
+ * Evaluates the gate on a completed review as stored
+ */
+export const summarizeReviewGate = async (
+  prisma: PrismaClient,
+  outcome: ReviewOutcome,
+  policy = DEFAULT_HIKMA_CONFIG.gate
+): Promise<CiSummary> => {
+  const review = await prisma.review.findUnique({
+    where: { id: outcome.taskId },
+    include: { chunkAnalyses: true, analysisPasses: true, pluginFindings: true },
+  });
+  if (!review) {
+    return errorSummary(null, `No review found with ID ${outcome.taskId}`, outcome.taskId);
+  }
+
+  // Only the synthesis decision is read from the stored workflow state
+  const state = review.state as Pick<ReviewState, 'synthesis_data'> | null;
+  const input = {
+    decision: state?.synthesis_data?.decision ?? null,
+    chunks: review.chunkAnalyses,
+    passes: review.analysisPasses,
+    findings: review.pluginFindings,
+    triage: await loadReviewTriage(prisma, review),
+  };
+  const { risk, ...counts } = countReviewOutput(input);
+  const gate = evaluateReviewGate(policy, input, { risk, ...counts });
+  const status: CiStatus = gate.passed ? 'passed' : 'failed';
+
+  return {
+    status,
+    exitCode: CI_EXIT_CODES[status],
+    reviewId: review.id,
+    prUrl: review.prUrl,
+    decision: input.decision,
+    risk,
+    counts,
+    checks: gate.checks,
+    reportPath: outcome.reportPath ?? null,
+    error: null,
+  };
+};
+
+/**
+ * Runs the review quietly, writes the summary and returns the exit code
+ */
+export const ciReviewHandler = async (
+  input: Parameters<typeof reviewCommandHandler>[0] & { summaryPath: string }
+): Promise<number> => {
+  const { summaryPath, ...reviewInput } = input;
+  const prUrl = input.url ?? null;
+
+  let summary: CiSummary;
+  const restore = silenceStdout();
+  try {
+    const outcome = await reviewCommandHandler(reviewInput);
+    summary = outcome.status === 'completed'
+      ? await summarizeReviewGate(input.prisma, outcome, input.config?.gate)
+      : errorSummary(prUrl, outcome.error || 'Review failed', outcome.taskId);
+  } catch (error: any) {
+    summary = errorSummary(prUrl, error.message || String(error));
+  } finally {
+    restore();
+  }
+
+  const outputPath = path.resolve(summaryPath);
+  fs.writeFileSync(outputPath, JSON.stringify(summary, null, 2));
+
+  const colour = summary.status === 'passed' ? chalk.green : chalk.red;
+  console.log(colour(`hikma-pr gate ${summary.status}${summary.reviewId ? ` (review ${summary.reviewId})` : ''}`));
+  for (const check of summary.checks) {
+    console.log(`  ${check.passed ? chalk.green('pass') : chalk.red('FAIL')} ${check.name}: ${check.message}`);
+  }
+  if (summary.error) {
+    console.log(`  ${chalk.red('error')} ${summary.error}`);
+  }
+  console.log(chalk.gray(`Summary written to ${outputPath}`));
+
+  return summary.exitCode;
+};
@@ -0,0 +1,21 @@
+/**
+ * Handler for the 'config' command - shows the configuration a review would use
+ */
+import yaml from 'js-yaml';
+import chalk from 'chalk';
+import { loadConfiguration } from '../config/configLoader';
+
+/**
+ * Prints the effective configuration as YAML, preceded by the layers it was merged from.
+ * The output is itself a valid .hikmapr.yml.
+ */
+export const configPrintHandler = (options: { repoPath?: string; configPath?: string }) => {
+  const { config, sources } = loadConfiguration(options);
+
+  console.log(chalk.gray(`# Effective hikma-pr configuration`));
+  console.log(chalk.gray(`# Merged from (later wins):`));
+  sources.forEach(source => {
+    console.log(chalk.gray(`#   ${source.name}${source.location ? `: ${source.location}` : ''}`));
+  });
+  process.stdout.write(yaml.dump(config, { noRefs: true }));
+};
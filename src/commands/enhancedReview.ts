@@ -12,6 +12,7 @@ import os from 'os';
 import { ComprehensiveReviewWorkflow } from '../workflows/comprehensiveReviewWorkflow.js';
 import { ComprehensiveReview } from '../types/analysis.js';
 import { ENHANCED_SYSTEM_CONFIG } from '../config/enhancedConfig.js';
+import { getRepositoryKey } from '../codeHosts/reviewUrl';
 
 interface EnhancedReviewOptions {
   useComprehensiveAnalysis?: boolean;
@@ -49,6 +50,7 @@ export async function enhancedReview(
       data: {
         id: taskId,
         prUrl,
+        repository: getRepositoryKey(prUrl),
         startedAt: startTime,
         state: {
           phase: 'initialization',
@@ -0,0 +1,78 @@
+/**
+ * Handler for the 'findings' command - lists and triages the findings of a review
+ */
+import { PrismaClient } from '@prisma/client';
+import { TRIAGE_STATUSES, isDismissed, loadReviewTriage, parseTriageInput, triageFinding } from '../services/findingTriage';
+import chalk from 'chalk';
+
+const loadReview = async (prisma: PrismaClient, taskId: string) => {
+  const review = await prisma.review.findUnique({ where: { id: taskId }, select: { id: true, prUrl: true } });
+  if (!review) {
+    throw new Error(`No review found with ID ${taskId}`);
+  }
+  return review;
+};
+
+/**
+ * Lists the triageable findings of a review with their ids and triage status
+ */
+export const findingsListHandler = async (prisma: PrismaClient, taskId: string) => {
+  const review = await loadReview(prisma, taskId);
+  const triage = await loadReviewTriage(prisma, review);
+
+  console.log(chalk.bold.cyan(`\n🗂️  Findings of ${review.prUrl}`));
+  console.log(chalk.bold.cyan('='.repeat(50)));
+
+  if (triage.findings.length === 0) {
+    console.log(chalk.yellow(`📭 This review has no findings that can be triaged.`));
+    return;
+  }
+
+  for (const finding of triage.findings) {
+    const decision = triage.decisions.get(finding.id);
+    const status = decision?.status || 'open';
+    const location = finding.line ? `${finding.filePath}:${finding.line}` : finding.filePath;
+    const statusText = isDismissed(decision) ? chalk.gray(status) : status === 'open' ? chalk.yellow(status) : chalk.green(status);
+    console.log(`\n${statusText} ${chalk.blue(location)} ${chalk.gray(`[${finding.rule}]`)}`);
+    console.log(`   ${finding.title}`);
+    console.log(chalk.gray(`   🔑 ${finding.id}`));
+    if (decision && decision.reviewId !== review.id) {
+      console.log(chalk.gray(`   ↪ dismissed in review ${decision.reviewId}`));
+    }
+    if (decision?.note || decision?.author) {
+      console.log(chalk.gray(`   📝 ${[decision.note, decision.author && `— ${decision.author}`].filter(Boolean).join(' ')}`));
+    }
+  }
+
+  console.log(chalk.bold.cyan('\n' + '='.repeat(50)));
+  console.log(chalk.blue(`💡 To triage a finding: ${chalk.cyan(`hikma-pr findings triage ${taskId} <findingId> --status <${TRIAGE_STATUSES.join('|')}>`)}`));
+};
+
+/**
+ * Records the triage status of one finding
+ */
+export const findingsTriageHandler = async (
+  prisma: PrismaClient,
+  taskId: string,
+  findingId: string,
+  options: { status?: string; note?: string; author?: string; glob?: string }
+) => {
+  const { value, errors } = parseTriageInput(options);
+  if (!value) {
+    throw new Error(`Invalid triage: ${errors.join('; ')}`);
+  }
+
+  await loadReview(prisma, taskId);
+  const decision = await triageFinding(prisma, taskId, findingId, value);
+  if (!decision) {
+    throw new Error(`Review ${taskId} has no finding ${findingId} that can be triaged; see \`hikma-pr findings list ${taskId}\``);
+  }
+
+  console.log(chalk.green(`✅ Marked ${findingId} as ${chalk.yellow(decision.status)}`));
+  if (isDismissed(decision)) {
+    console.log(chalk.gray(`🙈 It will be left out of reports of this repository until it is reopened.`));
+  }
+  if (decision.status === 'false-positive') {
+    console.log(chalk.gray(`🔇 Similar findings in ${value.glob || 'the same file'} will not be reported by later reviews.`));
+  }
+};
@@ -0,0 +1,66 @@
+/**
+ * Handler for the 'publish' command - posts a stored review back to its PR.
+ */
+import { PrismaClient } from '@prisma/client';
+import { createCodeHostProvider } from '../codeHosts/codeHostFactory';
+import { buildReviewSubmission } from '../services/reviewPublisher';
+import { countDismissed, loadReviewTriage, withoutDismissed } from '../services/findingTriage';
+import { GitHubMethod, PublishResult } from '../types/codeHost';
+import chalk from 'chalk';
+
+export const publishCommandHandler = async (taskId: string, prisma: PrismaClient, githubMethod?: GitHubMethod): Promise<PublishResult> => {
+  const review = await prisma.review.findUnique({
+    where: { id: taskId },
+    include: {
+      chunkAnalyses: true,
+      analysisPasses: true,
+      pluginFindings: true,
+    },
+  });
+
+  if (!review) {
+    throw new Error(`No review found with ID ${taskId}`);
+  }
+
+  const state = review.state as any;
+  if (state?.local_source) {
+    throw new Error('Local reviews have no pull request to publish to.');
+  }
+  if (!review.completedAt) {
+    console.log(chalk.yellow(`⚠️  Review ${taskId} did not complete; publishing the findings stored so far`));
+  }
+
+  const codeHost = createCodeHostProvider({ url: review.prUrl }, { githubMethod });
+  if (!codeHost.publishReview) {
+    throw new Error(`Publishing is not supported for ${codeHost.type} reviews.`);
+  }
+
+  // Findings dismissed during triage, here or in an earlier review of the repository, are not posted
+  const triage = await loadReviewTriage(prisma, review);
+  const { passes, findings } = withoutDismissed(triage, review.analysisPasses, review.pluginFindings);
+  const suppressed = Object.values(countDismissed(triage)).reduce((sum, count) => sum + count, 0);
+  if (suppressed > 0) {
+    console.log(chalk.blue(`🙈 Leaving out ${chalk.yellow(suppressed)} dismissed finding${suppressed === 1 ? '' : 's'}`));
+  }
+
+  const submission = buildReviewSubmission({
+    synthesis: state?.synthesis_data,
+    headSha: state?.pr_details?.head_sha,
+    chunks: review.chunkAnalyses,
+    passes,
+    findings,
+  });
+
+  console.log(chalk.blue(`📝 Review event: ${chalk.yellow(submission.event)} | Inline comments: ${chalk.yellow(submission.comments.length)}`));
+
+  const result = await codeHost.publishReview(submission);
+
+  console.log(chalk.bold.green(`\n🎉 Review published to ${review.prUrl}`));
+  console.log(chalk.blue(`💬 Inline comments: ${chalk.yellow(result.created)} new, ${chalk.yellow(result.updated)} updated`));
+  console.log(chalk.blue(`📋 Summary: ${result.summaryUpdated ? 'updated' : 'posted'}`));
+  if (result.url) {
+    console.log(chalk.gray(`🔗 ${result.url}`));
+  }
+
+  return result;
+};
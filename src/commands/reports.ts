@@ -1,7 +1,9 @@
 /**
- * Handler for the 'reports' command - manages saved markdown reports
+ * Handler for the 'reports' command - manages saved markdown reports and exports
  */
 import { PrismaClient } from '@prisma/client';
+import { loadReviewTriage } from '../services/findingTriage';
+import { buildSarifLog } from '../services/sarifExporter';
 import chalk from 'chalk';
 import fs from 'fs';
 import path from 'path';
@@ -211,3 +213,40 @@ export const cleanReportsHandler = async (daysOld: number = 30) => {
     console.log(chalk.blue(`\n📄 No reports older than ${daysOld} days found.`));
   }
 }; 
+
+/**
+ * Exports the findings of a review for other tools, by default to
+ * hikma-pr-<taskId>.sarif in the current directory
+ */
+export const exportReportHandler = async (
+  prisma: PrismaClient,
+  taskId: string,
+  options: { format: string; output?: string }
+) => {
+  if (options.format !== 'sarif') {
+    throw new Error(`Unsupported export format "${options.format}"; expected sarif`);
+  }
+
+  const review = await prisma.review.findUnique({
+    where: { id: taskId },
+    include: { chunkAnalyses: true, analysisPasses: true, pluginFindings: true },
+  });
+  if (!review) {
+    throw new Error(`No review found with ID ${taskId}`);
+  }
+
+  const triage = await loadReviewTriage(prisma, review);
+  const log = buildSarifLog({
+    review,
+    chunks: review.chunkAnalyses,
+    passes: review.analysisPasses,
+    findings: review.pluginFindings,
+    triage,
+  });
+
+  const outputPath = path.resolve(options.output || `hikma-pr-${taskId}.sarif`);
+  fs.writeFileSync(outputPath, JSON.stringify(log, null, 2));
+  const results = log.runs[0].results;
+  const suppressed = results.filter(result => result.suppressions).length;
+  console.log(chalk.green(`✅ Exported ${chalk.yellow(results.length)} results (${suppressed} suppressed) to: ${chalk.yellow(outputPath)}`));
+};
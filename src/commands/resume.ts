@@ -1,15 +1,65 @@
 /**
- * Handler for the 'resume' command.
+ * Handler for the 'resume' command - continues an interrupted review from
+ * the last workflow checkpoint stored in the database.
  */
 import { PrismaClient } from '@prisma/client';
 import { getAppWithConfig } from '../graph/workflow';
-import { GitHubMethod } from '../index';
+import { PassCache } from '../services/passCache';
+import { ContextBudgetLog } from '../services/contextBudget';
+import { SuppressionStore } from '../services/suppressionStore';
+import { getTriageRepository } from '../services/findingTriage';
+import { PluginService } from '../services/pluginService';
+import { HikmaConfig, toAnalysisConfig } from '../config/configLoader';
+import { DEFAULT_HIKMA_CONFIG } from '../config/hikmaConfig';
+import { GitHubMethod } from '../types/codeHost';
+import { ReviewState } from '../types/analysis';
+import { finishReview, saveFileResults } from './review';
 import ora from 'ora';
 import chalk from 'chalk';
 
-export const resumeCommandHandler = async (taskId: string, prisma: PrismaClient, githubMethod: GitHubMethod) => {
+// Channels whose updates are merged into the previous value rather than replacing it
+const MERGED_CHANNELS = ['file_chunks', 'chunk_analyses', 'file_results', 'progress'] as const;
+
+const NODE_LABELS: Record<string, string> = {
+  establishContext: 'Fetching PR details',
+  filterFiles: 'Filtering changed files',
+  setupFileChunks: 'Chunking the next file',
+  analyzeChunk: 'Analyzing the next chunks',
+  synthesizeFile: 'Synthesizing the current file',
+  finalSynthesis: 'Writing the final report',
+};
+
+const formatProgress = (progress: ReviewState['progress']): string => {
+  if (!progress) return 'no progress yet';
+  return `files ${progress.completed_files}/${progress.total_files}, `
+    + `chunks ${progress.completed_chunks}/${progress.total_chunks}, `
+    + `passes ${progress.completed_passes}/${progress.total_passes}`;
+};
+
+const applyUpdate = (state: ReviewState, update: Partial<ReviewState>): ReviewState => {
+  const next: any = { ...state, ...update };
+  for (const channel of MERGED_CHANNELS) {
+    if (update[channel]) {
+      next[channel] = { ...(state[channel] || {}), ...update[channel] };
+    }
+  }
+  return next;
+};
+
+export const resumeCommandHandler = async (input: {
+  taskId: string;
+  prisma: PrismaClient;
+  pluginService: PluginService;
+  githubMethod: GitHubMethod;
+  provider: string;
+  llmUrl?: string;
+  llmModel?: string;
+  config?: HikmaConfig;
+}) => {
+  const { taskId, prisma, pluginService, githubMethod } = input;
+  const hikmaConfig = input.config || DEFAULT_HIKMA_CONFIG;
   const spinner = ora(`Resuming hikmapr Review [ID: ${taskId}]...`).start();
-  
+
   const review = await prisma.review.findUnique({
     where: { id: taskId },
   });
@@ -19,11 +69,40 @@ export const resumeCommandHandler = async (taskId: string, prisma: PrismaClient,
     process.exit(1);
   }
 
-  // Use the advanced multi-pass analysis workflow  
-  const { app, config: workflowConfig } = getAppWithConfig();
-  
-  console.log(chalk.gray(`🔬 Using Multi-Pass Analysis architecture for resume operation`));
-  console.log(chalk.gray(`🔧 Workflow configured with recursion limit: ${workflowConfig.recursionLimit}`));
+  if (review.completedAt) {
+    spinner.info(chalk.blue(`Review ${taskId} already completed on ${review.completedAt.toLocaleString()}`));
+    console.log(chalk.gray(`💡 View file analyses: ${chalk.cyan(`hikma-pr reports files ${taskId}`)}`));
+    return;
+  }
+
+  // The provider type comes from the configuration; the server and model default to the review's
+  const modelInfo = {
+    provider: input.provider,
+    providerUrl: input.llmUrl || review.modelUrl || '',
+    modelName: input.llmModel || review.modelName || '',
+    contextWindow: hikmaConfig.models.default.context_window,
+  };
+  if (!modelInfo.providerUrl || !modelInfo.modelName) {
+    spinner.fail(chalk.red(`Error: Review ${taskId} has no recorded LLM server or model; pass --server and --model`));
+    process.exit(1);
+  }
+
+  const suppressions = await SuppressionStore.load(prisma, getTriageRepository(review.prUrl));
+  pluginService.setPluginSelection(hikmaConfig.plugins);
+  pluginService.setSuppressions(suppressions);
+
+  const passCache = new PassCache(prisma);
+  const contextLog = new ContextBudgetLog();
+  const { app, config: workflowConfig } = getAppWithConfig({
+    ...toAnalysisConfig(hikmaConfig),
+    prisma,
+    modelInfo,
+    pluginService,
+    codeHost: { githubMethod },
+    passCache,
+    suppressions,
+    contextLog,
+  });
 
   const config = {
     configurable: {
@@ -32,36 +111,69 @@ export const resumeCommandHandler = async (taskId: string, prisma: PrismaClient,
     ...workflowConfig, // Apply the workflow configuration
   };
 
-  const initialState = review.state as any;
-  let lastState: any = {};
-
-  for await (const event of await app.stream(null, config)) {
-     const state = Object.values(event)[0] as any;
-     lastState = state;
-     
-     // Ensure analyzed_files is always an object to prevent Object.keys errors
-     const analyzedFiles = state.analyzed_files || {};
-     const filesToReview = state.files_to_review || [];
-     
-     if(state.pr_details && !state.files_to_review) {
-         spinner.succeed(chalk.green('Resumed: Fetched PR Details'));
-         spinner.start('Getting changed file list...');
-     } else if (filesToReview.length > 0 && Object.keys(analyzedFiles).length === 0) {
-         spinner.succeed(chalk.green(`Resumed: Get Changed File List (${filesToReview.length} files found)`));
-         spinner.start('Analyzing files...');
-     } else if (Object.keys(analyzedFiles).length > 0) {
-         spinner.text = `Analyzing files... (${Object.keys(analyzedFiles).length}/${filesToReview.length + Object.keys(analyzedFiles).length})`;
-     }
-
-     await prisma.review.update({
-         where: { id: taskId },
-         data: { state: state },
-     });
+  const snapshot = await app.getState(config);
+  if (!snapshot.createdAt) {
+    spinner.fail(chalk.red(`Error: Review ${taskId} has no saved checkpoint to resume from`));
+    console.log(chalk.gray(`💡 It was started before checkpointing existed or failed before its first step; start a new review instead.`));
+    process.exit(1);
+  }
+
+  let lastState = snapshot.values as ReviewState;
+  const nextNode = snapshot.next[0];
+  spinner.succeed(chalk.green(`Loaded checkpoint from ${new Date(snapshot.createdAt).toLocaleString()}`));
+  console.log(chalk.blue(`📊 Progress so far: ${chalk.yellow(formatProgress(lastState.progress))}`));
+  if (lastState.current_file) {
+    console.log(chalk.blue(`📁 Current file: ${chalk.yellow(lastState.current_file)} (${lastState.chunks_to_process?.length || 0} chunks left)`));
+  }
+  console.log(chalk.blue(`▶️  Resuming at: ${chalk.yellow(nextNode ? NODE_LABELS[nextNode] || nextNode : 'report generation')}`));
+  console.log(chalk.gray(`🤖 Using ${chalk.yellow(modelInfo.provider)} providerURL ${chalk.yellow(modelInfo.providerUrl)} with ${chalk.yellow(modelInfo.modelName)} model`));
+
+  await prisma.review.update({ where: { id: taskId }, data: { error: null } });
+
+  const progressSpinner = ora('Continuing workflow...').start();
+  try {
+    // A null input continues from the checkpoint instead of starting a new run
+    if (nextNode) {
+      for await (const event of await app.stream(null, config)) {
+        const [node, update] = Object.entries(event)[0] as [string, Partial<ReviewState>];
+        lastState = applyUpdate(lastState, update || {});
+
+        await saveFileResults(prisma, taskId, update?.file_results);
+        await prisma.review.update({
+          where: { id: taskId },
+          data: { state: lastState as any, headSha: lastState.pr_details?.head_sha },
+        });
+
+        progressSpinner.text = `${formatProgress(lastState.progress)} (finished ${node})`;
+      }
+    }
+  } catch (error: any) {
+    progressSpinner.fail(chalk.red(`Error while resuming: ${error.message || error}`));
+    await prisma.review.update({
+      where: { id: taskId },
+      data: { state: lastState as any, error: error.message || String(error) },
+    }).catch(() => undefined); // The checkpoint still has everything up to the failed step
+    console.log(chalk.gray(`💡 Run ${chalk.cyan(`hikma-pr resume ${taskId}`)} again to continue from the last completed step.`));
+    return;
   }
-  
-  spinner.succeed(chalk.green('Resumed analysis complete!'));
-  
-  console.log(chalk.bold.magenta('\n--- hikmapr PR Review Report ---'));
-  console.log(lastState.final_report);
-  console.log(chalk.bold.magenta('--- End of Report ---'));
+  progressSpinner.succeed(chalk.green(`Workflow finished - ${formatProgress(lastState.progress)}`));
+
+  // Checkpointed values are authoritative: they include every merged channel
+  lastState = (await app.getState(config)).values as ReviewState;
+  await saveFileResults(prisma, taskId, lastState.file_results);
+
+  await finishReview({
+    taskId,
+    prUrl: review.prUrl,
+    localSource: lastState.local_source,
+    prisma,
+    startTime: review.startedAt || review.createdAt,
+    lastState,
+    modelInfo,
+    previousReviewId: review.previousReviewId || undefined,
+    passCache,
+    suppressions,
+    contextLog,
+    githubMethod,
+  });
 };
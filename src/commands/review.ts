@@ -1,10 +1,23 @@
 /**
  * Handler for the 'review' command - now supports both V1 and V2 workflows.
  */
-// import { loadConfiguration } from '../config/configLoader';
+import { HikmaConfig, toAnalysisConfig } from '../config/configLoader';
+import { DEFAULT_HIKMA_CONFIG } from '../config/hikmaConfig';
 import { PrismaClient } from '@prisma/client';
 import { getAppWithConfig, DEFAULT_CONFIG } from '../graph/workflow';
-// import { GitHubMethod } from '../index';
+import { ExcludedFile, LanguageMix, LocalSource } from '../types/analysis';
+import { buildLocalReviewUrl, validateLocalSource } from '../services/localGitService';
+import { getRepositoryKey, parseReviewUrl, tryParseReviewUrl } from '../codeHosts/reviewUrl';
+import { GitHubMethod } from '../types/codeHost';
+import { FindingComparison, TrackedFinding, compareReviews, findPreviousReviewId } from '../services/incrementalReview';
+import { PassCache, PassCacheSessionStats } from '../services/passCache';
+import { getChunkPasses } from '../services/passRegistry';
+import { LANGUAGE_LABELS } from '../services/fileFilterService';
+import { ContextBudgetLog, ContextDrop } from '../services/contextBudget';
+import { passLabel } from '../services/reviewPublisher';
+import { ReviewTriage, countDismissed, getTriageRepository, isDismissed, loadReviewTriage } from '../services/findingTriage';
+import { SuppressionSessionStats, SuppressionStore } from '../services/suppressionStore';
+import { ReviewEvent } from '../types/api';
 import { v4 as uuidv4 } from 'uuid';
 import ora from 'ora';
 import chalk from 'chalk';
@@ -12,6 +25,152 @@ import fs from 'fs';
 import path from 'path';
 import os from 'os';
 
+// Keeps the incremental section readable on PRs with many findings
+const MAX_COMPARISON_ITEMS = 30;
+
+/**
+ * Lists resolved, still open and new findings of an incremental review
+ */
+const formatComparison = (state: any, comparison: FindingComparison): string => {
+  const formatItems = (findings: TrackedFinding[]) => {
+    const items = findings.slice(0, MAX_COMPARISON_ITEMS).map(finding => {
+      const location = finding.line ? `${finding.filePath}:${finding.line}` : finding.filePath;
+      return `- \`${location}\` — **${finding.label}** (${finding.severity}): ${finding.title}`;
+    });
+    if (findings.length > MAX_COMPARISON_ITEMS) {
+      items.push(`- *…and ${findings.length - MAX_COMPARISON_ITEMS} more*`);
+    }
+    return items.length > 0 ? items.join('\n') : '*None*';
+  };
+
+  const changedFiles = state.changed_since_previous;
+  let markdown = `## 🔁 Changes Since Previous Review\n\n`;
+  markdown += `Compared with review \`${state.previous_review_id}\`. `;
+  if (changedFiles) {
+    markdown += `${changedFiles.length} file${changedFiles.length === 1 ? '' : 's'} changed since then; `;
+  }
+  markdown += `${(state.reused_chunk_ids || []).length} unchanged chunks were carried forward without re-analysis.\n\n`;
+  markdown += `| Status | Findings |\n|--------|----------|\n`;
+  markdown += `| ✅ Resolved | ${comparison.resolved.length} |\n`;
+  markdown += `| ⏳ Still open | ${comparison.stillOpen.length} |\n`;
+  markdown += `| 🆕 New | ${comparison.introduced.length} |\n\n`;
+  markdown += `### ✅ Resolved\n\n${formatItems(comparison.resolved)}\n\n`;
+  markdown += `### 🆕 New\n\n${formatItems(comparison.introduced)}\n\n`;
+  markdown += `### ⏳ Still Open\n\n${formatItems(comparison.stillOpen)}\n\n---\n\n`;
+  return markdown;
+};
+
+/**
+ * Lists findings left out of the report's issue counts and findings because
+ * they were dismissed during triage
+ */
+const formatSuppressed = (triage: ReviewTriage): string => {
+  const suppressed = triage.findings.filter(finding => isDismissed(triage.decisions.get(finding.id)));
+  if (suppressed.length === 0) return '';
+
+  const counts = Object.entries(countDismissed(triage)).map(([status, count]) => `${count} ${status}`).join(', ');
+  let markdown = `## 🙈 Suppressed Findings\n\n`;
+  markdown += `${suppressed.length} finding${suppressed.length === 1 ? ' was' : 's were'} dismissed during triage (${counts}) and left out of the issue counts and findings of this report. Summaries written during the review are not rewritten and may still mention them.\n\n`;
+  for (const finding of suppressed.slice(0, MAX_COMPARISON_ITEMS)) {
+    const decision = triage.decisions.get(finding.id)!;
+    const location = finding.line ? `${finding.filePath}:${finding.line}` : finding.filePath;
+    const reason = [decision.note, decision.author && `— ${decision.author}`].filter(Boolean).join(' ');
+    markdown += `- \`${location}\` — **${finding.rule}** (${decision.status}): ${finding.title}${reason ? ` · _${reason}_` : ''}\n`;
+  }
+  if (suppressed.length > MAX_COMPARISON_ITEMS) {
+    markdown += `- *…and ${suppressed.length - MAX_COMPARISON_ITEMS} more*\n`;
+  }
+  return `${markdown}\n---\n\n`;
+};
+
+/**
+ * Findings of this run that were never reported because they match false positives triaged earlier
+ */
+const formatLearnedSuppressions = (stats: SuppressionSessionStats): string => {
+  if (stats.suppressed === 0) return '';
+
+  let markdown = `## 🔇 Learned Suppressions\n\n`;
+  markdown += `${stats.suppressed} finding${stats.suppressed === 1 ? ' was' : 's were'} not reported because ${stats.suppressed === 1 ? 'it matches' : 'they match'} false positives dismissed in earlier reviews of this repository.\n\n`;
+  markdown += `| Rule | Files | Reason | Suppressed |\n|------|-------|--------|------------|\n`;
+  for (const entry of stats.bySuppression) {
+    markdown += `| ${entry.rule} | \`${entry.fileGlob}\` | ${entry.reason.replace(/\|/g, '\\|')} | ${entry.count} |\n`;
+  }
+  return `${markdown}\n---\n\n`;
+};
+
+/**
+ * Header row with the languages the files were filtered for, and where they came from
+ */
+const formatLanguageRow = (mix: LanguageMix | undefined): string => {
+  if (!mix) return '';
+
+  const languages = mix.languages.map(({ language, files }) => `${LANGUAGE_LABELS[language]} (${files} file${files === 1 ? '' : 's'})`).join(', ');
+  const source = !mix.detected ? 'configured'
+    : mix.manifests.length > 0 ? `detected · ${mix.manifests.map(manifest => `\`${manifest}\``).join(', ')}`
+    : 'detected';
+  return `| **Languages** | ${languages} — ${source} |\n`;
+};
+
+const formatExcludedFiles = (excluded: ExcludedFile[] | undefined): string => {
+  if (!excluded || excluded.length === 0) return '';
+
+  let markdown = `## 🚫 Excluded Files\n\n`;
+  markdown += `${excluded.length} changed file${excluded.length === 1 ? ' was' : 's were'} not analyzed.\n\n`;
+  markdown += `| File | Reason |\n|------|--------|\n`;
+  for (const { file, reason, pattern } of excluded) {
+    markdown += `| \`${file}\` | ${reason}${pattern ? ` \`${pattern.replace(/\|/g, '\\|')}\`` : ''} |\n`;
+  }
+  return `${markdown}\n---\n\n`;
+};
+
+const formatContextDrops = (drops: ContextDrop[]): string => {
+  if (drops.length === 0) return '';
+
+  let markdown = `## ✂️ Context Budget\n\n`;
+  markdown += `${drops.length} prompt${drops.length === 1 ? ' was' : 's were'} cut to fit the context window of ${drops.length === 1 ? 'its' : 'their'} model; the model did not see the dropped part.\n\n`;
+  markdown += `| Step | Content | Model | Kept Tokens | Dropped Tokens |\n|------|---------|-------|-------------|----------------|\n`;
+  for (const drop of drops) {
+    markdown += `| ${drop.step} | ${drop.subject} | \`${drop.model}\` | ${drop.keptTokens} | ${drop.droppedTokens} |\n`;
+  }
+  return `${markdown}\n---\n\n`;
+};
+
+const formatCacheStats = (stats: PassCacheSessionStats): string => `## 💾 Pass Cache
+
+| Metric | Value |
+|--------|-------|
+| **Cache Hits** | ${stats.hits} |
+| **Cache Misses** | ${stats.misses} |
+| **Hit Rate** | ${Math.round(stats.hitRate * 100)}% |
+
+`;
+
+/**
+ * Lists the models that produced each pass, as recorded on the pass results
+ */
+const formatModelRouting = (state: any): string => {
+  const models = new Map<string, Set<string>>();
+  for (const result of Object.values(state.chunk_analyses || {}) as any[]) {
+    for (const pass of getChunkPasses(result)) {
+      if (!pass.model_name) continue;
+      const used = models.get(pass.pass_type) || new Set<string>();
+      used.add(`${pass.model_provider || 'unknown'}/${pass.model_name}`);
+      models.set(pass.pass_type, used);
+    }
+  }
+  if (models.size === 0) return '';
+
+  const rows = [...models.entries()]
+    .map(([passType, used]) => `| **${passLabel(passType)}** | ${[...used].map(model => `\`${model}\``).join(', ')} |`);
+  return `## 🧭 Model Routing
+
+| Pass | Model |
+|------|-------|
+${rows.join('\n')}
+
+`;
+};
+
 /**
  * Generates a comprehensive markdown report from the review state
  */
@@ -19,10 +178,11 @@ const generateMarkdownReport = async (state: any, taskId: string, prUrl: string,
   startTime: Date;
   endTime: Date;
   modelInfo: {
+    provider: string;
     providerUrl: string;
     modelName: string;
   };
-}, reviewRecord?: any): Promise<string> => {
+}, reviewRecord?: any, comparison?: FindingComparison, cacheStats?: PassCacheSessionStats, triage?: ReviewTriage, suppressionStats?: SuppressionSessionStats, contextDrops: ContextDrop[] = []): Promise<string> => {
   const timestamp = new Date().toISOString();
   const prDetails = state.pr_details || {};
 
@@ -36,10 +196,17 @@ const generateMarkdownReport = async (state: any, taskId: string, prUrl: string,
   const totalFileCount = analyzedFilesCount + fileResultsCount;
 
   // Extract owner/repo from URL for cleaner display
-  const urlMatch = prUrl.match(/github\.com\/([^/]+)\/([^/]+)\/pull\/(\d+)/);
-  const owner = urlMatch ? urlMatch[1] : 'unknown';
-  const repo = urlMatch ? urlMatch[2] : 'unknown';
-  const prNumber = urlMatch ? urlMatch[3] : 'unknown';
+  const reviewRef = tryParseReviewUrl(prUrl);
+  const owner = reviewRef ? reviewRef.owner : 'unknown';
+  const repo = reviewRef ? reviewRef.repo : 'unknown';
+  const prNumber = reviewRef ? reviewRef.number : 'unknown';
+
+  // Local reviews have no PR number; describe the revision range instead
+  const localSource = state.local_source;
+  const repositoryName = localSource ? (state.pr_context?.repo_name || 'local') : `${owner}/${repo}`;
+  const targetRow = localSource
+    ? `| **Revision Range** | \`${localSource.base}...${localSource.head}\` |`
+    : `| **PR Number** | #${prNumber} |`;
 
   // Calculate elapsed time - prefer database timing if available
   let timingInfo = '';
@@ -86,7 +253,7 @@ const generateMarkdownReport = async (state: any, taskId: string, prUrl: string,
       ? `${elapsedMinutes}m ${remainingSeconds}s`
       : `${elapsedSeconds}s`;
 
-    modelProvider = analysisMetadata.modelInfo.providerUrl;
+    modelProvider = analysisMetadata.modelInfo.provider;
     modelName = analysisMetadata.modelInfo.modelName;
 
     timingInfo = `
@@ -110,21 +277,21 @@ const generateMarkdownReport = async (state: any, taskId: string, prUrl: string,
 
 | Field | Value |
 |-------|-------|
-| **Repository** | \`${owner}/${repo}\` |
-| **PR Number** | #${prNumber} |
+| **Repository** | \`${repositoryName}\` |
+${targetRow}
 | **PR Title** | ${prDetails.title || 'No title'} |
 | **PR URL** | [${prUrl}](${prUrl}) |
 | **Review Date** | ${new Date(timestamp).toLocaleString()} |
 | **Task ID** | \`${taskId}\` |
 | **Files Analyzed** | ${totalFileCount} |
-
-${timingInfo}## 📝 PR Description
+${formatLanguageRow(state.language_mix)}
+${timingInfo}${formatModelRouting(state)}${cacheStats ? formatCacheStats(cacheStats) : ''}## 📝 PR Description
 
 ${prDetails.body || '*No description provided*'}
 
 ---
 
-## 🔍 File Analysis Summary
+${comparison ? formatComparison(state, comparison) : ''}${triage ? formatSuppressed(triage) : ''}${suppressionStats ? formatLearnedSuppressions(suppressionStats) : ''}${formatContextDrops(contextDrops)}${formatExcludedFiles(state.excluded_files)}## 🔍 File Analysis Summary
 
 `;
 
@@ -139,6 +306,14 @@ ${prDetails.body || '*No description provided*'}
       markdown += `---\n\n`;
     }
 
+    // Pass issues dismissed during triage, by file, come off the issue counts
+    const dismissedIssues = new Map<string, number>();
+    for (const finding of triage?.findings || []) {
+      if (finding.source === 'analysis' && isDismissed(triage!.decisions.get(finding.id))) {
+        dismissedIssues.set(finding.filePath, (dismissedIssues.get(finding.filePath) || 0) + 1);
+      }
+    }
+
     // Handle advanced workflow file_results (structured FileAnalysisResult objects)
     for (const [fileName, result] of Object.entries(fileResults)) {
       const fileResult = result as any; // Type assertion since we're dealing with any
@@ -148,7 +323,7 @@ ${prDetails.body || '*No description provided*'}
         markdown += `**Risk Level:** ${fileResult.overall_risk}\n`;
       }
       if (fileResult.total_issues !== undefined) {
-        markdown += `**Issues Found:** ${fileResult.total_issues}\n`;
+        markdown += `**Issues Found:** ${Math.max(0, fileResult.total_issues - (dismissedIssues.get(fileName) || 0))}\n`;
       }
       if (fileResult.total_chunks !== undefined) {
         markdown += `**Chunks Analyzed:** ${fileResult.total_chunks}\n`;
@@ -179,7 +354,7 @@ ${prDetails.body || '*No description provided*'}
             { line: 'asc' },
             { severity: 'desc' }
           ]
-        });
+        }).then(findings => findings.filter(finding => !isDismissed(triage?.decisions.get(finding.id))));
 
         if (pluginFindings.length > 0) {
           // Count findings by severity
@@ -282,7 +457,7 @@ ${prDetails.body || '*No description provided*'}
 /**
  * Saves the markdown report to a file
  */
-const saveMarkdownReport = (markdown: string, prUrl: string, taskId: string): string => {
+const saveMarkdownReport = (markdown: string, prUrl: string, taskId: string, localSource?: LocalSource): string => {
   // Create reports directory if it doesn't exist
   const reportsDir = path.join(os.homedir(), '.hikmapr', 'reports');
   if (!fs.existsSync(reportsDir)) {
@@ -290,10 +465,13 @@ const saveMarkdownReport = (markdown: string, prUrl: string, taskId: string): st
   }
 
   // Generate filename based on repo and PR number with full timestamp
-  const urlMatch = prUrl.match(/github\.com\/([^/]+)\/([^/]+)\/pull\/(\d+)/);
-  const owner = urlMatch ? urlMatch[1] : 'unknown';
-  const repo = urlMatch ? urlMatch[2] : 'unknown';
-  const prNumber = urlMatch ? urlMatch[3] : 'unknown';
+  const reviewRef = tryParseReviewUrl(prUrl);
+  const owner = reviewRef ? reviewRef.owner.replace(/\//g, '-') : 'unknown';
+  const repo = reviewRef ? reviewRef.repo : 'unknown';
+  const prNumber = reviewRef ? reviewRef.number : 'unknown';
+  const prefix = localSource
+    ? `local-${path.basename(path.resolve(localSource.repo_path))}-${localSource.head.replace(/[^\w.-]+/g, '_')}`
+    : `${owner}-${repo}-PR${prNumber}`;
 
   // Create a detailed timestamp: YYYY-MM-DD-HHMMSS
   const now = new Date();
@@ -301,7 +479,7 @@ const saveMarkdownReport = (markdown: string, prUrl: string, taskId: string): st
   const time = now.toTimeString().split(' ')[0].replace(/:/g, ''); // HHMMSS
   const timestamp = `${date}-${time}`;
 
-  const filename = `${owner}-${repo}-PR${prNumber}-${timestamp}-${taskId.slice(0, 8)}.md`;
+  const filename = `${prefix}-${timestamp}-${taskId.slice(0, 8)}.md`;
   const filepath = path.join(reportsDir, filename);
 
   // Write the file
@@ -310,38 +488,271 @@ const saveMarkdownReport = (markdown: string, prUrl: string, taskId: string): st
   return filepath;
 };
 
+/**
+ * Stores the synthesis of each analyzed file, once per file
+ */
+export const saveFileResults = async (prisma: PrismaClient, taskId: string, fileResults?: Record<string, any>) => {
+  for (const [fileName, result] of Object.entries(fileResults || {})) {
+    // Check if this file analysis already exists to avoid duplicates
+    const existingAnalysis = await prisma.fileAnalysis.findUnique({
+      where: {
+        reviewId_fileName: {
+          reviewId: taskId,
+          fileName: fileName
+        }
+      }
+    });
+
+    if (!existingAnalysis && result && typeof result === 'object') {
+      const analysisText = result.file_synthesis || 'No synthesis available';
+      console.log(chalk.gray(`💾 Saving advanced file analysis for: ${fileName}`));
+      await prisma.fileAnalysis.create({
+        data: {
+          reviewId: taskId,
+          fileName: fileName,
+          analysis: analysisText,
+          diffSize: analysisText.length,
+        }
+      });
+      console.log(chalk.green(`✅ Advanced file analysis saved for: ${fileName}`));
+    }
+  }
+};
+
+/**
+ * Records completion of a review whose workflow ran to the end, then writes,
+ * prints and (optionally) publishes its report
+ */
+export const finishReview = async (params: {
+  taskId: string;
+  prUrl: string;
+  localSource?: LocalSource;
+  prisma: PrismaClient;
+  startTime: Date;
+  lastState: any;
+  modelInfo: { provider: string; providerUrl: string; modelName: string };
+  previousReviewId?: string;
+  passCache?: PassCache;
+  suppressions?: SuppressionStore;
+  contextLog?: ContextBudgetLog;
+  publish?: boolean;
+  githubMethod?: GitHubMethod;
+}): Promise<string | undefined> => {
+  const { taskId, prUrl, localSource, prisma, startTime, lastState, modelInfo, previousReviewId, passCache, suppressions, contextLog, githubMethod } = params;
+  let reportPath: string | undefined;
+
+  const endTime = new Date(); // Track end time
+  const elapsedMs = endTime.getTime() - startTime.getTime();
+  const elapsedSeconds = Math.round(elapsedMs / 1000);
+  const elapsedMinutes = Math.floor(elapsedSeconds / 60);
+  const remainingSeconds = elapsedSeconds % 60;
+
+  const elapsedFormatted = elapsedMinutes > 0
+    ? `${elapsedMinutes}m ${remainingSeconds}s`
+    : `${elapsedSeconds}s`;
+
+  console.log(chalk.bold.green(`\n🎉 Analysis Complete!`));
+  console.log(chalk.blue(`⏱️  Total time: ${chalk.yellow(elapsedFormatted)}`));
+  console.log(chalk.blue(`🏁 Finished at: ${chalk.gray(endTime.toLocaleString())}`));
+  console.log(chalk.blue(`📝 Task ID for future reference: ${chalk.yellow(taskId)}`));
+
+  // Update database with completion time
+  try {
+    await prisma.review.update({
+      where: { id: taskId },
+      data: {
+        state: lastState,
+        completedAt: endTime
+      },
+    });
+    console.log(chalk.gray(`💾 Final state and timing saved to database`));
+  } catch (dbError) {
+    console.log(chalk.yellow(`⚠️  Could not save completion time to database: ${dbError}`));
+  }
+
+  // Show file analysis database summary
+  try {
+    const fileAnalysisCount = await prisma.fileAnalysis.count({
+      where: { reviewId: taskId }
+    });
+    console.log(chalk.blue(`💾 Individual file analyses saved to database: ${chalk.yellow(fileAnalysisCount)}`));
+    console.log(chalk.gray(`💡 View file analyses: ${chalk.cyan(`hikma reports files ${taskId}`)}`));
+  } catch (error) {
+    console.log(chalk.yellow(`⚠️  Could not verify file analysis count in database`));
+  }
+
+  // Generate and save markdown report with timing and model information
+  console.log(chalk.blue(`\n📄 Generating markdown report...`));
+  try {
+    const analysisMetadata = {
+      startTime,
+      endTime,
+      modelInfo
+    };
+
+    // Fetch the review record from database to get accurate timing
+    let reviewRecord = null;
+    try {
+      reviewRecord = await prisma.review.findUnique({
+        where: { id: taskId }
+      });
+    } catch (dbError) {
+      console.log(chalk.yellow(`⚠️  Could not fetch review record for timing info`));
+    }
+
+    let comparison: FindingComparison | undefined;
+    if (previousReviewId) {
+      comparison = await compareReviews(prisma, previousReviewId, taskId);
+      console.log(chalk.blue(`🔁 Since the previous review: ${chalk.green(`${comparison.resolved.length} resolved`)}, ${chalk.yellow(`${comparison.stillOpen.length} still open`)}, ${chalk.red(`${comparison.introduced.length} new`)}`));
+    }
+
+    const cacheStats = passCache?.getSessionStats();
+    if (cacheStats) {
+      console.log(chalk.blue(`💾 Pass cache: ${chalk.yellow(cacheStats.hits)} hits, ${chalk.yellow(cacheStats.misses)} misses (${Math.round(cacheStats.hitRate * 100)}% hit rate)`));
+    }
+
+    const triage = await loadReviewTriage(prisma, { id: taskId, prUrl });
+    const suppressedCount = Object.values(countDismissed(triage)).reduce((sum, count) => sum + count, 0);
+    if (suppressedCount > 0) {
+      console.log(chalk.blue(`🙈 ${chalk.yellow(suppressedCount)} finding${suppressedCount === 1 ? '' : 's'} dismissed during triage left out of the report`));
+    }
+
+    const suppressionStats = suppressions?.getSessionStats();
+    if (suppressionStats?.suppressed) {
+      console.log(chalk.blue(`🔇 ${chalk.yellow(suppressionStats.suppressed)} finding${suppressionStats.suppressed === 1 ? '' : 's'} matching earlier false positives not reported`));
+    }
+
+    const contextDrops = contextLog?.getDrops() || [];
+    if (contextDrops.length > 0) {
+      const dropped = contextDrops.reduce((sum, drop) => sum + drop.droppedTokens, 0);
+      console.log(chalk.yellow(`✂️  ${contextDrops.length} prompt${contextDrops.length === 1 ? '' : 's'} cut to fit the context window (${dropped} tokens dropped)`));
+    }
+
+    const markdown = await generateMarkdownReport(lastState, taskId, prUrl, prisma, analysisMetadata, reviewRecord, comparison, cacheStats, triage, suppressionStats, contextDrops);
+    reportPath = saveMarkdownReport(markdown, prUrl, taskId, localSource);
+    console.log(chalk.green(`✅ Report saved to: ${chalk.yellow(reportPath)}`));
+  } catch (error) {
+    console.error(chalk.red(`❌ Error saving markdown report: ${error}`));
+  }
+
+  console.log(chalk.bold.magenta('\n' + '='.repeat(60)));
+  console.log(chalk.bold.magenta('📊 HIKMAPR PR REVIEW REPORT'));
+  console.log(chalk.bold.magenta('='.repeat(60)));
+  console.log(lastState.final_report);
+  console.log(chalk.bold.magenta('='.repeat(60)));
+
+  if (params.publish) {
+    try {
+      await publishCommandHandler(taskId, prisma, githubMethod);
+    } catch (error: any) {
+      console.error(chalk.red(`❌ Error publishing review: ${error.message || error}`));
+      console.log(chalk.gray(`💡 Retry with: ${chalk.cyan(`hikma-pr publish ${taskId}`)}`));
+    }
+  }
+
+  return reportPath;
+};
+
 import { PluginService } from '../services/pluginService';
+import { publishCommandHandler } from './publish';
+
+export interface ReviewOutcome {
+  taskId: string;
+  status: 'completed' | 'failed';
+  reportPath?: string;
+  error?: string;
+}
 
-export const reviewCommandHandler = async (input: { url: string, prisma: PrismaClient, provider: string, llmUrl: string, llmModel: string, pluginService: PluginService }) => {
-  const taskId = uuidv4();
+/**
+ * Runs a review. The web UI's review queue passes the task id it already handed out,
+ * and an event sink that receives node transitions, progress and streamed LLM replies.
+ */
+export const reviewCommandHandler = async (input: { url?: string, localSource?: LocalSource, prisma: PrismaClient, provider: string, llmUrl: string, llmModel: string, pluginService: PluginService, githubMethod?: GitHubMethod, publish?: boolean, incremental?: boolean | string, cache?: boolean, config?: HikmaConfig, taskId?: string, onEvent?: (event: ReviewEvent) => void }): Promise<ReviewOutcome> => {
+  const taskId = input.taskId || uuidv4();
   const startTime = new Date(); // Track start time
-  const { url: prUrl, prisma, provider, llmUrl, llmModel, pluginService } = input;
+  const { localSource, prisma, provider, llmUrl, llmModel, pluginService, githubMethod, onEvent } = input;
+  const config = input.config || DEFAULT_HIKMA_CONFIG;
+
+  if (!input.url && !localSource) {
+    throw new Error('Either a PR URL or a local repository source is required.');
+  }
+
+  // Reject URLs from unknown hosts before anything is written to the database
+  if (input.url) {
+    parseReviewUrl(input.url);
+  }
+
+  // Fail fast on bad refs instead of halfway through the workflow
+  if (localSource) {
+    await validateLocalSource(localSource);
+  }
+
+  const prUrl = localSource ? buildLocalReviewUrl(localSource) : input.url!;
+
+  // An explicit task id selects the review to compare against; otherwise the latest completed one
+  let previousReviewId: string | undefined;
+  if (input.incremental) {
+    previousReviewId = await findPreviousReviewId(prisma, prUrl, typeof input.incremental === 'string' ? input.incremental : undefined);
+    if (!previousReviewId) {
+      console.log(chalk.yellow(`⚠️  No completed review of ${prUrl} found, running a full review`));
+    }
+  }
   console.log(chalk.bold.cyan(`
 🚀 Starting Hikmapr Multi-Pass Analysis`));
   console.log(chalk.blue(`📝 Task ID: ${chalk.yellow(taskId)}`));
-  console.log(chalk.blue(`🔗 PR URL: ${chalk.yellow(prUrl)}`));
+  if (localSource) {
+    console.log(chalk.blue(`📂 Local repository: ${chalk.yellow(path.resolve(localSource.repo_path))}`));
+    console.log(chalk.blue(`🔀 Revision range: ${chalk.yellow(`${localSource.base}...${localSource.head}`)}`));
+  } else {
+    console.log(chalk.blue(`🔗 PR URL: ${chalk.yellow(prUrl)}`));
+  }
   console.log(chalk.blue(`🔬 Using Advanced Multi-Pass Analysis Architecture`));
+  if (previousReviewId) {
+    console.log(chalk.blue(`🔁 Incremental review against: ${chalk.yellow(previousReviewId)}`));
+  }
   console.log(chalk.gray(`⏰ Started at: ${startTime.toLocaleString()}`));
 
   // Extract model information from the DEFAULT_CONFIG
   const modelInfo = {
     provider: provider,
     providerUrl: llmUrl,
-    modelName: llmModel
+    modelName: llmModel,
+    contextWindow: config.models.default.context_window
   };
 
+  // Passes of chunks analyzed before (by any review) are served from the cache unless disabled
+  const passCache = input.cache === false ? undefined : new PassCache(prisma);
+
+  // Findings like the false positives triaged in earlier reviews of the repository are not reported
+  const suppressions = await SuppressionStore.load(prisma, getTriageRepository(prUrl));
+
+  // Text dropped from prompts to fit a model's context is listed in the report
+  const contextLog = new ContextBudgetLog();
+
+  pluginService.setPluginSelection(config.plugins);
+  pluginService.setSuppressions(suppressions);
+
   // Use the advanced multi-pass analysis workflow
+  const analysisConfig = toAnalysisConfig(config);
   const { app, config: workflowConfig } = getAppWithConfig({
+    ...analysisConfig,
+    prisma,
     modelInfo,
     pluginService, // Pass the pluginService here
+    codeHost: { githubMethod },
+    passCache,
+    suppressions,
+    contextLog,
+    onToken: onEvent && (token => onEvent({ type: 'token', token })),
   });
 
 
   console.log(chalk.gray(`🤖 Using ${chalk.yellow(modelInfo.provider)} providerURL ${chalk.yellow(modelInfo.providerUrl)} with ${chalk.yellow(modelInfo.modelName)} model`));
 
-  const methodInfo = '🔬 Multi-Pass Analysis: 4 specialized passes per chunk with hierarchical synthesis';
+  const passCount = analysisConfig.passes!.length;
+  const methodInfo = `🔬 Multi-Pass Analysis: ${passCount} specialized passes per chunk with hierarchical synthesis`;
   console.log(chalk.gray(methodInfo));
-  console.log(chalk.gray(`📋 Smart filtering → Recursive chunking → 4-pass analysis → Synthesis`));
+  console.log(chalk.gray(`📋 Smart filtering → Recursive chunking → ${passCount}-pass analysis → Synthesis`));
   console.log(chalk.gray(`🔧 Workflow configured with recursion limit: ${workflowConfig.recursionLimit}`));
 
   const streamConfig = {
@@ -356,21 +767,29 @@ export const reviewCommandHandler = async (input: { url: string, prisma: PrismaC
   const initialState = {
     pr_url: prUrl,
     task_id: taskId,
+    local_source: localSource,
+    previous_review_id: previousReviewId,
   };
 
   console.log(chalk.blue(`💾 Saving initial state to database...`));
-  // Save initial state to the database with model metadata
-  await prisma.review.create({
-    data: {
-      id: taskId,
-      prUrl: prUrl,
-      state: initialState,
-      modelProvider: modelInfo.providerUrl,
-      modelName: modelInfo.modelName,
-      startedAt: startTime,
-    },
+  // Save initial state to the database with model metadata; reviews queued from the web UI already have a row
+  const reviewData = {
+    prUrl: prUrl,
+    repository: getRepositoryKey(prUrl),
+    state: initialState as any,
+    modelProvider: modelInfo.provider,
+    modelUrl: modelInfo.providerUrl,
+    modelName: modelInfo.modelName,
+    startedAt: startTime,
+    previousReviewId,
+  };
+  await prisma.review.upsert({
+    where: { id: taskId },
+    create: { id: taskId, ...reviewData },
+    update: reviewData,
   });
   console.log(chalk.green(`✅ Initial state saved with model metadata`));
+  onEvent?.({ type: 'status', status: 'running' });
 
   let lastState: any = {};
   let currentSpinner: any = null;
@@ -380,7 +799,7 @@ export const reviewCommandHandler = async (input: { url: string, prisma: PrismaC
   try {
     for await (const event of await app.stream(initialState, streamConfig)) {
       // Fix: Access the state directly from the event
-      const state = Object.values(event)[0] as any;
+      const [node, state] = Object.entries(event)[0] as [string, any];
 
       // Properly merge both analyzed_files (CLI workflow) and file_results (advanced workflow)
       const currentAnalyzedFiles = lastState.analyzed_files || {};
@@ -435,34 +854,7 @@ export const reviewCommandHandler = async (input: { url: string, prisma: PrismaC
       }
 
       // Handle advanced workflow file_results (structured FileAnalysisResult objects)
-      if (state.file_results && Object.keys(state.file_results).length > 0) {
-        for (const [fileName, result] of Object.entries(state.file_results)) {
-          // Check if this file analysis already exists to avoid duplicates
-          const existingAnalysis = await prisma.fileAnalysis.findUnique({
-            where: {
-              reviewId_fileName: {
-                reviewId: taskId,
-                fileName: fileName
-              }
-            }
-          });
-
-          if (!existingAnalysis && result && typeof result === 'object') {
-            const fileResult = result as any;
-            const analysisText = fileResult.file_synthesis || 'No synthesis available';
-            console.log(chalk.gray(`💾 Saving advanced file analysis for: ${fileName}`));
-            await prisma.fileAnalysis.create({
-              data: {
-                reviewId: taskId,
-                fileName: fileName,
-                analysis: analysisText,
-                diffSize: analysisText.length,
-              }
-            });
-            console.log(chalk.green(`✅ Advanced file analysis saved for: ${fileName}`));
-          }
-        }
-      }
+      await saveFileResults(prisma, taskId, state.file_results);
 
       // Update progress based on workflow state
       const totalAnalyzedFiles = Object.keys(analyzedFiles).length + Object.keys(fileResults).length;
@@ -501,8 +893,11 @@ export const reviewCommandHandler = async (input: { url: string, prisma: PrismaC
       // Update state in DB with accumulated state to preserve all file analyses
       await prisma.review.update({
         where: { id: taskId },
-        data: { state: lastState },
+        data: { state: lastState, headSha: lastState.pr_details?.head_sha },
       });
+
+      onEvent?.({ type: 'node', node });
+      onEvent?.({ type: 'progress', progress: lastState.progress || null, currentFile: lastState.current_file || null });
     }
   } catch (error: any) {
     if (currentSpinner) currentSpinner.fail();
@@ -545,80 +940,14 @@ export const reviewCommandHandler = async (input: { url: string, prisma: PrismaC
       console.error(chalk.red(`❌ Additional error saving state to database: ${dbError}`));
     }
 
-    return; // Exit early on error
+    console.log(chalk.gray(`💡 Continue from the last completed step: ${chalk.cyan(`hikma-pr resume ${taskId}`)}`));
+    onEvent?.({ type: 'status', status: 'failed', error: error.message || String(error) });
+    return { taskId, status: 'failed', error: error.message || String(error) }; // Exit early on error
   }
 
   if (currentSpinner) currentSpinner.succeed();
 
-  const endTime = new Date(); // Track end time
-  const elapsedMs = endTime.getTime() - startTime.getTime();
-  const elapsedSeconds = Math.round(elapsedMs / 1000);
-  const elapsedMinutes = Math.floor(elapsedSeconds / 60);
-  const remainingSeconds = elapsedSeconds % 60;
-
-  const elapsedFormatted = elapsedMinutes > 0
-    ? `${elapsedMinutes}m ${remainingSeconds}s`
-    : `${elapsedSeconds}s`;
-
-  console.log(chalk.bold.green(`\n🎉 Analysis Complete!`));
-  console.log(chalk.blue(`⏱️  Total time: ${chalk.yellow(elapsedFormatted)}`));
-  console.log(chalk.blue(`🏁 Finished at: ${chalk.gray(endTime.toLocaleString())}`));
-  console.log(chalk.blue(`📝 Task ID for future reference: ${chalk.yellow(taskId)}`));
-
-  // Update database with completion time
-  try {
-    await prisma.review.update({
-      where: { id: taskId },
-      data: {
-        state: lastState,
-        completedAt: endTime
-      },
-    });
-    console.log(chalk.gray(`💾 Final state and timing saved to database`));
-  } catch (dbError) {
-    console.log(chalk.yellow(`⚠️  Could not save completion time to database: ${dbError}`));
-  }
-
-  // Show file analysis database summary
-  try {
-    const fileAnalysisCount = await prisma.fileAnalysis.count({
-      where: { reviewId: taskId }
-    });
-    console.log(chalk.blue(`💾 Individual file analyses saved to database: ${chalk.yellow(fileAnalysisCount)}`));
-    console.log(chalk.gray(`💡 View file analyses: ${chalk.cyan(`hikma reports files ${taskId}`)}`));
-  } catch (error) {
-    console.log(chalk.yellow(`⚠️  Could not verify file analysis count in database`));
-  }
-
-  // Generate and save markdown report with timing and model information
-  console.log(chalk.blue(`\n📄 Generating markdown report...`));
-  try {
-    const analysisMetadata = {
-      startTime,
-      endTime,
-      modelInfo
-    };
-
-    // Fetch the review record from database to get accurate timing
-    let reviewRecord = null;
-    try {
-      reviewRecord = await prisma.review.findUnique({
-        where: { id: taskId }
-      });
-    } catch (dbError) {
-      console.log(chalk.yellow(`⚠️  Could not fetch review record for timing info`));
-    }
-
-    const markdown = await generateMarkdownReport(lastState, taskId, prUrl, prisma, analysisMetadata, reviewRecord);
-    const reportPath = saveMarkdownReport(markdown, prUrl, taskId);
-    console.log(chalk.green(`✅ Report saved to: ${chalk.yellow(reportPath)}`));
-  } catch (error) {
-    console.error(chalk.red(`❌ Error saving markdown report: ${error}`));
-  }
-
-  console.log(chalk.bold.magenta('\n' + '='.repeat(60)));
-  console.log(chalk.bold.magenta('📊 HIKMAPR PR REVIEW REPORT'));
-  console.log(chalk.bold.magenta('='.repeat(60)));
-  console.log(lastState.final_report);
-  console.log(chalk.bold.magenta('='.repeat(60)));
+  const reportPath = await finishReview({ taskId, prUrl, localSource, prisma, startTime, lastState, modelInfo, previousReviewId, passCache, suppressions, contextLog, publish: input.publish, githubMethod });
+  onEvent?.({ type: 'status', status: 'completed' });
+  return { taskId, status: 'completed', reportPath };
 };
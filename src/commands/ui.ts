@@ -2,26 +2,28 @@ import { spawn } from 'child_process';
 import * as path from 'path';
 import * as fs from 'fs';
 import chalk from 'chalk';
+import { Server } from 'http';
+import { PrismaClient } from '@prisma/client';
 import { getDatabasePath } from '../config/databaseConfig';
+import { startApiServer } from '../api/server';
+import { ReviewQueue } from '../api/reviewQueue';
+import { ReviewRunnerOptions, createReviewRunner } from '../api/reviewRunner';
 
 /**
- * Start the UI server
+ * Start the UI server: the reviews API and the built web UI, in this process.
+ * With the plugins and configuration to review with, the UI can start reviews too.
  */
-export async function startUIServer(options: { port?: number; open?: boolean } = {}): Promise<void> {
+export async function startUIServer(options: { port?: number; open?: boolean; prisma?: PrismaClient; reviews?: Omit<ReviewRunnerOptions, 'prisma'> } = {}): Promise<void> {
   const { port = 3000, open = true } = options;
+  const prisma = options.prisma || new PrismaClient();
+  const launcher = options.reviews && {
+    queue: new ReviewQueue(createReviewRunner({ prisma, ...options.reviews })),
+    config: options.reviews.config,
+  };
   
   console.log(chalk.blue('🚀 Starting Hikma PR Web UI...'));
   
-  // Use our new serve-ui script
   const packageRoot = path.resolve(__dirname, '..', '..');
-  const serveScript = path.join(packageRoot, 'scripts', 'serve-ui.js');
-  
-  // Check if serve script exists
-  if (!fs.existsSync(serveScript)) {
-    console.error(chalk.red('❌ UI serve script not found at:'), serveScript);
-    console.log(chalk.yellow('💡 Make sure you have the complete hikma-pr package installed.'));
-    process.exit(1);
-  }
   
   // Get database path
   const dbPath = getDatabasePath();
@@ -35,53 +37,37 @@ export async function startUIServer(options: { port?: number; open?: boolean } =
     await buildUI();
   }
   
-  console.log(chalk.green('🎉 Starting the web interface...'));
+  let server: Server;
+  try {
+    server = await startApiServer({ port, prisma, uiPath: uiBuildPath, launcher });
+  } catch (error: any) {
+    console.error(chalk.red('❌ Failed to start UI server:'), error.message);
+    process.exit(1);
+  }
+  
+  console.log(chalk.green('🎉 The web interface is ready!'));
   console.log(chalk.cyan(`📱 Open your browser to: http://localhost:${port}`));
+  console.log(chalk.gray(`🔌 API: http://localhost:${port}/api/reviews`));
   console.log(chalk.gray('💡 Press Ctrl+C to stop the server'));
   console.log('');
   
-  // Start the UI server with our script
-  const serverArgs = ['--port', port.toString(), '--db', dbPath];
-  const serverProcess = spawn('node', [serveScript, ...serverArgs], {
-    stdio: 'inherit'
-  });
-  
   // Handle process termination
-  process.on('SIGINT', () => {
+  const shutdown = () => {
     console.log(chalk.yellow('\n🛑 Shutting down UI server...'));
-    serverProcess.kill('SIGINT');
-    process.exit(0);
-  });
-  
-  process.on('SIGTERM', () => {
-    serverProcess.kill('SIGTERM');
-    process.exit(0);
-  });
-  
-  serverProcess.on('error', (error) => {
-    console.error(chalk.red('❌ Failed to start UI server:'), error.message);
-    process.exit(1);
-  });
-  
-  serverProcess.on('close', (code) => {
-    if (code !== 0 && code !== null) {
-      console.error(chalk.red(`❌ UI server exited with code ${code}`));
-      process.exit(code);
-    }
-  });
+    server.close(() => process.exit(0));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
   
   // Optionally open browser
   if (open) {
-    // Wait a bit for the server to start, then try to open browser
-    setTimeout(() => {
-      const openCommand = process.platform === 'darwin' ? 'open' : 
-                         process.platform === 'win32' ? 'start' : 'xdg-open';
-      
-      spawn(openCommand, [`http://localhost:${port}`], {
-        stdio: 'ignore',
-        detached: true
-      }).unref();
-    }, 3000);
+    const openCommand = process.platform === 'darwin' ? 'open' : 
+                       process.platform === 'win32' ? 'start' : 'xdg-open';
+    
+    spawn(openCommand, [`http://localhost:${port}`], {
+      stdio: 'ignore',
+      detached: true
+    }).on('error', () => undefined).unref();
   }
 }
 
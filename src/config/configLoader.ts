@@ -1,44 +1,127 @@
-
 import dotenv from 'dotenv';
 import path from 'path';
 import os from 'os';
-import { program } from 'commander';
+import fs from 'fs';
+import yaml from 'js-yaml';
+import { AnalysisConfig, ProjectConfig } from '../types/analysis';
+import { DEFAULT_HIKMA_CONFIG, HikmaConfig, HikmaConfigFile, SYNTHESIS_STEPS, routeModel, validateHikmaConfig } from './hikmaConfig';
+import { resolvePasses } from '../services/passRegistry';
+
+export type { HikmaConfig } from './hikmaConfig';
+
+// Repo-level config files, in the order they are looked for
+const REPO_CONFIG_FILES = ['.hikmapr.yml', '.hikmapr.yaml'];
+const USER_CONFIG_DIR = path.join(os.homedir(), '.hikmapr');
+
+export interface ConfigSource {
+  name: string;       // What the layer is, e.g. "repository"
+  location?: string;  // File it was read from
+}
 
-// Define the structure of our configuration
-export interface AppConfig {
-  llmUrl: string;
-  defaultModel: string;
-  // Add other config properties here as needed
+export interface LoadedConfiguration {
+  config: HikmaConfig;
+  sources: ConfigSource[];  // Layers that contributed, lowest priority first
 }
 
-// Centralized default values
-const DEFAULTS = {
-  LLM_URL: 'http://localhost:11434', // Default to Ollama
-  LLM_DEFAULT_MODEL: 'gemma3:1b',
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Merges a config layer over another: mappings merge key by key, lists and
+ * scalars replace, and unset keys leave the lower layer alone
+ */
+const mergeConfig = <T>(base: T, layer: unknown): T => {
+  if (!isPlainObject(base) || !isPlainObject(layer)) {
+    return (layer === undefined ? base : layer) as T;
+  }
+  const merged: Record<string, any> = { ...base };
+  for (const [key, value] of Object.entries(layer)) {
+    if (value !== undefined) {
+      merged[key] = mergeConfig(merged[key], value);
+    }
+  }
+  return merged as T;
 };
 
 /**
- * Loads configuration with a clear priority:
- * 1. Command-line flags
- * 2. Environment variables (from shell or user's .env file)
- * 3. Default values
+ * Reads and validates one YAML config file
  */
-export function loadConfiguration(): AppConfig {
-  // Load environment variables from user's home directory .env file
-  // This does not override existing process.env variables
-  const userConfigPath = path.join(os.homedir(), '.hikmapr', '.env');
-  dotenv.config({ path: userConfigPath });
-
-  // Get values from command-line options, if provided
-  const opts = program.opts();
-
-  // Determine final configuration values based on priority
-  const config: AppConfig = {
-    llmUrl: opts.llmUrl || process.env.LLM_URL || DEFAULTS.LLM_URL,
-    defaultModel: opts.modelName || process.env.LLM_DEFAULT_MODEL || DEFAULTS.LLM_DEFAULT_MODEL,
-  };
+export const readConfigFile = (filePath: string): HikmaConfigFile => {
+  let raw: unknown;
+  try {
+    raw = yaml.load(fs.readFileSync(filePath, 'utf8'), { filename: filePath });
+  } catch (error: any) {
+    const reason = error instanceof yaml.YAMLException ? error.message : `cannot be read (${error.message})`;
+    throw new Error(`Invalid configuration file ${filePath}: ${reason}`);
+  }
+
+  const { value, errors } = validateHikmaConfig(raw);
+  if (errors.length > 0) {
+    throw new Error(`Invalid configuration file ${filePath}:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+  }
+  return value;
+};
+
+const findRepoConfig = (repoPath: string): string | undefined =>
+  REPO_CONFIG_FILES.map(name => path.join(repoPath, name)).find(file => fs.existsSync(file));
+
+/**
+ * Loads the effective configuration. Later layers win:
+ * 1. Built-in defaults
+ * 2. Environment variables (from the shell or ~/.hikmapr/.env)
+ * 3. User config: ~/.hikmapr/config.yml
+ * 4. Repository config: .hikmapr.yml in the reviewed repository (or the current directory)
+ * 5. A file given with --config
+ * 6. Command-line flags
+ */
+export function loadConfiguration(options: {
+  repoPath?: string;
+  configPath?: string;
+  overrides?: HikmaConfigFile;
+} = {}): LoadedConfiguration {
+  const sources: ConfigSource[] = [{ name: 'defaults' }];
+  let config = DEFAULT_HIKMA_CONFIG;
 
-  return config;
+  // This does not override variables already set in the shell
+  dotenv.config({ path: path.join(USER_CONFIG_DIR, '.env') });
+  if (process.env.LLM_URL || process.env.LLM_DEFAULT_MODEL) {
+    config = mergeConfig(config, { models: { default: { url: process.env.LLM_URL, model: process.env.LLM_DEFAULT_MODEL } } });
+    sources.push({ name: 'environment', location: 'LLM_URL / LLM_DEFAULT_MODEL' });
+  }
+
+  const files: ConfigSource[] = [];
+  const userConfig = ['config.yml', 'config.yaml'].map(name => path.join(USER_CONFIG_DIR, name)).find(file => fs.existsSync(file));
+  if (userConfig) files.push({ name: 'user', location: userConfig });
+
+  const repoConfig = findRepoConfig(path.resolve(options.repoPath || process.cwd()));
+  if (repoConfig) files.push({ name: 'repository', location: repoConfig });
+
+  if (options.configPath) {
+    const explicit = path.resolve(options.configPath);
+    if (!fs.existsSync(explicit)) {
+      throw new Error(`Configuration file not found: ${explicit}`);
+    }
+    files.push({ name: '--config', location: explicit });
+  }
+
+  for (const file of files) {
+    config = mergeConfig(config, readConfigFile(file.location!));
+    sources.push(file);
+  }
+
+  if (options.overrides) {
+    config = mergeConfig(config, options.overrides);
+    sources.push({ name: 'command line' });
+  }
+
+  // Passes may be defined in one layer and enabled in another, so they are checked once merged
+  try {
+    resolvePasses(config);
+  } catch (error: any) {
+    throw new Error(`Invalid configuration: ${error.message}`);
+  }
+
+  return { config, sources };
 }
 
 /**
@@ -47,7 +130,35 @@ export function loadConfiguration(): AppConfig {
  */
 export function addConfigOptions(command: any) {
   return command
-    .option('--llm-url <url>', 'The URL of the LLM server')
-    .option('--model-name <name>', 'The name of the default LLM model');
+    .option('--config <path>', 'A .hikmapr.yml file applied over the user and repository configuration');
 }
 
+/**
+ * The parts of the analysis configuration that come from the config file
+ */
+export const toAnalysisConfig = (config: HikmaConfig): Omit<Partial<AnalysisConfig>, 'project'> & { project: Partial<ProjectConfig> } => {
+  const project: Partial<ProjectConfig> = {
+    language: config.language,
+    include_patterns: config.files.include,
+    exclude_patterns: config.files.exclude,
+    exclude_generated: config.files.exclude_generated,
+    chunk_strategy: config.chunking.strategy,
+    max_chunk_tokens: config.chunking.max_tokens,
+    context_lines: config.chunking.context_lines,
+  };
+
+  const synthesisModels: AnalysisConfig['synthesisModels'] = {};
+  for (const step of SYNTHESIS_STEPS) {
+    if (config.models[step]) {
+      synthesisModels[step] = routeModel(config.models.default, config.models[step]);
+    }
+  }
+
+  return {
+    project,
+    concurrency: config.concurrency,
+    passes: resolvePasses(config),
+    synthesisModels,
+    thresholds: config.thresholds,
+  };
+};
@@ -0,0 +1,433 @@
+/**
+ * Hikma Configuration Schema
+ *
+ * Shape, defaults and validation of `.hikmapr.yml`. Every key is optional in
+ * a file; the loader merges files over DEFAULT_HIKMA_CONFIG. Validation
+ * reports every problem at once, each with the path of the offending key.
+ */
+import { AnalysisPass, IssueSeverity, PassDefinition, ProjectConfig, ReviewState } from '../types/analysis';
+import { PluginFinding } from '../types/plugins';
+import { GitHubMethod } from '../types/codeHost';
+
+type PassType = AnalysisPass['pass_type'];
+type Decision = NonNullable<ReviewState['synthesis_data']>['decision'];
+
+// Built-in passes; passes.definitions adds others
+export const PASS_TYPES: PassType[] = ['syntax_logic', 'security_performance', 'architecture_design', 'testing_docs'];
+export const PASS_ID_PATTERN = /^[a-z][a-z0-9_-]*$/;
+// Steps after the passes that can have a model of their own: per-file and final synthesis
+export const SYNTHESIS_STEPS = ['file_synthesis', 'synthesis'] as const;
+export type SynthesisStep = typeof SYNTHESIS_STEPS[number];
+// Languages with built-in file filter settings
+export const LANGUAGES: ProjectConfig['language'][] = ['auto', 'typescript', 'javascript', 'python', 'java', 'go', 'rust'];
+export const CHUNK_STRATEGIES: NonNullable<ProjectConfig['chunk_strategy']>[] = ['syntax', 'lines'];
+export const PROVIDERS = ['ollama', 'lmstudio', 'openai'];
+export const ISSUE_SEVERITIES: IssueSeverity[] = ['info', 'low', 'medium', 'high', 'critical'];
+export const PLUGIN_SEVERITIES: PluginFinding['severity'][] = ['info', 'warning', 'error'];
+export const RISK_LEVELS: AnalysisPass['risk_level'][] = ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'];
+export const DECISIONS: Decision[] = ['APPROVE', 'REQUEST_CHANGES', 'REJECT'];
+const GITHUB_METHODS: GitHubMethod[] = ['cli', 'sdk'];
+
+/**
+ * Whether a value is one of the literals of a list, narrowing it to their type
+ */
+export const isOneOf = <T extends string>(values: readonly T[], value: unknown): value is T =>
+  (values as readonly unknown[]).includes(value);
+
+export interface ModelSelection {
+  provider?: string;
+  url?: string;
+  model?: string;
+  context_window?: number; // Tokens per request; the server's or model's default when unset
+}
+
+/**
+ * A model selection layered over models.default. The context window of the
+ * default only carries over while the provider and model stay the default's;
+ * a step routed to another model gets its own or that model's default.
+ */
+export const routeModel = (base: ModelSelection, ...layers: (ModelSelection | undefined)[]): ModelSelection => {
+  const route: ModelSelection = Object.assign({}, base, ...layers);
+  const ownWindow = layers.reduce<number | undefined>((window, layer) => layer?.context_window ?? window, undefined);
+  const sameModel = route.provider === base.provider && route.model === base.model;
+  route.context_window = ownWindow ?? (sameModel ? base.context_window : undefined);
+  if (route.context_window === undefined) delete route.context_window;
+  return route;
+};
+
+/**
+ * A new pass, or changes to a built-in one
+ */
+export interface PassConfig {
+  template?: string;       // Required for a new pass; needs {diff_chunk}, and gets the JSON contract appended
+  files?: string[];
+  languages?: PassDefinition['languages'];
+  model?: ModelSelection;  // Over models.default and models.<id>
+  enabled?: boolean;
+}
+
+export interface HikmaConfig {
+  language: ProjectConfig['language'];
+  files: {
+    include: string[];     // Globs a file must match; empty means every file of the language
+    exclude: string[];     // Globs excluded on top of the language's built-in exclusions
+    exclude_generated: boolean;  // Lockfiles, snapshots and generated code
+  };
+  chunking: {
+    strategy: NonNullable<ProjectConfig['chunk_strategy']>;
+    max_tokens: number;
+    context_lines: number;
+  };
+  passes: {
+    enabled?: string[];    // Pass ids to run, in order; every enabled pass when omitted
+    definitions: Record<string, PassConfig>;  // By pass id
+  };
+  plugins: {
+    enabled?: string[];    // Plugin ids; every loaded plugin when omitted
+    disabled: string[];
+  };
+  models: { default: ModelSelection } & Partial<Record<PassType | SynthesisStep, ModelSelection>>;
+  concurrency: Record<string, number>;   // Max LLM requests in flight, by provider
+  thresholds: {
+    min_issue_severity: IssueSeverity;               // Pass issues below this are dropped
+    min_plugin_severity: PluginFinding['severity'];  // Plugin findings below this are dropped
+  };
+  github: {
+    method: GitHubMethod;
+  };
+  gate: {                  // CI policies; `review --ci` fails when any of them is broken
+    fail_on_risk: AnalysisPass['risk_level'] | null;        // A pass at this risk level or above; null turns it off
+    fail_on_decision: Decision[];                           // Synthesis decisions that fail
+    max_issues: Partial<Record<IssueSeverity, number>>;     // Pass issues at the severity or above
+    max_plugin_findings: Record<string, { severity: PluginFinding['severity']; max: number }>; // By plugin id
+  };
+}
+
+/**
+ * A config file: any subset of the keys
+ */
+export type HikmaConfigFile = {
+  [K in keyof HikmaConfig]?: HikmaConfig[K] extends any[] ? HikmaConfig[K] : Partial<HikmaConfig[K]>;
+};
+
+export const DEFAULT_HIKMA_CONFIG: HikmaConfig = {
+  language: 'auto',
+  files: {
+    include: [],
+    exclude: [],
+    exclude_generated: true,
+  },
+  chunking: {
+    strategy: 'syntax',
+    max_tokens: 4000,
+    context_lines: 5,
+  },
+  passes: {
+    definitions: {},
+  },
+  plugins: {
+    disabled: [],
+  },
+  models: {
+    default: {},
+  },
+  concurrency: {},
+  thresholds: {
+    min_issue_severity: 'info',
+    min_plugin_severity: 'info',
+  },
+  github: {
+    method: 'cli',
+  },
+  gate: {
+    fail_on_risk: 'CRITICAL',
+    fail_on_decision: ['REJECT'],
+    max_issues: {},
+    max_plugin_findings: {},
+  },
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'a list';
+  return typeof value === 'string' ? `"${value}"` : `${typeof value} ${JSON.stringify(value)}`;
+};
+
+class Validator {
+  errors: string[] = [];
+
+  object(value: unknown, path: string, keys: string[]): Record<string, unknown> | undefined {
+    if (!isObject(value)) {
+      this.errors.push(`${path}: expected a mapping, got ${describe(value)}`);
+      return undefined;
+    }
+    for (const key of Object.keys(value)) {
+      if (!keys.includes(key)) {
+        this.errors.push(`${path ? `${path}.` : ''}${key}: unknown key (expected one of ${keys.join(', ')})`);
+      }
+    }
+    return value;
+  }
+
+  string(value: unknown, path: string): string | undefined {
+    if (typeof value !== 'string' || value.trim() === '') {
+      this.errors.push(`${path}: expected a non-empty string, got ${describe(value)}`);
+      return undefined;
+    }
+    return value;
+  }
+
+  oneOf<T extends string>(value: unknown, path: string, allowed: T[]): T | undefined {
+    if (typeof value !== 'string' || !allowed.includes(value as T)) {
+      this.errors.push(`${path}: expected one of ${allowed.join(', ')}, got ${describe(value)}`);
+      return undefined;
+    }
+    return value as T;
+  }
+
+  positiveInt(value: unknown, path: string, min = 1): number | undefined {
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < min) {
+      this.errors.push(`${path}: expected a whole number of at least ${min}, got ${describe(value)}`);
+      return undefined;
+    }
+    return value;
+  }
+
+  boolean(value: unknown, path: string): boolean | undefined {
+    if (typeof value !== 'boolean') {
+      this.errors.push(`${path}: expected true or false, got ${describe(value)}`);
+      return undefined;
+    }
+    return value;
+  }
+
+  passId(value: unknown, path: string): string | undefined {
+    if (typeof value !== 'string' || !PASS_ID_PATTERN.test(value)) {
+      this.errors.push(`${path}: expected a pass id of lowercase letters, digits, _ and -, got ${describe(value)}`);
+      return undefined;
+    }
+    return value;
+  }
+
+  list<T>(value: unknown, path: string, item: (value: unknown, path: string) => T | undefined): T[] | undefined {
+    if (!Array.isArray(value)) {
+      this.errors.push(`${path}: expected a list, got ${describe(value)}`);
+      return undefined;
+    }
+    const items = value.map((entry, index) => item(entry, `${path}[${index}]`));
+    return items.every(entry => entry !== undefined) ? items as T[] : undefined;
+  }
+}
+
+const validateModel = (v: Validator, value: unknown, path: string): ModelSelection | undefined => {
+  const raw = v.object(value, path, ['provider', 'url', 'model', 'context_window']);
+  if (!raw) return undefined;
+
+  const model: ModelSelection = {};
+  if (raw.provider !== undefined) model.provider = v.oneOf(raw.provider, `${path}.provider`, PROVIDERS);
+  if (raw.url !== undefined) model.url = v.string(raw.url, `${path}.url`);
+  if (raw.model !== undefined) model.model = v.string(raw.model, `${path}.model`);
+  if (raw.context_window !== undefined) model.context_window = v.positiveInt(raw.context_window, `${path}.context_window`, 1024);
+  return model;
+};
+
+const validatePass = (v: Validator, value: unknown, path: string): PassConfig | undefined => {
+  const raw = v.object(value, path, ['template', 'files', 'languages', 'model', 'enabled']);
+  if (!raw) return undefined;
+
+  const pass: PassConfig = {};
+  if (raw.template !== undefined) {
+    pass.template = v.string(raw.template, `${path}.template`);
+    if (pass.template && !pass.template.includes('{diff_chunk}')) {
+      v.errors.push(`${path}.template: must contain {diff_chunk}, where the numbered diff goes`);
+    }
+  }
+  if (raw.files !== undefined) pass.files = v.list(raw.files, `${path}.files`, (x, p) => v.string(x, p));
+  if (raw.languages !== undefined) {
+    pass.languages = v.list(raw.languages, `${path}.languages`, (x, p) => v.oneOf(x, p, LANGUAGES.filter(language => language !== 'auto') as PassDefinition['languages']));
+  }
+  if (raw.model !== undefined) pass.model = validateModel(v, raw.model, `${path}.model`);
+  if (raw.enabled !== undefined) pass.enabled = v.boolean(raw.enabled, `${path}.enabled`);
+  return pass;
+};
+
+/**
+ * Checks a whole-number command-line flag the way the same setting is checked
+ * in a config file; the error names the flag
+ */
+export const validateIntegerFlag = (raw: string, flag: string, min = 1): { value?: number; errors: string[] } => {
+  const v = new Validator();
+  const value = v.positiveInt(/^\s*-?\d+\s*$/.test(raw) ? Number(raw) : raw, flag, min);
+  return { value, errors: v.errors };
+};
+
+/**
+ * Checks a parsed config file and keeps only what is valid
+ */
+export const validateHikmaConfig = (raw: unknown): { value: HikmaConfigFile; errors: string[] } => {
+  const v = new Validator();
+  const value: HikmaConfigFile = {};
+
+  // An empty file parses to null/undefined and is a valid, empty config
+  if (raw === null || raw === undefined) {
+    return { value, errors: [] };
+  }
+
+  const root = v.object(raw, '', Object.keys(DEFAULT_HIKMA_CONFIG));
+  if (!root) {
+    return { value, errors: [`expected a mapping of settings at the top level, got ${describe(raw)}`] };
+  }
+
+  if (root.language !== undefined) {
+    value.language = v.oneOf(root.language, 'language', LANGUAGES);
+  }
+
+  if (root.files !== undefined) {
+    const files = v.object(root.files, 'files', ['include', 'exclude', 'exclude_generated']);
+    if (files) {
+      value.files = {};
+      if (files.include !== undefined) value.files.include = v.list(files.include, 'files.include', (x, p) => v.string(x, p));
+      if (files.exclude !== undefined) value.files.exclude = v.list(files.exclude, 'files.exclude', (x, p) => v.string(x, p));
+      if (files.exclude_generated !== undefined) value.files.exclude_generated = v.boolean(files.exclude_generated, 'files.exclude_generated');
+    }
+  }
+
+  if (root.chunking !== undefined) {
+    const chunking = v.object(root.chunking, 'chunking', ['strategy', 'max_tokens', 'context_lines']);
+    if (chunking) {
+      value.chunking = {};
+      if (chunking.strategy !== undefined) value.chunking.strategy = v.oneOf(chunking.strategy, 'chunking.strategy', CHUNK_STRATEGIES);
+      if (chunking.max_tokens !== undefined) value.chunking.max_tokens = v.positiveInt(chunking.max_tokens, 'chunking.max_tokens', 100);
+      if (chunking.context_lines !== undefined) value.chunking.context_lines = v.positiveInt(chunking.context_lines, 'chunking.context_lines', 0);
+    }
+  }
+
+  if (root.passes !== undefined) {
+    const passes = v.object(root.passes, 'passes', ['enabled', 'definitions']);
+    if (passes) {
+      value.passes = {};
+      // Ids may be defined by another config layer; unknown ones are reported once the layers are merged
+      if (passes.enabled !== undefined) {
+        const enabled = v.list(passes.enabled, 'passes.enabled', (x, p) => v.passId(x, p));
+        if (enabled && enabled.length === 0) {
+          v.errors.push(`passes.enabled: at least one pass must be enabled`);
+        }
+        value.passes.enabled = enabled;
+      }
+      if (passes.definitions !== undefined) {
+        // Keyed by pass id, so any key is allowed
+        if (!isObject(passes.definitions)) {
+          v.errors.push(`passes.definitions: expected a mapping, got ${describe(passes.definitions)}`);
+        } else {
+          value.passes.definitions = {};
+          for (const [id, definition] of Object.entries(passes.definitions)) {
+            const path = `passes.definitions.${id}`;
+            if (!v.passId(id, path)) continue;
+            const pass = validatePass(v, definition, path);
+            if (pass) value.passes.definitions[id] = pass;
+          }
+        }
+      }
+    }
+  }
+
+  if (root.plugins !== undefined) {
+    const plugins = v.object(root.plugins, 'plugins', ['enabled', 'disabled']);
+    if (plugins) {
+      value.plugins = {};
+      if (plugins.enabled !== undefined) value.plugins.enabled = v.list(plugins.enabled, 'plugins.enabled', (x, p) => v.string(x, p));
+      if (plugins.disabled !== undefined) value.plugins.disabled = v.list(plugins.disabled, 'plugins.disabled', (x, p) => v.string(x, p));
+    }
+  }
+
+  if (root.models !== undefined) {
+    const keys = ['default', ...PASS_TYPES, ...SYNTHESIS_STEPS];
+    const models = v.object(root.models, 'models', keys);
+    if (models) {
+      value.models = {};
+      for (const [key, model] of Object.entries(models)) {
+        if (keys.includes(key)) {
+          (value.models as Record<string, ModelSelection | undefined>)[key] = validateModel(v, model, `models.${key}`);
+        }
+      }
+    }
+  }
+
+  if (root.concurrency !== undefined) {
+    const concurrency = v.object(root.concurrency, 'concurrency', PROVIDERS);
+    if (concurrency) {
+      value.concurrency = {};
+      for (const [provider, limit] of Object.entries(concurrency)) {
+        const checked = v.positiveInt(limit, `concurrency.${provider}`);
+        if (checked !== undefined && PROVIDERS.includes(provider)) value.concurrency[provider] = checked;
+      }
+    }
+  }
+
+  if (root.thresholds !== undefined) {
+    const thresholds = v.object(root.thresholds, 'thresholds', ['min_issue_severity', 'min_plugin_severity']);
+    if (thresholds) {
+      value.thresholds = {};
+      if (thresholds.min_issue_severity !== undefined) {
+        value.thresholds.min_issue_severity = v.oneOf(thresholds.min_issue_severity, 'thresholds.min_issue_severity', ISSUE_SEVERITIES);
+      }
+      if (thresholds.min_plugin_severity !== undefined) {
+        value.thresholds.min_plugin_severity = v.oneOf(thresholds.min_plugin_severity, 'thresholds.min_plugin_severity', PLUGIN_SEVERITIES);
+      }
+    }
+  }
+
+  if (root.github !== undefined) {
+    const github = v.object(root.github, 'github', ['method']);
+    if (github?.method !== undefined) {
+      value.github = { method: v.oneOf(github.method, 'github.method', GITHUB_METHODS) };
+    }
+  }
+
+  if (root.gate !== undefined) {
+    const gate = v.object(root.gate, 'gate', ['fail_on_risk', 'fail_on_decision', 'max_issues', 'max_plugin_findings']);
+    if (gate) {
+      value.gate = {};
+      if (gate.fail_on_risk !== undefined) {
+        value.gate.fail_on_risk = gate.fail_on_risk === null ? null : v.oneOf(gate.fail_on_risk, 'gate.fail_on_risk', RISK_LEVELS);
+      }
+      if (gate.fail_on_decision !== undefined) {
+        value.gate.fail_on_decision = v.list(gate.fail_on_decision, 'gate.fail_on_decision', (x, p) => v.oneOf(x, p, DECISIONS));
+      }
+      if (gate.max_issues !== undefined) {
+        const maxIssues = v.object(gate.max_issues, 'gate.max_issues', ISSUE_SEVERITIES);
+        if (maxIssues) {
+          value.gate.max_issues = {};
+          for (const [severity, max] of Object.entries(maxIssues)) {
+            const checked = v.positiveInt(max, `gate.max_issues.${severity}`, 0);
+            if (checked !== undefined && ISSUE_SEVERITIES.includes(severity as IssueSeverity)) {
+              value.gate.max_issues[severity as IssueSeverity] = checked;
+            }
+          }
+        }
+      }
+      if (gate.max_plugin_findings !== undefined) {
+        // Keyed by plugin id, so any key is allowed
+        const byPlugin = isObject(gate.max_plugin_findings) ? gate.max_plugin_findings : undefined;
+        if (!byPlugin) {
+          v.errors.push(`gate.max_plugin_findings: expected a mapping, got ${describe(gate.max_plugin_findings)}`);
+        } else {
+          value.gate.max_plugin_findings = {};
+          for (const [pluginId, limit] of Object.entries(byPlugin)) {
+            const path = `gate.max_plugin_findings.${pluginId}`;
+            const raw = v.object(limit, path, ['severity', 'max']);
+            if (!raw) continue;
+            const severity = raw.severity === undefined ? 'error' : v.oneOf(raw.severity, `${path}.severity`, PLUGIN_SEVERITIES);
+            const max = v.positiveInt(raw.max, `${path}.max`, 0);
+            if (severity && max !== undefined) value.gate.max_plugin_findings[pluginId] = { severity, max };
+          }
+        }
+      }
+    }
+  }
+
+  return { value, errors: v.errors };
+};
@@ -0,0 +1,197 @@
+/**
+ * Prisma Checkpointer
+ *
+ * Stores LangGraph checkpoints of the review workflow in the review database.
+ * The graph saves one after every node, so a review that was interrupted (a
+ * crash, Ctrl+C, an unreachable LLM server) continues from the last finished
+ * node - the next file or chunk - instead of starting over.
+ *
+ * Only the latest checkpoint of a thread and its parent are kept. Every
+ * checkpoint holds the whole review state, including the PR diff and all
+ * analyses so far, and resuming never needs anything older.
+ */
+import {
+  BaseCheckpointSaver,
+  Checkpoint,
+  CheckpointListOptions,
+  CheckpointMetadata,
+  CheckpointPendingWrite,
+  CheckpointTuple,
+  PendingWrite,
+  SerializerProtocol,
+  TASKS,
+  WRITES_IDX_MAP,
+  copyCheckpoint,
+  getCheckpointId,
+} from '@langchain/langgraph-checkpoint';
+import { PrismaClient } from '@prisma/client';
+
+type RunnableConfig = Parameters<BaseCheckpointSaver['getTuple']>[0];
+
+interface StoredCheckpoint {
+  threadId: string;
+  checkpointNs: string;
+  checkpointId: string;
+  parentCheckpointId: string | null;
+  type: string;
+  checkpoint: Uint8Array;
+  metadata: Uint8Array;
+}
+
+export class PrismaCheckpointSaver extends BaseCheckpointSaver {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient, serde?: SerializerProtocol) {
+    super(serde);
+    this.prisma = prisma;
+  }
+
+  async getTuple(config: RunnableConfig): Promise<CheckpointTuple | undefined> {
+    const threadId = config.configurable?.thread_id;
+    const checkpointNs = config.configurable?.checkpoint_ns ?? '';
+    const checkpointId = getCheckpointId(config);
+    if (!threadId) return undefined;
+
+    // Without an id, the latest checkpoint; uuid6 ids sort by creation time
+    const row = checkpointId
+      ? await this.prisma.workflowCheckpoint.findUnique({
+          where: { threadId_checkpointNs_checkpointId: { threadId, checkpointNs, checkpointId } }
+        })
+      : await this.prisma.workflowCheckpoint.findFirst({
+          where: { threadId, checkpointNs },
+          orderBy: { checkpointId: 'desc' }
+        });
+
+    return row ? this.toTuple(row) : undefined;
+  }
+
+  async *list(config: RunnableConfig, options?: CheckpointListOptions): AsyncGenerator<CheckpointTuple> {
+    const { before, filter } = options ?? {};
+    let limit = options?.limit;
+
+    const rows = await this.prisma.workflowCheckpoint.findMany({
+      where: {
+        threadId: config.configurable?.thread_id,
+        checkpointNs: config.configurable?.checkpoint_ns,
+        checkpointId: before?.configurable?.checkpoint_id
+          ? { lt: before.configurable.checkpoint_id }
+          : config.configurable?.checkpoint_id,
+      },
+      orderBy: { checkpointId: 'desc' }
+    });
+
+    for (const row of rows) {
+      if (limit !== undefined && limit <= 0) break;
+
+      const tuple = await this.toTuple(row);
+      const metadata = (tuple.metadata || {}) as Record<string, unknown>;
+      if (filter && !Object.entries(filter).every(([key, value]) => metadata[key] === value)) {
+        continue;
+      }
+
+      if (limit !== undefined) limit--;
+      yield tuple;
+    }
+  }
+
+  async put(config: RunnableConfig, checkpoint: Checkpoint, metadata: CheckpointMetadata): Promise<RunnableConfig> {
+    const threadId = config.configurable?.thread_id;
+    const checkpointNs = config.configurable?.checkpoint_ns ?? '';
+    const parentCheckpointId = config.configurable?.checkpoint_id;
+    if (threadId === undefined) {
+      throw new Error(`Failed to put checkpoint: the config has no "thread_id" in "configurable".`);
+    }
+
+    // Pending sends are rebuilt from the parent's writes when the checkpoint is loaded
+    const prepared: Partial<Checkpoint> = copyCheckpoint(checkpoint);
+    delete prepared.pending_sends;
+
+    const [type, serializedCheckpoint] = this.serde.dumpsTyped(prepared);
+    const [, serializedMetadata] = this.serde.dumpsTyped(metadata);
+    const data = {
+      parentCheckpointId,
+      type,
+      checkpoint: serializedCheckpoint,
+      metadata: serializedMetadata,
+    };
+
+    await this.prisma.workflowCheckpoint.upsert({
+      where: { threadId_checkpointNs_checkpointId: { threadId, checkpointNs, checkpointId: checkpoint.id } },
+      create: { threadId, checkpointNs, checkpointId: checkpoint.id, ...data },
+      update: data
+    });
+
+    const keep = parentCheckpointId ? [checkpoint.id, parentCheckpointId] : [checkpoint.id];
+    await this.prisma.workflowCheckpoint.deleteMany({ where: { threadId, checkpointNs, checkpointId: { notIn: keep } } });
+    await this.prisma.workflowCheckpointWrite.deleteMany({ where: { threadId, checkpointNs, checkpointId: { notIn: keep } } });
+
+    return {
+      configurable: {
+        thread_id: threadId,
+        checkpoint_ns: checkpointNs,
+        checkpoint_id: checkpoint.id,
+      },
+    };
+  }
+
+  async putWrites(config: RunnableConfig, writes: PendingWrite[], taskId: string): Promise<void> {
+    const threadId = config.configurable?.thread_id;
+    const checkpointNs = config.configurable?.checkpoint_ns ?? '';
+    const checkpointId = config.configurable?.checkpoint_id;
+    if (threadId === undefined || checkpointId === undefined) {
+      throw new Error(`Failed to put writes: the config needs "thread_id" and "checkpoint_id" in "configurable".`);
+    }
+
+    for (const [index, [channel, value]] of writes.entries()) {
+      // Errors, interrupts and the like have a fixed negative slot and replace earlier ones
+      const idx = WRITES_IDX_MAP[channel] ?? index;
+      const [type, serializedValue] = this.serde.dumpsTyped(value);
+      const data = { channel, type, value: serializedValue };
+
+      await this.prisma.workflowCheckpointWrite.upsert({
+        where: {
+          threadId_checkpointNs_checkpointId_taskId_idx: { threadId, checkpointNs, checkpointId, taskId, idx }
+        },
+        create: { threadId, checkpointNs, checkpointId, taskId, idx, ...data },
+        update: idx < 0 ? data : {}
+      });
+    }
+  }
+
+  private async toTuple(row: StoredCheckpoint): Promise<CheckpointTuple> {
+    const { threadId, checkpointNs, checkpointId, parentCheckpointId } = row;
+
+    const writes = await this.prisma.workflowCheckpointWrite.findMany({
+      where: { threadId, checkpointNs, checkpointId },
+      orderBy: [{ taskId: 'asc' }, { idx: 'asc' }]
+    });
+    const pendingWrites: CheckpointPendingWrite[] = await Promise.all(writes.map(async write =>
+      [write.taskId, write.channel, await this.serde.loadsTyped(write.type, write.value)] as CheckpointPendingWrite
+    ));
+
+    const sends = parentCheckpointId
+      ? await this.prisma.workflowCheckpointWrite.findMany({
+          where: { threadId, checkpointNs, checkpointId: parentCheckpointId, channel: TASKS },
+          orderBy: [{ taskId: 'asc' }, { idx: 'asc' }]
+        })
+      : [];
+
+    const checkpoint: Checkpoint = {
+      ...(await this.serde.loadsTyped(row.type, row.checkpoint)),
+      pending_sends: await Promise.all(sends.map(send => this.serde.loadsTyped(send.type, send.value))),
+    };
+
+    const tuple: CheckpointTuple = {
+      config: { configurable: { thread_id: threadId, checkpoint_ns: checkpointNs, checkpoint_id: checkpointId } },
+      checkpoint,
+      metadata: await this.serde.loadsTyped(row.type, row.metadata),
+      pendingWrites,
+    };
+    if (parentCheckpointId) {
+      tuple.parentConfig = {
+        configurable: { thread_id: threadId, checkpoint_ns: checkpointNs, checkpoint_id: parentCheckpointId }
+      };
+    }
+    return tuple;
+  }
+}
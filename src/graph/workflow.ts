@@ -10,13 +10,22 @@
  */
 
 import { StateGraph, END } from "@langchain/langgraph";
-import { ReviewState, AnalysisConfig, ChunkInfo, AnalysisPass, Provider } from '../types/analysis';
-import { FileFilterService } from '../services/fileFilterService';
+import { ReviewState, AnalysisConfig, ChunkInfo, AnalysisPass, Provider, ProjectConfig, LLMToken } from '../types/analysis';
+import { FileFilterService, IGNORE_FILES } from '../services/fileFilterService';
 import { ChunkService } from '../services/chunkService';
 import { AnalysisService } from '../services/analysisService';
 import { PluginService } from '../services/pluginService';
-import { getPrDetailsViaCli, getChangedFilesViaCli, getFullPrDiffViaCli, extractFileFromFullDiff } from '../services/githubService';
+import { PassCache } from '../services/passCache';
+import { ContextBudgetLog } from '../services/contextBudget';
+import { SuppressionStore } from '../services/suppressionStore';
+import { countIssuesBySeverity } from '../services/passOutputParser';
+import { getExpandedLines } from '../services/diffParser';
+import { PreviousReview, carryForwardChunk, chunkContentKey, loadPreviousReview } from '../services/incrementalReview';
+import { extractFileFromFullDiff } from '../services/githubService';
+import { createCodeHostProvider } from '../codeHosts/codeHostFactory';
+import { CodeHostProviderOptions } from '../types/codeHost';
 import { PromptBuilder } from '../prompts/templates';
+import { PrismaCheckpointSaver } from './prismaCheckpointer';
 import { PrismaClient } from '@prisma/client';
 import chalk from 'chalk';
 
@@ -85,7 +94,7 @@ export const DEFAULT_CONFIG = {
   project: {
     language: 'typescript',
     file_extensions: ['.ts', '.tsx', '.js', '.jsx'],
-    exclude_patterns: ['*.d.ts', '*.min.js', 'node_modules/**', 'dist/**', 'build/**', '*.test.ts', '*.spec.ts'],
+    exclude_patterns: ['*.d.ts', '*.min.js', 'node_modules/', 'dist/', 'build/', '*.test.ts', '*.spec.ts'],
     max_chunk_tokens: 4000,
     context_lines: 5
   },
@@ -96,23 +105,85 @@ export const DEFAULT_CONFIG = {
   }
 };
 
+// Analysis settings of a run; the project settings are completed by the file filter
+type WorkflowConfig = Omit<Partial<AnalysisConfig>, 'project'> & { project?: Partial<ProjectConfig> };
+
 // Service instances
 let fileFilterService: FileFilterService;
 let chunkService: ChunkService;
 let analysisService: AnalysisService;
 let prisma: PrismaClient;
+let codeHostOptions: CodeHostProviderOptions = {};
+let previousReview: PreviousReview | undefined;
 
 /**
  * Initialize services
  */
-function initializeServices(config: Partial<AnalysisConfig>, pluginService?: PluginService) {
+function initializeServices(config: WorkflowConfig, client: PrismaClient, pluginService?: PluginService, passCache?: PassCache, onToken?: (token: LLMToken) => void, suppressions?: SuppressionStore, contextLog?: ContextBudgetLog) {
   fileFilterService = new FileFilterService(config.project);
-  chunkService = new ChunkService(config.project || {});
-  analysisService = new AnalysisService(config as AnalysisConfig, pluginService);
-  prisma = new PrismaClient();
+  analysisService = new AnalysisService(config as AnalysisConfig, pluginService, passCache, onToken, suppressions, contextLog);
+  // Chunks are sized to fit the prompts of every pass model
+  chunkService = new ChunkService(config.project || {}, analysisService.getChunkBudget());
+  prisma = client;
   console.log(chalk.blue(`🚀 Enhanced workflow services initialized`));
 }
 
+/**
+ * Resolve the code host (GitHub, GitLab, Bitbucket Server or local git) for a review
+ */
+const getCodeHost = (state: ReviewState) => {
+  return createCodeHostProvider({ url: state.pr_url, localSource: state.local_source }, codeHostOptions);
+};
+
+/**
+ * Load (once) the earlier review an incremental run carries results forward from
+ */
+const getPreviousReview = async (state: ReviewState): Promise<PreviousReview | undefined> => {
+  if (!state.previous_review_id) return undefined;
+  if (previousReview?.id !== state.previous_review_id) {
+    previousReview = await loadPreviousReview(prisma, state.previous_review_id);
+  }
+  return previousReview;
+};
+
+/**
+ * The file as of the PR's head commit, or null when it is not there or the
+ * code host cannot return it. Optional files, which many repositories do not
+ * have, are read without a warning.
+ */
+const getHeadContent = async (state: ReviewState, filePath: string, optional = false): Promise<string | null> => {
+  const headSha = state.pr_details?.head_sha;
+  if (!headSha) return null;
+  try {
+    return await getCodeHost(state).getFileContent(filePath, headSha);
+  } catch (error) {
+    if (!optional) {
+      console.log(chalk.yellow(`⚠️  Could not read ${filePath} at ${headSha.slice(0, 7)}: ${(error as Error).message}`));
+    }
+    return null;
+  }
+};
+
+/**
+ * Which of the manifests are at the root of the repository, as of the PR's head commit
+ */
+const findManifests = async (state: ReviewState, names: string[]): Promise<string[]> => {
+  const found = await Promise.all(names.map(async name => (await getHeadContent(state, name, true)) !== null));
+  return names.filter((_, index) => found[index]);
+};
+
+/**
+ * Hands the repository's ignore files, as of the PR's head commit, to the file
+ * filter; most repositories have no .hikmaignore, so a missing one is normal
+ */
+const loadIgnoreFiles = async (state: ReviewState): Promise<void> => {
+  const contents = await Promise.all(IGNORE_FILES.map(name => getHeadContent(state, name, true)));
+  IGNORE_FILES.forEach((name, index) => {
+    const content = contents[index];
+    if (content !== null) fileFilterService.useIgnoreFile(name, content);
+  });
+};
+
 /**
  * Workflow routing functions
  */
@@ -146,6 +217,12 @@ const workflow = new StateGraph<ReviewState>({
     // Core identification
     pr_url: { value: (x: any, y: any) => y, default: () => "" },
     task_id: { value: (x: any, y: any) => y, default: () => "" },
+    local_source: { value: (x: any, y: any) => y, default: () => undefined },
+
+    // Incremental re-review
+    previous_review_id: { value: (x: any, y: any) => y, default: () => undefined },
+    changed_since_previous: { value: (x: any, y: any) => y, default: () => undefined },
+    reused_chunk_ids: { value: (x: any, y: any) => y, default: () => [] },
 
     // Context establishment
     pr_details: { value: (x: any, y: any) => y, default: () => undefined },
@@ -154,6 +231,8 @@ const workflow = new StateGraph<ReviewState>({
     // File processing
     all_changed_files: { value: (x: any, y: any) => y, default: () => [] },
     filtered_files: { value: (x: any, y: any) => y, default: () => [] },
+    language_mix: { value: (x: any, y: any) => y, default: () => undefined },
+    excluded_files: { value: (x: any, y: any) => y, default: () => [] },
     files_to_process: { value: (x: any, y: any) => y, default: () => [] },
     current_file: { value: (x: any, y: any) => y, default: () => undefined },
 
@@ -206,20 +285,17 @@ workflow.addNode("establishContext", async (state: ReviewState) => {
   console.log(chalk.bold.blue(`
 🏃 Node: establishContext`));
 
-  const details = await getPrDetailsViaCli(state.pr_url);
-
-  // Parse URL for context
-  const urlMatch = state.pr_url.match(/github\.com\/([^/]+)\/([^/]+)\/pull\/(\d+)/);
-  const owner = urlMatch?.[1] || 'unknown';
-  const repo = urlMatch?.[2] || 'unknown';
+  const codeHost = getCodeHost(state);
+  const details = await codeHost.getDetails();
+  const { owner, repo, host } = codeHost.ref;
 
   const context = {
-    repo_name: `${owner}/${repo}`,
-    source_branch: 'feature-branch', // TODO: Get from PR details
-    target_branch: 'main', // TODO: Get from PR details
+    repo_name: host === 'local' ? repo : `${owner}/${repo}`,
+    source_branch: details.source_branch || 'unknown',
+    target_branch: details.target_branch || 'unknown',
     file_count: 0, // Will be updated later
-    additions: details.body?.length || 0, // Placeholder
-    deletions: 0, // Placeholder
+    additions: details.additions,
+    deletions: details.deletions,
     diff_summary: details.body || 'No description provided'
   };
 
@@ -241,15 +317,20 @@ workflow.addNode("filterFiles", async (state: ReviewState) => {
   // Fetch files and full diff in parallel for efficiency
   console.log(chalk.blue(`🔄 Fetching changed files and full PR diff...`));
 
+  const codeHost = getCodeHost(state);
   const [allFiles, fullDiff] = await Promise.all([
-    getChangedFilesViaCli(state.pr_url),
-    getFullPrDiffViaCli(state.pr_url)
+    codeHost.getChangedFiles(),
+    codeHost.getFullDiff()
   ]);
 
   if (!fullDiff) {
     throw new Error('Could not fetch PR diff');
   }
 
+  // Manifests are only read when the changed files leave the languages open
+  const manifests = await findManifests(state, fileFilterService.getManifestsToProbe(allFiles));
+  const languageMix = fileFilterService.detectLanguages(allFiles, manifests);
+  await loadIgnoreFiles(state);
   const filteredFiles = fileFilterService.filterFiles(allFiles);
 
   // Update context with file count
@@ -259,7 +340,7 @@ workflow.addNode("filterFiles", async (state: ReviewState) => {
   };
 
   // Estimate complexity
-  const complexity = fileFilterService.estimateComplexity(filteredFiles);
+  const complexity = fileFilterService.estimateComplexity(filteredFiles, file => analysisService.getPassCount(file));
   console.log(chalk.blue(`📊 Analysis complexity estimation:`));
   console.log(chalk.gray(`   Files: ${complexity.totalFiles}`));
   console.log(chalk.gray(`   Est. chunks: ${complexity.estimatedChunks}`));
@@ -268,9 +349,26 @@ workflow.addNode("filterFiles", async (state: ReviewState) => {
 
   console.log(chalk.green(`✅ Single API call completed - all file diffs cached locally`));
 
+  // For incremental runs, find out which files the new commits touched
+  let changedSincePrevious: string[] | undefined;
+  const previous = await getPreviousReview(state);
+  const headSha = state.pr_details?.head_sha;
+  if (previous?.headSha && headSha) {
+    try {
+      changedSincePrevious = await codeHost.getChangedFilesBetween(previous.headSha, headSha);
+      console.log(chalk.blue(`🔁 ${changedSincePrevious.length} files changed since ${previous.headSha.slice(0, 7)} (previous review)`));
+    } catch (error) {
+      // The old head is gone after a force push; chunk matching still works without it
+      console.log(chalk.yellow(`⚠️  Could not compare ${previous.headSha.slice(0, 7)}...${headSha.slice(0, 7)}, matching chunks by content only`));
+    }
+  }
+
   return {
+    changed_since_previous: changedSincePrevious,
     all_changed_files: allFiles,
     filtered_files: filteredFiles,
+    language_mix: languageMix,
+    excluded_files: fileFilterService.getExcludedFiles(allFiles),
     files_to_process: [...filteredFiles],
     full_pr_diff: fullDiff,
     pr_context: updatedContext,
@@ -314,8 +412,13 @@ workflow.addNode("setupFileChunks", async (state: ReviewState) => {
     };
   }
 
-  // Create chunks
-  const chunks = await chunkService.chunkFileDiff(currentFile, diff);
+  // Create chunks; syntax-aware chunking reads the head version of the file for its declarations
+  const chunks = chunkService.usesSyntax(currentFile)
+    ? await chunkService.chunkFileDiffBySyntax(currentFile, diff, await getHeadContent(state, currentFile))
+    : await chunkService.chunkFileDiff(currentFile, diff);
+
+  // A resumed review may have stored chunks of this file before it was interrupted
+  await prisma.chunkAnalysis.deleteMany({ where: { reviewId: state.task_id, filePath: currentFile } });
 
   // Save chunks to database
   for (const chunk of chunks) {
@@ -328,6 +431,7 @@ workflow.addNode("setupFileChunks", async (state: ReviewState) => {
         endLine: chunk.end_line,
         sizeTokens: chunk.size_tokens,
         diffContent: chunk.diff_content,
+        expandedLines: getExpandedLines(chunk.diff_lines || []),
         isCompleteFile: chunk.is_complete_file,
         contextBefore: chunk.context_before,
         contextAfter: chunk.context_after
@@ -337,17 +441,46 @@ workflow.addNode("setupFileChunks", async (state: ReviewState) => {
 
   console.log(chalk.green(`✅ Created ${chunks.length} chunks for ${currentFile}`));
 
+  // Carry forward the analysis of chunks that did not change since the previous review
+  const reusedAnalyses: NonNullable<ReviewState['chunk_analyses']> = {};
+  const previous = await getPreviousReview(state);
+  if (previous) {
+    const candidates = previous.chunks.filter(chunk => chunk.filePath === currentFile);
+    for (const chunk of chunks) {
+      const contentKey = chunkContentKey(chunk.diff_content);
+      const index = candidates.findIndex(candidate => candidate.contentKey === contentKey);
+      if (index === -1) continue;
+
+      const [match] = candidates.splice(index, 1);
+      reusedAnalyses[chunk.id] = await carryForwardChunk(prisma, state.task_id, chunk, match);
+    }
+  }
+
+  const reusedIds = Object.keys(reusedAnalyses);
+  if (reusedIds.length > 0) {
+    console.log(chalk.green(`♻️  Reused ${reusedIds.length}/${chunks.length} unchanged chunks from review ${previous!.id.slice(0, 8)}`));
+  }
+
   return {
     current_file: currentFile,
     files_to_process: remainingFiles,
     file_chunks: { [currentFile]: chunks },
     current_chunks: chunks,
-    chunks_to_process: [...chunks]
+    chunks_to_process: chunks.filter(chunk => !reusedAnalyses[chunk.id]),
+    chunk_analyses: reusedAnalyses,
+    reused_chunk_ids: [...(state.reused_chunk_ids || []), ...reusedIds],
+    progress: {
+      ...state.progress!,
+      completed_chunks: (state.progress?.completed_chunks || 0) + reusedIds.length,
+      completed_passes: (state.progress?.completed_passes || 0) + reusedIds.length * analysisService.getPassCount(currentFile)
+    }
   };
 });
 
 /**
- * Node 4: Analyze Chunk (4-pass analysis)
+ * Node 4: Analyze Chunk (every pass that applies to its file)
+ * Takes as many chunks of the current file as the LLM server may work on at
+ * once; all their passes share the client's request limit.
  */
 workflow.addNode("analyzeChunk", async (state: ReviewState) => {
   console.log(chalk.bold.blue(`
@@ -358,64 +491,77 @@ workflow.addNode("analyzeChunk", async (state: ReviewState) => {
     return {};
   }
 
-  const currentChunk = state.chunks_to_process[0];
-  const remainingChunks = state.chunks_to_process.slice(1);
-
-  console.log(chalk.blue(`🔬 Analyzing chunk: ${chalk.yellow(currentChunk.id.slice(0, 8))}`));
-
-  // Perform 4-pass analysis
-  const chunkAnalysis = await analysisService.analyzeChunk(currentChunk);
-
-  // Save analysis passes to database (excluding plugin findings)
-  for (const [passType, analysis] of Object.entries(chunkAnalysis)) {
-    if (analysis && passType !== 'plugin_findings' && typeof analysis === 'object' && 'analysis_result' in analysis) {
-      await prisma.analysisPass.create({
-        data: {
-          reviewId: state.task_id,
-          chunkId: currentChunk.id,
-          passType: passType,
-          analysisResult: analysis.analysis_result,
-          riskLevel: analysis.risk_level,
-          issuesFound: analysis.issues_found,
-          recommendations: analysis.recommendations,
-          tokensUsed: analysis.tokens_used,
-          durationMs: analysis.duration_ms
-        }
-      });
+  const batch = state.chunks_to_process.slice(0, analysisService.getConcurrency());
+  const remainingChunks = state.chunks_to_process.slice(batch.length);
+
+  console.log(chalk.blue(`🔬 Analyzing ${batch.length > 1 ? `${batch.length} chunks: ` : 'chunk: '}${chalk.yellow(batch.map(chunk => chunk.id.slice(0, 8)).join(', '))}`));
+
+  // Perform the enabled passes on each chunk
+  const chunkAnalyses = await Promise.all(batch.map(chunk => analysisService.analyzeChunk(chunk)));
+
+  // Rows are written in chunk and pass order once the whole batch is done, whatever finished first
+  for (const [index, currentChunk] of batch.entries()) {
+    const chunkAnalysis = chunkAnalyses[index];
+
+    // Drop rows of an attempt at this chunk that was interrupted before its checkpoint
+    await prisma.analysisPass.deleteMany({ where: { chunkId: currentChunk.id } });
+    await prisma.pluginFinding.deleteMany({ where: { chunkId: currentChunk.id } });
+
+    // Save analysis passes to database (excluding plugin findings)
+    for (const [passType, analysis] of Object.entries(chunkAnalysis)) {
+      if (analysis && passType !== 'plugin_findings' && typeof analysis === 'object' && 'analysis_result' in analysis) {
+        await prisma.analysisPass.create({
+          data: {
+            reviewId: state.task_id,
+            chunkId: currentChunk.id,
+            passType: passType,
+            analysisResult: analysis.analysis_result,
+            riskLevel: analysis.risk_level,
+            issuesFound: analysis.issues_found as any, // Typed AnalysisIssue objects
+            ...countIssuesBySeverity(analysis.issues_found),
+            recommendations: analysis.recommendations,
+            tokensUsed: analysis.tokens_used,
+            durationMs: analysis.duration_ms,
+            modelProvider: analysis.model_provider ?? null,
+            modelName: analysis.model_name ?? null
+          }
+        });
+      }
     }
-  }
 
-  // Save plugin findings to separate table
-  if (chunkAnalysis.plugin_findings && Array.isArray(chunkAnalysis.plugin_findings)) {
-    for (const finding of chunkAnalysis.plugin_findings) {
-      await prisma.pluginFinding.create({
-        data: {
-          reviewId: state.task_id,
-          chunkId: currentChunk.id,
-          pluginId: finding.pluginId,
-          pluginName: finding.pluginName,
-          message: finding.message,
-          severity: finding.severity,
-          line: finding.line || null
-        }
-      });
+    // Save plugin findings to separate table
+    if (chunkAnalysis.plugin_findings && Array.isArray(chunkAnalysis.plugin_findings)) {
+      for (const finding of chunkAnalysis.plugin_findings) {
+        await prisma.pluginFinding.create({
+          data: {
+            reviewId: state.task_id,
+            chunkId: currentChunk.id,
+            pluginId: finding.pluginId,
+            pluginName: finding.pluginName,
+            message: finding.message,
+            severity: finding.severity,
+            filePath: finding.filePath || currentChunk.file_path,
+            line: finding.line || null
+          }
+        });
+      }
+      console.log(chalk.blue(`💾 Saved ${chunkAnalysis.plugin_findings.length} plugin findings to database`));
     }
-    console.log(chalk.blue(`💾 Saved ${chunkAnalysis.plugin_findings.length} plugin findings to database`));
-  }
 
-  console.log(chalk.green(`✅ 4-pass analysis completed for chunk ${currentChunk.id.slice(0, 8)}`));
+    console.log(chalk.green(`✅ ${analysisService.getPassCount(currentChunk.file_path)}-pass analysis completed for chunk ${currentChunk.id.slice(0, 8)}`));
+  }
 
   // Update progress
   const newProgress = {
     ...state.progress!,
-    completed_chunks: (state.progress?.completed_chunks || 0) + 1,
-    completed_passes: (state.progress?.completed_passes || 0) + 4
+    completed_chunks: (state.progress?.completed_chunks || 0) + batch.length,
+    completed_passes: (state.progress?.completed_passes || 0) + batch.reduce((sum, chunk) => sum + analysisService.getPassCount(chunk.file_path), 0)
   };
 
   return {
-    current_chunk: currentChunk,
+    current_chunk: batch[batch.length - 1],
     chunks_to_process: remainingChunks,
-    chunk_analyses: { [currentChunk.id]: chunkAnalysis },
+    chunk_analyses: Object.fromEntries(batch.map((chunk, index) => [chunk.id, chunkAnalyses[index]])),
     progress: newProgress
   };
 });
@@ -440,8 +586,20 @@ workflow.addNode("synthesizeFile", async (state: ReviewState) => {
 
   console.log(chalk.magenta(`📊 Synthesizing results for file: ${chalk.yellow(currentFile)}`));
 
-  // Generate file-level synthesis
-  const fileResult = await analysisService.synthesizeFileAnalysis(currentFile, fileChunkAnalyses);
+  // A file the new commits did not touch, with every chunk carried forward, keeps its synthesis too
+  const previous = await getPreviousReview(state);
+  const previousResult = previous?.fileResults[currentFile];
+  const unchanged = !!state.changed_since_previous && !state.changed_since_previous.includes(currentFile)
+    && fileChunks.length > 0 && fileChunks.every(chunk => state.reused_chunk_ids?.includes(chunk.id));
+
+  let fileResult;
+  if (previousResult && unchanged) {
+    console.log(chalk.green(`♻️  Reusing file synthesis from review ${previous!.id.slice(0, 8)}`));
+    fileResult = { ...previousResult, chunk_analyses: fileChunkAnalyses };
+  } else {
+    // Generate file-level synthesis
+    fileResult = await analysisService.synthesizeFileAnalysis(currentFile, fileChunkAnalyses);
+  }
 
   console.log(chalk.green(`✅ File synthesis completed for ${currentFile}`));
 
@@ -459,147 +617,102 @@ workflow.addNode("synthesizeFile", async (state: ReviewState) => {
 
 /**
  * Node 6: Final Synthesis
- * Note: This node is redefined in getAppWithConfig() to ensure proper access to analysisService
  */
+workflow.addNode("finalSynthesis", async (state: ReviewState) => {
+  console.log(chalk.bold.blue(`🏃 Node: finalSynthesis`));
 
-// Set up the graph flow
-(workflow as any).setEntryPoint("establishContext");
-(workflow as any).addEdge("establishContext", "filterFiles");
-(workflow as any).addConditionalEdges(
-  "filterFiles",
-  shouldContinueFileProcessing,
-  {
-    "setupFileChunks": "setupFileChunks",
-    "finalSynthesis": "finalSynthesis"
-  }
-);
-(workflow as any).addConditionalEdges(
-  "setupFileChunks",
-  shouldContinueChunkProcessing,
-  {
-    "analyzeChunk": "analyzeChunk",
-    "synthesizeFile": "synthesizeFile"
-  }
-);
-(workflow as any).addConditionalEdges(
-  "analyzeChunk",
-  shouldContinueChunkProcessing,
-  {
-    "analyzeChunk": "analyzeChunk",
-    "synthesizeFile": "synthesizeFile"
-  }
-);
-(workflow as any).addConditionalEdges(
-  "synthesizeFile",
-  shouldContinueFileProcessing,
-  {
-    "setupFileChunks": "setupFileChunks",
-    "finalSynthesis": "finalSynthesis"
-  }
-);
-(workflow as any).addEdge("finalSynthesis", END);
-
-// Note: Workflow compilation is done in getAppWithConfig() after services are initialized
-
-export const getAppWithConfig = (customConfig?: Partial<AnalysisConfig> & { pluginService?: PluginService }) => {
-  const config = { ...DEFAULT_CONFIG, ...customConfig };
-  initializeServices(config as AnalysisConfig, customConfig?.pluginService);
+  // Collect all file results
+  const fileResults = state.file_results || {};
+  const fileCount = Object.keys(fileResults).length;
 
-  // Re-create the finalSynthesis node with proper access to analysisService
-  workflow.addNode("finalSynthesis", async (state: ReviewState) => {
-    console.log(chalk.bold.blue(`🏃 Node: finalSynthesis`));
-
-    // Collect all file results
-    const fileResults = state.file_results || {};
-    const fileCount = Object.keys(fileResults).length;
-
-    if (fileCount === 0) {
-      console.log(chalk.yellow(`⚠️  No file results to synthesize`));
-      return {
-        final_report: "No files were analyzed due to filtering or errors."
-      };
-    }
+  if (fileCount === 0) {
+    console.log(chalk.yellow(`⚠️  No file results to synthesize`));
+    return {
+      final_report: "No files were analyzed due to filtering or errors."
+    };
+  }
 
-    // Prepare analysis summary
-    let analysisText = '';
-    let criticalIssues: string[] = [];
-    let importantRecommendations: string[] = [];
-    let minorSuggestions: string[] = [];
+  // Prepare analysis summary
+  let analysisText = '';
+  let criticalIssues: string[] = [];
+  let importantRecommendations: string[] = [];
+  let minorSuggestions: string[] = [];
 
-    for (const [filePath, result] of Object.entries(fileResults)) {
-      analysisText += `
+  for (const [filePath, result] of Object.entries(fileResults)) {
+    analysisText += `
 ## File: ${filePath}
 `;
-      analysisText += `Risk Level: ${result.overall_risk}
+    analysisText += `Risk Level: ${result.overall_risk}
 `;
-      analysisText += `Total Issues: ${result.total_issues}
+    analysisText += `Total Issues: ${result.total_issues}
 `;
-      analysisText += `Analysis: ${result.file_synthesis}
+    analysisText += `Analysis: ${result.file_synthesis}
 `;
 
-      // Categorize by risk level
-      if (result.overall_risk === 'CRITICAL' || result.overall_risk === 'HIGH') {
-        criticalIssues.push(`${filePath}: ${result.total_issues} issues (${result.overall_risk})`);
-      } else if (result.overall_risk === 'MEDIUM') {
-        importantRecommendations.push(`${filePath}: Review recommended`);
-      } else {
-        minorSuggestions.push(`${filePath}: Low risk, minor improvements possible`);
-      }
+    // Categorize by risk level
+    if (result.overall_risk === 'CRITICAL' || result.overall_risk === 'HIGH') {
+      criticalIssues.push(`${filePath}: ${result.total_issues} issues (${result.overall_risk})`);
+    } else if (result.overall_risk === 'MEDIUM') {
+      importantRecommendations.push(`${filePath}: Review recommended`);
+    } else {
+      minorSuggestions.push(`${filePath}: Low risk, minor improvements possible`);
     }
+  }
 
-    // Determine overall decision
-    const hasCritical = criticalIssues.length > 0;
-    const hasImportant = importantRecommendations.length > 0;
-
-    let decision: 'APPROVE' | 'REQUEST_CHANGES' | 'REJECT' = 'APPROVE';
-    let reasoning = 'No significant issues found.';
+  // Determine overall decision
+  const hasCritical = criticalIssues.length > 0;
+  const hasImportant = importantRecommendations.length > 0;
 
-    if (hasCritical) {
-      decision = criticalIssues.length > fileCount / 2 ? 'REJECT' : 'REQUEST_CHANGES';
-      reasoning = `Found ${criticalIssues.length} files with critical/high risk issues.`;
-    } else if (hasImportant) {
-      decision = 'REQUEST_CHANGES';
-      reasoning = `Found ${importantRecommendations.length} files that would benefit from improvements.`;
-    }
+  let decision: 'APPROVE' | 'REQUEST_CHANGES' | 'REJECT' = 'APPROVE';
+  let reasoning = 'No significant issues found.';
 
-    const synthesisData = {
-      critical_issues: criticalIssues,
-      important_recommendations: importantRecommendations,
-      minor_suggestions: minorSuggestions,
-      overall_assessment: `Analyzed ${fileCount} files with ${decision.toLowerCase()} recommendation.`,
-      decision,
-      reasoning
-    };
-
-    // Generate final report using LLM
-    const finalReportPrompt = PromptBuilder.buildSynthesisPrompt(
-      state.pr_details?.title || 'No title',
-      'Unknown author', // TODO: Get from PR details
-      fileCount,
-      Object.keys(state.chunk_analyses || {}).length,
-      analysisText
-    );
+  if (hasCritical) {
+    decision = criticalIssues.length > fileCount / 2 ? 'REJECT' : 'REQUEST_CHANGES';
+    reasoning = `Found ${criticalIssues.length} files with critical/high risk issues.`;
+  } else if (hasImportant) {
+    decision = 'REQUEST_CHANGES';
+    reasoning = `Found ${importantRecommendations.length} files that would benefit from improvements.`;
+  }
 
-    console.log(chalk.magenta(`🤖 Generating final report...`));
+  const synthesisData = {
+    critical_issues: criticalIssues,
+    important_recommendations: importantRecommendations,
+    minor_suggestions: minorSuggestions,
+    overall_assessment: `Analyzed ${fileCount} files with ${decision.toLowerCase()} recommendation.`,
+    decision,
+    reasoning
+  };
 
-    let finalReport = '';
-    try {
-      if (analysisService && analysisService['llmClient']) {
-        finalReport = await analysisService['llmClient'].generate(finalReportPrompt, {
-          onData: (chunk: string) => {
-            process.stdout.write(chalk.magenta(chunk));
-          },
-          onComplete: () => {
-            console.log(); // New line
-            console.log(chalk.green(`✅ Final report synthesis completed`));
-          },
-          onError: (error: Error) => {
-            console.error(chalk.red(`❌ Streaming error:`), error.message);
-          }
-        });
-      } else {
-        console.log(chalk.yellow(`⚠️  Analysis service not available, generating basic report`));
-        finalReport = `# PR Review Summary
+  // Generate final report using LLM
+  const finalReportPrompt = PromptBuilder.buildSynthesisPrompt(
+    state.pr_details?.title || 'No title',
+    'Unknown author', // TODO: Get from PR details
+    fileCount,
+    Object.keys(state.chunk_analyses || {}).length,
+    analysisText,
+    analysisService?.getSynthesisTarget('synthesis')
+  );
+
+  console.log(chalk.magenta(`🤖 Generating final report...`));
+
+  let finalReport = '';
+  try {
+    if (analysisService) {
+      finalReport = await analysisService.getSynthesisClient('synthesis').generate(finalReportPrompt, {
+        onData: (chunk: string) => {
+          process.stdout.write(chalk.magenta(chunk));
+        },
+        onComplete: () => {
+          console.log(); // New line
+          console.log(chalk.green(`✅ Final report synthesis completed`));
+        },
+        onError: (error: Error) => {
+          console.error(chalk.red(`❌ Streaming error:`), error.message);
+        }
+      });
+    } else {
+      console.log(chalk.yellow(`⚠️  Analysis service not available, generating basic report`));
+      finalReport = `# PR Review Summary
 
 ## Overall Assessment
 ${synthesisData.decision}: ${synthesisData.reasoning}
@@ -618,10 +731,10 @@ ${minorSuggestions.map(sug => `- ${sug}`).join('\n')}
 ## Detailed Analysis
 ${analysisText}
 `;
-      }
-    } catch (error) {
-      console.error(chalk.red(`❌ Error generating final report: ${error}`));
-      finalReport = `# PR Review Summary (Error occurred during generation)
+    }
+  } catch (error) {
+    console.error(chalk.red(`❌ Error generating final report: ${error}`));
+    finalReport = `# PR Review Summary (Error occurred during generation)
 
 ## Overall Assessment
 ${synthesisData.decision}: ${synthesisData.reasoning}
@@ -629,17 +742,61 @@ ${synthesisData.decision}: ${synthesisData.reasoning}
 ## Files Analyzed: ${fileCount}
 ${analysisText}
 `;
-    }
+  }
 
-    return {
-      synthesis_data: synthesisData,
-      final_report: finalReport
-    };
-  });
+  return {
+    synthesis_data: synthesisData,
+    final_report: finalReport
+  };
+});
+
+// Set up the graph flow
+(workflow as any).setEntryPoint("establishContext");
+(workflow as any).addEdge("establishContext", "filterFiles");
+(workflow as any).addConditionalEdges(
+  "filterFiles",
+  shouldContinueFileProcessing,
+  {
+    "setupFileChunks": "setupFileChunks",
+    "finalSynthesis": "finalSynthesis"
+  }
+);
+(workflow as any).addConditionalEdges(
+  "setupFileChunks",
+  shouldContinueChunkProcessing,
+  {
+    "analyzeChunk": "analyzeChunk",
+    "synthesizeFile": "synthesizeFile"
+  }
+);
+(workflow as any).addConditionalEdges(
+  "analyzeChunk",
+  shouldContinueChunkProcessing,
+  {
+    "analyzeChunk": "analyzeChunk",
+    "synthesizeFile": "synthesizeFile"
+  }
+);
+(workflow as any).addConditionalEdges(
+  "synthesizeFile",
+  shouldContinueFileProcessing,
+  {
+    "setupFileChunks": "setupFileChunks",
+    "finalSynthesis": "finalSynthesis"
+  }
+);
+(workflow as any).addEdge("finalSynthesis", END);
+
+// Note: Workflow compilation is done in getAppWithConfig() after services are initialized
+
+export const getAppWithConfig = (customConfig: WorkflowConfig & { prisma: PrismaClient; pluginService?: PluginService; codeHost?: CodeHostProviderOptions; passCache?: PassCache; onToken?: (token: LLMToken) => void; suppressions?: SuppressionStore; contextLog?: ContextBudgetLog }) => {
+  const config = { ...DEFAULT_CONFIG, ...customConfig };
+  initializeServices(config as AnalysisConfig, customConfig.prisma, customConfig.pluginService, customConfig.passCache, customConfig.onToken, customConfig.suppressions, customConfig.contextLog);
+  codeHostOptions = customConfig.codeHost || {};
 
-  // Re-compile the workflow after updating the node
+  // Every step is checkpointed in the review database under the review id (thread_id) so it can be resumed
   const compiledApp = workflow.compile({
-    checkpointer: undefined,
+    checkpointer: new PrismaCheckpointSaver(prisma),
   });
 
   return {
@@ -8,10 +8,16 @@
  */
 
 import { Command } from 'commander';
-import { addConfigOptions } from './config/configLoader';
+import { addConfigOptions, loadConfiguration, HikmaConfig } from './config/configLoader';
+import { validateIntegerFlag } from './config/hikmaConfig';
 import { reviewCommandHandler } from './commands/review';
+import { ciReviewHandler, CI_EXIT_CODES } from './commands/ci';
 import { resumeCommandHandler } from './commands/resume';
-import { listReportsHandler, viewReportHandler, viewFileAnalysesHandler, cleanReportsHandler } from './commands/reports';
+import { publishCommandHandler } from './commands/publish';
+import { cacheStatsHandler, cacheClearHandler } from './commands/cache';
+import { findingsListHandler, findingsTriageHandler } from './commands/findings';
+import { configPrintHandler } from './commands/config';
+import { listReportsHandler, viewReportHandler, viewFileAnalysesHandler, cleanReportsHandler, exportReportHandler } from './commands/reports';
 import { startUIServer, buildUI } from './commands/ui';
 import { setupDatabaseConfig, ensureDatabaseSetup } from './config/databaseConfig';
 import { PrismaClient } from '@prisma/client';
@@ -26,12 +32,34 @@ const pluginService = new PluginService(path.join(__dirname, 'plugins'));
 pluginService.loadPlugins();
 
 // Configuration for GitHub interaction method
-export type GitHubMethod = 'sdk' | 'cli';
+export type { GitHubMethod } from './types/codeHost';
 
-// CONFIGURATION: Change this to choose your preferred GitHub interaction method
-// 'sdk' = Uses GitHub SDK (Octokit) - requires GITHUB_TOKEN, subject to rate limits
-// 'cli' = Uses GitHub CLI (gh) - requires 'gh' to be installed and authenticated
-const GITHUB_METHOD: GitHubMethod = 'cli'; // 👈 Change this to 'sdk' or 'cli' as needed
+/**
+ * Loads the effective configuration (.hikmapr.yml files) with the command-line
+ * flags on top. A broken config file ends the command with its errors.
+ */
+const loadCliConfig = (options: { repo?: string; config?: string; provider?: string; server?: string; model?: string; concurrency?: string }): HikmaConfig => {
+  try {
+    const concurrency = options.concurrency !== undefined ? validateIntegerFlag(options.concurrency, '--concurrency') : undefined;
+    if (concurrency?.errors.length) {
+      throw new Error(concurrency.errors.join('\n'));
+    }
+    const { config } = loadConfiguration({
+      repoPath: options.repo,
+      configPath: options.config,
+      overrides: { models: { default: { provider: options.provider, url: options.server, model: options.model } } },
+    });
+    // The flag applies to whichever provider the review ends up using
+    const provider = config.models.default.provider;
+    if (concurrency?.value !== undefined && provider) {
+      config.concurrency = { ...config.concurrency, [provider]: concurrency.value };
+    }
+    return config;
+  } catch (error: any) {
+    console.error(`Error: ${error.message}`);
+    process.exit(1);
+  }
+};
 
 const program = new Command();
 const prisma = new PrismaClient();
@@ -49,24 +77,55 @@ program
 const reviewCommand = program
   .command('review')
   .description('Start a new multi-pass PR review analysis.')
-  .requiredOption('-u, --url <url>', 'The full URL of the GitHub Pull Request to review.')
-  .requiredOption('-p, --provider <provider>', 'The provider of the LLM model. (ollama, lmstudio, vllm)')
-  .requiredOption('-s, --server <server>', 'The URL of the LLM server.')
-  .requiredOption('-m, --model <model>', 'The name of the LLM model to use.');
+  .option('-u, --url <url>', 'The full URL of the Pull Request to review (GitHub, GitLab or Bitbucket Server).')
+  .option('-r, --repo <path>', 'Review a local git checkout instead of a Pull Request.')
+  .option('-b, --base <ref>', 'Base ref to diff against when using --repo.', 'main')
+  .option('--head <ref>', 'Head ref to review when using --repo.', 'HEAD')
+  .option('--publish', 'Post the findings back to the Pull Request as a review when done.')
+  .option('--no-cache', 'Always call the model instead of reusing cached pass results.')
+  .option('--incremental [taskId]', 'Only re-analyze what changed since an earlier review of the same PR (default: the latest completed one).')
+  .option('-c, --concurrency <n>', 'Max LLM requests in flight at once (default: 1 for ollama and lmstudio, 4 for openai).')
+  .option('-p, --provider <provider>', 'The provider of the LLM model. (ollama, lmstudio, vllm) (default: models.default in .hikmapr.yml)')
+  .option('-s, --server <server>', 'The URL of the LLM server. (default: models.default in .hikmapr.yml)')
+  .option('-m, --model <model>', 'The name of the LLM model to use. (default: models.default in .hikmapr.yml)')
+  .option('--ci', 'CI gate mode: no progress output, a JSON summary, and exit code 1 when a gate policy fails (2 when the review does not complete).')
+  .option('--ci-summary <path>', 'Where --ci writes the JSON summary.', 'hikma-pr-summary.json');
 
 // Add common configuration options
 addConfigOptions(reviewCommand)
-  .action(async (options: { url: string; provider: string; server: string; model: string }) => {
+  .action(async (options: { url?: string; repo?: string; base: string; head: string; publish?: boolean; incremental?: boolean | string; cache: boolean; concurrency?: string; provider?: string; server?: string; model?: string; config?: string; ci?: boolean; ciSummary: string }) => {
+    // In CI mode exit code 1 means a failed gate, so anything else that goes wrong exits with 2
+    const errorExitCode = options.ci ? CI_EXIT_CODES.error : 1;
     try {
+      if (!options.url === !options.repo) {
+        console.error('Error: specify exactly one of --url <pr_url> or --repo <path>.');
+        process.exit(errorExitCode);
+      }
+      if (options.publish && options.repo) {
+        console.error('Error: --publish needs a Pull Request; it cannot be used with --repo.');
+        process.exit(errorExitCode);
+      }
+
+      const config = loadCliConfig(options);
+      const { provider, url: server, model } = config.models.default;
+      if (!provider || !server || !model) {
+        console.error('Error: no LLM configured; pass --provider, --server and --model or set models.default in .hikmapr.yml.');
+        process.exit(errorExitCode);
+      }
+
       // Ensure database is set up before proceeding
       await ensureDatabaseSetup();
       
-      const { url, provider, server, model } = options;
-      const input = { url, prisma, provider, llmUrl: server, llmModel: model, pluginService };
+      const { url, repo, base, head, publish, incremental, cache } = options;
+      const localSource = repo ? { repo_path: repo, base, head } : undefined;
+      const input = { url, localSource, prisma, provider, llmUrl: server, llmModel: model, pluginService, githubMethod: config.github.method, publish, incremental, cache, config };
+      if (options.ci) {
+        process.exit(await ciReviewHandler({ ...input, summaryPath: options.ciSummary }));
+      }
       await reviewCommandHandler(input);
     } catch (error) {
       console.error('Error during review process:', error);
-      process.exit(1);
+      process.exit(errorExitCode);
     }
   });
 
@@ -74,18 +133,47 @@ program
   .command('resume')
   .description('Resume an interrupted review from the last checkpoint.')
   .argument('<id>', 'The unique ID of the review to resume.')
-  .action(async (id) => {
+  .option('-p, --provider <provider>', 'The provider of the LLM model. (ollama, lmstudio, vllm) (default: models.default in .hikmapr.yml)')
+  .option('-s, --server <server>', 'The URL of the LLM server (default: the one the review started with).')
+  .option('-m, --model <model>', 'The name of the LLM model to use (default: the one the review started with).')
+  .option('-c, --concurrency <n>', 'Max LLM requests in flight at once (default: 1 for ollama and lmstudio, 4 for openai).')
+  .option('--config <path>', 'A .hikmapr.yml file applied over the user and repository configuration')
+  .action(async (id: string, options: { provider?: string; server?: string; model?: string; concurrency?: string; config?: string }) => {
     try {
+      const config = loadCliConfig({ provider: options.provider, concurrency: options.concurrency, config: options.config });
+      const provider = config.models.default.provider;
+      if (!provider) {
+        console.error('Error: no LLM provider configured; pass --provider or set models.default.provider in .hikmapr.yml.');
+        process.exit(1);
+      }
+
       // Ensure database is set up before proceeding
       await ensureDatabaseSetup();
       
-      await resumeCommandHandler(id, prisma, GITHUB_METHOD);
+      // The server and model default to the ones recorded with the review, not the config's
+      await resumeCommandHandler({ taskId: id, prisma, pluginService, githubMethod: config.github.method, provider, llmUrl: options.server, llmModel: options.model, config });
     } catch (error) {
       console.error('Error during resume process:', error);
       process.exit(1);
     }
   });
 
+program
+  .command('publish')
+  .description('Post the findings of a completed review to its Pull Request as inline review comments.')
+  .argument('<taskId>', 'The ID of the review to publish.')
+  .option('--config <path>', 'A .hikmapr.yml file applied over the user and repository configuration')
+  .action(async (taskId, options: { config?: string }) => {
+    try {
+      const config = loadCliConfig(options);
+      await ensureDatabaseSetup();
+      await publishCommandHandler(taskId, prisma, config.github.method);
+    } catch (error) {
+      console.error('Error publishing review:', error);
+      process.exit(1);
+    }
+  });
+
 // Reports command with subcommands
 const reportsCmd = program
   .command('reports')
@@ -147,18 +235,126 @@ reportsCmd
     }
   });
 
+reportsCmd
+  .command('export')
+  .description('Export the findings of a review for code-scanning tools')
+  .argument('<taskId>', 'Review task ID')
+  .option('-f, --format <format>', 'Export format (sarif)', 'sarif')
+  .option('-o, --output <path>', 'File to write (default: hikma-pr-<taskId>.sarif)')
+  .action(async (taskId, options: { format: string; output?: string }) => {
+    try {
+      await ensureDatabaseSetup();
+      await exportReportHandler(prisma, taskId, options);
+    } catch (error) {
+      console.error('Error exporting review:', error);
+      process.exit(1);
+    }
+  });
+
+// Pass cache commands
+const cacheCmd = program
+  .command('cache')
+  .description('Inspect or clear the cache of analysis pass results');
+
+cacheCmd
+  .command('stats')
+  .description('Show cache size and hit counts')
+  .action(async () => {
+    try {
+      await ensureDatabaseSetup();
+      await cacheStatsHandler(prisma);
+    } catch (error) {
+      console.error('Error reading cache stats:', error);
+      process.exit(1);
+    }
+  });
+
+cacheCmd
+  .command('clear')
+  .description('Remove cached pass results')
+  .option('-d, --days <days>', 'Only remove entries older than N days')
+  .action(async (options) => {
+    try {
+      await ensureDatabaseSetup();
+      const days = options.days !== undefined ? parseInt(options.days, 10) : undefined;
+      await cacheClearHandler(prisma, days);
+    } catch (error) {
+      console.error('Error clearing cache:', error);
+      process.exit(1);
+    }
+  });
+
+// Finding triage commands
+const findingsCmd = program
+  .command('findings')
+  .description('List and triage the findings of a review');
+
+findingsCmd
+  .command('list')
+  .description('List the findings of a review with their ids and triage status')
+  .argument('<taskId>', 'Review task ID')
+  .action(async (taskId) => {
+    try {
+      await ensureDatabaseSetup();
+      await findingsListHandler(prisma, taskId);
+    } catch (error) {
+      console.error('Error listing findings:', error);
+      process.exit(1);
+    }
+  });
+
+findingsCmd
+  .command('triage')
+  .description('Accept a finding, dismiss it as a false positive or won\'t fix, or mark it fixed')
+  .argument('<taskId>', 'Review task ID')
+  .argument('<findingId>', 'Finding ID, as shown by `findings list`')
+  .requiredOption('-s, --status <status>', 'open, accepted, false-positive, wont-fix or fixed')
+  .option('-n, --note <note>', 'Why the finding was triaged this way')
+  .option('-a, --author <author>', 'Who triaged the finding')
+  .option('-g, --glob <glob>', 'Files in which to suppress findings like this false positive (default: its file)')
+  .action(async (taskId, findingId, options: { status: string; note?: string; author?: string; glob?: string }) => {
+    try {
+      await ensureDatabaseSetup();
+      await findingsTriageHandler(prisma, taskId, findingId, options);
+    } catch (error) {
+      console.error('Error triaging finding:', error);
+      process.exit(1);
+    }
+  });
+
+// Configuration commands
+const configCmd = program
+  .command('config')
+  .description('Inspect the configuration from .hikmapr.yml files');
+
+configCmd
+  .command('print')
+  .description('Print the effective configuration merged from defaults, user and repository files')
+  .option('-r, --repo <path>', 'Repository whose .hikmapr.yml to use (default: the current directory)')
+  .option('--config <path>', 'A .hikmapr.yml file applied over the user and repository configuration')
+  .action((options: { repo?: string; config?: string }) => {
+    try {
+      configPrintHandler({ repoPath: options.repo, configPath: options.config });
+    } catch (error: any) {
+      console.error(`Error: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
 // UI Commands
 const uiCmd = program
   .command('ui')
   .description('Web interface commands')
   .option('-p, --port <port>', 'Port to run the server on (when used without subcommand)', '3000')
   .option('--no-open', 'Don\'t automatically open browser (when used without subcommand)')
+  .option('--config <path>', 'Configuration file for reviews started from the UI (when used without subcommand)')
   .action(async (options) => {
     // If no subcommand is provided, default to 'start'
     try {
       await ensureDatabaseSetup();
       const port = parseInt(options.port, 10);
-      await startUIServer({ port, open: options.open });
+      const config = loadCliConfig({ config: options.config });
+      await startUIServer({ port, open: options.open, prisma, reviews: { pluginService, config } });
     } catch (error) {
       console.error('Error starting UI server:', error);
       process.exit(1);
@@ -170,11 +366,13 @@ uiCmd
   .description('Start the web UI server')
   .option('-p, --port <port>', 'Port to run the server on', '3000')
   .option('--no-open', 'Don\'t automatically open browser')
+  .option('--config <path>', 'Configuration file for reviews started from the UI')
   .action(async (options) => {
     try {
       await ensureDatabaseSetup();
       const port = parseInt(options.port, 10);
-      await startUIServer({ port, open: options.open });
+      const config = loadCliConfig({ config: options.config });
+      await startUIServer({ port, open: options.open, prisma, reviews: { pluginService, config } });
     } catch (error) {
       console.error('Error starting UI server:', error);
       process.exit(1);
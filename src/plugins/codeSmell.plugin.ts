@@ -36,16 +36,16 @@ const codeSmellPlugin: HikmaPlugin = {
   async execute(input: PluginAnalysisInput): Promise<PluginAnalysisOutput> {
     const findings: PluginFinding[] = [];
 
-    // Basic regex-based checks (fast, always run)
-    const lines = input.chunkContent.split('\n');
-    
+    // Basic regex-based checks (fast, always run) on the lines this change adds
+    const addedLines = input.diffLines.filter(diffLine => diffLine.type === 'addition');
+
     // Quick regex checks for obvious issues
-    lines.forEach((line, index) => {
+    addedLines.forEach(({ content: line, newLine }) => {
       // Magic numbers (simple heuristic)
       const magicNumberRegex = /(?<![a-zA-Z_])[0-9]{3,}(?![a-zA-Z_0-9])/g;
       if (magicNumberRegex.test(line) && !line.includes('http') && !line.includes('port')) {
         findings.push({
-          line: index + 1,
+          line: newLine,
           message: 'Potential magic number detected. Consider using named constants.',
           severity: 'warning',
           pluginId: this.id,
@@ -56,7 +56,7 @@ const codeSmellPlugin: HikmaPlugin = {
       // Console statements
       if (/console\.(log|warn|error|debug)/.test(line)) {
         findings.push({
-          line: index + 1,
+          line: newLine,
           message: 'Console statement found. Remove before production.',
           severity: 'info',
           pluginId: this.id,
@@ -67,7 +67,7 @@ const codeSmellPlugin: HikmaPlugin = {
       // TODO comments
       if (/\/\/\s*TODO|\/\*\s*TODO/.test(line)) {
         findings.push({
-          line: index + 1,
+          line: newLine,
           message: 'TODO comment found. Consider creating a ticket or completing the task.',
           severity: 'info',
           pluginId: this.id,
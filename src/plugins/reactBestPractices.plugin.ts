@@ -50,9 +50,9 @@ const reactBestPracticesPlugin: HikmaPlugin = {
     }
 
     // Quick regex-based checks (fast, always run)
-    const lines = input.chunkContent.split('\n');
-    
-    lines.forEach((line, index) => {
+    const addedLines = input.diffLines.filter(diffLine => diffLine.type === 'addition');
+
+    addedLines.forEach(({ content: line, newLine }) => {
       // Reset regex lastIndex to avoid issues with global regex
       const missingKeyRegex = /\.map\([^)]*\)\s*=>\s*<\w+(?![^>]*key\s*=)/g;
       const directDomRegex = /document\.(getElementById|querySelector|createElement)/g;
@@ -62,7 +62,7 @@ const reactBestPracticesPlugin: HikmaPlugin = {
       // Check for missing 'key' prop in lists
       if (missingKeyRegex.test(line)) {
         findings.push({
-          line: index + 1,
+          line: newLine,
           message: 'Missing \'key\' prop in list. Add unique key for each element.',
           severity: 'warning',
           pluginId: this.id,
@@ -73,7 +73,7 @@ const reactBestPracticesPlugin: HikmaPlugin = {
       // Check for direct DOM manipulation
       if (directDomRegex.test(line)) {
         findings.push({
-          line: index + 1,
+          line: newLine,
           message: 'Direct DOM manipulation detected. Use React refs or state instead.',
           severity: 'warning',
           pluginId: this.id,
@@ -84,7 +84,7 @@ const reactBestPracticesPlugin: HikmaPlugin = {
       // Check for inline styles
       if (inlineStyleRegex.test(line)) {
         findings.push({
-          line: index + 1,
+          line: newLine,
           message: 'Inline styles detected. Consider CSS classes or styled-components.',
           severity: 'info',
           pluginId: this.id,
@@ -95,7 +95,7 @@ const reactBestPracticesPlugin: HikmaPlugin = {
       // Check for useEffect without dependency array
       if (useEffectNoDepsRegex.test(line)) {
         findings.push({
-          line: index + 1,
+          line: newLine,
           message: 'useEffect without dependency array. This runs on every render.',
           severity: 'warning',
           pluginId: this.id,
@@ -106,7 +106,7 @@ const reactBestPracticesPlugin: HikmaPlugin = {
       // Check for useState with objects/arrays (potential mutation)
       if (/useState\s*\(\s*[\[\{]/.test(line)) {
         findings.push({
-          line: index + 1,
+          line: newLine,
           message: 'useState with object/array. Consider useReducer or ensure immutable updates.',
           severity: 'info',
           pluginId: this.id,
@@ -117,7 +117,7 @@ const reactBestPracticesPlugin: HikmaPlugin = {
       // Check for class components (suggest functional components)
       if (/class\s+\w+\s+extends\s+(React\.)?Component/.test(line)) {
         findings.push({
-          line: index + 1,
+          line: newLine,
           message: 'Class component detected. Consider using functional components with hooks.',
           severity: 'info',
           pluginId: this.id,
@@ -35,10 +35,11 @@ const securityPlugin: HikmaPlugin = {
   usesLLM: true,
   async execute(input: PluginAnalysisInput): Promise<PluginAnalysisOutput> {
     const findings: PluginFinding[] = [];
-    const lines = input.chunkContent.split('\n');
+    // Removed code cannot introduce a vulnerability, so only added lines are scanned
+    const addedLines = input.diffLines.filter(diffLine => diffLine.type === 'addition');
 
     // Quick regex-based security checks
-    lines.forEach((line, index) => {
+    addedLines.forEach(({ content: line, newLine }) => {
       // Check for hardcoded passwords/secrets
       const secretPatterns = [
         /password\s*=\s*['"][^'"]+['"]/i,
@@ -50,7 +51,7 @@ const securityPlugin: HikmaPlugin = {
       secretPatterns.forEach(pattern => {
         if (pattern.test(line)) {
           findings.push({
-            line: index + 1,
+            line: newLine,
             message: 'Potential hardcoded secret detected. Use environment variables instead.',
             severity: 'error',
             pluginId: this.id,
@@ -62,7 +63,7 @@ const securityPlugin: HikmaPlugin = {
       // Check for SQL injection risks
       if (/query\s*\+|SELECT.*\+|INSERT.*\+|UPDATE.*\+|DELETE.*\+/.test(line)) {
         findings.push({
-          line: index + 1,
+          line: newLine,
           message: 'Potential SQL injection risk. Use parameterized queries.',
           severity: 'error',
           pluginId: this.id,
@@ -73,7 +74,7 @@ const securityPlugin: HikmaPlugin = {
       // Check for eval usage
       if (/\beval\s*\(/.test(line)) {
         findings.push({
-          line: index + 1,
+          line: newLine,
           message: 'eval() usage detected. This can lead to code injection vulnerabilities.',
           severity: 'error',
           pluginId: this.id,
@@ -84,7 +85,7 @@ const securityPlugin: HikmaPlugin = {
       // Check for innerHTML usage (XSS risk)
       if (/innerHTML\s*=/.test(line)) {
         findings.push({
-          line: index + 1,
+          line: newLine,
           message: 'innerHTML usage detected. Potential XSS risk. Consider using textContent or sanitization.',
           severity: 'warning',
           pluginId: this.id,
@@ -95,7 +96,7 @@ const securityPlugin: HikmaPlugin = {
       // Check for weak crypto
       if (/md5|sha1(?!256|512)/i.test(line)) {
         findings.push({
-          line: index + 1,
+          line: newLine,
           message: 'Weak cryptographic algorithm detected. Use SHA-256 or stronger.',
           severity: 'warning',
           pluginId: this.id,
@@ -106,7 +107,7 @@ const securityPlugin: HikmaPlugin = {
       // Check for insecure HTTP
       if (/http:\/\/(?!localhost|127\.0\.0\.1)/.test(line)) {
         findings.push({
-          line: index + 1,
+          line: newLine,
           message: 'Insecure HTTP URL detected. Use HTTPS for external connections.',
           severity: 'warning',
           pluginId: this.id,
@@ -41,14 +41,16 @@ const templatePlugin: HikmaPlugin = {
     }
 
     // Quick regex-based checks (fast, always run)
-    const lines = input.chunkContent.split('\n');
-    
-    lines.forEach((line, index) => {
+    // input.diffLines carries real file line numbers; report findings with newLine
+    // so they can be anchored on the PR. Removed lines have no newLine.
+    const addedLines = input.diffLines.filter(diffLine => diffLine.type === 'addition');
+
+    addedLines.forEach(({ content: line, newLine }) => {
       // Add your regex-based checks here
       // Example:
       // if (/your-pattern/.test(line)) {
       //   findings.push({
-      //     line: index + 1,
+      //     line: newLine,
       //     message: 'Your finding message',
       //     severity: 'warning', // 'info', 'warning', or 'error'
       //     pluginId: this.id,
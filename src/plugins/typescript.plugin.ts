@@ -47,13 +47,13 @@ const typescriptPlugin: HikmaPlugin = {
     }
 
     // Quick regex-based checks
-    const lines = input.chunkContent.split('\n');
-    
-    lines.forEach((line, index) => {
+    const addedLines = input.diffLines.filter(diffLine => diffLine.type === 'addition');
+
+    addedLines.forEach(({ content: line, newLine }) => {
       // Check for 'any' usage
       if (/:\s*any\b/.test(line) && !line.includes('// @ts-ignore')) {
         findings.push({
-          line: index + 1,
+          line: newLine,
           message: 'Usage of \'any\' type detected. Consider using more specific types.',
           severity: 'warning',
           pluginId: this.id,
@@ -64,7 +64,7 @@ const typescriptPlugin: HikmaPlugin = {
       // Check for @ts-ignore
       if (/@ts-ignore/.test(line)) {
         findings.push({
-          line: index + 1,
+          line: newLine,
           message: '@ts-ignore detected. Consider fixing the underlying type issue.',
           severity: 'info',
           pluginId: this.id,
@@ -75,7 +75,7 @@ const typescriptPlugin: HikmaPlugin = {
       // Check for non-null assertion operator overuse
       if ((line.match(/!/g) || []).length > 2) {
         findings.push({
-          line: index + 1,
+          line: newLine,
           message: 'Multiple non-null assertions (!). Consider safer null handling.',
           severity: 'warning',
           pluginId: this.id,
@@ -86,7 +86,7 @@ const typescriptPlugin: HikmaPlugin = {
       // Check for missing return type on functions
       if (/function\s+\w+\s*\([^)]*\)\s*\{/.test(line) && !/:/.test(line)) {
         findings.push({
-          line: index + 1,
+          line: newLine,
           message: 'Function missing explicit return type annotation.',
           severity: 'info',
           pluginId: this.id,
@@ -1,7 +1,12 @@
 // Concise Prompt Templates for Multi-Pass Analysis
-// Designed for focused, actionable responses
+// Designed for focused, actionable responses. Analysis passes answer in JSON (PASS_OUTPUT_SCHEMA)
 
 import { PrContext, ChunkInfo } from '../types/analysis';
+import { PromptTarget } from '../services/contextBudget';
+
+// Part of every pass cache key: bump it whenever the analysis templates, PASS_OUTPUT_SCHEMA
+// or the fitting of prompts to the context window change
+export const PROMPT_TEMPLATE_VERSION = 2;
 
 export const SYNTAX_LOGIC_TEMPLATE = `
 ANALYZE: Code Quality & Logic
@@ -9,14 +14,15 @@ ANALYZE: Code Quality & Logic
 FILE: {file_path}
 {chunk_context}
 
-DIFF:
+DIFF (new-file line numbers on the left):
 {diff_chunk}
 
-RESPOND IN THIS FORMAT ONLY:
-SYNTAX: [list critical syntax issues, or "None"]
-LOGIC: [list logic flaws/edge cases, or "None"] 
-QUALITY: [major readability/structure issues, or "None"]
-RISK: [LOW/MEDIUM/HIGH] - [one sentence why]
+LOOK FOR:
+- syntax: critical syntax issues
+- logic: logic flaws and unhandled edge cases
+- quality: major readability/structure issues
+
+{output_contract}
 `;
 
 export const SECURITY_PERFORMANCE_TEMPLATE = `
@@ -25,14 +31,15 @@ ANALYZE: Security & Performance
 FILE: {file_path}
 {chunk_context}
 
-DIFF:
+DIFF (new-file line numbers on the left):
 {diff_chunk}
 
-RESPOND IN THIS FORMAT ONLY:
-SECURITY: [critical vulnerabilities, or "None"]
-PERFORMANCE: [bottlenecks/inefficiencies, or "None"]
-RESOURCES: [memory/connection leaks, or "None"]
-RISK: [CRITICAL/HIGH/MEDIUM/LOW] - [one sentence why]
+LOOK FOR:
+- security: critical vulnerabilities
+- performance: bottlenecks and inefficiencies
+- resources: memory or connection leaks
+
+{output_contract}
 `;
 
 export const ARCHITECTURE_DESIGN_TEMPLATE = `
@@ -41,14 +48,15 @@ ANALYZE: Architecture & Design
 FILE: {file_path}
 {chunk_context}
 
-DIFF:
+DIFF (new-file line numbers on the left):
 {diff_chunk}
 
-RESPOND IN THIS FORMAT ONLY:
-DESIGN: [architectural concerns, or "None"]
-MAINTAINABILITY: [long-term issues, or "None"]
-BREAKING_CHANGES: [API/interface breaks, or "None"]
-RECOMMENDATIONS: [top 2 improvements, or "None"]
+LOOK FOR:
+- design: architectural concerns
+- maintainability: long-term issues
+- breaking_change: API/interface breaks
+
+{output_contract}
 `;
 
 export const TESTING_DOCS_TEMPLATE = `
@@ -57,14 +65,78 @@ ANALYZE: Testing & Documentation
 FILE: {file_path}
 {chunk_context}
 
-DIFF:
+DIFF (new-file line numbers on the left):
 {diff_chunk}
 
-RESPOND IN THIS FORMAT ONLY:
-TESTS: [missing critical tests, or "Adequate"]
-DOCS: [missing documentation, or "Adequate"]
-ERROR_HANDLING: [poor error handling, or "Adequate"]
-SUGGESTIONS: [top 2 testing improvements, or "None"]
+LOOK FOR:
+- testing: missing critical tests
+- docs: missing documentation
+- error_handling: poor error handling
+
+{output_contract}
+`;
+
+/**
+ * JSON Schema every analysis pass must answer with. Sent as the structured
+ * output format to providers that support it, and enforced by
+ * parsePassOutput for the ones that do not.
+ */
+export const PASS_OUTPUT_SCHEMA = {
+  type: 'object',
+  properties: {
+    risk_level: { type: 'string', enum: ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'] },
+    risk_reason: { type: 'string' },
+    issues: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          severity: { type: 'string', enum: ['critical', 'high', 'medium', 'low', 'info'] },
+          category: { type: 'string' },
+          title: { type: 'string' },
+          line_start: { type: 'integer' },
+          line_end: { type: 'integer' },
+          evidence: { type: 'string' },
+          suggested_fix: { type: 'string' }
+        },
+        required: ['severity', 'category', 'title']
+      }
+    },
+    recommendations: { type: 'array', items: { type: 'string' } }
+  },
+  required: ['risk_level', 'risk_reason', 'issues', 'recommendations']
+};
+
+export const PASS_OUTPUT_CONTRACT = `RESPOND WITH JSON ONLY, in exactly this shape:
+{
+  "risk_level": "LOW" | "MEDIUM" | "HIGH" | "CRITICAL",
+  "risk_reason": "one sentence why",
+  "issues": [
+    {
+      "severity": "critical" | "high" | "medium" | "low" | "info",
+      "category": "short category, e.g. logic or security",
+      "title": "one-line description of the problem",
+      "line_start": 12,
+      "line_end": 14,
+      "evidence": "the offending code, copied from the diff",
+      "suggested_fix": "how to fix it"
+    }
+  ],
+  "recommendations": ["at most 3 concrete improvements"]
+}
+Use the line numbers shown on the left of the diff. Return "issues": [] when there is nothing to report.`;
+
+export const PASS_REPAIR_TEMPLATE = `
+REPAIR JSON
+
+Your previous reply could not be used:
+{errors}
+
+PREVIOUS REPLY:
+{previous_reply}
+
+Return the same analysis again, fixing the problems above.
+{output_contract}
 `;
 
 export const SYNTHESIS_TEMPLATE = `
@@ -100,14 +172,26 @@ RISK: [CRITICAL/HIGH/MEDIUM/LOW] - [one sentence reasoning]
 
 // Template processing utility
 export class PromptBuilder {
+  /**
+   * Known non-issues are findings reviewers dismissed as false positives
+   * before; the model is asked not to raise them again. With a target, the
+   * diff is cut to what the rest of the prompt leaves of the model's context.
+   */
   static buildAnalysisPrompt(
     template: string,
     chunk: ChunkInfo,
-    additionalContext?: { [key: string]: string }
+    additionalContext?: { [key: string]: string },
+    knownNonIssues: string[] = [],
+    target?: PromptTarget
   ): string {
-    let prompt = template
+    const nonIssues = knownNonIssues.length > 0
+      ? `KNOWN NON-ISSUES (dismissed as false positives by reviewers; do not report these or close variants):\n${knownNonIssues.map(example => `- ${example}`).join('\n')}\n\n`
+      : '';
+
+    // Configured templates may leave out the contract; replies are parsed against it either way
+    let prompt = (template.includes('{output_contract}') ? template : `${template.trimEnd()}\n\n{output_contract}\n`)
       .replace('{file_path}', chunk.file_path)
-      .replace('{diff_chunk}', chunk.diff_content);
+      .replace('{output_contract}', nonIssues + PASS_OUTPUT_CONTRACT);
 
     // Add concise chunk context
     let chunkContext = '';
@@ -130,7 +214,30 @@ export class PromptBuilder {
       });
     }
 
-    return prompt;
+    // The diff goes in last, so it gets whatever room the rest of the prompt leaves
+    return PromptBuilder.fill(prompt, '{diff_chunk}', PromptBuilder.formatNumberedDiff(chunk), `the diff of ${chunk.file_path}`, target);
+  }
+
+  /**
+   * Renders the chunk with new-file line numbers in a left column, so issues
+   * can point at real lines. Removed lines get an empty number.
+   */
+  static formatNumberedDiff(chunk: ChunkInfo): string {
+    if (!chunk.diff_lines || chunk.diff_lines.length === 0) {
+      return chunk.diff_content;
+    }
+
+    const markers = { addition: '+', deletion: '-', context: ' ' };
+    return chunk.diff_lines
+      .map(line => `${String(line.newLine ?? '').padStart(5)} ${markers[line.type]}${line.content}`)
+      .join('\n');
+  }
+
+  static buildRepairPrompt(previousReply: string, errors: string[], target?: PromptTarget): string {
+    const prompt = PASS_REPAIR_TEMPLATE
+      .replace('{errors}', errors.map(error => `- ${error}`).join('\n'))
+      .replace('{output_contract}', PASS_OUTPUT_CONTRACT);
+    return PromptBuilder.fill(prompt, '{previous_reply}', previousReply, 'the reply to repair', target);
   }
 
   static buildSynthesisPrompt(
@@ -138,23 +245,35 @@ export class PromptBuilder {
     prAuthor: string,
     filesCount: number,
     chunksCount: number,
-    analysisResults: string
+    analysisResults: string,
+    target?: PromptTarget
   ): string {
-    return SYNTHESIS_TEMPLATE
+    const prompt = SYNTHESIS_TEMPLATE
       .replace('{pr_title}', prTitle)
       .replace('{files_count}', filesCount.toString())
-      .replace('{chunks_count}', chunksCount.toString())
-      .replace('{analysis_results}', analysisResults.slice(0, 4000)); // Limit analysis data
+      .replace('{chunks_count}', chunksCount.toString());
+    return PromptBuilder.fill(prompt, '{analysis_results}', analysisResults, 'the file analyses', target);
   }
 
   static buildFileSynthesisPrompt(
     filePath: string,
     chunkCount: number,
-    chunkAnalyses: string
+    chunkAnalyses: string,
+    target?: PromptTarget
   ): string {
-    return FILE_SYNTHESIS_TEMPLATE
+    const prompt = FILE_SYNTHESIS_TEMPLATE
       .replace('{file_path}', filePath)
-      .replace('{chunk_count}', chunkCount.toString())
-      .replace('{chunk_analyses}', chunkAnalyses.slice(0, 3000)); // Limit chunk data
+      .replace('{chunk_count}', chunkCount.toString());
+    return PromptBuilder.fill(prompt, '{chunk_analyses}', chunkAnalyses, `the chunk analyses of ${filePath}`, target);
+  }
+
+  /**
+   * Puts text in a placeholder, within the target's budget when there is one
+   */
+  private static fill(prompt: string, placeholder: string, text: string, subject: string, target?: PromptTarget): string {
+    if (!target) {
+      return prompt.replace(placeholder, () => text);
+    }
+    return target.budget.fill(prompt, placeholder, text, { step: target.step, subject, replyTokens: target.replyTokens });
   }
-} 
+}
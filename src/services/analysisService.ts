@@ -1,92 +1,199 @@
 // Analysis Service - Coordinates multi-pass analysis with specialized prompts
 
-import { AnalysisPass, ChunkInfo, AnalysisConfig, FileAnalysisResult } from '../types/analysis';
+import { AnalysisPass, AnalysisIssue, ChunkInfo, AnalysisConfig, ChunkAnalysisResult, FileAnalysisResult, PassDefinition, PassOutput, LLMToken } from '../types/analysis';
 import { PluginFinding } from '../types/plugins';
 import { LLMClient } from './llmService';
 import { PluginService } from './pluginService';
+import { codeBetween, toDiffLines } from './diffParser';
+import { parsePassOutput } from './passOutputParser';
+import { PassCache, passCacheKey } from './passCache';
+import { SuppressionStore } from './suppressionStore';
+import { BUILT_IN_PASSES, getChunkPasses, passAppliesTo } from './passRegistry';
+import { ChunkBudget, ContextBudget, ContextBudgetLog, PromptTarget } from './contextBudget';
+import { ISSUE_SEVERITIES, ModelSelection, PLUGIN_SEVERITIES, SYNTHESIS_STEPS, SynthesisStep } from '../config/hikmaConfig';
 import { 
   PromptBuilder, 
-  SYNTAX_LOGIC_TEMPLATE,
-  SECURITY_PERFORMANCE_TEMPLATE,
-  ARCHITECTURE_DESIGN_TEMPLATE,
-  TESTING_DOCS_TEMPLATE 
+  PASS_OUTPUT_SCHEMA,
+  PROMPT_TEMPLATE_VERSION
 } from '../prompts/templates';
 import chalk from 'chalk';
 import { v4 as uuidv4 } from 'uuid';
 
+// Repair prompts sent when a pass reply breaks the JSON contract
+const MAX_REPAIR_ATTEMPTS = 1;
+
+// Room kept in pass prompts for the LINES/BEFORE/AFTER chunk context
+const CHUNK_CONTEXT_TOKENS = 160;
+// Smallest diff budget, however little room a model leaves
+const MIN_CHUNK_TOKENS = 128;
+
+type PassType = AnalysisPass['pass_type'];
+
 export class AnalysisService {
   private llmClient: LLMClient;
+  private passClients: Record<PassType, LLMClient> = {}; // Passes configured with their own model
+  private synthesisClients: Partial<Record<SynthesisStep, LLMClient>> = {}; // Synthesis steps configured with their own model
+  private passes: PassDefinition[];
   private config: AnalysisConfig;
   private pluginService?: PluginService; // Make it optional for now
+  private passCache?: PassCache;
+  private onToken?: (token: LLMToken) => void; // Receives every streamed reply, e.g. for the web UI
+  private suppressions?: SuppressionStore; // Learned from false positives of earlier reviews
+  private contextLog?: ContextBudgetLog; // Text dropped from prompts to fit a context window
+  private budgets = new Map<LLMClient, ContextBudget>();
 
-  constructor(config: AnalysisConfig, pluginService?: PluginService) {
+  constructor(config: AnalysisConfig, pluginService?: PluginService, passCache?: PassCache, onToken?: (token: LLMToken) => void, suppressions?: SuppressionStore, contextLog?: ContextBudgetLog) {
     this.config = config;
     this.pluginService = pluginService;
-    // For now, use the same model for all passes as requested
-    this.llmClient = new LLMClient({
-      baseUrl: config.modelInfo.providerUrl,
-      model: config.modelInfo.modelName,
-      provider: config.modelInfo.provider,
-    });
+    this.passCache = passCache;
+    this.onToken = onToken;
+    this.suppressions = suppressions;
+    this.contextLog = contextLog;
+    // Passes and synthesis steps without a model of their own use this one
+    this.llmClient = this.createClient({});
+    
+    this.passes = config.passes || BUILT_IN_PASSES;
     
-    console.log(chalk.blue(`🔬 Analysis service initialized with model: ${chalk.yellow(config.modelInfo.modelName)}`));
+    for (const { id, model } of this.passes) {
+      if (model) this.passClients[id] = this.createClient(model);
+    }
+    for (const [step, model] of Object.entries(config.synthesisModels || {}) as [SynthesisStep, ModelSelection][]) {
+      this.synthesisClients[step] = this.createClient(model);
+    }
+    
+    const describeRoute = (name: string, client?: LLMClient) => client ? `${name} (${client.getConfig().model})` : name;
+    const budget = this.getContextBudget(this.llmClient);
+    console.log(chalk.blue(`🔬 Analysis service initialized with model: ${chalk.yellow(config.modelInfo.modelName)} (${this.getConcurrency()} requests in flight)`));
+    console.log(chalk.gray(`🪟 Context window: ${budget.contextWindow} tokens, counted with ${budget.tokenizer.name}`));
+    console.log(chalk.gray(`📋 Passes: ${this.passes.map(pass => describeRoute(pass.id, this.passClients[pass.id])).join(', ')}`));
+    if (Object.keys(this.synthesisClients).length > 0) {
+      console.log(chalk.gray(`🧬 Synthesis: ${SYNTHESIS_STEPS.map(step => describeRoute(step, this.synthesisClients[step])).join(', ')}`));
+    }
+  }
+
+  /**
+   * Client of a model selection; unset parts come from the review's model,
+   * except the context window, which is resolved for the selected model
+   */
+  private createClient(model: ModelSelection): LLMClient {
+    const provider = model.provider || this.config.modelInfo.provider;
+    return new LLMClient({
+      baseUrl: model.url || this.config.modelInfo.providerUrl,
+      model: model.model || this.config.modelInfo.modelName,
+      provider,
+      maxConcurrency: this.config.concurrency?.[provider],
+      contextWindow: model.context_window,
+    });
   }
 
   /**
-   * Perform all four analysis passes on a chunk
+   * Client of the model a synthesis step is routed to
    */
-  async analyzeChunk(chunk: ChunkInfo): Promise<{
-    syntax_logic?: AnalysisPass;
-    security_performance?: AnalysisPass;
-    architecture_design?: AnalysisPass;
-    testing_docs?: AnalysisPass;
-    plugin_findings?: PluginFinding[];
-  }> {
-    console.log(chalk.blue(`\n🔬 Starting 4-pass analysis for chunk: ${chunk.id.slice(0, 8)}`));
+  getSynthesisClient(step: SynthesisStep): LLMClient {
+    return this.synthesisClients[step] || this.llmClient;
+  }
+
+  /**
+   * Budget of the prompts a synthesis step sends to its model
+   */
+  getSynthesisTarget(step: SynthesisStep): PromptTarget {
+    return this.getPromptTarget(this.getSynthesisClient(step), step, {});
+  }
+
+  private getContextBudget(client: LLMClient): ContextBudget {
+    let budget = this.budgets.get(client);
+    if (!budget) {
+      const { provider, model, contextWindow } = client.getConfig();
+      budget = new ContextBudget({ provider, model, contextWindow }, this.contextLog);
+      this.budgets.set(client, budget);
+    }
+    return budget;
+  }
+
+  private getPromptTarget(client: LLMClient, step: string, options: { jsonSchema?: object }): PromptTarget {
+    return { budget: this.getContextBudget(client), step, replyTokens: client.getMaxReplyTokens(options) };
+  }
+
+  /**
+   * Tokens a chunk's diff may use so that the prompt of every pass fits the
+   * context of its model, counted with the tokenizer of the tightest model
+   */
+  getChunkBudget(): ChunkBudget {
+    let tightest: ChunkBudget | undefined;
+    for (const pass of this.passes) {
+      const client = this.getPassClient(pass.id);
+      const { budget, replyTokens } = this.getPromptTarget(client, pass.id, { jsonSchema: PASS_OUTPUT_SCHEMA });
+      const emptyChunk: ChunkInfo = { id: '', file_path: pass.id, size_tokens: 0, diff_content: '', is_complete_file: false };
+      const fixedTokens = budget.tokenizer.count(PromptBuilder.buildAnalysisPrompt(pass.template, emptyChunk)) + CHUNK_CONTEXT_TOKENS;
+      // Line numbers added to every diff line take about a fifth more tokens
+      const maxTokens = Math.max(MIN_CHUNK_TOKENS, Math.floor((budget.promptLimit(replyTokens) - fixedTokens) * 0.8));
+
+      if (!tightest || maxTokens < tightest.maxTokens) {
+        tightest = { tokenizer: budget.tokenizer, maxTokens };
+      }
+    }
+    return tightest!;
+  }
+
+  /**
+   * Number of passes run on every chunk of a file, or on any chunk when no file is given
+   */
+  getPassCount(filePath?: string): number {
+    return filePath === undefined ? this.passes.length : this.getPasses(filePath).length;
+  }
+
+  /**
+   * The enabled passes that apply to a file
+   */
+  private getPasses(filePath: string): PassDefinition[] {
+    return this.passes.filter(pass => passAppliesTo(pass, filePath));
+  }
+
+  /**
+   * How many LLM requests may be in flight at once
+   */
+  getConcurrency(): number {
+    return this.llmClient.getConfig().maxConcurrency || 1;
+  }
+
+  /**
+   * Perform the enabled analysis passes on a chunk
+   */
+  async analyzeChunk(chunk: ChunkInfo): Promise<ChunkAnalysisResult> {
+    const passes = this.getPasses(chunk.file_path);
+    console.log(chalk.blue(`\n🔬 Starting ${passes.length}-pass analysis for chunk: ${chunk.id.slice(0, 8)}`));
     console.log(chalk.gray(`📁 File: ${chunk.file_path}`));
     console.log(chalk.gray(`🔢 Tokens: ${chunk.size_tokens}`));
     
-    const results: any = {};
+    const results: ChunkAnalysisResult = {};
     
-    // Perform each analysis pass
-    const passes = [
-      { name: 'syntax_logic', template: SYNTAX_LOGIC_TEMPLATE },
-      { name: 'security_performance', template: SECURITY_PERFORMANCE_TEMPLATE },
-      { name: 'architecture_design', template: ARCHITECTURE_DESIGN_TEMPLATE },
-      { name: 'testing_docs', template: TESTING_DOCS_TEMPLATE }
-    ];
-    
-    for (const pass of passes) {
+    // Passes run concurrently, bounded by the LLM client; results keep the pass order
+    const analyses = await Promise.all(passes.map(async pass => {
       try {
-        console.log(chalk.cyan(`\n📝 Running ${pass.name} analysis...`));
+        console.log(chalk.cyan(`\n📝 Running ${pass.id} analysis...`));
         const startTime = Date.now();
         
-        const analysis = await this.runSinglePass(
-          chunk, 
-          pass.name as 'syntax_logic' | 'security_performance' | 'architecture_design' | 'testing_docs',
-          pass.template
-        );
+        const analysis = await this.runSinglePass(chunk, pass);
         
         const endTime = Date.now();
         const duration = endTime - startTime;
         
-        console.log(chalk.green(`✅ ${pass.name} completed in ${(duration / 1000).toFixed(1)}s`));
+        console.log(chalk.green(`✅ ${pass.id} completed in ${(duration / 1000).toFixed(1)}s`));
         console.log(chalk.gray(`📊 Risk level: ${analysis.risk_level}`));
         console.log(chalk.gray(`🔍 Issues found: ${analysis.issues_found.length}`));
         
-        results[pass.name] = analysis;
-        
-        // Brief pause between passes to avoid overwhelming the LLM
-        await this.sleep(1000);
-        
+        return analysis;
       } catch (error) {
-        console.error(chalk.red(`❌ Error in ${pass.name} analysis:`), error);
+        console.error(chalk.red(`❌ Error in ${pass.id} analysis:`), error);
         // Continue with other passes even if one fails
-        results[pass.name] = this.createErrorAnalysis(chunk, pass.name as any, error as Error);
+        return this.createErrorAnalysis(chunk, pass.id, this.getPassClient(pass.id), error as Error);
       }
-    }
+    }));
+    passes.forEach((pass, index) => {
+      results[pass.id] = analyses[index];
+    });
     
-    console.log(chalk.green(`✅ All 4 passes completed for chunk ${chunk.id.slice(0, 8)}`));
+    console.log(chalk.green(`✅ All ${passes.length} passes completed for chunk ${chunk.id.slice(0, 8)}`));
 
     // Run plugins for onChunkAnalysis hook
     if (this.pluginService) {
@@ -94,14 +201,20 @@ export class AnalysisService {
       const pluginFindings = await this.pluginService.runPlugins('onChunkAnalysis', {
         filePath: chunk.file_path,
         chunkContent: chunk.diff_content,
+        diffLines: chunk.diff_lines || toDiffLines(chunk.diff_content),
         llmClient: this.llmClient, // Pass the LLMClient here
       });
-      if (pluginFindings.length > 0) {
-        console.log(chalk.green(`✅ Plugins found ${pluginFindings.length} findings for chunk ${chunk.id.slice(0, 8)}`));
+      const minSeverity = PLUGIN_SEVERITIES.indexOf(this.config.thresholds?.min_plugin_severity || 'info');
+      const reported = pluginFindings.filter(finding => PLUGIN_SEVERITIES.indexOf(finding.severity) >= minSeverity);
+      if (reported.length < pluginFindings.length) {
+        console.log(chalk.gray(`🔕 Dropped ${pluginFindings.length - reported.length} plugin findings below ${this.config.thresholds!.min_plugin_severity}`));
+      }
+      if (reported.length > 0) {
+        console.log(chalk.green(`✅ Plugins found ${reported.length} findings for chunk ${chunk.id.slice(0, 8)}`));
         // You might want to store these findings in the results object or a separate channel
         // For now, let's just log them and consider how to integrate them into the report later.
         // For example, you could add a new property to the AnalysisPass or a new channel in the workflow state.
-        results.plugin_findings = pluginFindings;
+        results.plugin_findings = reported;
       }
     }
     
@@ -111,64 +224,169 @@ export class AnalysisService {
   /**
    * Run a single analysis pass
    */
-  private async runSinglePass(
-    chunk: ChunkInfo, 
-    passType: 'syntax_logic' | 'security_performance' | 'architecture_design' | 'testing_docs',
-    template: string
-  ): Promise<AnalysisPass> {
-    const prompt = PromptBuilder.buildAnalysisPrompt(template, chunk);
+  private async runSinglePass(chunk: ChunkInfo, pass: PassDefinition): Promise<AnalysisPass> {
+    const passType = pass.id;
+    const knownNonIssues = this.suppressions?.getKnownNonIssues(chunk.file_path, `${passType}/`) || [];
+    const client = this.getPassClient(passType);
+    const target = this.getPromptTarget(client, passType, { jsonSchema: PASS_OUTPUT_SCHEMA });
+    const prompt = PromptBuilder.buildAnalysisPrompt(pass.template, chunk, undefined, knownNonIssues, target);
+    const { tokenizer } = target.budget;
+    const promptTokens = tokenizer.count(prompt);
     
-    console.log(chalk.blue(`📤 Sending ${passType} prompt (${prompt.length} chars)`));
+    console.log(chalk.blue(`📤 Sending ${passType} prompt (${promptTokens} tokens)`));
     console.log(chalk.gray(`"${prompt.substring(0, 150)}..."`));
     
     const startTime = Date.now();
+    const validLines = this.getChunkLines(chunk);
     
-    // Use streaming for real-time feedback
-    let fullResponse = '';
-    const response = await this.llmClient.generate(prompt, {
-      onData: (chunk: string) => {
-        fullResponse += chunk;
-        process.stdout.write(chalk.cyan(chunk));
-      },
-      onComplete: (response: string) => {
-        console.log(); // New line after streaming
-      },
-      onError: (error: Error) => {
-        console.error(chalk.red(`❌ Streaming error:`), error.message);
-      }
-    });
+    const cacheKey = this.passCache ? this.getPassCacheKey(chunk, pass, client, knownNonIssues) : undefined;
+    const cached = cacheKey ? await this.passCache!.get(cacheKey) : undefined;
+    if (cached) {
+      console.log(chalk.green(`💾 Cache hit for ${passType}, skipping LLM call`));
+      return this.buildAnalysisPass(chunk, passType, client, cached.response, cached.output, 0, Date.now() - startTime);
+    }
+    
+    let response = await this.generatePassReply(prompt, client, chunk, passType);
+    let tokensUsed = promptTokens + tokenizer.count(response);
+    let parsed = parsePassOutput(response, validLines);
+    
+    // Give the model a chance to fix a reply that breaks the JSON contract
+    for (let attempt = 1; !parsed.value && attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+      console.log(chalk.yellow(`⚠️  ${passType} reply failed validation (${parsed.errors.join('; ')}), requesting repair...`));
+      const repairPrompt = PromptBuilder.buildRepairPrompt(response, parsed.errors, target);
+      response = await this.generatePassReply(repairPrompt, client, chunk, passType);
+      tokensUsed += tokenizer.count(repairPrompt) + tokenizer.count(response);
+      parsed = parsePassOutput(response, validLines);
+    }
+    
+    let output = parsed.value;
+    if (!output) {
+      console.log(chalk.yellow(`⚠️  ${passType} reply is still not valid JSON, falling back to text extraction`));
+      output = this.parseAnalysisResponse(response);
+    } else if (cacheKey) {
+      // Only validated replies are cached; a fallback parse is worth retrying next time
+      const { model, provider } = client.getConfig();
+      await this.passCache!.set(cacheKey, { response, output, passType, provider, model });
+    }
     
     const endTime = Date.now();
     const duration = endTime - startTime;
     
-    // Parse the structured response
-    const parsedAnalysis = this.parseAnalysisResponse(response, passType);
-    
+    return this.buildAnalysisPass(chunk, passType, client, response, output, tokensUsed, duration);
+  }
+
+  private async buildAnalysisPass(
+    chunk: ChunkInfo,
+    passType: AnalysisPass['pass_type'],
+    client: LLMClient,
+    response: string,
+    output: PassOutput,
+    tokensUsed: number,
+    duration: number
+  ): Promise<AnalysisPass> {
+    // Cached output is filtered too, so changing the threshold needs no new LLM calls
+    const minSeverity = ISSUE_SEVERITIES.indexOf(this.config.thresholds?.min_issue_severity || 'info');
+    let issues = output.issues.filter(issue => ISSUE_SEVERITIES.indexOf(issue.severity) >= minSeverity);
+
+    if (this.suppressions) {
+      const lines = chunk.diff_lines || toDiffLines(chunk.diff_content);
+      const reported = await this.suppressions.filter(issues, issue => ({
+        rule: `${passType}/${issue.category}`,
+        message: issue.title,
+        filePath: chunk.file_path,
+        code: issue.line_start ? codeBetween(lines, issue.line_start, issue.line_end ?? issue.line_start) : undefined,
+      }));
+      if (reported.length < issues.length) {
+        console.log(chalk.gray(`🔇 Suppressed ${issues.length - reported.length} ${passType} issues matching earlier false positives`));
+      }
+      issues = reported;
+    }
+
     return {
       id: uuidv4(),
       chunk_id: chunk.id,
       pass_type: passType,
       analysis_result: response,
-      risk_level: parsedAnalysis.riskLevel,
-      issues_found: parsedAnalysis.issues,
-      recommendations: parsedAnalysis.recommendations,
-      tokens_used: Math.ceil(prompt.length / 4) + Math.ceil(response.length / 4),
+      risk_level: output.risk_level,
+      issues_found: issues.slice(0, 10).map(issue => ({ ...issue, file_path: chunk.file_path })), // Limit to top 10 issues
+      recommendations: output.recommendations.slice(0, 10),
+      tokens_used: tokensUsed,
       duration_ms: duration,
+      model_provider: client.getConfig().provider,
+      model_name: client.getConfig().model,
       timestamp: new Date()
     };
   }
 
   /**
-   * Parse structured analysis response to extract key information
+   * Cache key of a pass: everything that decides the model's reply
    */
-  private parseAnalysisResponse(response: string, passType: string): {
-    riskLevel: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
-    issues: string[];
-    recommendations: string[];
-  } {
+  private getPassCacheKey(chunk: ChunkInfo, pass: PassDefinition, client: LLMClient, knownNonIssues: string[]): string {
+    const { model, provider, temperature } = client.getConfig();
+    const builtIn = BUILT_IN_PASSES.find(candidate => candidate.id === pass.id);
+    return passCacheKey({
+      templateVersion: PROMPT_TEMPLATE_VERSION,
+      template: builtIn?.template === pass.template ? undefined : pass.template,
+      passType: pass.id,
+      diffContent: chunk.diff_content,
+      model,
+      provider,
+      temperature,
+      contextWindow: this.getContextBudget(client).contextWindow,
+      knownNonIssues
+    });
+  }
+
+  /**
+   * Client of the model a pass is routed to
+   */
+  private getPassClient(passType: PassType): LLMClient {
+    return this.passClients[passType] || this.llmClient;
+  }
+
+  /**
+   * Request a pass reply in JSON mode, streaming it for real-time feedback.
+   * Concurrent replies would interleave on the terminal, so those are not printed;
+   * neither are replies of passes on their own model, which run alongside the others.
+   * A token listener gets every reply, tagged with its chunk and pass.
+   */
+  private async generatePassReply(prompt: string, client: LLMClient, chunk: ChunkInfo, passType: PassType): Promise<string> {
+    const printReply = this.getConcurrency() === 1 && Object.keys(this.passClients).length === 0;
+    if (!printReply && !this.onToken) {
+      return client.generate(prompt, undefined, { jsonSchema: PASS_OUTPUT_SCHEMA });
+    }
+
+    return client.generate(prompt, {
+      onData: (text: string) => {
+        if (printReply) process.stdout.write(chalk.cyan(text));
+        this.onToken?.({ source: passType, file_path: chunk.file_path, chunk_id: chunk.id, text });
+      },
+      onComplete: () => {
+        if (printReply) console.log(); // New line after streaming
+      },
+      onError: (error: Error) => {
+        console.error(chalk.red(`❌ Streaming error:`), error.message);
+      }
+    }, { jsonSchema: PASS_OUTPUT_SCHEMA });
+  }
+
+  /**
+   * New-file lines covered by the chunk, used to reject made-up line numbers
+   */
+  private getChunkLines(chunk: ChunkInfo): Set<number> {
+    const lines = chunk.diff_lines || toDiffLines(chunk.diff_content);
+    // Lines added to reach whole declarations are not in the PR's diff, so issues cannot anchor on them
+    return new Set(lines.filter(line => line.newLine !== undefined && !line.expanded).map(line => line.newLine!));
+  }
+
+  /**
+   * Last-resort extraction for replies that never matched the JSON contract.
+   * Bullet points become untyped issues so nothing the model said is lost.
+   */
+  private parseAnalysisResponse(response: string): PassOutput {
     // Extract risk level
     let riskLevel: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL' = 'LOW';
-    const riskMatch = response.match(/Risk\s+(?:Level|Assessment).*?:\s*(\w+)/i);
+    const riskMatch = response.match(/Risk(?:\s+(?:Level|Assessment))?.*?:\s*(\w+)/i);
     if (riskMatch) {
       const level = riskMatch[1].toUpperCase();
       if (['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'].includes(level)) {
@@ -177,10 +395,14 @@ export class AnalysisService {
     }
     
     // Extract issues (lines that start with - or bullet points)
-    const issues: string[] = [];
+    const issues: AnalysisIssue[] = [];
     const issueMatches = response.match(/^[\s]*[-•*]\s*(.+)$/gm);
     if (issueMatches) {
-      issues.push(...issueMatches.map(match => match.replace(/^[\s]*[-•*]\s*/, '').trim()));
+      issues.push(...issueMatches.map(match => ({
+        severity: 'info' as const,
+        category: 'unstructured',
+        title: match.replace(/^[\s]*[-•*]\s*/, '').trim()
+      })));
     }
     
     // Extract recommendations (looking for recommendation sections)
@@ -196,12 +418,29 @@ export class AnalysisService {
     }
     
     return {
-      riskLevel,
-      issues: issues.slice(0, 10), // Limit to top 10 issues
-      recommendations: recommendations.slice(0, 10) // Limit to top 10 recommendations
+      risk_level: riskLevel,
+      risk_reason: '',
+      issues,
+      recommendations
     };
   }
 
+  /**
+   * Render typed issues as compact text for synthesis prompts
+   */
+  private formatIssues(issues: AnalysisIssue[]): string {
+    if (issues.length === 0) {
+      return 'None';
+    }
+    return issues
+      .map(issue => {
+        const location = issue.line_start ? ` (line ${issue.line_start})` : '';
+        const fix = issue.suggested_fix ? ` → ${issue.suggested_fix}` : '';
+        return `- [${issue.severity.toUpperCase()}] ${issue.category}: ${issue.title}${location}${fix}`;
+      })
+      .join('\n');
+  }
+
   /**
    * Synthesize file-level analysis from chunk analyses
    */
@@ -224,21 +463,18 @@ export class AnalysisService {
       const chunkAnalysis = chunkAnalyses[chunkId];
       analysisText += `\n## Chunk ${chunkId.slice(0, 8)}\n`;
       
-      for (const passType of ['syntax_logic', 'security_performance', 'architecture_design', 'testing_docs']) {
-        const pass = chunkAnalysis[passType];
-        if (pass) {
-          analysisText += `\n### ${passType.replace('_', ' ').toUpperCase()}\n`;
-          analysisText += `Risk: ${pass.risk_level}\n`;
-          analysisText += `Analysis: ${pass.analysis_result}\n`;
-          
-          totalIssues += pass.issues_found.length;
-          allRecommendations.push(...pass.recommendations);
-          
-          // Track highest risk level
-          const riskLevels = ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'];
-          if (riskLevels.indexOf(pass.risk_level) > riskLevels.indexOf(highestRisk)) {
-            highestRisk = pass.risk_level;
-          }
+      for (const pass of getChunkPasses(chunkAnalysis)) {
+        analysisText += `\n### ${pass.pass_type.replace(/_/g, ' ').toUpperCase()}\n`;
+        analysisText += `Risk: ${pass.risk_level}\n`;
+        analysisText += `Issues:\n${this.formatIssues(pass.issues_found)}\n`;
+        
+        totalIssues += pass.issues_found.length;
+        allRecommendations.push(...pass.recommendations);
+        
+        // Track highest risk level
+        const riskLevels = ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'];
+        if (riskLevels.indexOf(pass.risk_level) > riskLevels.indexOf(highestRisk)) {
+          highestRisk = pass.risk_level;
         }
       }
     }
@@ -247,14 +483,16 @@ export class AnalysisService {
     const synthesisPrompt = PromptBuilder.buildFileSynthesisPrompt(
       filePath,
       chunks.length,
-      analysisText
+      analysisText,
+      this.getSynthesisTarget('file_synthesis')
     );
     
     console.log(chalk.magenta(`🤖 Generating file synthesis...`));
     
-    const synthesis = await this.llmClient.generate(synthesisPrompt, {
+    const synthesis = await this.getSynthesisClient('file_synthesis').generate(synthesisPrompt, {
       onData: (chunk: string) => {
         process.stdout.write(chalk.magenta(chunk));
+        this.onToken?.({ source: 'file_synthesis', file_path: filePath, text: chunk });
       },
       onComplete: () => {
         console.log(); // New line
@@ -276,32 +514,28 @@ export class AnalysisService {
   /**
    * Create error analysis when a pass fails
    */
-  private createErrorAnalysis(
-    chunk: ChunkInfo, 
-    passType: 'syntax_logic' | 'security_performance' | 'architecture_design' | 'testing_docs',
-    error: Error
-  ): AnalysisPass {
+  private createErrorAnalysis(chunk: ChunkInfo, passType: PassType, client: LLMClient, error: Error): AnalysisPass {
     return {
       id: uuidv4(),
       chunk_id: chunk.id,
       pass_type: passType,
       analysis_result: `Error during ${passType} analysis: ${error.message}`,
       risk_level: 'LOW',
-      issues_found: [`Analysis failed: ${error.message}`],
+      issues_found: [{
+        severity: 'info',
+        category: 'analysis_error',
+        title: `Analysis failed: ${error.message}`,
+        file_path: chunk.file_path
+      }],
       recommendations: ['Retry analysis or review manually'],
       tokens_used: 0,
       duration_ms: 0,
+      model_provider: client.getConfig().provider,
+      model_name: client.getConfig().model,
       timestamp: new Date()
     };
   }
 
-  /**
-   * Helper to pause between operations
-   */
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
-
   /**
    * Update model configuration
    */
@@ -331,14 +565,11 @@ export class AnalysisService {
     
     for (const chunkId of chunks) {
       const chunkAnalysis = analyses[chunkId];
-      for (const passType of ['syntax_logic', 'security_performance', 'architecture_design', 'testing_docs']) {
-        const pass = chunkAnalysis[passType];
-        if (pass) {
-          totalPasses++;
-          totalIssues += pass.issues_found.length;
-          totalRecommendations += pass.recommendations.length;
-          riskLevels.push(pass.risk_level);
-        }
+      for (const pass of getChunkPasses(chunkAnalysis)) {
+        totalPasses++;
+        totalIssues += pass.issues_found.length;
+        totalRecommendations += pass.recommendations.length;
+        riskLevels.push(pass.risk_level);
       }
     }
     
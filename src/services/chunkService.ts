@@ -1,30 +1,44 @@
 // Chunking Service - Recursive splitting of large diffs with context management
 
 import { ChunkInfo, ProjectConfig } from '../types/analysis';
+import { DiffLine } from '../types/plugins';
 import chalk from 'chalk';
 import { v4 as uuidv4 } from 'uuid';
 import { DEFAULT_CONFIG } from '../graph/workflow';
+import { ChunkBudget } from './contextBudget';
+import { Tokenizer, getTokenizer } from './tokenizer';
+import { outlineSource, sourceLanguageOf } from './sourceExtractor';
+import { OutlineSymbol } from './sourceModule';
 
 interface ChunkingConfig {
+  strategy: NonNullable<ProjectConfig['chunk_strategy']>;
   maxTokens: number;
   overlapLines: number;
-  minChunkSize: number;
   contextLines: number;
 }
 
 export class ChunkService {
   private config: ChunkingConfig;
+  private tokenizer: Tokenizer;
 
-  constructor(projectConfig: Partial<ProjectConfig>) {
+  /**
+   * A budget from the analysis models lowers the configured chunk size to
+   * what fits their prompts, and counts tokens with their tokenizer
+   */
+  constructor(projectConfig: Partial<ProjectConfig>, budget?: ChunkBudget) {
+    const configured = projectConfig.max_chunk_tokens ?? DEFAULT_CONFIG.project.max_chunk_tokens;
     this.config = {
-      maxTokens: projectConfig.max_chunk_tokens || DEFAULT_CONFIG.project.max_chunk_tokens,
+      strategy: projectConfig.chunk_strategy ?? 'syntax',
+      maxTokens: budget ? Math.min(configured, budget.maxTokens) : configured,
       overlapLines: 3,
-      minChunkSize: 50, // Minimum lines per chunk
-      contextLines: projectConfig.context_lines || DEFAULT_CONFIG.project.context_lines
+      contextLines: projectConfig.context_lines ?? DEFAULT_CONFIG.project.context_lines
     };
+    this.tokenizer = budget?.tokenizer || getTokenizer('');
     
     console.log(chalk.blue(`🧩 Chunk service configured:`));
-    console.log(chalk.gray(`   Max tokens: ${this.config.maxTokens}`));
+    console.log(chalk.gray(`   Strategy: ${this.config.strategy}`));
+    console.log(chalk.gray(`   Max tokens: ${this.config.maxTokens}${this.config.maxTokens < configured ? ` (${configured} configured, lowered to fit the context window)` : ''}`));
+    console.log(chalk.gray(`   Tokenizer: ${this.tokenizer.name}`));
     console.log(chalk.gray(`   Context lines: ${this.config.contextLines}`));
     console.log(chalk.gray(`   Overlap lines: ${this.config.overlapLines}`));
   }
@@ -36,9 +50,8 @@ export class ChunkService {
     console.log(chalk.blue(`\n🧩 Chunking file: ${chalk.yellow(filePath)}`));
     console.log(chalk.gray(`📄 Diff size: ${diffContent.length} characters`));
     
-    // Estimate token count (rough approximation: 1 token ≈ 4 characters)
-    const estimatedTokens = Math.ceil(diffContent.length / 4);
-    console.log(chalk.gray(`🔢 Estimated tokens: ${estimatedTokens}`));
+    const estimatedTokens = this.tokenizer.count(diffContent);
+    console.log(chalk.gray(`🔢 Tokens: ${estimatedTokens}`));
     
     // If the diff is small enough, return as single chunk
     if (estimatedTokens <= this.config.maxTokens) {
@@ -48,6 +61,7 @@ export class ChunkService {
         file_path: filePath,
         size_tokens: estimatedTokens,
         diff_content: diffContent,
+        diff_lines: this.toDiffLines(this.parseDiffStructure(diffContent).hunks.flatMap(hunk => hunk.lines)),
         is_complete_file: true
       }];
     }
@@ -68,6 +82,225 @@ export class ChunkService {
     return chunks;
   }
 
+  /**
+   * Whether the file is chunked along its syntax, which needs the head
+   * version of the file
+   */
+  usesSyntax(filePath: string): boolean {
+    return this.config.strategy === 'syntax' && sourceLanguageOf(filePath) !== undefined;
+  }
+
+  /**
+   * Split a file diff along the declarations of the head version of the
+   * file: every hunk grows to the functions, methods or classes it touches,
+   * hunks in the same declaration share a chunk, and the signatures of the
+   * declarations around a chunk are its context. Files that do not parse,
+   * and declarations too large for a chunk, are split by lines.
+   */
+  async chunkFileDiffBySyntax(filePath: string, diffContent: string, headContent: string | null): Promise<ChunkInfo[]> {
+    const { hunks } = this.parseDiffStructure(diffContent);
+    const symbols = headContent !== null ? await outlineSource(filePath, headContent) : undefined;
+    if (hunks.length === 0 || !symbols) {
+      if (hunks.length > 0) {
+        console.log(chalk.yellow(`⚠️  ${headContent === null ? 'Head version' : 'Syntax'} of ${filePath} not available, chunking by lines`));
+      }
+      return this.chunkFileDiff(filePath, diffContent);
+    }
+
+    console.log(chalk.blue(`\n🧩 Chunking file by syntax: ${chalk.yellow(filePath)}`));
+    const headLines = headContent!.split('\n');
+    const regions = this.mergeRegions(hunks.map(hunk => this.expandHunk(hunk, symbols)));
+    const sections = regions.map(region => {
+      const lines = this.regionLines(region, hunks, headLines);
+      return { region, lines, content: this.renderHunk(lines, region.hunks[0]) };
+    });
+
+    // Like a small diff split by lines, the whole file goes in one chunk when it fits
+    const fileContent = sections.map(section => section.content).join('\n');
+    const fileTokens = this.tokenizer.count(fileContent);
+    if (fileTokens <= this.config.maxTokens) {
+      const enclosing = sections.flatMap(section => this.enclosingSymbols(symbols, section.region.startLine, section.region.endLine));
+      console.log(chalk.green(`✅ ${regions.length} declaration regions fit in a single chunk (${fileTokens} tokens)`));
+      return [{
+        id: uuidv4(),
+        file_path: filePath,
+        start_line: regions[0].startLine,
+        end_line: regions[regions.length - 1].endLine,
+        size_tokens: fileTokens,
+        context_before: this.formatEnclosing([...new Set(enclosing)]),
+        diff_content: fileContent,
+        diff_lines: this.toDiffLines(sections.flatMap(section => section.lines)),
+        is_complete_file: true
+      }];
+    }
+
+    const chunks: ChunkInfo[] = [];
+    for (const { region, lines, content } of sections) {
+      const tokens = this.tokenizer.count(content);
+      if (tokens <= this.config.maxTokens) {
+        chunks.push({
+          id: uuidv4(),
+          file_path: filePath,
+          start_line: region.startLine,
+          end_line: region.endLine,
+          size_tokens: tokens,
+          context_before: this.formatEnclosing(this.enclosingSymbols(symbols, region.startLine, region.endLine)),
+          diff_content: content,
+          diff_lines: this.toDiffLines(lines),
+          is_complete_file: false
+        });
+        continue;
+      }
+
+      // Too large a declaration: its hunks are split by lines, inside the same declarations
+      for (const piece of region.hunks.flatMap(hunk => this.splitHunkIfNeeded(filePath, hunk))) {
+        piece.context_before = this.formatEnclosing(this.enclosingSymbols(symbols, piece.start_line!, piece.end_line!));
+        chunks.push(piece);
+      }
+    }
+
+    console.log(chalk.green(`✅ Created ${chunks.length} chunks for ${filePath}`));
+    chunks.forEach((chunk, index) => {
+      console.log(chalk.gray(`   ${index + 1}. Chunk ${chunk.id.slice(0, 8)} lines ${chunk.start_line}-${chunk.end_line} (${chunk.size_tokens} tokens)`));
+    });
+
+    return chunks;
+  }
+
+  /**
+   * The new-file lines a hunk is reviewed with: the declaration its changes
+   * are made in, or the declarations they touch when they are made between
+   * declarations. A hunk whose changes touch no line of the head version,
+   * like a removed function, keeps its own lines.
+   */
+  private expandHunk(hunk: DiffHunk, symbols: OutlineSymbol[]): SyntaxRegion {
+    const innermost = (line: number) => symbols.filter(symbol => symbol.startLine <= line && line <= symbol.endLine).pop();
+    const touched: number[] = [];
+    let before: number | undefined;
+    hunk.lines.forEach((line, index) => {
+      if (line.type === 'addition' && line.newLine !== undefined) {
+        touched.push(line.newLine);
+      } else if (line.type === 'deletion' && line.oldLine !== undefined) {
+        // A removal inside a declaration touches the lines around it; one between declarations touches none
+        const after = hunk.lines.slice(index + 1).find(next => next.newLine !== undefined)?.newLine;
+        const container = before !== undefined ? innermost(before) : undefined;
+        if (container && after !== undefined && innermost(after) === container) {
+          touched.push(before!, after);
+        }
+      }
+      if (line.newLine !== undefined) before = line.newLine;
+    });
+    if (touched.length === 0) {
+      const newLines = hunk.lines.filter(line => line.newLine !== undefined).map(line => line.newLine!);
+      return { startLine: newLines[0] ?? hunk.newStart, endLine: newLines[newLines.length - 1] ?? hunk.newStart, hunks: [hunk] };
+    }
+
+    const first = Math.min(...touched);
+    const last = Math.max(...touched);
+    let startLine = first;
+    let endLine = last;
+    const container = symbols.filter(symbol => symbol.startLine <= first && last <= symbol.endLine).pop();
+
+    // The declarations directly inside the container, or the top-level ones
+    const children: OutlineSymbol[] = [];
+    for (const symbol of symbols) {
+      if (symbol === container) continue;
+      if (container && (symbol.startLine < container.startLine || symbol.endLine > container.endLine)) continue;
+      const previous = children[children.length - 1];
+      if (!previous || symbol.startLine > previous.endLine) children.push(symbol);
+    }
+
+    const touchedChildren = touched.map(line => children.find(child => child.startLine <= line && line <= child.endLine));
+    // A change to the container's own code, like its signature or a statement between nested declarations
+    const spans = container && touchedChildren.some(child => !child) ? [container] : touchedChildren.filter((child): child is OutlineSymbol => !!child);
+    for (const span of spans) {
+      startLine = Math.min(startLine, span.startLine);
+      endLine = Math.max(endLine, span.endLine);
+    }
+
+    return { startLine, endLine, hunks: [hunk] };
+  }
+
+  /**
+   * Regions that overlap, like two hunks in one function, become one
+   */
+  private mergeRegions(regions: SyntaxRegion[]): SyntaxRegion[] {
+    const merged: SyntaxRegion[] = [];
+    for (const region of [...regions].sort((a, b) => a.startLine - b.startLine)) {
+      const previous = merged[merged.length - 1];
+      if (previous && region.startLine <= previous.endLine) {
+        previous.endLine = Math.max(previous.endLine, region.endLine);
+        previous.hunks.push(...region.hunks);
+      } else {
+        merged.push({ ...region, hunks: [...region.hunks] });
+      }
+    }
+    return merged;
+  }
+
+  /**
+   * The region's hunks with the unchanged head lines around and between them
+   * as context lines; hunk context outside the region is left out
+   */
+  private regionLines(region: SyntaxRegion, hunks: DiffHunk[], headLines: string[]): HunkLine[] {
+    const lines: HunkLine[] = [];
+    let next = region.startLine;
+    const addUnchanged = (until: number) => {
+      for (; next < until && next <= headLines.length; next++) {
+        // Not part of the PR's diff, so it has no index in it and is marked expanded
+        lines.push({ content: ` ${headLines[next - 1]}`, type: 'context', lineNumber: -1, oldLine: next + this.oldLineOffset(next, hunks), newLine: next });
+      }
+    };
+
+    for (const hunk of region.hunks) {
+      addUnchanged(hunk.newStart);
+      lines.push(...hunk.lines.filter(line =>
+        line.type !== 'context' || line.newLine === undefined || (line.newLine >= region.startLine && line.newLine <= region.endLine)
+      ));
+      next = Math.max(next, this.hunkEnd(hunk, 'newLine') + 1);
+    }
+    addUnchanged(region.endLine + 1);
+
+    return lines;
+  }
+
+  /**
+   * Old-file line number minus new-file line number of an unchanged line,
+   * from the last hunk before it
+   */
+  private oldLineOffset(newLine: number, hunks: DiffHunk[]): number {
+    const previous = hunks.filter(hunk => this.hunkEnd(hunk, 'newLine') < newLine).pop();
+    return previous ? this.hunkEnd(previous, 'oldLine') - this.hunkEnd(previous, 'newLine') : 0;
+  }
+
+  private hunkEnd(hunk: DiffHunk, side: 'oldLine' | 'newLine'): number {
+    const numbers = hunk.lines.filter(line => line[side] !== undefined).map(line => line[side]!);
+    return numbers.length > 0 ? numbers[numbers.length - 1] : (side === 'oldLine' ? hunk.oldStart : hunk.newStart) - 1;
+  }
+
+  /**
+   * Declarations a range of new-file lines sits inside, outermost first
+   */
+  private enclosingSymbols(symbols: OutlineSymbol[], startLine: number, endLine: number): OutlineSymbol[] {
+    return symbols.filter(symbol =>
+      symbol.startLine <= startLine && endLine <= symbol.endLine && (symbol.startLine < startLine || symbol.endLine > endLine)
+    );
+  }
+
+  private formatEnclosing(symbols: OutlineSymbol[]): string | undefined {
+    return symbols.length > 0 ? `Enclosing symbols:\n${symbols.map(symbol => symbol.signature).join('\n')}` : undefined;
+  }
+
+  /**
+   * Diff text of hunk lines under a header with their line numbers
+   */
+  private renderHunk(lines: HunkLine[], fallback: DiffHunk): string {
+    const oldLines = lines.filter(l => l.oldLine !== undefined).map(l => l.oldLine!);
+    const newLines = lines.filter(l => l.newLine !== undefined).map(l => l.newLine!);
+    const header = `@@ -${oldLines[0] ?? fallback.oldStart},${oldLines.length} +${newLines[0] ?? fallback.newStart},${newLines.length} @@`;
+    return header + '\n' + lines.map(l => l.content).join('\n');
+  }
+
   /**
    * Parse diff structure to identify logical boundaries
    */
@@ -75,6 +308,8 @@ export class ChunkService {
     const lines = diffContent.split('\n');
     const hunks: DiffHunk[] = [];
     let currentHunk: DiffHunk | null = null;
+    let oldLine = 0;
+    let newLine = 0;
     
     for (let i = 0; i < lines.length; i++) {
       const line = lines[i];
@@ -96,13 +331,27 @@ export class ChunkService {
             lines: [],
             startIndex: i
           };
+          oldLine = currentHunk.oldStart;
+          newLine = currentHunk.newStart;
+        }
+      } else if (line.startsWith('diff --git')) {
+        // Next file in a multi-file diff; its header lines are not part of any hunk
+        if (currentHunk) {
+          hunks.push(currentHunk);
+          currentHunk = null;
         }
       } else if (currentHunk) {
+        const type = line.startsWith('+') ? 'addition' :
+                     line.startsWith('-') ? 'deletion' : 'context';
+        // "\ No newline at end of file" belongs to no line in either version
+        const isMarker = line.startsWith('\\');
+
         currentHunk.lines.push({
           content: line,
-          type: line.startsWith('+') ? 'addition' : 
-                line.startsWith('-') ? 'deletion' : 'context',
-          lineNumber: i
+          type,
+          lineNumber: i,
+          oldLine: type !== 'addition' && !isMarker ? oldLine++ : undefined,
+          newLine: type !== 'deletion' && !isMarker ? newLine++ : undefined
         });
       }
     }
@@ -128,7 +377,7 @@ export class ChunkService {
     if (diffStructure.hunks.length === 1) {
       const hunk = diffStructure.hunks[0];
       const chunkContent = this.reconstructHunkContent(hunk);
-      const tokens = Math.ceil(chunkContent.length / 4);
+      const tokens = this.tokenizer.count(chunkContent);
       
       if (tokens <= this.config.maxTokens) {
         return [{
@@ -138,6 +387,7 @@ export class ChunkService {
           end_line: hunk.newStart + hunk.newLines - 1,
           size_tokens: tokens,
           diff_content: chunkContent,
+          diff_lines: this.toDiffLines(hunk.lines),
           is_complete_file: false
         }];
       }
@@ -158,7 +408,7 @@ export class ChunkService {
    */
   private splitHunkIfNeeded(filePath: string, hunk: DiffHunk): ChunkInfo[] {
     const hunkContent = this.reconstructHunkContent(hunk);
-    const tokens = Math.ceil(hunkContent.length / 4);
+    const tokens = this.tokenizer.count(hunkContent);
     
     if (tokens <= this.config.maxTokens) {
       // Hunk fits in one chunk
@@ -169,31 +419,43 @@ export class ChunkService {
         end_line: hunk.newStart + hunk.newLines - 1,
         size_tokens: tokens,
         diff_content: hunkContent,
+        diff_lines: this.toDiffLines(hunk.lines),
         is_complete_file: false
       }];
     }
     
-    // Split hunk into smaller pieces
+    // Split the hunk into pieces of whole lines within the limit, each overlapping the previous one
     const chunks: ChunkInfo[] = [];
-    const linesPerChunk = Math.floor(this.config.maxTokens / (hunkContent.length / hunk.lines.length * 4));
-    const minLines = Math.max(this.config.minChunkSize, linesPerChunk);
+    const headerTokens = this.tokenizer.count(hunk.header + '\n');
+    const lineTokens = hunk.lines.map(line => this.tokenizer.count(line.content + '\n'));
     
-    for (let i = 0; i < hunk.lines.length; i += minLines) {
-      const endIndex = Math.min(i + minLines + this.config.overlapLines, hunk.lines.length);
+    for (let i = 0; i < hunk.lines.length;) {
+      let endIndex = i + 1; // A line longer than the limit still gets a piece of its own
+      let pieceTokens = headerTokens + lineTokens[i];
+      while (endIndex < hunk.lines.length && pieceTokens + lineTokens[endIndex] <= this.config.maxTokens) {
+        pieceTokens += lineTokens[endIndex++];
+      }
       const chunkLines = hunk.lines.slice(i, endIndex);
       
-      const chunkContent = hunk.header + '\n' + chunkLines.map(l => l.content).join('\n');
-      const chunkTokens = Math.ceil(chunkContent.length / 4);
-      
+      // Each piece gets its own header so the diff text carries the right line numbers
+      const diffLines = this.toDiffLines(chunkLines);
+      const newLines = diffLines.filter(l => l.newLine !== undefined).map(l => l.newLine!);
+      const chunkContent = this.renderHunk(chunkLines, hunk);
+      const chunkTokens = this.tokenizer.count(chunkContent);
+
       chunks.push({
         id: uuidv4(),
         file_path: filePath,
-        start_line: hunk.newStart + i,
-        end_line: hunk.newStart + endIndex - 1,
+        start_line: newLines.length > 0 ? newLines[0] : hunk.newStart + i,
+        end_line: newLines.length > 0 ? newLines[newLines.length - 1] : hunk.newStart + endIndex - 1,
         size_tokens: chunkTokens,
         diff_content: chunkContent,
+        diff_lines: diffLines,
         is_complete_file: false
       });
+
+      if (endIndex >= hunk.lines.length) break;
+      i = Math.max(endIndex - this.config.overlapLines, i + 1);
     }
     
     return chunks;
@@ -245,6 +507,21 @@ export class ChunkService {
     }
   }
 
+  /**
+   * Structured view of hunk lines handed to plugins
+   */
+  private toDiffLines(lines: HunkLine[]): DiffLine[] {
+    return lines
+      .filter(l => l.oldLine !== undefined || l.newLine !== undefined)
+      .map(l => ({
+        type: l.type,
+        content: l.content.slice(1),
+        oldLine: l.oldLine,
+        newLine: l.newLine,
+        ...(l.lineNumber === -1 ? { expanded: true } : {})
+      }));
+  }
+
   /**
    * Reconstruct content from hunk
    */
@@ -253,10 +530,10 @@ export class ChunkService {
   }
 
   /**
-   * Estimate total tokens for a file diff
+   * Count the tokens of a file diff
    */
   estimateTokens(content: string): number {
-    return Math.ceil(content.length / 4);
+    return this.tokenizer.count(content);
   }
 
   /**
@@ -280,12 +557,22 @@ interface DiffHunk {
   oldLines: number;
   newStart: number;
   newLines: number;
-  lines: DiffLine[];
+  lines: HunkLine[];
   startIndex: number;
 }
 
-interface DiffLine {
+// New-file lines reviewed together, and the hunks they hold
+interface SyntaxRegion {
+  startLine: number;
+  endLine: number;
+  hunks: DiffHunk[];
+}
+
+interface HunkLine {
   content: string;
   type: 'addition' | 'deletion' | 'context';
   lineNumber: number;
-} 
+  oldLine?: number;
+  newLine?: number;
+}
+
@@ -11,6 +11,10 @@ import {
   SemanticBoundary,
   CrossReference
 } from '../types/analysis.js';
+import type { File } from '@babel/types';
+import { extractJsModule, parseScript, ScriptLanguage } from './jsAstExtractor';
+import { extractTreeSitterModule, TreeSitterLanguage } from './treeSitterExtractor';
+import { SourceModule } from './sourceModule';
 
 export class CodeAnalysisService {
   private astParser: ASTParser;
@@ -80,8 +84,8 @@ export class CodeAnalysisService {
     return chunks;
   }
 
-  private async parseFilesToAST(files: string[], repoPath: string): Promise<Map<string, any>> {
-    const asts = new Map<string, any>();
+  private async parseFilesToAST(files: string[], repoPath: string): Promise<Map<string, ParsedSource | null>> {
+    const asts = new Map<string, ParsedSource | null>();
     
     // Process files in batches to avoid overwhelming the system
     const batchSize = 10;
@@ -104,7 +108,7 @@ export class CodeAnalysisService {
     return asts;
   }
 
-  private async extractFunctionSignatures(asts: Map<string, any>): Promise<FunctionSignature[]> {
+  private async extractFunctionSignatures(asts: Map<string, ParsedSource | null>): Promise<FunctionSignature[]> {
     const signatures: FunctionSignature[] = [];
     
     for (const [file, ast] of asts) {
@@ -121,7 +125,7 @@ export class CodeAnalysisService {
     return signatures;
   }
 
-  private async extractTypeDefinitions(asts: Map<string, any>): Promise<TypeDefinition[]> {
+  private async extractTypeDefinitions(asts: Map<string, ParsedSource | null>): Promise<TypeDefinition[]> {
     const types: TypeDefinition[] = [];
     
     for (const [file, ast] of asts) {
@@ -138,7 +142,7 @@ export class CodeAnalysisService {
     return types;
   }
 
-  private async extractImportExportChains(asts: Map<string, any>): Promise<ImportExportChain[]> {
+  private async extractImportExportChains(asts: Map<string, ParsedSource | null>): Promise<ImportExportChain[]> {
     const chains: ImportExportChain[] = [];
     
     for (const [file, ast] of asts) {
@@ -155,7 +159,7 @@ export class CodeAnalysisService {
     return chains;
   }
 
-  private async extractCallGraphs(asts: Map<string, any>): Promise<CallGraph[]> {
+  private async extractCallGraphs(asts: Map<string, ParsedSource | null>): Promise<CallGraph[]> {
     const callGraphs: CallGraph[] = [];
     
     for (const [file, ast] of asts) {
@@ -172,7 +176,7 @@ export class CodeAnalysisService {
     return callGraphs;
   }
 
-  private async extractDataFlows(asts: Map<string, any>): Promise<DataFlow[]> {
+  private async extractDataFlows(asts: Map<string, ParsedSource | null>): Promise<DataFlow[]> {
     const dataFlows: DataFlow[] = [];
     
     for (const [file, ast] of asts) {
@@ -208,7 +212,7 @@ export class CodeAnalysisService {
         id: `${file}-chunk-${i}`,
         content: chunkContent,
         semanticBoundaries: [boundary],
-        relatedTypes: this.findRelatedTypes(file, boundary, semanticAnalysis),
+        relatedTypes: this.findRelatedTypes(boundary, chunkContent, semanticAnalysis),
         crossReferences: this.findCrossReferences(file, boundary, semanticAnalysis)
       };
       
@@ -229,37 +233,60 @@ export class CodeAnalysisService {
     return chunks;
   }
 
+  /**
+   * Splits a file on its top-level functions and classes; methods stay in
+   * their class, leading comments and decorators stay with their declaration
+   * and the code between declarations becomes module chunks
+   */
   private findSemanticBoundaries(
     file: string,
     content: string,
     semanticAnalysis: SemanticAnalysis
   ): SemanticBoundary[] {
-    const boundaries: SemanticBoundary[] = [];
-    
-    // Find function boundaries
-    const fileFunctions = semanticAnalysis.functionSignatures.filter(f => f.file === file);
-    for (const func of fileFunctions) {
-      boundaries.push({
-        type: 'function',
-        name: func.name,
-        startLine: func.lineNumber,
-        endLine: this.findFunctionEndLine(content, func.lineNumber)
-      });
+    const lines = content.split('\n');
+    const candidates: SemanticBoundary[] = [
+      ...semanticAnalysis.functionSignatures
+        .filter(f => f.file === file && f.lineNumber > 0)
+        .map(f => ({ type: 'function' as const, name: f.name, startLine: f.lineNumber, endLine: f.endLine })),
+      ...semanticAnalysis.typeDefinitions
+        .filter(t => t.file === file && t.type === 'class' && t.lineNumber && t.endLine)
+        .map(t => ({ type: 'class' as const, name: t.name, startLine: t.lineNumber!, endLine: t.endLine! }))
+    ];
+
+    // Outer declarations first, so nested ones can be skipped
+    candidates.sort((a, b) => a.startLine - b.startLine || b.endLine - a.endLine);
+
+    const declarations: SemanticBoundary[] = [];
+    for (const candidate of candidates) {
+      const previous = declarations[declarations.length - 1];
+      if (previous && candidate.startLine <= previous.endLine) continue;
+
+      let startLine = candidate.startLine;
+      const floor = previous ? previous.endLine + 1 : 1;
+      while (startLine > floor && /^\s*(\/\/|\/\*|\*|@|#)/.test(lines[startLine - 2])) {
+        startLine--;
+      }
+      declarations.push({ ...candidate, startLine });
     }
-    
-    // Find class boundaries
-    const fileTypes = semanticAnalysis.typeDefinitions.filter(t => t.file === file && t.type === 'class');
-    for (const type of fileTypes) {
-      boundaries.push({
-        type: 'class',
-        name: type.name,
-        startLine: this.findTypeStartLine(content, type.name),
-        endLine: this.findTypeEndLine(content, type.name)
-      });
+
+    if (declarations.length === 0) return [];
+
+    const boundaries: SemanticBoundary[] = [];
+    const addModuleCode = (from: number, to: number) => {
+      while (from <= to && !lines[from - 1]?.trim()) from++;
+      while (to >= from && !lines[to - 1]?.trim()) to--;
+      if (from <= to) {
+        boundaries.push({ type: 'module', name: path.basename(file), startLine: from, endLine: to });
+      }
+    };
+
+    let nextLine = 1;
+    for (const declaration of declarations) {
+      addModuleCode(nextLine, declaration.startLine - 1);
+      boundaries.push(declaration);
+      nextLine = declaration.endLine + 1;
     }
-    
-    // Sort boundaries by start line
-    boundaries.sort((a, b) => a.startLine - b.startLine);
+    addModuleCode(nextLine, lines.length);
     
     return boundaries;
   }
@@ -272,32 +299,57 @@ export class CodeAnalysisService {
     return lines.slice(startIndex, endIndex).join('\n');
   }
 
+  /**
+   * Types of the analysed files that the chunk's code mentions
+   */
   private findRelatedTypes(
-    file: string,
     boundary: SemanticBoundary,
+    chunkContent: string,
     semanticAnalysis: SemanticAnalysis
   ): string[] {
-    // Find types referenced within this semantic boundary
-    const relatedTypes: string[] = [];
-    
-    // This would analyze the content within the boundary to find type references
-    // For now, return empty array as placeholder
+    const identifiers = new Set(chunkContent.match(/[A-Za-z_$][\w$]*/g) || []);
+    const names = semanticAnalysis.typeDefinitions
+      .map(type => type.name)
+      .filter(name => name !== boundary.name && identifiers.has(name));
     
-    return relatedTypes;
+    return [...new Set(names)];
   }
 
+  /**
+   * Functions and classes called within the boundary, located where the
+   * analysed files define them
+   */
   private findCrossReferences(
     file: string,
     boundary: SemanticBoundary,
     semanticAnalysis: SemanticAnalysis
   ): CrossReference[] {
-    // Find cross-references within this semantic boundary
-    const crossRefs: CrossReference[] = [];
-    
-    // This would analyze function calls, variable references, etc.
-    // For now, return empty array as placeholder
+    const crossRefs = new Map<string, CrossReference>();
+    const calls = semanticAnalysis.callGraphs.filter(call =>
+      call.file === file && call.lineNumber >= boundary.startLine && call.lineNumber <= boundary.endLine
+    );
+
+    for (const call of calls) {
+      // this.repo.save resolves to a function or method named save
+      const name = call.callee.replace(/^new /, '').split('.').pop() || call.callee;
+      const definition = semanticAnalysis.functionSignatures.find(f => f.name === name || f.name.endsWith(`.${name}`));
+      const type = call.callee.startsWith('new ')
+        ? semanticAnalysis.typeDefinitions.find(t => t.name === name)
+        : undefined;
+      if (!definition && !type) continue;
+
+      const target = type ? type.name : definition!.name;
+      if (target === boundary.name || crossRefs.has(target)) continue;
+
+      crossRefs.set(target, {
+        target,
+        type: type ? 'type' : 'function',
+        file: type ? type.file : definition!.file,
+        lineNumber: call.lineNumber
+      });
+    }
     
-    return crossRefs;
+    return [...crossRefs.values()];
   }
 
   private async readFile(file: string, repoPath: string): Promise<string> {
@@ -309,10 +361,15 @@ export class CodeAnalysisService {
     const ext = path.extname(file).toLowerCase();
     const languageMap: { [key: string]: string } = {
       '.ts': 'typescript',
+      '.mts': 'typescript',
+      '.cts': 'typescript',
       '.js': 'javascript',
-      '.jsx': 'javascript',
-      '.tsx': 'typescript',
+      '.mjs': 'javascript',
+      '.cjs': 'javascript',
+      '.jsx': 'jsx',
+      '.tsx': 'tsx',
       '.py': 'python',
+      '.pyi': 'python',
       '.java': 'java',
       '.go': 'go',
       '.rs': 'rust',
@@ -323,68 +380,35 @@ export class CodeAnalysisService {
     
     return languageMap[ext] || 'unknown';
   }
-
-  private findFunctionEndLine(content: string, startLine: number): number {
-    // Simple heuristic to find function end - would be more sophisticated in real implementation
-    const lines = content.split('\n');
-    let braceCount = 0;
-    let inFunction = false;
-    
-    for (let i = startLine - 1; i < lines.length; i++) {
-      const line = lines[i];
-      
-      if (line.includes('{')) {
-        braceCount += (line.match(/\{/g) || []).length;
-        inFunction = true;
-      }
-      
-      if (line.includes('}')) {
-        braceCount -= (line.match(/\}/g) || []).length;
-        
-        if (inFunction && braceCount === 0) {
-          return i + 1;
-        }
-      }
-    }
-    
-    return startLine + 10; // Fallback
-  }
-
-  private findTypeStartLine(content: string, typeName: string): number {
-    const lines = content.split('\n');
-    for (let i = 0; i < lines.length; i++) {
-      if (lines[i].includes(`class ${typeName}`) || 
-          lines[i].includes(`interface ${typeName}`) ||
-          lines[i].includes(`type ${typeName}`)) {
-        return i + 1;
-      }
-    }
-    return 1;
-  }
-
-  private findTypeEndLine(content: string, typeName: string): number {
-    const startLine = this.findTypeStartLine(content, typeName);
-    return this.findFunctionEndLine(content, startLine);
-  }
 }
 
+// What the parser makes of a file: the declarations of scripts (with their Babel
+// tree) and of tree-sitter languages, or line counts for anything else
+type ParsedSource =
+  | { type: ScriptLanguage; ast: File; module: SourceModule }
+  | { type: TreeSitterLanguage; module: SourceModule }
+  | { type: 'generic'; lineCount: number; complexity: number }
+  | { type: 'error'; error: string };
+
 // Complete implementations based on FINAL_IMPROVEMENT_PLAN.md
 class ASTParser {
-  async parse(content: string, language: string): Promise<any> {
+  async parse(content: string, language: string): Promise<ParsedSource> {
     console.log(`🌳 Parsing ${language} content...`);
     
     try {
       switch (language.toLowerCase()) {
         case 'javascript':
         case 'jsx':
-          return this.parseJavaScript(content);
         case 'typescript':
-        case 'tsx':
-          return this.parseTypeScript(content);
+        case 'tsx': {
+          const scriptLanguage = language.toLowerCase() as ScriptLanguage;
+          const ast = this.parseScript(content, scriptLanguage);
+          return { type: scriptLanguage, ast, module: extractJsModule(content, scriptLanguage, ast) };
+        }
         case 'python':
-          return this.parsePython(content);
         case 'java':
-          return this.parseJava(content);
+        case 'go':
+          return await this.parseTreeSitter(content, language.toLowerCase() as TreeSitterLanguage);
         default:
           return this.parseGeneric(content);
       }
@@ -394,514 +418,67 @@ class ASTParser {
     }
   }
 
-  private parseJavaScript(content: string): any {
-    return {
-      type: 'javascript',
-      functions: this.extractJSFunctions(content),
-      classes: this.extractJSClasses(content),
-      variables: this.extractJSVariables(content),
-      imports: this.extractJSImports(content),
-      exports: this.extractJSExports(content),
-      calls: this.extractFunctionCalls(content)
-    };
+  private parseScript(content: string, language: ScriptLanguage): File {
+    return parseScript(content, language);
   }
 
-  private parseTypeScript(content: string): any {
+  private async parseTreeSitter(content: string, language: TreeSitterLanguage): Promise<ParsedSource> {
     return {
-      type: 'typescript',
-      functions: this.extractTSFunctions(content),
-      classes: this.extractTSClasses(content),
-      interfaces: this.extractTSInterfaces(content),
-      types: this.extractTSTypes(content),
-      variables: this.extractTSVariables(content),
-      imports: this.extractTSImports(content),
-      exports: this.extractTSExports(content),
-      calls: this.extractFunctionCalls(content)
+      type: language,
+      module: await extractTreeSitterModule(content, language)
     };
   }
 
-  private parsePython(content: string): any {
-    return {
-      type: 'python',
-      functions: this.extractPythonFunctions(content),
-      classes: this.extractPythonClasses(content),
-      variables: this.extractPythonVariables(content),
-      imports: this.extractPythonImports(content),
-      calls: this.extractPythonCalls(content)
-    };
-  }
-
-  private parseJava(content: string): any {
-    return {
-      type: 'java',
-      classes: this.extractJavaClasses(content),
-      methods: this.extractJavaMethods(content),
-      variables: this.extractJavaVariables(content),
-      imports: this.extractJavaImports(content),
-      calls: this.extractJavaCalls(content)
-    };
-  }
-
-  private parseGeneric(content: string): any {
+  // Other languages are not parsed; they have no declarations to extract
+  private parseGeneric(content: string): ParsedSource {
     return {
       type: 'generic',
-      functions: this.extractGenericFunctions(content),
-      variables: this.extractGenericVariables(content),
-      imports: this.extractGenericImports(content),
       lineCount: content.split('\n').length,
       complexity: this.calculateComplexity(content)
     };
   }
 
-  async extractFunctions(ast: any, file: string): Promise<FunctionSignature[]> {
-    if (!ast || ast.type === 'error') return [];
-    
-    const functions = ast.functions || ast.methods || [];
-    
-    return functions.map((func: any) => ({
+  private getModule(ast: ParsedSource): SourceModule | undefined {
+    return 'module' in ast ? ast.module : undefined;
+  }
+
+  async extractFunctions(ast: ParsedSource, file: string): Promise<FunctionSignature[]> {
+    return (this.getModule(ast)?.functions || []).map(func => ({
       name: func.name,
-      parameters: func.parameters || [],
-      returnType: func.returnType || 'unknown',
+      parameters: func.parameters,
+      returnType: func.returnType,
       file,
-      lineNumber: func.lineNumber || 0,
-      isAsync: func.isAsync || false,
-      isStatic: func.isStatic || false,
-      visibility: func.visibility || 'public'
+      lineNumber: func.startLine,
+      endLine: func.endLine,
+      isAsync: func.isAsync,
+      isStatic: func.isStatic,
+      visibility: func.visibility
     }));
   }
 
-  async extractTypes(ast: any, file: string): Promise<TypeDefinition[]> {
-    if (!ast || ast.type === 'error') return [];
-    
-    const types: TypeDefinition[] = [];
-    
-    // Extract interfaces
-    const interfaces = ast.interfaces || [];
-    interfaces.forEach((iface: any) => {
-      types.push({
-        name: iface.name,
-        type: 'interface' as const,
-        properties: iface.properties || [],
-        file
-      });
-    });
-    
-    // Extract custom types
-    const customTypes = ast.types || [];
-    customTypes.forEach((type: any) => {
-      types.push({
-        name: type.name,
-        type: 'type' as const,
-        properties: [],
-        file
-      });
-    });
-    
-    // Extract classes as types
-    const classes = ast.classes || [];
-    classes.forEach((cls: any) => {
-      types.push({
-        name: cls.name,
-        type: 'class' as const,
-        properties: cls.properties || [],
-        file
-      });
-    });
-    
-    return types;
-  }
-
-  async extractImportExports(ast: any, file: string): Promise<ImportExportChain> {
-    if (!ast || ast.type === 'error') {
-      return { file, imports: [], exports: [] };
-    }
-    
-    const imports = (ast.imports || []).map((imp: any) => ({
-      module: imp.module || imp.from || '',
-      imports: imp.imports || [imp.name || ''],
-      isDefault: imp.isDefault || false,
-      lineNumber: imp.lineNumber || 0
-    }));
-    
-    const exports = (ast.exports || []).map((exp: any) => ({
-      name: exp.name || '',
-      type: exp.type || 'unknown',
-      isDefault: exp.isDefault || false,
-      lineNumber: exp.lineNumber || 0
+  async extractTypes(ast: ParsedSource, file: string): Promise<TypeDefinition[]> {
+    return (this.getModule(ast)?.types || []).map(type => ({
+      name: type.name,
+      type: type.type,
+      properties: type.properties,
+      file,
+      lineNumber: type.startLine,
+      endLine: type.endLine
     }));
-    
-    return { file, imports, exports };
-  }
-
-  async extractCallGraph(ast: any, file: string): Promise<CallGraph[]> {
-    if (!ast || ast.type === 'error') return [];
-    
-    const callGraphs: CallGraph[] = [];
-    const functions = ast.functions || ast.methods || [];
-    
-    functions.forEach((func: any) => {
-      const calls = ast.calls || [];
-      const functionCalls = calls.filter((call: any) => 
-        call.context === func.name || call.lineNumber >= func.startLine && call.lineNumber <= func.endLine
-      );
-      
-      if (functionCalls.length > 0) {
-        callGraphs.push({
-          caller: func.name,
-          callee: functionCalls[0]?.name || 'unknown',
-          file,
-          lineNumber: func.lineNumber || 0
-        });
-      }
-    });
-    
-    return callGraphs;
   }
 
-  async extractDataFlow(ast: any, file: string): Promise<DataFlow[]> {
-    if (!ast || ast.type === 'error') return [];
-    
-    const dataFlows: DataFlow[] = [];
-    const variables = ast.variables || [];
-    const functions = ast.functions || ast.methods || [];
-    
-    variables.forEach((variable: any) => {
-      const usages = this.findVariableUsages(variable.name, functions);
-      
-      if (usages.length > 0) {
-        dataFlows.push({
-          source: variable.name,
-          target: usages[0]?.function || 'unknown',
-          type: 'assignment' as const,
-          file
-        });
-      }
-    });
-    
-    return dataFlows;
-  }
-
-  // Language-specific extraction methods
-  private extractJSFunctions(content: string): any[] {
-    const functions: any[] = [];
-    const lines = content.split('\n');
-    
-    // Function declarations
-    const functionRegex = /^\s*(?:async\s+)?function\s+(\w+)\s*\(([^)]*)\)/gm;
-    let match: RegExpExecArray | null;
-    
-    while ((match = functionRegex.exec(content)) !== null) {
-      const lineNumber = content.substring(0, match.index).split('\n').length;
-      functions.push({
-        name: match[1],
-        parameters: this.parseParameters(match[2]),
-        isAsync: match[0].includes('async'),
-        lineNumber,
-        type: 'function'
-      });
-    }
-    
-    // Arrow functions
-    const arrowRegex = /(?:const|let|var)\s+(\w+)\s*=\s*(?:async\s+)?\(([^)]*)\)\s*=>/gm;
-    while ((match = arrowRegex.exec(content)) !== null) {
-      const lineNumber = content.substring(0, match.index).split('\n').length;
-      functions.push({
-        name: match[1],
-        parameters: this.parseParameters(match[2]),
-        isAsync: match[0].includes('async'),
-        lineNumber,
-        type: 'arrow'
-      });
-    }
-    
-    return functions;
-  }
-
-  private extractTSFunctions(content: string): any[] {
-    const functions = this.extractJSFunctions(content);
-    
-    // TypeScript-specific function patterns
-    const methodRegex = /^\s*(?:public|private|protected)?\s*(?:async\s+)?(\w+)\s*\(([^)]*)\)\s*:\s*([^{]+)/gm;
-    let methodMatch: RegExpExecArray | null;
-    while ((methodMatch = methodRegex.exec(content)) !== null) {
-      const lineNumber = content.substring(0, methodMatch.index).split('\n').length;
-      functions.push({
-        name: methodMatch[1],
-        parameters: this.parseParameters(methodMatch[2]),
-        returnType: methodMatch[3].trim(),
-        isAsync: methodMatch[0].includes('async'),
-        lineNumber,
-        type: 'method'
-      });
-    }
-    
-    return functions;
-  }
-
-  private extractJSClasses(content: string): any[] {
-    const classes: any[] = [];
-    const classRegex = /class\s+(\w+)(?:\s+extends\s+(\w+))?\s*{/gm;
-    let match: RegExpExecArray | null;
-    
-    while ((match = classRegex.exec(content)) !== null) {
-      const lineNumber = content.substring(0, match.index).split('\n').length;
-      classes.push({
-        name: match[1],
-        extends: match[2] || null,
-        lineNumber,
-        methods: this.extractClassMethods(content, match.index),
-        properties: this.extractClassProperties(content, match.index)
-      });
-    }
-    
-    return classes;
-  }
-
-  private extractTSInterfaces(content: string): any[] {
-    const interfaces: any[] = [];
-    const interfaceRegex = /interface\s+(\w+)(?:\s+extends\s+([^{]+))?\s*{([^}]*)}/gm;
-    let match: RegExpExecArray | null;
-    
-    while ((match = interfaceRegex.exec(content)) !== null) {
-      const lineNumber = content.substring(0, match.index).split('\n').length;
-      interfaces.push({
-        name: match[1],
-        extends: match[2] ? match[2].trim().split(',').map(s => s.trim()) : [],
-        properties: this.parseInterfaceProperties(match[3]),
-        lineNumber,
-        exported: content.substring(Math.max(0, match.index - 20), match.index).includes('export')
-      });
-    }
-    
-    return interfaces;
-  }
-
-  private extractTSTypes(content: string): any[] {
-    const types: any[] = [];
-    const typeRegex = /type\s+(\w+)\s*=\s*([^;]+);/gm;
-    let match: RegExpExecArray | null;
-    
-    while ((match = typeRegex.exec(content)) !== null) {
-      const lineNumber = content.substring(0, match.index).split('\n').length;
-      types.push({
-        name: match[1],
-        definition: match[2].trim(),
-        lineNumber,
-        exported: content.substring(Math.max(0, match.index - 20), match.index).includes('export')
-      });
-    }
-    
-    return types;
-  }
-
-  private extractJSImports(content: string): any[] {
-    const imports: any[] = [];
-    
-    // ES6 imports
-    const importRegex = /import\s+(?:(\w+)|{([^}]+)}|\*\s+as\s+(\w+))\s+from\s+['"]([^'"]+)['"]/gm;
-    let match: RegExpExecArray | null;
-    
-    while ((match = importRegex.exec(content)) !== null) {
-      const lineNumber = content.substring(0, match.index!).split('\n').length;
-      
-      if (match[1]) {
-        // Default import
-        imports.push({
-          name: match[1],
-          module: match[4],
-          isDefault: true,
-          lineNumber
-        });
-      } else if (match[2]) {
-        // Named imports
-        const namedImports = match[2].split(',').map(s => s.trim());
-        const moduleRef = match[4];
-        namedImports.forEach(imp => {
-          imports.push({
-            name: imp,
-            module: moduleRef,
-            isDefault: false,
-            lineNumber
-          });
-        });
-      } else if (match[3]) {
-        // Namespace import
-        imports.push({
-          name: match[3],
-          module: match[4],
-          isNamespace: true,
-          lineNumber
-        });
-      }
-    }
-    
-    // CommonJS requires
-    const requireRegex = /(?:const|let|var)\s+(?:(\w+)|{([^}]+)})\s*=\s*require\s*\(\s*['"]([^'"]+)['"]\s*\)/gm;
-    let requireMatch: RegExpExecArray | null;
-    while ((requireMatch = requireRegex.exec(content)) !== null) {
-      const lineNumber = content.substring(0, requireMatch.index!).split('\n').length;
-      
-      if (requireMatch[1]) {
-        imports.push({
-          name: requireMatch[1],
-          module: requireMatch[3],
-          isDefault: true,
-          lineNumber,
-          type: 'require'
-        });
-      } else if (requireMatch[2]) {
-        const namedImports = requireMatch[2].split(',').map(s => s.trim());
-        const moduleRef = requireMatch[3];
-        namedImports.forEach(imp => {
-          imports.push({
-            name: imp,
-            module: moduleRef,
-            isDefault: false,
-            lineNumber,
-            type: 'require'
-          });
-        });
-      }
-    }
-    
-    return imports;
-  }
-
-  private extractJSExports(content: string): any[] {
-    const exports: any[] = [];
-    
-    // Export declarations
-    const exportRegex = /export\s+(?:default\s+)?(?:(class|function|const|let|var)\s+(\w+)|{([^}]+)})/gm;
-    let exportMatch: RegExpExecArray | null;
-    
-    while ((exportMatch = exportRegex.exec(content)) !== null) {
-      const lineNumber = content.substring(0, exportMatch.index).split('\n').length;
-      const isDefault = exportMatch[0].includes('default');
-      
-      if (exportMatch[2]) {
-        exports.push({
-          name: exportMatch[2],
-          type: exportMatch[1],
-          isDefault,
-          lineNumber
-        });
-      } else if (exportMatch[3]) {
-        const namedExports = exportMatch[3].split(',').map(s => s.trim());
-        namedExports.forEach(exp => {
-          exports.push({
-            name: exp,
-            type: 'named',
-            isDefault: false,
-            lineNumber
-          });
-        });
-      }
-    }
-    
-    return exports;
-  }
-
-  private extractFunctionCalls(content: string): any[] {
-    const calls: any[] = [];
-    const callRegex = /(\w+)\s*\(/gm;
-    let match;
-    
-    while ((match = callRegex.exec(content)) !== null) {
-      const lineNumber = content.substring(0, match.index).split('\n').length;
-      calls.push({
-        name: match[1],
-        lineNumber
-      });
-    }
-    
-    return calls;
-  }
-
-  private extractJSVariables(content: string): any[] {
-    const variables: any[] = [];
-    const varRegex = /(?:const|let|var)\s+(\w+)(?:\s*:\s*([^=]+))?\s*=/gm;
-    let match;
-    
-    while ((match = varRegex.exec(content)) !== null) {
-      const lineNumber = content.substring(0, match.index).split('\n').length;
-      variables.push({
-        name: match[1],
-        type: match[2] ? match[2].trim() : 'unknown',
-        lineNumber
-      });
-    }
-    
-    return variables;
-  }
-
-  // Helper methods
-  private parseParameters(paramStr: string): any[] {
-    if (!paramStr.trim()) return [];
-    
-    return paramStr.split(',').map(param => {
-      const trimmed = param.trim();
-      const colonIndex = trimmed.indexOf(':');
-      
-      if (colonIndex > -1) {
-        return {
-          name: trimmed.substring(0, colonIndex).trim(),
-          type: trimmed.substring(colonIndex + 1).trim(),
-          optional: trimmed.includes('?')
-        };
-      }
-      
-      return {
-        name: trimmed,
-        type: 'unknown',
-        optional: false
-      };
-    });
-  }
-
-  private parseInterfaceProperties(propertiesStr: string): any[] {
-    const properties: any[] = [];
-    const lines = propertiesStr.split('\n');
-    
-    lines.forEach(line => {
-      const trimmed = line.trim();
-      if (!trimmed || trimmed.startsWith('//')) return;
-      
-      const match = trimmed.match(/(\w+)(\?)?\s*:\s*([^;,]+)/);
-      if (match) {
-        properties.push({
-          name: match[1],
-          type: match[3].trim(),
-          optional: !!match[2]
-        });
-      }
-    });
-    
-    return properties;
-  }
-
-  private extractClassMethods(content: string, classStartIndex: number): any[] {
-    // Simple implementation - would need more sophisticated parsing
-    return [];
+  async extractImportExports(ast: ParsedSource, file: string): Promise<ImportExportChain> {
+    const { imports, exports } = this.getModule(ast) || { imports: [], exports: [] };
+    return { file, imports, exports };
   }
 
-  private extractClassProperties(content: string, classStartIndex: number): any[] {
-    // Simple implementation - would need more sophisticated parsing
-    return [];
+  async extractCallGraph(ast: ParsedSource, file: string): Promise<CallGraph[]> {
+    // One edge per call site, from the function the call is written in
+    return (this.getModule(ast)?.calls || []).map(call => ({ ...call, file }));
   }
 
-  private findVariableUsages(variableName: string, functions: any[]): any[] {
-    const usages: any[] = [];
-    
-    functions.forEach(func => {
-      if (func.body && func.body.includes(variableName)) {
-        usages.push({
-          function: func.name,
-          lineNumber: func.lineNumber
-        });
-      }
-    });
-    
-    return usages;
+  async extractDataFlow(ast: ParsedSource, file: string): Promise<DataFlow[]> {
+    return (this.getModule(ast)?.dataFlows || []).map(flow => ({ ...flow, file }));
   }
 
   private calculateComplexity(content: string): number {
@@ -930,28 +507,6 @@ class ASTParser {
     
     return complexity;
   }
-
-  // Placeholder methods for other languages
-  private extractPythonFunctions(content: string): any[] { return []; }
-  private extractPythonClasses(content: string): any[] { return []; }
-  private extractPythonVariables(content: string): any[] { return []; }
-  private extractPythonImports(content: string): any[] { return []; }
-  private extractPythonCalls(content: string): any[] { return []; }
-  
-  private extractJavaClasses(content: string): any[] { return []; }
-  private extractJavaMethods(content: string): any[] { return []; }
-  private extractJavaVariables(content: string): any[] { return []; }
-  private extractJavaImports(content: string): any[] { return []; }
-  private extractJavaCalls(content: string): any[] { return []; }
-  
-  private extractGenericFunctions(content: string): any[] { return []; }
-  private extractGenericVariables(content: string): any[] { return []; }
-  private extractGenericImports(content: string): any[] { return []; }
-  
-  private extractTSClasses(content: string): any[] { return this.extractJSClasses(content); }
-  private extractTSVariables(content: string): any[] { return this.extractJSVariables(content); }
-  private extractTSImports(content: string): any[] { return this.extractJSImports(content); }
-  private extractTSExports(content: string): any[] { return this.extractJSExports(content); }
 }
 
 class SemanticAnalyzer {
@@ -0,0 +1,136 @@
+// Context Budget - Fits prompts into the context window of the model reading them
+//
+// A request holds the prompt and the reply. A prompt may use the model's
+// context window minus the reply's max tokens and a margin for the chat
+// template; variable content (the diff, earlier analyses, an echoed reply)
+// gets what the fixed text of the prompt leaves. Whatever does not fit is
+// dropped from the end and recorded, so the report can say what the model
+// never saw.
+
+import chalk from 'chalk';
+import { Tokenizer, getTokenizer } from './tokenizer';
+
+// Ollama and LM Studio decide the context, not the model: their default unless context_window is set
+export const LOCAL_SERVER_CONTEXT_WINDOW = 4096;
+const FALLBACK_CONTEXT_WINDOW = 8192;
+
+// Chat template tokens and the reply constraints a client appends to text prompts
+const PROMPT_OVERHEAD_TOKENS = 96;
+
+const TRUNCATION_MARKER = '\n[... truncated to fit the context window]';
+
+// Models behind OpenAI-compatible APIs, by name; the first match wins
+const KNOWN_CONTEXT_WINDOWS: [RegExp, number][] = [
+  [/^gpt-4\.1/, 1047576],
+  [/^gpt-5/, 400000],
+  [/^(gpt-4o|gpt-4-turbo|gpt-4\.5|o[134](-|$))/, 128000],
+  [/^gpt-4-32k/, 32768],
+  [/^gpt-4/, 8192],
+  [/^gpt-3\.5/, 16385],
+  // Open models served by vLLM, llama.cpp and the like
+  [/llama-?3\.[1-3]/, 131072],
+  [/qwen|mistral|mixtral|codestral/, 32768],
+  [/codellama|deepseek-coder/, 16384],
+  [/llama-?3|gemma/, 8192],
+];
+
+export interface ModelContext {
+  provider: string;
+  model: string;
+  contextWindow?: number; // Configured context_window
+}
+
+/**
+ * Tokens a model reads and writes in one request
+ */
+export const resolveContextWindow = ({ provider, model, contextWindow }: ModelContext): number => {
+  if (contextWindow) return contextWindow;
+  if (provider === 'ollama' || provider === 'lmstudio') return LOCAL_SERVER_CONTEXT_WINDOW;
+
+  const name = model.toLowerCase().split('/').pop() || '';
+  return KNOWN_CONTEXT_WINDOWS.find(([pattern]) => pattern.test(name))?.[1] ?? FALLBACK_CONTEXT_WINDOW;
+};
+
+/**
+ * Where a prompt goes: the budget of its model, the step it belongs to and
+ * the tokens its reply may use
+ */
+export interface PromptTarget {
+  budget: ContextBudget;
+  step: string;
+  replyTokens: number;
+}
+
+/**
+ * Tokens a chunk's diff may use, counted with the tokenizer of the model
+ * that has the least room for it
+ */
+export interface ChunkBudget {
+  tokenizer: Tokenizer;
+  maxTokens: number;
+}
+
+export interface ContextDrop {
+  step: string;          // Pass id, file_synthesis or synthesis
+  subject: string;       // Where the text came from, e.g. a file path
+  model: string;
+  keptTokens: number;
+  droppedTokens: number;
+}
+
+/**
+ * Collects the text dropped from the prompts of a review
+ */
+export class ContextBudgetLog {
+  private drops: ContextDrop[] = [];
+
+  record(drop: ContextDrop): void {
+    this.drops.push(drop);
+  }
+
+  getDrops(): ContextDrop[] {
+    return [...this.drops];
+  }
+}
+
+/**
+ * Token budget of the prompts sent to one model
+ */
+export class ContextBudget {
+  readonly tokenizer: Tokenizer;
+  readonly contextWindow: number;
+  private model: string;
+  private log?: ContextBudgetLog;
+
+  constructor(model: ModelContext, log?: ContextBudgetLog) {
+    this.tokenizer = getTokenizer(model.model);
+    this.contextWindow = resolveContextWindow(model);
+    this.model = model.model;
+    this.log = log;
+  }
+
+  /**
+   * Tokens a prompt may use when its reply may use replyTokens
+   */
+  promptLimit(replyTokens: number): number {
+    return this.contextWindow - replyTokens - PROMPT_OVERHEAD_TOKENS;
+  }
+
+  /**
+   * Fills a placeholder of a prompt with as much of the text as fits
+   */
+  fill(prompt: string, placeholder: string, text: string, source: { step: string; subject: string; replyTokens: number }): string {
+    const room = this.promptLimit(source.replyTokens) - this.tokenizer.count(prompt.replace(placeholder, ''));
+    const tokens = this.tokenizer.count(text);
+    if (tokens <= room) {
+      return prompt.replace(placeholder, () => text);
+    }
+
+    const kept = this.tokenizer.truncate(text, room - this.tokenizer.count(TRUNCATION_MARKER));
+    const keptTokens = kept ? this.tokenizer.count(kept) : 0;
+    this.log?.record({ step: source.step, subject: source.subject, model: this.model, keptTokens, droppedTokens: tokens - keptTokens });
+    console.log(chalk.yellow(`✂️  ${source.step}: dropped ${tokens - keptTokens} of ${tokens} tokens of ${source.subject} to fit the ${this.contextWindow}-token context of ${this.model}`));
+
+    return prompt.replace(placeholder, () => kept + TRUNCATION_MARKER);
+  }
+}
@@ -0,0 +1,120 @@
+// Diff Parser - Maps raw unified diff text to real old/new file line numbers
+
+import { DiffLine } from '../types/plugins';
+
+export type DiffLineType = 'header' | 'hunk' | 'addition' | 'deletion' | 'context';
+
+export interface ParsedDiffLine {
+  index: number;       // 0-based index of the line in the raw diff text
+  type: DiffLineType;
+  content: string;     // Line text without the leading +/-/space marker
+  oldLine?: number;    // Line number in the base version (deletions and context)
+  newLine?: number;    // Line number in the head version (additions and context)
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * Parse a unified diff (one or more files) into lines annotated with their
+ * position in the base and head versions of the file.
+ */
+export function parseUnifiedDiff(diff: string): ParsedDiffLine[] {
+  const parsed: ParsedDiffLine[] = [];
+  let oldLine = 0;
+  let newLine = 0;
+  let inHunk = false;
+
+  diff.split('\n').forEach((line, index) => {
+    const hunk = line.match(HUNK_HEADER);
+    if (hunk) {
+      oldLine = parseInt(hunk[1], 10);
+      newLine = parseInt(hunk[3], 10);
+      inHunk = true;
+      parsed.push({ index, type: 'hunk', content: line });
+      return;
+    }
+
+    // File headers reset the hunk state until the next @@
+    if (line.startsWith('diff --git') || !inHunk) {
+      inHunk = inHunk && !line.startsWith('diff --git');
+      parsed.push({ index, type: 'header', content: line });
+      return;
+    }
+
+    if (line.startsWith('+')) {
+      parsed.push({ index, type: 'addition', content: line.slice(1), newLine: newLine++ });
+    } else if (line.startsWith('-')) {
+      parsed.push({ index, type: 'deletion', content: line.slice(1), oldLine: oldLine++ });
+    } else if (line.startsWith('\\')) {
+      // "\ No newline at end of file"
+      parsed.push({ index, type: 'header', content: line });
+    } else {
+      parsed.push({ index, type: 'context', content: line.slice(1), oldLine: oldLine++, newLine: newLine++ });
+    }
+  });
+
+  return parsed;
+}
+
+/**
+ * Head-version line numbers that appear in the diff (added or context lines).
+ * Only these lines can carry inline review comments on a code host.
+ */
+export function getCommentableLines(diff: string): Set<number> {
+  const lines = new Set<number>();
+  for (const line of parseUnifiedDiff(diff)) {
+    if (line.newLine !== undefined) {
+      lines.add(line.newLine);
+    }
+  }
+  return lines;
+}
+
+/**
+ * Resolve a 1-based line number inside raw diff text to the head-version line
+ * it refers to. Deleted lines and headers have no head-version line.
+ */
+export function diffIndexToFileLine(diff: string, diffLineNumber: number): number | undefined {
+  const line = parseUnifiedDiff(diff)[diffLineNumber - 1];
+  return line?.newLine;
+}
+
+/**
+ * Code lines of a diff in the shape plugins receive. Used for chunks that
+ * were stored before ChunkService attached diff_lines itself.
+ */
+export function toDiffLines(diff: string): DiffLine[] {
+  return parseUnifiedDiff(diff)
+    .filter(line => line.type === 'addition' || line.type === 'deletion' || line.type === 'context')
+    .map(line => ({
+      type: line.type as DiffLine['type'],
+      content: line.content,
+      oldLine: line.oldLine,
+      newLine: line.newLine,
+    }));
+}
+
+/**
+ * Head lines a chunk added around its hunks to reach whole declarations;
+ * stored with the chunk, since its diff text shows them as context lines
+ */
+export function getExpandedLines(lines: DiffLine[]): number[] {
+  return lines.filter(line => line.expanded && line.newLine !== undefined).map(line => line.newLine!);
+}
+
+/**
+ * Whitespace differences do not make different code
+ */
+export function normalizeCode(code: string): string {
+  return code.split('\n').map(line => line.trim().replace(/\s+/g, ' ')).filter(Boolean).join('\n');
+}
+
+/**
+ * Normalized head-version code of lines start to end (inclusive)
+ */
+export function codeBetween(lines: DiffLine[], start: number, end: number): string {
+  return normalizeCode(lines
+    .filter(line => line.newLine !== undefined && line.newLine >= start && line.newLine <= end)
+    .map(line => line.content)
+    .join('\n'));
+}
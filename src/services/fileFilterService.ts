@@ -1,22 +1,23 @@
 // File Filtering Service - Smart detection and filtering of analyzable files
 
-import { ProjectConfig } from '../types/analysis';
+import { ExcludedFile, LanguageMix, ProjectConfig, ProjectLanguage } from '../types/analysis';
+import { IgnoreRules, parseIgnoreFile } from './ignoreRules';
 import chalk from 'chalk';
 import path from 'path';
 
 // Predefined configurations for different project types
-const PROJECT_CONFIGS: { [key: string]: ProjectConfig } = {
+const PROJECT_CONFIGS: { [key in ProjectLanguage]: ProjectConfig } = {
   typescript: {
     language: 'typescript',
     file_extensions: ['.ts', '.tsx', '.js', '.jsx'],
     exclude_patterns: [
       '*.d.ts',           // Type definition files
       '*.min.js',         // Minified files
-      'node_modules/**',  // Dependencies
-      'dist/**',          // Build output
-      'build/**',         // Build output
-      '.next/**',         // Next.js output
-      'coverage/**',      // Test coverage
+      'node_modules/',    // Dependencies
+      'dist/',            // Build output
+      'build/',           // Build output
+      '.next/',           // Next.js output
+      'coverage/',        // Test coverage
       '*.spec.ts',        // Test files (optional)
       '*.test.ts',        // Test files (optional)
       '*.spec.js',        // Test files (optional)
@@ -31,10 +32,10 @@ const PROJECT_CONFIGS: { [key: string]: ProjectConfig } = {
     file_extensions: ['.js', '.jsx', '.mjs', '.cjs'],
     exclude_patterns: [
       '*.min.js',
-      'node_modules/**',
-      'dist/**',
-      'build/**',
-      'coverage/**',
+      'node_modules/',
+      'dist/',
+      'build/',
+      'coverage/',
       '*.spec.js',
       '*.test.js'
     ],
@@ -46,14 +47,14 @@ const PROJECT_CONFIGS: { [key: string]: ProjectConfig } = {
     language: 'python',
     file_extensions: ['.py', '.pyx', '.pyi'],
     exclude_patterns: [
-      '__pycache__/**',
+      '__pycache__/',
       '*.pyc',
-      'venv/**',
-      '.venv/**',
-      'env/**',
-      'dist/**',
-      'build/**',
-      '*.egg-info/**',
+      'venv/',
+      '.venv/',
+      'env/',
+      'dist/',
+      'build/',
+      '*.egg-info/',
       'test_*.py',
       '*_test.py'
     ],
@@ -65,9 +66,9 @@ const PROJECT_CONFIGS: { [key: string]: ProjectConfig } = {
     language: 'java',
     file_extensions: ['.java'],
     exclude_patterns: [
-      'target/**',
-      'build/**',
-      '.gradle/**',
+      'target/',
+      'build/',
+      '.gradle/',
       '*.class',
       '*Test.java',
       '*Tests.java'
@@ -80,45 +81,232 @@ const PROJECT_CONFIGS: { [key: string]: ProjectConfig } = {
     language: 'go',
     file_extensions: ['.go'],
     exclude_patterns: [
-      'vendor/**',
+      'vendor/',
       '*_test.go'
     ],
     max_chunk_tokens: 4000,
     context_lines: 5
+  },
+
+  rust: {
+    language: 'rust',
+    file_extensions: ['.rs'],
+    exclude_patterns: [
+      'target/'
+    ],
+    max_chunk_tokens: 4000,
+    context_lines: 5
   }
 };
 
+export const LANGUAGE_LABELS: { [key in ProjectLanguage]: string } = {
+  typescript: 'TypeScript',
+  javascript: 'JavaScript',
+  python: 'Python',
+  java: 'Java',
+  go: 'Go',
+  rust: 'Rust'
+};
+
+// Manifests at the root of a repository and the language each declares
+export const LANGUAGE_MANIFESTS: { [manifest: string]: ProjectLanguage } = {
+  'tsconfig.json': 'typescript',
+  'package.json': 'javascript',
+  'pyproject.toml': 'python',
+  'setup.py': 'python',
+  'requirements.txt': 'python',
+  'go.mod': 'go',
+  'pom.xml': 'java',
+  'build.gradle': 'java',
+  'build.gradle.kts': 'java',
+  'Cargo.toml': 'rust'
+};
+
+// Lockfiles, snapshots and generated code, excluded in every language unless
+// files.exclude_generated is false or a later rule re-includes them with !
+export const GENERATED_PATTERNS = [
+  'package-lock.json',
+  'npm-shrinkwrap.json',
+  'yarn.lock',
+  'pnpm-lock.yaml',
+  'bun.lockb',
+  'poetry.lock',
+  'Pipfile.lock',
+  'uv.lock',
+  'Cargo.lock',
+  'go.sum',
+  'Gemfile.lock',
+  'composer.lock',
+  '*.snap',
+  '__snapshots__/',
+  '**/prisma/migrations/',
+  '*.min.js',
+  '*.map',
+  '*.pb.go',
+  '*_pb2.py',
+  '*.generated.*'
+];
+
+// Ignore files at the root of a repository, in the order their rules apply
+export const IGNORE_FILES = ['.gitignore', '.hikmaignore'];
+
+// Used when neither the changed files nor the manifests name a language
+const DEFAULT_LANGUAGE: ProjectLanguage = 'typescript';
+const TYPESCRIPT_FILE = /\.(ts|tsx|mts|cts)$/i;
+
+/**
+ * Whether a file has one of the extensions of a language
+ */
+export const fileMatchesLanguage = (filePath: string, language: string): boolean =>
+  (PROJECT_CONFIGS[language as ProjectLanguage]?.file_extensions || []).some(ext => filePath.toLowerCase().endsWith(ext.toLowerCase()));
+
 export class FileFilterService {
   private config: ProjectConfig;
+  private customConfig: Partial<ProjectConfig>;
+  private configuredLanguage?: ProjectLanguage;
+  private ignoreFiles: { source: string; patterns: string[] }[] = [];
+  private rules?: { exclude: IgnoreRules; include?: IgnoreRules };
 
   constructor(customConfig?: Partial<ProjectConfig>) {
-    if (customConfig?.language && customConfig.language !== 'auto') {
-      this.config = { ...PROJECT_CONFIGS[customConfig.language], ...customConfig };
+    this.customConfig = customConfig || {};
+    this.configuredLanguage = customConfig?.language && customConfig.language !== 'auto' ? customConfig.language : undefined;
+    // Auto-detection needs the changed files; until then the default language applies
+    this.config = this.mergeConfigs([this.configuredLanguage || DEFAULT_LANGUAGE]);
+
+    if (this.configuredLanguage) {
+      this.logConfig([this.configuredLanguage]);
     } else {
-      // Auto-detect project type
-      this.config = this.detectProjectType();
-      if (customConfig) {
-        this.config = { ...this.config, ...customConfig };
-      }
+      console.log(chalk.blue(`🔍 File filter will detect the project languages from the changed files`));
     }
-    
-    console.log(chalk.blue(`🔍 File filter configured for ${chalk.yellow(this.config.language)} project`));
+  }
+
+  /**
+   * Whether the languages come from the changed files rather than the configuration
+   */
+  detectsLanguages(): boolean {
+    return !this.configuredLanguage;
+  }
+
+  /**
+   * Manifests that can change the languages detected for a change: every one
+   * when no changed file has a known extension, tsconfig.json when JavaScript
+   * changes without TypeScript, and none otherwise
+   */
+  getManifestsToProbe(changedFiles: string[]): string[] {
+    if (this.configuredLanguage) return [];
+    const known = changedFiles.filter(file => Object.keys(PROJECT_CONFIGS).some(language => fileMatchesLanguage(file, language)));
+    if (known.length === 0) return Object.keys(LANGUAGE_MANIFESTS);
+    const onlyJavaScript = !known.some(file => TYPESCRIPT_FILE.test(file)) && known.some(file => fileMatchesLanguage(file, 'javascript'));
+    return onlyJavaScript ? ['tsconfig.json'] : [];
+  }
+
+  /**
+   * Detects the languages of a change from the extensions of its files, or
+   * from the manifests at the repository root when no file has a known
+   * extension, and filters by the rules of all of them. With a configured
+   * language only the files are counted.
+   */
+  detectLanguages(changedFiles: string[], manifests: string[] = []): LanguageMix {
+    // JavaScript belongs to TypeScript in projects that have TypeScript
+    const usesTypeScript = manifests.includes('tsconfig.json')
+      || changedFiles.some(file => TYPESCRIPT_FILE.test(file));
+    const candidates = this.configuredLanguage
+      ? [this.configuredLanguage]
+      : (Object.keys(PROJECT_CONFIGS) as ProjectLanguage[]).filter(language => language !== (usesTypeScript ? 'javascript' : 'typescript'));
+
+    const counts = new Map<ProjectLanguage, number>();
+    for (const file of changedFiles) {
+      const language = candidates.find(candidate => fileMatchesLanguage(file, candidate));
+      if (language) counts.set(language, (counts.get(language) || 0) + 1);
+    }
+
+    let languages = [...counts.entries()]
+      .sort(([, a], [, b]) => b - a)
+      .map(([language, files]) => ({ language, files }));
+
+    if (this.configuredLanguage) {
+      return { languages: languages.length > 0 ? languages : [{ language: this.configuredLanguage, files: 0 }], manifests, detected: false };
+    }
+
+    if (languages.length === 0) {
+      const declared = manifests
+        .map(manifest => LANGUAGE_MANIFESTS[manifest])
+        .filter(language => language && candidates.includes(language));
+      languages = [...new Set(declared.length > 0 ? declared : [DEFAULT_LANGUAGE])].map(language => ({ language, files: 0 }));
+    }
+
+    this.config = this.mergeConfigs(languages.map(({ language }) => language));
+    this.rules = undefined;
+    console.log(chalk.blue(`🔄 Detected ${languages.map(({ language, files }) => `${LANGUAGE_LABELS[language]} (${files})`).join(', ')}${manifests.length > 0 ? ` · manifests: ${manifests.join(', ')}` : ''}`));
+    this.logConfig(languages.map(({ language }) => language));
+
+    return { languages, manifests, detected: true };
+  }
+
+  /**
+   * Settings of one or more languages: their extensions and exclusions
+   * together, then the configured settings on top
+   */
+  private mergeConfigs(languages: ProjectLanguage[]): ProjectConfig {
+    const bases = languages.map(language => PROJECT_CONFIGS[language]);
+    const custom = this.customConfig;
+
+    // Configured exclusions add to the languages', they do not replace them
+    return {
+      ...bases[0],
+      ...custom,
+      language: bases[0].language,
+      file_extensions: custom.file_extensions || [...new Set(bases.flatMap(base => base.file_extensions))],
+      exclude_patterns: [...new Set([...bases.flatMap(base => base.exclude_patterns), ...(custom.exclude_patterns || [])])],
+      max_chunk_tokens: custom.max_chunk_tokens ?? bases[0].max_chunk_tokens,
+      context_lines: custom.context_lines ?? bases[0].context_lines,
+    };
+  }
+
+  private logConfig(languages: ProjectLanguage[]): void {
+    console.log(chalk.blue(`🔍 File filter configured for ${chalk.yellow(languages.join(', '))} project`));
     console.log(chalk.gray(`📋 Extensions: ${this.config.file_extensions.join(', ')}`));
-    console.log(chalk.gray(`🚫 Exclusions: ${this.config.exclude_patterns.length} patterns`));
+    if (this.config.include_patterns?.length) {
+      console.log(chalk.gray(`✅ Inclusions: ${this.config.include_patterns.join(', ')}`));
+    }
+    console.log(chalk.gray(`🚫 Exclusions: ${this.config.exclude_patterns.length} patterns${this.config.exclude_generated === false ? '' : ', generated files'}`));
   }
 
   /**
-   * Auto-detect project type based on common file patterns
+   * Adds the rules of a repository ignore file, like .hikmaignore, after
+   * the configured exclusions and the ignore files added before it
    */
-  private detectProjectType(): ProjectConfig {
-    // This is a simplified detection - in a real implementation,
-    // you might want to check package.json, requirements.txt, etc.
-    
-    // For now, default to TypeScript since that's what the current project uses
-    console.log(chalk.yellow(`🔄 Auto-detecting project type...`));
-    console.log(chalk.blue(`📝 Defaulting to TypeScript configuration`));
-    
-    return PROJECT_CONFIGS.typescript;
+  useIgnoreFile(source: string, content: string): void {
+    const patterns = parseIgnoreFile(content);
+    this.ignoreFiles.push({ source, patterns });
+    this.rules = undefined;
+    console.log(chalk.gray(`📄 ${source}: ${patterns.length} patterns`));
+  }
+
+  /**
+   * Exclusions in the order they apply: generated files, the languages'
+   * defaults, files.exclude, then the ignore files; the last match decides
+   */
+  private getRules(): { exclude: IgnoreRules; include?: IgnoreRules } {
+    if (!this.rules) {
+      const configured = this.customConfig.exclude_patterns || [];
+      const exclude = new IgnoreRules();
+      if (this.config.exclude_generated !== false) {
+        exclude.add(GENERATED_PATTERNS, 'generated files');
+      }
+      exclude
+        .add(this.config.exclude_patterns.filter(pattern => !configured.includes(pattern)), 'language defaults')
+        .add(this.config.exclude_patterns.filter(pattern => configured.includes(pattern)), 'files.exclude');
+      for (const { source, patterns } of this.ignoreFiles) {
+        exclude.add(patterns, source);
+      }
+
+      const include = this.config.include_patterns?.length
+        ? new IgnoreRules().add(this.config.include_patterns, 'files.include')
+        : undefined;
+      this.rules = { exclude, include };
+    }
+    return this.rules;
   }
 
   /**
@@ -135,68 +323,59 @@ export class FileFilterService {
     });
     
     if (filtered.length !== allFiles.length) {
-      const excluded = allFiles.filter(file => !this.shouldAnalyzeFile(file));
+      const excluded = this.getExcludedFiles(allFiles);
       console.log(chalk.yellow(`⚠️  Excluded ${excluded.length} files:`));
-      excluded.forEach((file, index) => {
-        console.log(chalk.gray(`   ${index + 1}. ${file} (${this.getExclusionReason(file)})`));
+      excluded.forEach(({ file, reason, pattern }, index) => {
+        console.log(chalk.gray(`   ${index + 1}. ${file} (${pattern ? `${reason}: ${pattern}` : reason})`));
       });
     }
     
     return filtered;
   }
 
+  /**
+   * The files that are not analyzed, each with the reason
+   */
+  getExcludedFiles(allFiles: string[]): ExcludedFile[] {
+    return allFiles
+      .map(file => this.getExclusion(file))
+      .filter((excluded): excluded is ExcludedFile => excluded !== undefined);
+  }
+
   /**
    * Check if a file should be analyzed
    */
   private shouldAnalyzeFile(filePath: string): boolean {
-    // Check if file has an allowed extension
-    const hasValidExtension = this.config.file_extensions.some(ext => 
-      filePath.toLowerCase().endsWith(ext.toLowerCase())
-    );
-    
-    if (!hasValidExtension) {
-      return false;
-    }
-    
-    // Check if file matches any exclusion pattern
-    const isExcluded = this.config.exclude_patterns.some(pattern => 
-      this.matchesPattern(filePath, pattern)
-    );
-    
-    return !isExcluded;
+    return this.getExclusion(filePath) === undefined;
   }
 
   /**
-   * Get reason why a file was excluded (for logging)
+   * Why a file is not analyzed: the rule that excludes it, an extension of
+   * none of the languages or no matching include pattern; undefined when it is
    */
-  private getExclusionReason(filePath: string): string {
+  private getExclusion(filePath: string): ExcludedFile | undefined {
+    const { exclude, include } = this.getRules();
+
+    const rule = exclude.match(filePath);
+    if (rule && !rule.negated) {
+      return { file: filePath, reason: rule.source, pattern: rule.pattern };
+    }
+
+    // Check if file has an allowed extension
     const hasValidExtension = this.config.file_extensions.some(ext => 
       filePath.toLowerCase().endsWith(ext.toLowerCase())
     );
     
     if (!hasValidExtension) {
-      return 'unsupported extension';
+      return { file: filePath, reason: 'unsupported extension' };
     }
     
-    const matchedPattern = this.config.exclude_patterns.find(pattern => 
-      this.matchesPattern(filePath, pattern)
-    );
-    
-    return matchedPattern ? `matches pattern: ${matchedPattern}` : 'unknown';
-  }
-
-  /**
-   * Simple pattern matching (supports basic wildcards)
-   */
-  private matchesPattern(filePath: string, pattern: string): boolean {
-    // Convert glob-like pattern to regex
-    const regexPattern = pattern
-      .replace(/\*\*/g, '.*')     // ** matches any path
-      .replace(/\*/g, '[^/]*')    // * matches any filename chars
-      .replace(/\./g, '\\.');     // Escape dots
+    const included = include?.match(filePath);
+    if (include && (!included || included.negated)) {
+      return { file: filePath, reason: 'matches no include pattern' };
+    }
     
-    const regex = new RegExp(`^${regexPattern}$`);
-    return regex.test(filePath);
+    return undefined;
   }
 
   /**
@@ -211,22 +390,23 @@ export class FileFilterService {
    */
   updateConfig(updates: Partial<ProjectConfig>): void {
     this.config = { ...this.config, ...updates };
+    this.rules = undefined;
     console.log(chalk.blue(`🔄 File filter configuration updated`));
   }
 
   /**
    * Estimate analysis complexity based on file characteristics
    */
-  estimateComplexity(files: string[]): {
+  estimateComplexity(files: string[], passesPerChunk: (file: string) => number = () => 4): {
     totalFiles: number;
     estimatedChunks: number;
     estimatedPasses: number;
     estimatedTimeMinutes: number;
   } {
     const totalFiles = files.length;
-    // Rough estimation: average file = 2 chunks, each chunk = 4 passes, each pass = 30 seconds
+    // Rough estimation: average file = 2 chunks, each pass = 30 seconds
     const estimatedChunks = totalFiles * 2;
-    const estimatedPasses = estimatedChunks * 4;
+    const estimatedPasses = files.reduce((sum, file) => sum + 2 * passesPerChunk(file), 0);
     const estimatedTimeMinutes = Math.ceil(estimatedPasses * 0.5); // 30 seconds per pass
     
     return {
@@ -0,0 +1,288 @@
+/**
+ * Finding Triage
+ *
+ * Reviewers mark findings as accepted, false positives, won't fix or fixed.
+ * A finding is recognised across reviews by a fingerprint of its file, the
+ * rule that raised it and the code it points at, so a finding dismissed in
+ * one review stays out of the reports of later reviews of the repository.
+ */
+import { PrismaClient } from '@prisma/client';
+import { tryParseReviewUrl } from '../codeHosts/reviewUrl';
+import { AnalysisIssue } from '../types/analysis';
+import { codeBetween, diffIndexToFileLine, toDiffLines } from './diffParser';
+import { fingerprintFinding } from './reviewPublisher';
+import { updateSuppression } from './suppressionStore';
+
+export const TRIAGE_STATUSES = ['open', 'accepted', 'false-positive', 'wont-fix', 'fixed'] as const;
+export type TriageStatus = typeof TRIAGE_STATUSES[number];
+
+// Statuses that hide a finding from reports
+export const DISMISSED_STATUSES: readonly TriageStatus[] = ['false-positive', 'wont-fix'];
+
+export interface TriageInput {
+  status: TriageStatus;
+  note?: string;
+  author?: string;
+  glob?: string;   // Files a false positive is suppressed in; defaults to the finding's file
+}
+
+// Shapes match the ChunkAnalysis, AnalysisPass and PluginFinding rows
+interface TriageChunk {
+  chunkId: string;
+  filePath: string;
+  diffContent: string;
+}
+
+interface TriagePass {
+  id: string;
+  chunkId: string;
+  passType: string;
+  issuesFound: unknown;
+}
+
+interface TriagePluginFinding {
+  id: string;
+  chunkId: string;
+  pluginId: string;
+  message: string;
+  filePath: string | null;
+  line: number | null;
+}
+
+/**
+ * A plugin finding or typed pass issue of a review; ids are the ones the
+ * reviews API gives findings
+ */
+export interface TriageableFinding {
+  id: string;
+  fingerprint: string;
+  source: 'analysis' | 'plugin';
+  rule: string;            // Plugin id, or pass type and issue category
+  title: string;
+  filePath: string;
+  line?: number;
+  code: string;            // Normalized code the finding points at, empty without lines
+}
+
+/**
+ * The triage row that applies to a finding, possibly from another review
+ */
+export interface TriageDecision {
+  reviewId: string;
+  status: TriageStatus;
+  note: string | null;
+  author: string | null;
+  updatedAt: Date;
+}
+
+export interface ReviewTriage {
+  findings: TriageableFinding[];
+  decisions: Map<string, TriageDecision>; // By finding id
+}
+
+export const isDismissed = (decision?: TriageDecision): boolean =>
+  !!decision && DISMISSED_STATUSES.includes(decision.status);
+
+/**
+ * Validates a triage request of the API or CLI; "won't-fix" is accepted for wont-fix
+ */
+export const parseTriageInput = (input: Record<string, unknown>): { value?: TriageInput; errors: string[] } => {
+  const errors: string[] = [];
+  const text = (name: string): string | undefined => {
+    const value = input[name];
+    if (value === undefined || value === null || value === '') return undefined;
+    if (typeof value !== 'string') {
+      errors.push(`${name}: expected a string`);
+      return undefined;
+    }
+    return value.trim() || undefined;
+  };
+
+  const status = text('status')?.toLowerCase().replace("won't-fix", 'wont-fix');
+  const note = text('note');
+  const author = text('author');
+  const glob = text('glob');
+  if (!status) {
+    errors.push('status: required');
+  } else if (!TRIAGE_STATUSES.includes(status as TriageStatus)) {
+    errors.push(`status: expected one of ${TRIAGE_STATUSES.join(', ')}, got "${status}"`);
+  }
+  if (glob && status !== 'false-positive') {
+    errors.push('glob: only applies to false positives');
+  }
+
+  return errors.length > 0 ? { errors } : { value: { status: status as TriageStatus, note, author, glob }, errors };
+};
+
+/**
+ * Repository a review belongs to; dismissals only carry over within it
+ */
+export const getTriageRepository = (prUrl: string): string => {
+  const ref = tryParseReviewUrl(prUrl);
+  return ref ? `${ref.host}:${ref.owner}/${ref.repo}` : prUrl;
+};
+
+/**
+ * Flattens the triageable findings of one review. Plain-text pass issues of
+ * older reviews and failed passes have no rule or lines to recognise them by.
+ */
+export const collectTriageableFindings = (
+  chunks: TriageChunk[],
+  passes: TriagePass[],
+  findings: TriagePluginFinding[]
+): TriageableFinding[] => {
+  const chunksById = new Map(chunks.map(chunk => [chunk.chunkId, chunk]));
+  const collected: TriageableFinding[] = [];
+
+  for (const finding of findings) {
+    const chunk = chunksById.get(finding.chunkId);
+    if (!chunk) continue;
+
+    // Findings stored without a file path count lines of the chunk's diff text
+    const line = finding.line && !finding.filePath ? diffIndexToFileLine(chunk.diffContent, finding.line) : finding.line ?? undefined;
+    const filePath = finding.filePath || chunk.filePath;
+    const code = line ? codeBetween(toDiffLines(chunk.diffContent), line, line) : '';
+    collected.push({
+      id: finding.id,
+      fingerprint: fingerprintFinding(['plugin', finding.pluginId, filePath, finding.message, code]),
+      source: 'plugin', rule: finding.pluginId, title: finding.message, filePath, line, code
+    });
+  }
+
+  for (const pass of passes) {
+    const chunk = chunksById.get(pass.chunkId);
+    if (!chunk || !Array.isArray(pass.issuesFound)) continue;
+
+    pass.issuesFound.forEach((issue: unknown, index) => {
+      if (!issue || typeof issue !== 'object' || !(issue as AnalysisIssue).title) return;
+      const typed = issue as AnalysisIssue;
+      if (typed.category === 'analysis_error') return;
+
+      const filePath = typed.file_path || chunk.filePath;
+      const rule = `${pass.passType}/${typed.category}`;
+      // Issues without lines fall back to their title
+      const code = typed.line_start ? codeBetween(toDiffLines(chunk.diffContent), typed.line_start, typed.line_end ?? typed.line_start) : '';
+      collected.push({
+        id: `${pass.id}_${index}`,
+        fingerprint: fingerprintFinding(['analysis', rule, filePath, code || typed.title.trim().toLowerCase()]),
+        source: 'analysis', rule, title: typed.title, filePath, line: typed.line_start, code
+      });
+    });
+  }
+
+  return collected;
+};
+
+export const loadTriageableFindings = async (prisma: PrismaClient, reviewId: string): Promise<TriageableFinding[]> => {
+  const [chunks, passes, findings] = await Promise.all([
+    prisma.chunkAnalysis.findMany({ where: { reviewId }, select: { chunkId: true, filePath: true, diffContent: true } }),
+    prisma.analysisPass.findMany({ where: { reviewId }, select: { id: true, chunkId: true, passType: true, issuesFound: true } }),
+    prisma.pluginFinding.findMany({ where: { reviewId }, select: { id: true, chunkId: true, pluginId: true, message: true, filePath: true, line: true } }),
+  ]);
+  return collectTriageableFindings(chunks, passes, findings);
+};
+
+const toTriageDecision = (row: { reviewId: string; status: string; note: string | null; author: string | null; updatedAt: Date }): TriageDecision => ({
+  reviewId: row.reviewId,
+  status: row.status as TriageStatus,
+  note: row.note,
+  author: row.author,
+  updatedAt: row.updatedAt,
+});
+
+/**
+ * Triage of a review's findings: the review's own decisions, or else the
+ * latest decision on the same fingerprint in another review of the
+ * repository when that one is a dismissal
+ */
+export const loadReviewTriage = async (prisma: PrismaClient, review: { id: string; prUrl: string }): Promise<ReviewTriage> => {
+  const findings = await loadTriageableFindings(prisma, review.id);
+  if (findings.length === 0) return { findings, decisions: new Map() };
+
+  const rows = await prisma.findingTriage.findMany({
+    where: {
+      OR: [
+        { reviewId: review.id },
+        { repository: getTriageRepository(review.prUrl), fingerprint: { in: [...new Set(findings.map(finding => finding.fingerprint))] } },
+      ],
+    },
+    orderBy: { updatedAt: 'desc' },
+  });
+
+  const decisions = new Map<string, TriageDecision>();
+  for (const finding of findings) {
+    const own = rows.find(row => row.reviewId === review.id && row.findingId === finding.id);
+    const latest = rows.find(row => row.reviewId !== review.id && row.fingerprint === finding.fingerprint);
+    if (own) {
+      decisions.set(finding.id, toTriageDecision(own));
+    } else if (latest && DISMISSED_STATUSES.includes(latest.status as TriageStatus)) {
+      decisions.set(finding.id, toTriageDecision(latest));
+    }
+  }
+  return { findings, decisions };
+};
+
+/**
+ * Records a triage decision and the suppression learned from a false positive;
+ * null when the review has no such triageable finding
+ */
+export const triageFinding = async (
+  prisma: PrismaClient,
+  reviewId: string,
+  findingId: string,
+  input: TriageInput
+): Promise<TriageDecision | null> => {
+  const review = await prisma.review.findUnique({ where: { id: reviewId }, select: { prUrl: true } });
+  if (!review) return null;
+
+  const finding = (await loadTriageableFindings(prisma, reviewId)).find(candidate => candidate.id === findingId);
+  if (!finding) return null;
+
+  const repository = getTriageRepository(review.prUrl);
+  const fields = { status: input.status, note: input.note ?? null, author: input.author ?? null, fingerprint: finding.fingerprint };
+  const row = await prisma.findingTriage.upsert({
+    where: { reviewId_findingId: { reviewId, findingId } },
+    create: { reviewId, findingId, repository, ...fields },
+    update: fields,
+  });
+
+  // False positives teach later reviews of the repository what not to report
+  await updateSuppression(prisma, {
+    reviewId,
+    repository,
+    finding,
+    falsePositive: input.status === 'false-positive',
+    reason: input.note,
+    fileGlob: input.glob,
+  });
+  return toTriageDecision(row);
+};
+
+/**
+ * Drops dismissed pass issues and plugin findings from stored rows, keeping
+ * the other issues of a pass where they are
+ */
+export const withoutDismissed = <P extends TriagePass, F extends { id: string }>(
+  triage: ReviewTriage,
+  passes: P[],
+  findings: F[]
+): { passes: P[]; findings: F[] } => {
+  const dismissed = (id: string) => isDismissed(triage.decisions.get(id));
+  return {
+    passes: passes.map(pass => Array.isArray(pass.issuesFound)
+      ? { ...pass, issuesFound: pass.issuesFound.filter((_issue, index) => !dismissed(`${pass.id}_${index}`)) }
+      : pass),
+    findings: findings.filter(finding => !dismissed(finding.id)),
+  };
+};
+
+/**
+ * Dismissed findings of a review by status, for the note in reports
+ */
+export const countDismissed = (triage: ReviewTriage): Partial<Record<TriageStatus, number>> => {
+  const counts: Partial<Record<TriageStatus, number>> = {};
+  for (const decision of triage.decisions.values()) {
+    if (isDismissed(decision)) counts[decision.status] = (counts[decision.status] || 0) + 1;
+  }
+  return counts;
+};
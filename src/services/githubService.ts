@@ -6,10 +6,12 @@
  */
 import { Octokit } from 'octokit';
 import chalk from 'chalk';
-import { exec } from 'child_process';
+import { exec, execFile } from 'child_process';
 import { promisify } from 'util';
+import { tryParseReviewUrl } from '../codeHosts/reviewUrl';
 
 const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
 
 // Type definitions for GitHub API responses
 interface GitHubFile {
@@ -22,12 +24,12 @@ interface GitHubFile {
  */
 const parsePrUrl = (url: string) => {
   console.log(chalk.blue(`🔗 Parsing PR URL: ${url}`));
-  const match = url.match(/github\.com\/([^/]+)\/([^/]+)\/pull\/(\d+)/);
-  if (!match) {
+  const ref = tryParseReviewUrl(url);
+  if (!ref || ref.host !== 'github') {
     console.log(chalk.red(`❌ Invalid GitHub PR URL format`));
     throw new Error('Invalid GitHub PR URL format.');
   }
-  const parsed = { owner: match[1], repo: match[2], pull_number: parseInt(match[3], 10) };
+  const parsed = { owner: ref.owner, repo: ref.repo, pull_number: ref.number };
   console.log(chalk.green(`✅ Parsed URL - Owner: ${chalk.yellow(parsed.owner)}, Repo: ${chalk.yellow(parsed.repo)}, PR: ${chalk.yellow(parsed.pull_number)}`));
   return parsed;
 };
@@ -70,10 +72,11 @@ export const getPrDetailsViaCli = async (prUrl: string) => {
   console.log(chalk.blue(`\n📋 Fetching PR details via gh CLI...`));
   
   try {
-    console.log(chalk.blue(`🔧 Executing: gh pr view ${prUrl} --json title,body,author,state,additions,deletions`));
+    const fields = 'title,body,author,state,additions,deletions,baseRefName,headRefName,headRefOid';
+    console.log(chalk.blue(`🔧 Executing: gh pr view ${prUrl} --json ${fields}`));
     const startTime = Date.now();
     
-    const { stdout } = await execAsync(`gh pr view ${prUrl} --json title,body,author,state,additions,deletions`);
+    const { stdout } = await execAsync(`gh pr view ${prUrl} --json ${fields}`);
     
     const endTime = Date.now();
     const duration = ((endTime - startTime) / 1000).toFixed(2);
@@ -89,6 +92,13 @@ export const getPrDetailsViaCli = async (prUrl: string) => {
     return {
       title: prData.title,
       body: prData.body,
+      author: prData.author?.login || 'unknown',
+      state: prData.state,
+      additions: prData.additions || 0,
+      deletions: prData.deletions || 0,
+      source_branch: prData.headRefName,
+      target_branch: prData.baseRefName,
+      head_sha: prData.headRefOid,
     };
   } catch (error) {
     console.error(chalk.red(`❌ Error fetching PR details via CLI:`), error);
@@ -329,6 +339,43 @@ export const getFullPrDiffViaCli = async (prUrl: string): Promise<string | null>
   }
 };
 
+/**
+ * Fetches a file's raw content at a given ref using gh CLI.
+ * Returns null when the file does not exist at that ref.
+ */
+export const getFileContentViaCli = async (owner: string, repo: string, filePath: string, ref: string): Promise<string | null> => {
+  const endpoint = `repos/${owner}/${repo}/contents/${filePath.split('/').map(encodeURIComponent).join('/')}?ref=${encodeURIComponent(ref)}`;
+  console.log(chalk.blue(`🔧 Executing: gh api ${endpoint}`));
+
+  try {
+    const { stdout } = await execFileAsync('gh', ['api', endpoint, '-H', 'Accept: application/vnd.github.raw'], {
+      maxBuffer: 64 * 1024 * 1024
+    });
+    return stdout;
+  } catch (error: any) {
+    // A file missing at the ref is an answer, not a failure
+    if (!/HTTP 404/.test(error.stderr || '')) {
+      console.log(chalk.yellow(`⚠️  Could not fetch ${filePath}@${ref} via CLI`));
+    }
+    return null;
+  }
+};
+
+/**
+ * Reads the token of the current gh CLI login, so write operations can go
+ * through the REST API without a separate GITHUB_TOKEN.
+ */
+export const getAuthTokenViaCli = async (hostname: string): Promise<string> => {
+  console.log(chalk.blue(`🔧 Executing: gh auth token --hostname ${hostname}`));
+
+  try {
+    const { stdout } = await execFileAsync('gh', ['auth', 'token', '--hostname', hostname]);
+    return stdout.trim();
+  } catch (error) {
+    throw new Error(`Could not read a GitHub token from gh CLI. Run "gh auth login" or set GITHUB_TOKEN.`);
+  }
+};
+
 /**
  * Extract diff for a specific file from the already-fetched full diff
  * This is a LOCAL operation - no API calls!
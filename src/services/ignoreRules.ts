@@ -0,0 +1,99 @@
+// Ignore Rules - .gitignore-style patterns for choosing the files of a review
+//
+// Patterns follow .gitignore: a pattern with a slash at the start or in the
+// middle is anchored to the repository root, one without matches at any depth,
+// a trailing slash matches directories only and `!` re-includes. A pattern
+// that matches a directory matches every file under it. Rules are checked in
+// the order they were added and the last one that matches a file decides.
+// Globs are minimatch's: *, **, ?, [a-z] and {a,b}. The same matching
+// scopes passes to files and suppressions to the files they apply to.
+
+import { Minimatch } from 'minimatch';
+
+export interface IgnoreRule {
+  pattern: string;              // As written, with its ! when negated
+  source: string;               // Where it comes from: generated files, .hikmaignore, files.exclude
+  negated: boolean;
+}
+
+interface CompiledRule extends IgnoreRule {
+  directoryOnly: boolean;
+  matcher: Minimatch;
+}
+
+/**
+ * Patterns of an ignore file: one per line, without blank lines and # comments
+ */
+export const parseIgnoreFile = (content: string): string[] =>
+  content.split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line !== '' && !line.startsWith('#'));
+
+const compile = (pattern: string, source: string): CompiledRule | undefined => {
+  let glob = pattern.trim();
+  const negated = glob.startsWith('!');
+  if (negated) glob = glob.slice(1);
+  // \# and \! stand for a leading # or !
+  if (/^\\[#!]/.test(glob)) glob = glob.slice(1);
+
+  const directoryOnly = glob.endsWith('/');
+  glob = glob.replace(/\/+$/, '');
+  const anchored = glob.includes('/');
+  glob = glob.replace(/^\//, '');
+  if (!glob) return undefined;
+
+  return {
+    pattern,
+    source,
+    negated,
+    directoryOnly,
+    matcher: new Minimatch(anchored ? glob : `**/${glob}`, { dot: true }),
+  };
+};
+
+export class IgnoreRules {
+  private rules: CompiledRule[] = [];
+
+  /**
+   * Adds patterns after the current rules, so they win over them
+   */
+  add(patterns: string[], source: string): this {
+    for (const pattern of patterns) {
+      const rule = compile(pattern, source);
+      if (rule) this.rules.push(rule);
+    }
+    return this;
+  }
+
+  /**
+   * The last rule that matches a file, or its directories; undefined when none does
+   */
+  match(filePath: string): IgnoreRule | undefined {
+    const parts = filePath.replace(/^\.?\//, '').split('/');
+    const directories = parts.slice(0, -1).map((_, index) => parts.slice(0, index + 1).join('/'));
+    const file = parts.join('/');
+
+    for (let index = this.rules.length - 1; index >= 0; index--) {
+      const { matcher, directoryOnly, pattern, source, negated } = this.rules[index];
+      const candidates = directoryOnly ? directories : [...directories, file];
+      if (candidates.some(candidate => matcher.match(candidate))) {
+        return { pattern, source, negated };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Whether the rules exclude a file: the last rule that matches it is not a negation
+   */
+  excludes(filePath: string): boolean {
+    const rule = this.match(filePath);
+    return !!rule && !rule.negated;
+  }
+}
+
+/**
+ * Whether patterns select a file: the last one that matches it is not a negation
+ */
+export const matchesPatterns = (patterns: string[], filePath: string): boolean =>
+  new IgnoreRules().add(patterns, 'patterns').excludes(filePath);
@@ -0,0 +1,333 @@
+/**
+ * Incremental Review
+ *
+ * Re-reviewing a PR after new commits only pays for what changed. A chunk
+ * whose diff text is identical to a chunk of the previous review keeps that
+ * review's analysis passes and plugin findings, moved to the lines the code
+ * sits on now. The findings of both reviews are then compared to report what
+ * was resolved, what is still open and what is new.
+ */
+import crypto from 'crypto';
+import { PrismaClient } from '@prisma/client';
+import { AnalysisIssue, AnalysisPass, ChunkInfo, FileAnalysisResult, ReviewState } from '../types/analysis';
+import { PluginFinding } from '../types/plugins';
+import { diffIndexToFileLine, toDiffLines } from './diffParser';
+import { fingerprintFinding, passLabel } from './reviewPublisher';
+import { countIssuesBySeverity } from './passOutputParser';
+
+type PassType = AnalysisPass['pass_type'];
+type ChunkAnalysisResult = NonNullable<ReviewState['chunk_analyses']>[string];
+
+// Shapes match the ChunkAnalysis, AnalysisPass and PluginFinding rows
+interface StoredChunk {
+  chunkId: string;
+  filePath: string;
+  diffContent: string;
+}
+
+interface StoredPass {
+  chunkId: string;
+  passType: string;
+  analysisResult: string;
+  riskLevel: string;
+  issuesFound: unknown;
+  recommendations: unknown;
+  modelProvider?: string | null;
+  modelName?: string | null;
+}
+
+interface StoredFinding {
+  chunkId: string;
+  pluginId: string;
+  pluginName: string;
+  message: string;
+  severity: string;
+  filePath: string | null;
+  line: number | null;
+}
+
+export interface PreviousChunk extends StoredChunk {
+  contentKey: string;
+  passes: StoredPass[];
+  findings: StoredFinding[];
+}
+
+export interface PreviousReview {
+  id: string;
+  headSha: string | null;
+  chunks: PreviousChunk[];
+  fileResults: Record<string, FileAnalysisResult>;
+}
+
+/**
+ * A finding of either an analysis pass or a plugin, identified so that the
+ * same problem can be recognised in two reviews of the same PR
+ */
+export interface TrackedFinding {
+  fingerprint: string;
+  source: 'analysis' | 'plugin';
+  label: string;           // Pass or plugin name
+  severity: string;
+  title: string;
+  filePath: string;
+  line?: number;
+}
+
+export interface FindingComparison {
+  resolved: TrackedFinding[];
+  stillOpen: TrackedFinding[];
+  introduced: TrackedFinding[];
+}
+
+/**
+ * Identifies a chunk by its code lines only, so moving it up or down in the
+ * file (which changes the hunk headers) does not count as a change
+ */
+export const chunkContentKey = (diffContent: string): string => {
+  const lines = toDiffLines(diffContent).map(line => `${line.type.charAt(0)}${line.content}`);
+  return crypto.createHash('sha1').update(lines.join('\n')).digest('hex');
+};
+
+/**
+ * Maps new-file line numbers of a previous chunk to those of an identical
+ * current chunk
+ */
+export const mapChunkLines = (previousDiff: string, currentDiff: string): Map<number, number> => {
+  const previousLines = toDiffLines(previousDiff);
+  const currentLines = toDiffLines(currentDiff);
+  const lines = new Map<number, number>();
+
+  previousLines.forEach((line, index) => {
+    const current = currentLines[index];
+    if (line.newLine !== undefined && current?.newLine !== undefined) {
+      lines.set(line.newLine, current.newLine);
+    }
+  });
+  return lines;
+};
+
+/**
+ * Picks the review to compare against: the requested one, or else the most
+ * recently completed review of the same PR
+ */
+export const findPreviousReviewId = async (prisma: PrismaClient, prUrl: string, requestedId?: string): Promise<string | undefined> => {
+  if (requestedId) {
+    const review = await prisma.review.findUnique({ where: { id: requestedId } });
+    if (!review) {
+      throw new Error(`Review ${requestedId} not found`);
+    }
+    if (review.prUrl !== prUrl) {
+      throw new Error(`Review ${requestedId} is for ${review.prUrl}, not ${prUrl}`);
+    }
+    return review.id;
+  }
+
+  const latest = await prisma.review.findFirst({
+    where: { prUrl, completedAt: { not: null } },
+    orderBy: { completedAt: 'desc' }
+  });
+  return latest?.id;
+};
+
+export const loadPreviousReview = async (prisma: PrismaClient, reviewId: string): Promise<PreviousReview> => {
+  const review = await prisma.review.findUnique({
+    where: { id: reviewId },
+    include: { chunkAnalyses: true, analysisPasses: true, pluginFindings: true }
+  });
+  if (!review) {
+    throw new Error(`Review ${reviewId} not found`);
+  }
+
+  const chunks = review.chunkAnalyses.map(chunk => ({
+    chunkId: chunk.chunkId,
+    filePath: chunk.filePath,
+    diffContent: chunk.diffContent,
+    contentKey: chunkContentKey(chunk.diffContent),
+    passes: review.analysisPasses.filter(pass => pass.chunkId === chunk.chunkId),
+    findings: review.pluginFindings.filter(finding => finding.chunkId === chunk.chunkId),
+  }));
+
+  return {
+    id: review.id,
+    headSha: review.headSha,
+    chunks,
+    fileResults: ((review.state as any)?.file_results || {}) as Record<string, FileAnalysisResult>,
+  };
+};
+
+const moveIssue = (issue: unknown, lines: Map<number, number>): unknown => {
+  if (!issue || typeof issue !== 'object') return issue; // Plain-text issues have no lines
+
+  const typed = issue as AnalysisIssue;
+  if (!typed.line_start) return typed;
+
+  const lineStart = lines.get(typed.line_start);
+  const lineEnd = typed.line_end ? lines.get(typed.line_end) : undefined;
+  return { ...typed, line_start: lineStart, line_end: lineStart === undefined ? undefined : lineEnd ?? lineStart };
+};
+
+/**
+ * Copies the previous chunk's passes and plugin findings to the current
+ * chunk, in the database and in the shape analyzeChunk produces
+ */
+export const carryForwardChunk = async (
+  prisma: PrismaClient,
+  reviewId: string,
+  chunk: ChunkInfo,
+  previous: PreviousChunk
+): Promise<ChunkAnalysisResult> => {
+  const lines = mapChunkLines(previous.diffContent, chunk.diff_content);
+  const result: ChunkAnalysisResult = {};
+
+  for (const pass of previous.passes) {
+    const issues = Array.isArray(pass.issuesFound) ? pass.issuesFound.map(issue => moveIssue(issue, lines)) : [];
+    const recommendations = Array.isArray(pass.recommendations) ? pass.recommendations as string[] : [];
+
+    // No tokens were spent on this review, so usage and duration are zero
+    const row = await prisma.analysisPass.create({
+      data: {
+        reviewId,
+        chunkId: chunk.id,
+        passType: pass.passType,
+        analysisResult: pass.analysisResult,
+        riskLevel: pass.riskLevel,
+        issuesFound: issues as any,
+        ...countIssuesBySeverity(issues),
+        recommendations,
+        tokensUsed: 0,
+        durationMs: 0,
+        // The result is still the one the earlier model produced
+        modelProvider: pass.modelProvider ?? null,
+        modelName: pass.modelName ?? null
+      }
+    });
+
+    result[pass.passType as PassType] = {
+      id: row.id,
+      chunk_id: chunk.id,
+      pass_type: pass.passType as PassType,
+      analysis_result: pass.analysisResult,
+      risk_level: pass.riskLevel as AnalysisPass['risk_level'],
+      issues_found: issues as AnalysisIssue[],
+      recommendations,
+      tokens_used: 0,
+      duration_ms: 0,
+      model_provider: pass.modelProvider ?? undefined,
+      model_name: pass.modelName ?? undefined,
+      timestamp: row.createdAt
+    };
+  }
+
+  const findings: PluginFinding[] = [];
+  for (const finding of previous.findings) {
+    // Findings stored without a file path count lines of the chunk's diff text
+    const previousLine = finding.line && !finding.filePath
+      ? diffIndexToFileLine(previous.diffContent, finding.line)
+      : finding.line;
+    const line = previousLine ? lines.get(previousLine) : undefined;
+
+    await prisma.pluginFinding.create({
+      data: {
+        reviewId,
+        chunkId: chunk.id,
+        pluginId: finding.pluginId,
+        pluginName: finding.pluginName,
+        message: finding.message,
+        severity: finding.severity,
+        filePath: chunk.file_path,
+        line: line ?? null
+      }
+    });
+
+    findings.push({
+      pluginId: finding.pluginId,
+      pluginName: finding.pluginName,
+      message: finding.message,
+      severity: finding.severity as PluginFinding['severity'],
+      filePath: chunk.file_path,
+      line
+    });
+  }
+  if (findings.length > 0) {
+    result.plugin_findings = findings;
+  }
+
+  return result;
+};
+
+/**
+ * Flattens the stored pass issues and plugin findings of one review
+ */
+export const collectFindings = (chunks: StoredChunk[], passes: StoredPass[], findings: StoredFinding[]): TrackedFinding[] => {
+  const chunksById = new Map(chunks.map(chunk => [chunk.chunkId, chunk]));
+  const tracked: TrackedFinding[] = [];
+
+  for (const pass of passes) {
+    const chunk = chunksById.get(pass.chunkId);
+    if (!chunk || !Array.isArray(pass.issuesFound)) continue;
+
+    const label = passLabel(pass.passType);
+    for (const issue of pass.issuesFound) {
+      if (typeof issue === 'string') {
+        tracked.push({
+          fingerprint: fingerprintFinding([pass.passType, chunk.filePath, issue.trim().toLowerCase()]),
+          source: 'analysis', label, severity: 'info', title: issue, filePath: chunk.filePath
+        });
+      } else if (issue && typeof issue === 'object' && (issue as AnalysisIssue).title) {
+        const typed = issue as AnalysisIssue;
+        // Failed passes are not findings about the code
+        if (typed.category === 'analysis_error') continue;
+        tracked.push({
+          fingerprint: fingerprintFinding([pass.passType, chunk.filePath, typed.category, typed.title.trim().toLowerCase()]),
+          source: 'analysis', label, severity: typed.severity, title: typed.title, filePath: chunk.filePath, line: typed.line_start
+        });
+      }
+    }
+  }
+
+  for (const finding of findings) {
+    const chunk = chunksById.get(finding.chunkId);
+    if (!chunk) continue;
+
+    // Same identity as the published inline comment: the code on the line, not its number
+    const line = finding.line && !finding.filePath ? diffIndexToFileLine(chunk.diffContent, finding.line) : finding.line ?? undefined;
+    const code = line ? toDiffLines(chunk.diffContent).find(diffLine => diffLine.newLine === line)?.content.trim() || '' : '';
+    const filePath = finding.filePath || chunk.filePath;
+    tracked.push({
+      fingerprint: fingerprintFinding([finding.pluginId, filePath, finding.message, code]),
+      source: 'plugin', label: finding.pluginName, severity: finding.severity, title: finding.message, filePath, line
+    });
+  }
+
+  return tracked;
+};
+
+/**
+ * Splits the findings of two reviews into resolved, still open and new
+ */
+export const compareFindings = (previous: TrackedFinding[], current: TrackedFinding[]): FindingComparison => {
+  const dedupe = (findings: TrackedFinding[]) => [...new Map(findings.map(finding => [finding.fingerprint, finding])).values()];
+  const previousUnique = dedupe(previous);
+  const currentUnique = dedupe(current);
+  const previousKeys = new Set(previousUnique.map(finding => finding.fingerprint));
+  const currentKeys = new Set(currentUnique.map(finding => finding.fingerprint));
+
+  return {
+    resolved: previousUnique.filter(finding => !currentKeys.has(finding.fingerprint)),
+    stillOpen: currentUnique.filter(finding => previousKeys.has(finding.fingerprint)),
+    introduced: currentUnique.filter(finding => !previousKeys.has(finding.fingerprint)),
+  };
+};
+
+export const compareReviews = async (prisma: PrismaClient, previousId: string, currentId: string): Promise<FindingComparison> => {
+  const load = async (reviewId: string) => {
+    const [chunks, passes, findings] = await Promise.all([
+      prisma.chunkAnalysis.findMany({ where: { reviewId } }),
+      prisma.analysisPass.findMany({ where: { reviewId } }),
+      prisma.pluginFinding.findMany({ where: { reviewId } })
+    ]);
+    return collectFindings(chunks, passes, findings);
+  };
+
+  return compareFindings(await load(previousId), await load(currentId));
+};
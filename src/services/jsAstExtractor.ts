@@ -0,0 +1,498 @@
+// JS/TS AST Extractor - Declarations, imports, calls and data flow of a JavaScript or TypeScript file
+//
+// The file is parsed with @babel/parser (its typescript or jsx plugin) and the
+// tree is walked once. Spans are the lines of the parsed nodes; type text is
+// the source of the annotation, so generics and unions come out as written.
+
+import { parse } from '@babel/parser';
+import type {
+  ArrowFunctionExpression,
+  CallExpression,
+  ClassAccessorProperty,
+  ClassDeclaration,
+  ClassExpression,
+  ClassMethod,
+  ClassPrivateMethod,
+  ClassPrivateProperty,
+  ClassProperty,
+  File,
+  FunctionDeclaration,
+  FunctionExpression,
+  LVal,
+  Node,
+  NewExpression,
+  ObjectMethod,
+  OptionalCallExpression,
+  TSDeclareMethod,
+  TSEnumDeclaration,
+  TSInterfaceDeclaration,
+  TSTypeAliasDeclaration,
+  TSTypeElement,
+} from '@babel/types';
+import { Parameter, Property } from '../types/analysis';
+import {
+  emptySourceModule,
+  ExtractedDataFlow,
+  ExtractedExport,
+  ExtractedFunction,
+  MODULE_SCOPE,
+  SourceModule,
+  SourceSpan,
+} from './sourceModule';
+
+export type ScriptLanguage = 'javascript' | 'jsx' | 'typescript' | 'tsx';
+
+// Keys of a node that hold no child nodes worth visiting
+const SKIPPED_KEYS = new Set(['loc', 'start', 'end', 'extra', 'range', 'leadingComments', 'trailingComments', 'innerComments']);
+// Keys holding type annotations, which name no values
+const TYPE_KEYS = new Set(['typeAnnotation', 'returnType', 'typeParameters', 'typeArguments', 'superTypeParameters']);
+
+type AnyFunction = FunctionDeclaration | FunctionExpression | ArrowFunctionExpression | ObjectMethod;
+type AnyMethod = ClassMethod | ClassPrivateMethod | TSDeclareMethod;
+type AnyClassMember = AnyMethod | ClassProperty | ClassPrivateProperty | ClassAccessorProperty;
+type AnyCall = CallExpression | NewExpression | OptionalCallExpression;
+
+const isNode = (value: unknown): value is Node =>
+  !!value && typeof value === 'object' && typeof (value as Node).type === 'string';
+
+const childNodes = (node: Node, skipTypes = false): Node[] =>
+  Object.entries(node)
+    .filter(([key]) => !SKIPPED_KEYS.has(key) && !(skipTypes && TYPE_KEYS.has(key)))
+    .flatMap(([, value]) => (Array.isArray(value) ? value : [value]))
+    .filter(isNode);
+
+const isFunctionNode = (node: Node): node is AnyFunction =>
+  node.type === 'FunctionDeclaration' || node.type === 'FunctionExpression'
+  || node.type === 'ArrowFunctionExpression' || node.type === 'ObjectMethod';
+
+/**
+ * Parses a script; syntax errors the parser can recover from leave the rest of the tree intact
+ */
+export const parseScript = (content: string, language: ScriptLanguage): File =>
+  parse(content, {
+    sourceType: 'unambiguous',
+    errorRecovery: true,
+    allowReturnOutsideFunction: true,
+    plugins: language === 'typescript' ? ['typescript', 'decorators-legacy']
+      : language === 'tsx' ? ['typescript', 'jsx', 'decorators-legacy']
+      : ['jsx', 'decorators-legacy'],
+  });
+
+class Extractor {
+  private module = emptySourceModule();
+
+  constructor(private content: string) {}
+
+  run(file: File): SourceModule {
+    this.visit(file.program, MODULE_SCOPE);
+    return this.module;
+  }
+
+  private text(node: Node | null | undefined): string {
+    return node && node.start != null && node.end != null ? this.content.slice(node.start, node.end) : '';
+  }
+
+  private span(node: Node): SourceSpan {
+    return { startLine: node.loc?.start.line ?? 0, endLine: node.loc?.end.line ?? 0 };
+  }
+
+  /**
+   * Source of a declaration from after its decorators up to its body, on one line
+   */
+  private signature(node: Node, body: Node | null | undefined): string {
+    const decorators = ('decorators' in node && node.decorators) || [];
+    const start = decorators.length > 0 ? decorators[decorators.length - 1].end! : node.start!;
+    const text = this.content.slice(start, body?.start ?? node.end!).replace(/\s+/g, ' ').trim();
+    return text.length > 160 ? `${text.slice(0, 157)}...` : text;
+  }
+
+  /**
+   * Source of a type annotation without its leading colon
+   */
+  private typeText(annotation: Node | null | undefined): string {
+    if (!annotation || annotation.type === 'Noop') return 'unknown';
+    const inner = 'typeAnnotation' in annotation && isNode(annotation.typeAnnotation) ? annotation.typeAnnotation : annotation;
+    return this.text(inner) || 'unknown';
+  }
+
+  private keyName(key: Node, computed = false): string {
+    if (computed) return `[${this.text(key)}]`;
+    if (key.type === 'Identifier') return key.name;
+    if (key.type === 'PrivateName') return `#${key.id.name}`;
+    if (key.type === 'StringLiteral' || key.type === 'NumericLiteral') return String(key.value);
+    return this.text(key);
+  }
+
+  /**
+   * Callee or assignment target as written, with long expressions shortened
+   */
+  private expressionName(node: Node): string {
+    switch (node.type) {
+      case 'Identifier': return node.name;
+      case 'ThisExpression': return 'this';
+      case 'Super': return 'super';
+      case 'MemberExpression':
+      case 'OptionalMemberExpression':
+        return `${this.expressionName(node.object)}.${this.keyName(node.property, node.computed)}`;
+      default: {
+        const text = this.text(node).replace(/\s+/g, ' ');
+        return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+      }
+    }
+  }
+
+  private parameters(params: Node[]): Parameter[] {
+    return params.map(param => {
+      const target = param.type === 'TSParameterProperty' ? param.parameter : param;
+      switch (target.type) {
+        case 'Identifier':
+          return { name: target.name, type: this.typeText(target.typeAnnotation), optional: !!target.optional };
+        case 'AssignmentPattern':
+          return { ...this.parameters([target.left])[0], optional: true };
+        case 'RestElement':
+          return { name: `...${this.parameters([target.argument])[0].name}`, type: this.typeText(target.typeAnnotation), optional: true };
+        default: {
+          // Destructured parameters are named by their pattern
+          const annotation = 'typeAnnotation' in target && isNode(target.typeAnnotation) ? target.typeAnnotation : undefined;
+          const name = annotation ? this.content.slice(target.start!, annotation.start!).trim() : this.text(target);
+          return { name, type: this.typeText(annotation), optional: false };
+        }
+      }
+    });
+  }
+
+  /**
+   * Records a function; owner is what it is declared as when that is not the
+   * function itself, like the variable or class property holding an arrow function
+   */
+  private addFunction(name: string, kind: ExtractedFunction['kind'], node: AnyFunction | AnyMethod, modifiers: Partial<ExtractedFunction> = {}, owner: Node = node): void {
+    this.module.functions.push({
+      name,
+      kind,
+      parameters: this.parameters(node.params),
+      returnType: this.typeText(node.returnType),
+      signature: this.signature(owner, node.type === 'TSDeclareMethod' ? undefined : node.body),
+      isAsync: !!node.async,
+      isStatic: false,
+      visibility: 'public',
+      ...this.span(owner),
+      ...modifiers,
+    });
+  }
+
+  private members(elements: TSTypeElement[]): Property[] {
+    return elements.flatMap(member => {
+      if (member.type === 'TSPropertySignature') {
+        return [{ name: this.keyName(member.key, member.computed), type: this.typeText(member.typeAnnotation), optional: !!member.optional }];
+      }
+      if (member.type === 'TSMethodSignature') {
+        const params = this.parameters(member.parameters).map(param => `${param.name}: ${param.type}`).join(', ');
+        return [{ name: this.keyName(member.key, member.computed), type: `(${params}) => ${this.typeText(member.typeAnnotation)}`, optional: !!member.optional }];
+      }
+      return [];
+    });
+  }
+
+  private addInterface(node: TSInterfaceDeclaration): void {
+    this.module.types.push({
+      name: node.id.name,
+      type: 'interface',
+      properties: this.members(node.body.body),
+      extends: (node.extends || []).map(base => this.text(base)),
+      signature: this.signature(node, node.body),
+      ...this.span(node),
+    });
+  }
+
+  private addTypeAlias(node: TSTypeAliasDeclaration): void {
+    this.module.types.push({
+      name: node.id.name,
+      type: 'type',
+      properties: node.typeAnnotation.type === 'TSTypeLiteral' ? this.members(node.typeAnnotation.members) : [],
+      extends: [],
+      signature: this.signature(node, node.typeAnnotation),
+      ...this.span(node),
+    });
+  }
+
+  private addEnum(node: TSEnumDeclaration): void {
+    const members = node.body?.members ?? node.members;
+    this.module.types.push({
+      name: node.id.name,
+      type: 'enum',
+      properties: members.map(member => ({
+        name: this.keyName(member.id),
+        type: member.initializer ? this.text(member.initializer) : 'number',
+        optional: false,
+      })),
+      extends: [],
+      signature: `${this.signature(node, node.id)} ${node.id.name}`,
+      ...this.span(node),
+    });
+  }
+
+  /**
+   * Records a class with its properties and methods, and visits the method bodies
+   */
+  private visitClass(node: ClassDeclaration | ClassExpression, name: string): void {
+    const properties: Property[] = [];
+
+    for (const member of node.body.body) {
+      if (member.type === 'ClassProperty' || member.type === 'ClassPrivateProperty' || member.type === 'ClassAccessorProperty') {
+        const memberName = member.type === 'ClassPrivateProperty' ? `#${member.key.id.name}` : this.keyName(member.key, 'computed' in member && member.computed);
+        const value = member.value;
+        if (value && (value.type === 'ArrowFunctionExpression' || value.type === 'FunctionExpression')) {
+          this.addFunction(`${name}.${memberName}`, 'method', value, this.memberModifiers(member), member);
+          this.visitFunctionBody(value, `${name}.${memberName}`);
+          continue;
+        }
+        properties.push({ name: memberName, type: this.typeText(member.typeAnnotation), optional: 'optional' in member && !!member.optional });
+        if (value) this.visit(value, name);
+      } else if (member.type === 'ClassMethod' || member.type === 'ClassPrivateMethod') {
+        const methodName = `${name}.${member.type === 'ClassPrivateMethod' ? `#${member.key.id.name}` : this.keyName(member.key, member.computed)}`;
+        this.addFunction(methodName, 'method', member, this.memberModifiers(member));
+        // Constructor parameter properties are class properties too
+        for (const param of member.params) {
+          if (param.type === 'TSParameterProperty') properties.push(this.parameters([param])[0]);
+        }
+        this.visitFunctionBody(member, methodName);
+      } else if (member.type === 'TSDeclareMethod') {
+        this.addFunction(`${name}.${this.keyName(member.key, member.computed)}`, 'method', member, this.memberModifiers(member));
+      } else {
+        this.visit(member, name);
+      }
+    }
+
+    this.module.types.push({
+      name,
+      type: 'class',
+      properties,
+      extends: [
+        ...(node.superClass ? [this.text(node.superClass)] : []),
+        ...(node.implements || []).map(base => this.text(base)),
+      ],
+      signature: this.signature(node, node.body),
+      ...this.span(node),
+    });
+  }
+
+  private memberModifiers(member: AnyClassMember): Partial<ExtractedFunction> {
+    const isPrivateName = member.type === 'ClassPrivateMethod' || member.type === 'ClassPrivateProperty';
+    return {
+      isStatic: !!member.static,
+      visibility: isPrivateName ? 'private' : ('accessibility' in member && member.accessibility) || 'public',
+    };
+  }
+
+  private visitFunctionBody(node: AnyFunction | ClassMethod | ClassPrivateMethod, scope: string): void {
+    for (const param of node.params) this.visit(param, scope);
+    const body = node.body;
+
+    // An expression body is the function's return value
+    if (body.type !== 'BlockStatement' && scope !== MODULE_SCOPE) {
+      this.addFlows(this.referencedNames(body), scope, 'return', body);
+    }
+    this.visit(body, scope);
+  }
+
+  /**
+   * Values an expression reads: identifiers and this-members, not the
+   * functions nested in it or the names in its types
+   */
+  private referencedNames(node: Node): string[] {
+    const names = new Set<string>();
+    const collect = (current: Node, parent?: Node) => {
+      if (isFunctionNode(current) || current.type === 'ClassExpression') return;
+      if (current.type === 'Identifier') {
+        const isKey = parent && ((parent.type === 'ObjectProperty' && parent.key === current && !parent.computed)
+          || ((parent.type === 'MemberExpression' || parent.type === 'OptionalMemberExpression') && parent.property === current && !parent.computed));
+        if (!isKey && current.name !== 'undefined') names.add(current.name);
+        return;
+      }
+      if ((current.type === 'MemberExpression' || current.type === 'OptionalMemberExpression') && current.object.type === 'ThisExpression') {
+        names.add(this.expressionName(current));
+        return;
+      }
+      for (const child of childNodes(current, true)) {
+        // A function called by name is not a value passed along; the object a method is called on is
+        const isCalledName = (current.type === 'CallExpression' || current.type === 'NewExpression' || current.type === 'OptionalCallExpression')
+          && current.callee === child && child.type === 'Identifier';
+        if (!isCalledName) collect(child, current);
+      }
+    };
+    collect(node);
+    return [...names];
+  }
+
+  private addFlows(sources: string[], target: string, type: ExtractedDataFlow['type'], node: Node): void {
+    const lineNumber = node.loc?.start.line ?? 0;
+    for (const source of sources) {
+      if (source === target) continue;
+      const duplicate = this.module.dataFlows.some(flow => flow.source === source && flow.target === target && flow.type === type && flow.lineNumber === lineNumber);
+      if (!duplicate) this.module.dataFlows.push({ source, target, type, lineNumber });
+    }
+  }
+
+  private addCall(node: AnyCall, scope: string): void {
+    if (node.callee.type === 'Import' || node.callee.type === 'V8IntrinsicIdentifier') return;
+    const callee = `${node.type === 'NewExpression' ? 'new ' : ''}${this.expressionName(node.callee)}`;
+    this.module.calls.push({ caller: scope, callee, lineNumber: node.loc?.start.line ?? 0 });
+
+    // Arguments flow into the callee's parameters
+    for (const argument of node.arguments) {
+      if (argument.type === 'Identifier' || argument.type === 'MemberExpression') {
+        this.addFlows([this.expressionName(argument)], callee, 'parameter', argument);
+      }
+    }
+  }
+
+  private addRequire(id: LVal, call: CallExpression, lineNumber: number): void {
+    const [source] = call.arguments;
+    if (call.callee.type !== 'Identifier' || call.callee.name !== 'require' || source?.type !== 'StringLiteral') return;
+
+    if (id.type === 'Identifier') {
+      this.module.imports.push({ module: source.value, imports: [id.name], isDefault: true, lineNumber });
+    } else if (id.type === 'ObjectPattern') {
+      const names = id.properties.flatMap(property => property.type === 'ObjectProperty' ? [this.keyName(property.key, property.computed)] : []);
+      this.module.imports.push({ module: source.value, imports: names, isDefault: false, lineNumber });
+    }
+  }
+
+  private declaredNames(node: Node): string[] {
+    switch (node.type) {
+      case 'VariableDeclaration':
+        return node.declarations.flatMap(declarator => declarator.id.type === 'Identifier' ? [declarator.id.name] : []);
+      case 'FunctionDeclaration':
+      case 'ClassDeclaration':
+      case 'TSInterfaceDeclaration':
+      case 'TSTypeAliasDeclaration':
+      case 'TSEnumDeclaration':
+      case 'TSModuleDeclaration':
+        return node.id && 'name' in node.id ? [node.id.name] : [];
+      default:
+        return [];
+    }
+  }
+
+  private addExport(name: string, type: ExtractedExport['type'], node: Node): void {
+    this.module.exports.push({ name, type, lineNumber: node.loc?.start.line ?? 0 });
+  }
+
+  private visit(node: Node, scope: string): void {
+    switch (node.type) {
+      case 'FunctionDeclaration': {
+        const name = node.id?.name || 'default';
+        this.addFunction(name, 'function', node);
+        this.visitFunctionBody(node, name);
+        return;
+      }
+      case 'VariableDeclarator': {
+        const init = node.init;
+        if (node.id.type === 'Identifier' && init && (init.type === 'ArrowFunctionExpression' || init.type === 'FunctionExpression')) {
+          const name = node.id.name;
+          this.addFunction(name, init.type === 'ArrowFunctionExpression' ? 'arrow' : 'function', init, {}, node);
+          this.visitFunctionBody(init, name);
+          return;
+        }
+        if (node.id.type === 'Identifier' && init && (init.type === 'ClassExpression')) {
+          this.visitClass(init, node.id.name);
+          return;
+        }
+        if (init) {
+          if (init.type === 'CallExpression') this.addRequire(node.id, init, node.loc?.start.line ?? 0);
+          if (node.id.type === 'Identifier') this.addFlows(this.referencedNames(init), node.id.name, 'assignment', node);
+        }
+        break;
+      }
+      case 'ObjectMethod': {
+        const name = this.keyName(node.key, node.computed);
+        this.addFunction(name, 'method', node);
+        this.visitFunctionBody(node, name);
+        return;
+      }
+      case 'FunctionExpression':
+      case 'ArrowFunctionExpression':
+        // Callbacks and other unnamed functions belong to the function they are written in
+        this.visitFunctionBody(node, scope);
+        return;
+      case 'ClassDeclaration':
+      case 'ClassExpression':
+        this.visitClass(node, node.id?.name || 'default');
+        return;
+      case 'TSInterfaceDeclaration':
+        this.addInterface(node);
+        return;
+      case 'TSTypeAliasDeclaration':
+        this.addTypeAlias(node);
+        return;
+      case 'TSEnumDeclaration':
+        this.addEnum(node);
+        return;
+      case 'ImportDeclaration': {
+        const names = node.specifiers.map(specifier =>
+          specifier.type === 'ImportSpecifier' ? this.keyName(specifier.imported) : specifier.local.name);
+        this.module.imports.push({
+          module: node.source.value,
+          imports: names,
+          isDefault: node.specifiers.some(specifier => specifier.type === 'ImportDefaultSpecifier'),
+          lineNumber: node.loc?.start.line ?? 0,
+        });
+        return;
+      }
+      case 'TSImportEqualsDeclaration':
+        if (node.moduleReference.type === 'TSExternalModuleReference') {
+          this.module.imports.push({ module: node.moduleReference.expression.value, imports: [node.id.name], isDefault: true, lineNumber: node.loc?.start.line ?? 0 });
+        }
+        return;
+      case 'ExportNamedDeclaration':
+        if (node.declaration) {
+          this.declaredNames(node.declaration).forEach(name => this.addExport(name, 'named', node));
+        }
+        for (const specifier of node.specifiers) {
+          this.addExport(specifier.exported.type === 'Identifier' ? specifier.exported.name : specifier.exported.value, 'named', node);
+        }
+        break;
+      case 'ExportDefaultDeclaration':
+        this.addExport(this.declaredNames(node.declaration)[0] || (node.declaration.type === 'Identifier' ? node.declaration.name : 'default'), 'default', node);
+        break;
+      case 'ExportAllDeclaration':
+        this.addExport('*', 'named', node);
+        return;
+      case 'TSExportAssignment':
+        this.addExport(node.expression.type === 'Identifier' ? node.expression.name : 'default', 'default', node);
+        break;
+      case 'AssignmentExpression': {
+        const target = this.expressionName(node.left);
+        // CommonJS exports
+        if (target === 'module.exports') {
+          this.addExport(node.right.type === 'Identifier' ? node.right.name : 'default', 'default', node);
+        } else if (target.startsWith('exports.') || target.startsWith('module.exports.')) {
+          this.addExport(target.split('.').pop()!, 'named', node);
+        }
+        this.addFlows(this.referencedNames(node.right), target, 'assignment', node);
+        break;
+      }
+      case 'ReturnStatement':
+        if (node.argument && scope !== MODULE_SCOPE) {
+          this.addFlows(this.referencedNames(node.argument), scope, 'return', node);
+        }
+        break;
+      case 'CallExpression':
+      case 'NewExpression':
+      case 'OptionalCallExpression':
+        this.addCall(node, scope);
+        break;
+    }
+
+    for (const child of childNodes(node, true)) {
+      this.visit(child, scope);
+    }
+  }
+}
+
+/**
+ * Extracts the declarations, imports, exports, calls and data flows of a script,
+ * from its tree when the caller has parsed it already
+ */
+export const extractJsModule = (content: string, language: ScriptLanguage, ast: File = parseScript(content, language)): SourceModule =>
+  new Extractor(content).run(ast);
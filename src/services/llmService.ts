@@ -7,6 +7,7 @@
 import axios, { AxiosResponse } from 'axios';
 import { Octokit } from 'octokit';
 import { getFileDiff, getFileDiffViaCli } from './githubService';
+import { RequestLimiter, getRequestLimiter } from './requestLimiter';
 import chalk from 'chalk';
 
 const MODEL1 = "llama3.2:3b-instruct-fp16";
@@ -23,13 +24,24 @@ interface LLMConfig {
   model: string;
   provider: string;
   apiKey?: string;
+  temperature: number;
+  maxConcurrency?: number; // Requests in flight to this server at once
+  contextWindow?: number; // Tokens per request; sent to Ollama as num_ctx
 }
 
+// Local servers usually run one request at a time; hosted and batching servers take more
+const DEFAULT_CONCURRENCY: Record<string, number> = {
+  ollama: 1,
+  lmstudio: 1,
+  openai: 4,
+};
+
 // Default Ollama configuration
 const DEFAULT_CONFIG: LLMConfig = {
   baseUrl: 'http://localhost:11434',
   model: SELECTED_MODEL,
-  provider: 'ollama'
+  provider: 'ollama',
+  temperature: 0.1 // Low temperature for focused responses
 };
 
 // Streaming response handler
@@ -39,14 +51,40 @@ interface StreamHandler {
   onError?: (error: Error) => void;
 }
 
+// Per-request generation options
+interface GenerateOptions {
+  jsonSchema?: object; // Ask the provider to constrain the reply to this JSON Schema
+}
+
+// Token budget for replies that have to fit a JSON contract
+const JSON_MAX_TOKENS = 1024;
+const TEXT_MAX_TOKENS = 300;
+
 /**
  * Generic LLM client that can work with different providers
  */
 class LLMClient {
   private config: LLMConfig;
+  private limiter: RequestLimiter;
 
   constructor(config: Partial<LLMConfig> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
+    this.config.maxConcurrency = config.maxConcurrency || DEFAULT_CONCURRENCY[this.config.provider] || 1;
+    this.limiter = getRequestLimiter(`${this.config.provider} ${this.config.baseUrl}`, this.config.maxConcurrency);
+  }
+
+  /**
+   * Settings that decide what the model replies, e.g. for cache keys
+   */
+  getConfig(): Readonly<LLMConfig> {
+    return this.config;
+  }
+
+  /**
+   * Tokens a reply may use, which its prompt has to leave free
+   */
+  getMaxReplyTokens(options: GenerateOptions = {}): number {
+    return options.jsonSchema ? JSON_MAX_TOKENS : TEXT_MAX_TOKENS;
   }
 
   /**
@@ -63,24 +101,28 @@ class LLMClient {
   /**
    * Generate response from LLM with streaming support
    */
-  async generate(prompt: string, streamHandler?: StreamHandler): Promise<string> {
+  async generate(prompt: string, streamHandler?: StreamHandler, options: GenerateOptions = {}): Promise<string> {
     if (this.config.provider === 'ollama') {
-      return this.generateOllama(prompt, streamHandler);
+      return this.limiter.run(() => this.generateOllama(prompt, streamHandler, options));
     } else if (this.config.provider === 'openai') {
-      return this.generateOpenAI(prompt, streamHandler);
+      return this.limiter.run(() => this.generateOpenAI(prompt, streamHandler, options));
     } else if (this.config.provider === 'lmstudio') {
-      return this.generateLMStudio(prompt, streamHandler);
+      return this.limiter.run(() => this.generateLMStudio(prompt, streamHandler, options));
     } else {
       throw new Error(`Unsupported provider: ${this.config.provider}`);
     }
   }
 
   /**
-   * Generate response using Ollama API
+   * Add constraints for concise responses. JSON replies are shaped by their
+   * schema instead, so the bullet-point constraints would only conflict.
    */
-  private async generateOllama(prompt: string, streamHandler?: StreamHandler): Promise<string> {
-    // Add constraints for concise responses
-    const enhancedPrompt = `${prompt}
+  private withConstraints(prompt: string, options: GenerateOptions): string {
+    if (options.jsonSchema) {
+      return prompt;
+    }
+
+    return `${prompt}
 
 CONSTRAINTS:
 - Be concise and direct
@@ -88,15 +130,35 @@ CONSTRAINTS:
 - Maximum 200 words total
 - Focus on actionable items only
 - No verbose explanations`;
+  }
+
+  /**
+   * OpenAI-compatible structured output format
+   */
+  private responseFormat(options: GenerateOptions): object | undefined {
+    if (!options.jsonSchema) {
+      return undefined;
+    }
+    return {
+      type: 'json_schema',
+      json_schema: { name: 'pass_output', strict: false, schema: options.jsonSchema }
+    };
+  }
 
+  /**
+   * Generate response using Ollama API
+   */
+  private async generateOllama(prompt: string, streamHandler?: StreamHandler, options: GenerateOptions = {}): Promise<string> {
     const requestData = {
       model: this.config.model,
-      prompt: enhancedPrompt,
+      prompt: this.withConstraints(prompt, options),
       stream: !!streamHandler, // Enable streaming if handler provided
+      format: options.jsonSchema, // Ollama accepts a JSON Schema for structured outputs
       options: {
-        temperature: 0.1, // Lower temperature for more focused responses
+        temperature: this.config.temperature,
         top_p: 0.9,
-        num_predict: 300, // Limit response length
+        num_predict: this.getMaxReplyTokens(options), // Limit response length
+        num_ctx: this.config.contextWindow, // Server default when unset
       }
     };
 
@@ -177,23 +239,14 @@ CONSTRAINTS:
   /**
    * Generate response using LM Studio API (OpenAI-compatible)
    */
-  private async generateLMStudio(prompt: string, streamHandler?: StreamHandler): Promise<string> {
-    // Add constraints for concise responses
-    const enhancedPrompt = `${prompt}
-
-CONSTRAINTS:
-- Be concise and direct
-- Use bullet points, not paragraphs  
-- Maximum 200 words total
-- Focus on actionable items only
-- No verbose explanations`;
-
+  private async generateLMStudio(prompt: string, streamHandler?: StreamHandler, options: GenerateOptions = {}): Promise<string> {
     const requestData = {
       model: this.config.model,
-      messages: [{ role: 'user', content: enhancedPrompt }],
+      messages: [{ role: 'user', content: this.withConstraints(prompt, options) }],
       stream: !!streamHandler,
-      temperature: 0.1, // Lower temperature for focused responses
-      max_tokens: 300 // Limit response length
+      temperature: this.config.temperature,
+      max_tokens: this.getMaxReplyTokens(options), // Limit response length
+      response_format: this.responseFormat(options)
     };
 
     const headers: Record<string, string> = {
@@ -269,23 +322,14 @@ CONSTRAINTS:
   /**
    * Generate response using OpenAI API (for future use)
    */
-  private async generateOpenAI(prompt: string, streamHandler?: StreamHandler): Promise<string> {
-    // Add constraints for concise responses
-    const enhancedPrompt = `${prompt}
-
-CONSTRAINTS:
-- Be concise and direct
-- Use bullet points, not paragraphs
-- Maximum 200 words total  
-- Focus on actionable items only
-- No verbose explanations`;
-
+  private async generateOpenAI(prompt: string, streamHandler?: StreamHandler, options: GenerateOptions = {}): Promise<string> {
     const requestData = {
       model: this.config.model,
-      messages: [{ role: 'user', content: enhancedPrompt }],
+      messages: [{ role: 'user', content: this.withConstraints(prompt, options) }],
       stream: !!streamHandler,
-      temperature: 0.1, // Lower temperature for focused responses
-      max_tokens: 300 // Limit response length
+      temperature: this.config.temperature,
+      max_tokens: this.getMaxReplyTokens(options), // Limit response length
+      response_format: this.responseFormat(options)
     };
 
     const headers: Record<string, string> = {
@@ -567,4 +611,4 @@ export const createLLMClient = (config: Partial<LLMConfig>): LLMClient => {
 /**
  * Export the LLMClient class for advanced usage
  */
-export { LLMClient, LLMConfig, StreamHandler };
+export { LLMClient, LLMConfig, StreamHandler, GenerateOptions };
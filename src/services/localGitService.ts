@@ -0,0 +1,194 @@
+/**
+ * Local Git Service
+ *
+ * This service mirrors the GitHub service for reviews that run against a
+ * local checkout instead of a Pull Request. Everything is derived from
+ * `git diff`/`git log`, so no network access or `gh` CLI is required.
+ */
+import chalk from 'chalk';
+import path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { LocalSource } from '../types/analysis';
+
+const execFileAsync = promisify(execFile);
+
+// Large diffs easily exceed the default 1MB exec buffer
+const MAX_BUFFER = 64 * 1024 * 1024;
+
+/**
+ * Runs a git command inside the given repository and returns stdout.
+ */
+const runGit = async (repoPath: string, args: string[]): Promise<string> => {
+  const { stdout } = await execFileAsync('git', ['-C', repoPath, ...args], { maxBuffer: MAX_BUFFER });
+  return stdout;
+};
+
+/**
+ * Builds the revision range used for every diff. The three-dot form diffs
+ * the merge-base against head, which is exactly what a PR would show.
+ */
+const getRange = (source: LocalSource): string => `${source.base}...${source.head}`;
+
+/**
+ * Builds a stable identifier for a local review so it can be stored in
+ * place of a PR URL.
+ */
+export const buildLocalReviewUrl = (source: LocalSource): string => {
+  return `local://${path.resolve(source.repo_path)}?base=${encodeURIComponent(source.base)}&head=${encodeURIComponent(source.head)}`;
+};
+
+/**
+ * Verifies that the path is a git work tree and both refs resolve.
+ */
+export const validateLocalSource = async (source: LocalSource): Promise<void> => {
+  try {
+    await runGit(source.repo_path, ['rev-parse', '--is-inside-work-tree']);
+  } catch (error) {
+    throw new Error(`Not a git repository: ${source.repo_path}`);
+  }
+
+  for (const ref of [source.base, source.head]) {
+    try {
+      await runGit(source.repo_path, ['rev-parse', '--verify', '--quiet', `${ref}^{commit}`]);
+    } catch (error) {
+      throw new Error(`Unknown git ref "${ref}" in ${source.repo_path}`);
+    }
+  }
+};
+
+/**
+ * Builds PR-like details (title, body, author, stats) from the commits
+ * between base and head.
+ */
+export const getPrDetailsViaGit = async (source: LocalSource) => {
+  console.log(chalk.blue(`\n📋 Building review details from local git history...`));
+
+  try {
+    console.log(chalk.blue(`🔧 Executing: git log ${source.base}..${source.head}`));
+    const startTime = Date.now();
+
+    const log = await runGit(source.repo_path, [
+      'log', '--format=%an%x1f%s%x1f%b%x1e', `${source.base}..${source.head}`
+    ]);
+    const shortstat = await runGit(source.repo_path, ['diff', '--shortstat', getRange(source)]);
+    const headSha = (await runGit(source.repo_path, ['rev-parse', `${source.head}^{commit}`])).trim();
+
+    const commits = log
+      .split('\x1e')
+      .map(entry => entry.trim())
+      .filter(entry => entry.length > 0)
+      .map(entry => {
+        const [author, subject, body] = entry.split('\x1f');
+        return { author, subject, body: (body || '').trim() };
+      });
+
+    const additions = parseInt(shortstat.match(/(\d+) insertions?\(\+\)/)?.[1] || '0', 10);
+    const deletions = parseInt(shortstat.match(/(\d+) deletions?\(-\)/)?.[1] || '0', 10);
+
+    // A single commit reads like a PR; several commits are summarised as a list
+    const title = commits.length === 1
+      ? commits[0].subject
+      : `${source.head} into ${source.base} (${commits.length} commits)`;
+    const body = commits.length === 1
+      ? commits[0].body || null
+      : commits.map(commit => `- ${commit.subject}`).join('\n') || null;
+
+    const duration = ((Date.now() - startTime) / 1000).toFixed(2);
+
+    const details = {
+      title,
+      body,
+      author: commits[0]?.author || 'unknown',
+      state: 'local',
+      additions,
+      deletions,
+      head_sha: headSha,
+    };
+
+    console.log(chalk.green(`✅ Local review details built in ${duration}s`));
+    console.log(chalk.blue(`📋 Title: "${chalk.yellow(details.title)}"`));
+    console.log(chalk.blue(`👤 Author: ${chalk.yellow(details.author)}`));
+    console.log(chalk.blue(`📊 Commits: ${chalk.yellow(commits.length)} | +${additions} -${deletions}`));
+
+    return details;
+  } catch (error) {
+    console.error(chalk.red(`❌ Error reading local git history:`), error);
+    throw error;
+  }
+};
+
+/**
+ * Lists files changed between base and head. Deleted files are skipped
+ * since there is nothing left to review.
+ */
+export const getChangedFilesViaGit = async (source: LocalSource): Promise<string[]> => {
+  console.log(chalk.blue(`\n📁 Fetching changed files list via git...`));
+
+  try {
+    console.log(chalk.blue(`🔧 Executing: git diff --name-only --diff-filter=d ${getRange(source)}`));
+    const stdout = await runGit(source.repo_path, ['diff', '--name-only', '--diff-filter=d', getRange(source)]);
+
+    const filenames = stdout.trim().split('\n').filter(line => line.length > 0);
+
+    console.log(chalk.green(`✅ Found ${chalk.yellow(filenames.length)} changed files:`));
+    filenames.forEach((filename: string, index: number) => {
+      console.log(chalk.gray(`   ${index + 1}. ${filename}`));
+    });
+
+    return filenames;
+  } catch (error) {
+    console.error(chalk.red(`❌ Error fetching changed files via git:`), error);
+    throw error;
+  }
+};
+
+/**
+ * Lists files that differ between two commits, e.g. the head of an earlier
+ * review and the current head.
+ */
+export const getChangedFilesBetweenViaGit = async (source: LocalSource, fromSha: string, toSha: string): Promise<string[]> => {
+  const stdout = await runGit(source.repo_path, ['diff', '--name-only', fromSha, toSha]);
+  return stdout.trim().split('\n').filter(line => line.length > 0);
+};
+
+/**
+ * Fetches the ENTIRE diff between base and head in one call, in the same
+ * format `gh pr diff` produces, so it can be processed locally afterwards.
+ */
+export const getFullDiffViaGit = async (source: LocalSource): Promise<string | null> => {
+  console.log(chalk.blue(`\n📄 Fetching FULL diff via git (single call)...`));
+
+  try {
+    console.log(chalk.blue(`🔧 Executing: git diff ${getRange(source)}`));
+    const startTime = Date.now();
+
+    const stdout = await runGit(source.repo_path, ['diff', '--no-color', '--no-ext-diff', getRange(source)]);
+
+    const duration = ((Date.now() - startTime) / 1000).toFixed(2);
+
+    if (!stdout.trim()) {
+      console.log(chalk.red(`❌ No differences between ${source.base} and ${source.head}`));
+      return null;
+    }
+
+    console.log(chalk.green(`✅ Full diff fetched in ${duration}s (${stdout.length} characters)`));
+
+    return stdout;
+  } catch (error) {
+    console.error(chalk.red(`❌ Error fetching full diff via git:`), error);
+    return null;
+  }
+};
+
+/**
+ * Reads a file's content at a given ref. Returns null when the file does
+ * not exist at that ref.
+ */
+export const getFileContentViaGit = async (source: LocalSource, filePath: string, ref: string): Promise<string | null> => {
+  try {
+    return await runGit(source.repo_path, ['show', `${ref}:${filePath}`]);
+  } catch (error) {
+    return null;
+  }
+};
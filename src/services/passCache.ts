@@ -0,0 +1,153 @@
+// Pass Cache - Content-addressed store of validated analysis pass replies
+//
+// Identical chunks (reruns, rebased PRs, the same file in two PRs) produce
+// the same prompt, so their validated reply is kept in the review database
+// and served again instead of calling the model.
+
+import crypto from 'crypto';
+import { PrismaClient } from '@prisma/client';
+import { PassOutput } from '../types/analysis';
+import chalk from 'chalk';
+
+export interface PassCacheKeyInput {
+  templateVersion: number;
+  template?: string;         // Configured templates, which the version does not cover; keys without one are unchanged
+  passType: string;
+  diffContent: string;
+  model: string;
+  provider: string;
+  temperature: number;
+  contextWindow: number;     // Resolved for the model; a smaller one cuts the prompt to fit
+  knownNonIssues?: string[]; // Examples added to the prompt; keys without them are unchanged
+}
+
+export interface CachedPass {
+  response: string;
+  output: PassOutput;
+}
+
+export interface PassCacheSessionStats {
+  hits: number;
+  misses: number;
+  hitRate: number;       // 0-1, over the lookups of this run
+}
+
+export interface PassCacheStats {
+  entries: number;
+  totalHits: number;
+  sizeBytes: number;     // Approximate, raw replies only
+  byModel: { provider: string; model: string; entries: number; hits: number }[];
+  oldest?: Date;
+  newest?: Date;
+}
+
+export const passCacheKey = (input: PassCacheKeyInput): string => {
+  const parts = [
+    `v${input.templateVersion}`,
+    input.passType,
+    input.provider,
+    input.model,
+    String(input.temperature),
+    String(input.contextWindow),
+    input.diffContent,
+    ...(input.knownNonIssues?.length ? input.knownNonIssues : []),
+    ...(input.template ? [`template:${input.template}`] : []),
+  ];
+  return crypto.createHash('sha256').update(parts.join('\u0000')).digest('hex');
+};
+
+export class PassCache {
+  private prisma: PrismaClient;
+  private hits = 0;
+  private misses = 0;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Look up a cached reply; counts towards the hit/miss stats of this run
+   */
+  async get(key: string): Promise<CachedPass | undefined> {
+    let entry;
+    try {
+      entry = await this.prisma.passCacheEntry.findUnique({ where: { key } });
+    } catch (error) {
+      // A broken cache must never fail the review; the pass just runs
+      console.log(chalk.yellow(`⚠️  Pass cache lookup failed: ${(error as Error).message}`));
+    }
+
+    if (!entry) {
+      this.misses++;
+      return undefined;
+    }
+
+    this.hits++;
+    await this.prisma.passCacheEntry.update({
+      where: { key },
+      data: { hits: { increment: 1 }, lastHitAt: new Date() }
+    }).catch(() => undefined); // Hit counters are informational only
+
+    return { response: entry.response, output: entry.output as unknown as PassOutput };
+  }
+
+  async set(key: string, entry: CachedPass & { passType: string; provider: string; model: string }): Promise<void> {
+    const data = {
+      passType: entry.passType,
+      modelProvider: entry.provider,
+      modelName: entry.model,
+      response: entry.response,
+      output: entry.output as any,
+    };
+
+    try {
+      await this.prisma.passCacheEntry.upsert({ where: { key }, create: { key, ...data }, update: data });
+    } catch (error) {
+      console.log(chalk.yellow(`⚠️  Could not store pass in cache: ${(error as Error).message}`));
+    }
+  }
+
+  getSessionStats(): PassCacheSessionStats {
+    const lookups = this.hits + this.misses;
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? this.hits / lookups : 0,
+    };
+  }
+
+  async getStats(): Promise<PassCacheStats> {
+    const entries = await this.prisma.passCacheEntry.findMany({
+      select: { modelProvider: true, modelName: true, hits: true, response: true, createdAt: true }
+    });
+
+    const byModel = new Map<string, { provider: string; model: string; entries: number; hits: number }>();
+    for (const entry of entries) {
+      const id = `${entry.modelProvider}\u0000${entry.modelName}`;
+      const model = byModel.get(id) || { provider: entry.modelProvider, model: entry.modelName, entries: 0, hits: 0 };
+      model.entries++;
+      model.hits += entry.hits;
+      byModel.set(id, model);
+    }
+
+    const dates = entries.map(entry => entry.createdAt.getTime());
+    return {
+      entries: entries.length,
+      totalHits: entries.reduce((sum, entry) => sum + entry.hits, 0),
+      sizeBytes: entries.reduce((sum, entry) => sum + Buffer.byteLength(entry.response), 0),
+      byModel: [...byModel.values()].sort((a, b) => b.entries - a.entries),
+      oldest: dates.length > 0 ? new Date(Math.min(...dates)) : undefined,
+      newest: dates.length > 0 ? new Date(Math.max(...dates)) : undefined,
+    };
+  }
+
+  /**
+   * Remove every entry, or only those created before `olderThan`
+   */
+  async clear(olderThan?: Date): Promise<number> {
+    const { count } = await this.prisma.passCacheEntry.deleteMany({
+      where: olderThan ? { createdAt: { lt: olderThan } } : {}
+    });
+    return count;
+  }
+}
@@ -0,0 +1,174 @@
+/**
+ * Pass Output Parser
+ *
+ * Validates the JSON reply of an analysis pass against the contract in
+ * PASS_OUTPUT_SCHEMA. Local models often wrap JSON in prose or code fences,
+ * so the object is extracted first; every problem found is reported back so
+ * the caller can ask the model to repair its reply.
+ */
+import { AnalysisIssue, IssueSeverity, PassOutput } from '../types/analysis';
+
+const RISK_LEVELS: PassOutput['risk_level'][] = ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'];
+const SEVERITIES: IssueSeverity[] = ['critical', 'high', 'medium', 'low', 'info'];
+
+export interface PassOutputParseResult {
+  value?: PassOutput;
+  errors: string[];
+}
+
+/**
+ * Pulls the outermost JSON object out of a reply, ignoring code fences and
+ * any text the model put around it
+ */
+const extractJsonObject = (raw: string): string | undefined => {
+  const text = raw.replace(/```(?:json)?/gi, '');
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end <= start) return undefined;
+  return text.slice(start, end + 1);
+};
+
+const optionalString = (value: unknown): string | undefined => {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+};
+
+const optionalLine = (value: unknown): number | undefined => {
+  const line = typeof value === 'string' ? Number(value) : value;
+  return typeof line === 'number' && Number.isInteger(line) && line > 0 ? line : undefined;
+};
+
+const parseIssue = (item: unknown, index: number, errors: string[], validLines?: Set<number>): AnalysisIssue | undefined => {
+  if (!item || typeof item !== 'object' || Array.isArray(item)) {
+    errors.push(`issues[${index}] must be an object`);
+    return undefined;
+  }
+
+  const issue = item as Record<string, unknown>;
+  const severity = typeof issue.severity === 'string' ? issue.severity.toLowerCase() : undefined;
+  const category = optionalString(issue.category);
+  const title = optionalString(issue.title);
+
+  if (!severity || !SEVERITIES.includes(severity as IssueSeverity)) {
+    errors.push(`issues[${index}].severity must be one of ${SEVERITIES.join(', ')}`);
+  }
+  if (!category) errors.push(`issues[${index}].category must be a non-empty string`);
+  if (!title) errors.push(`issues[${index}].title must be a non-empty string`);
+  if (!severity || !SEVERITIES.includes(severity as IssueSeverity) || !category || !title) {
+    return undefined;
+  }
+
+  let lineStart = optionalLine(issue.line_start);
+  let lineEnd = optionalLine(issue.line_end) ?? lineStart;
+  // Line numbers the model made up are worse than none: they would anchor comments to the wrong code
+  if (lineStart !== undefined && validLines && !validLines.has(lineStart)) {
+    lineStart = undefined;
+    lineEnd = undefined;
+  }
+  if (lineStart === undefined || lineEnd === undefined || lineEnd < lineStart) {
+    lineEnd = lineStart;
+  }
+
+  return {
+    severity: severity as IssueSeverity,
+    category: category.toLowerCase().replace(/\s+/g, '_'),
+    title,
+    line_start: lineStart,
+    line_end: lineEnd,
+    evidence: optionalString(issue.evidence),
+    suggested_fix: optionalString(issue.suggested_fix),
+  };
+};
+
+/**
+ * Parses and validates a pass reply. `validLines` holds the new-file lines of
+ * the analyzed chunk; line numbers outside of it are dropped.
+ */
+export const parsePassOutput = (raw: string, validLines?: Set<number>): PassOutputParseResult => {
+  const json = extractJsonObject(raw);
+  if (!json) {
+    return { errors: ['Reply does not contain a JSON object'] };
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    return { errors: [`Reply is not valid JSON: ${(error as Error).message}`] };
+  }
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return { errors: ['Reply must be a JSON object'] };
+  }
+
+  const reply = data as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const riskLevel = typeof reply.risk_level === 'string' ? reply.risk_level.toUpperCase() : undefined;
+  if (!riskLevel || !RISK_LEVELS.includes(riskLevel as PassOutput['risk_level'])) {
+    errors.push(`risk_level must be one of ${RISK_LEVELS.join(', ')}`);
+  }
+
+  const riskReason = typeof reply.risk_reason === 'string' ? reply.risk_reason.trim() : undefined;
+  if (riskReason === undefined) {
+    errors.push('risk_reason must be a string');
+  }
+
+  const issues: AnalysisIssue[] = [];
+  if (!Array.isArray(reply.issues)) {
+    errors.push('issues must be an array');
+  } else {
+    reply.issues.forEach((item, index) => {
+      const issue = parseIssue(item, index, errors, validLines);
+      if (issue) issues.push(issue);
+    });
+  }
+
+  // Models tend to leave out an empty recommendations list, so only a malformed one is an error
+  let recommendations: string[] = [];
+  if (Array.isArray(reply.recommendations) && reply.recommendations.every(item => typeof item === 'string')) {
+    recommendations = (reply.recommendations as string[]).map(item => item.trim()).filter(Boolean);
+  } else if (reply.recommendations !== undefined) {
+    errors.push('recommendations must be an array of strings');
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  return {
+    value: {
+      risk_level: riskLevel as PassOutput['risk_level'],
+      risk_reason: riskReason!,
+      issues,
+      recommendations,
+    },
+    errors,
+  };
+};
+
+// Columns of a stored pass that count its issues by severity
+export const ISSUE_COUNT_COLUMNS = {
+  critical: 'criticalIssues',
+  high: 'highIssues',
+  medium: 'mediumIssues',
+  low: 'lowIssues',
+  info: 'infoIssues',
+} as const satisfies Record<IssueSeverity, string>;
+
+export type IssueCounts = Record<typeof ISSUE_COUNT_COLUMNS[IssueSeverity], number>;
+
+/**
+ * Issues of a pass by severity, stored with the pass so reviews can be
+ * filtered and totalled by severity in the database. An issue without a
+ * severity counts as medium, which is how the API shows it.
+ */
+export const countIssuesBySeverity = (issues: unknown): IssueCounts => {
+  const counts: IssueCounts = { criticalIssues: 0, highIssues: 0, mediumIssues: 0, lowIssues: 0, infoIssues: 0 };
+  for (const issue of Array.isArray(issues) ? issues : []) {
+    const stated = issue && typeof issue === 'object' ? (issue as { severity?: unknown }).severity : undefined;
+    const severity = typeof stated === 'string' && stated ? stated.toLowerCase() : 'medium';
+    if (SEVERITIES.includes(severity as IssueSeverity)) {
+      counts[ISSUE_COUNT_COLUMNS[severity as IssueSeverity]]++;
+    }
+  }
+  return counts;
+};
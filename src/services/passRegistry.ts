@@ -0,0 +1,84 @@
+// Pass Registry - The analysis passes a review runs
+//
+// A pass is a definition: an id, a prompt template, the files and languages
+// it applies to, an optional model and an enabled flag. The built-in passes
+// are defined here; `passes.definitions` in .hikmapr.yml changes them or adds
+// new ones. Results are stored, cached and reported under the pass id, so a
+// new pass needs nothing beyond its definition.
+
+import { HikmaConfig, routeModel } from '../config/hikmaConfig';
+import { AnalysisPass, ChunkAnalysisResult, PassDefinition } from '../types/analysis';
+import {
+  SYNTAX_LOGIC_TEMPLATE,
+  SECURITY_PERFORMANCE_TEMPLATE,
+  ARCHITECTURE_DESIGN_TEMPLATE,
+  TESTING_DOCS_TEMPLATE
+} from '../prompts/templates';
+import { fileMatchesLanguage } from './fileFilterService';
+import { matchesPatterns } from './ignoreRules';
+
+const builtIn = (id: string, template: string): PassDefinition => ({ id, template, files: [], languages: [], enabled: true });
+
+export const BUILT_IN_PASSES: PassDefinition[] = [
+  builtIn('syntax_logic', SYNTAX_LOGIC_TEMPLATE),
+  builtIn('security_performance', SECURITY_PERFORMANCE_TEMPLATE),
+  builtIn('architecture_design', ARCHITECTURE_DESIGN_TEMPLATE),
+  builtIn('testing_docs', TESTING_DOCS_TEMPLATE),
+];
+
+/**
+ * Whether a pass analyzes a file, by its globs and languages
+ */
+export const passAppliesTo = (pass: PassDefinition, filePath: string): boolean =>
+  (pass.files.length === 0 || matchesPatterns(pass.files, filePath))
+  && (pass.languages.length === 0 || pass.languages.some(language => fileMatchesLanguage(filePath, language)));
+
+/**
+ * The passes a review runs, in order: the built-in passes with the configured
+ * definitions over them, limited to passes.enabled when it is set. The model
+ * of a pass is models.default, then models.<id>, then its own.
+ */
+export const resolvePasses = (config: Pick<HikmaConfig, 'passes' | 'models'>): PassDefinition[] => {
+  const definitions = new Map(BUILT_IN_PASSES.map(pass => [pass.id, pass]));
+  for (const [id, custom] of Object.entries(config.passes.definitions)) {
+    const base = definitions.get(id);
+    const template = custom.template ?? base?.template;
+    if (!template) {
+      throw new Error(`passes.definitions.${id}: a new pass needs a template`);
+    }
+    definitions.set(id, {
+      id,
+      template,
+      files: custom.files ?? base?.files ?? [],
+      languages: custom.languages ?? base?.languages ?? [],
+      model: custom.model,
+      enabled: custom.enabled ?? base?.enabled ?? true,
+    });
+  }
+
+  const { enabled } = config.passes;
+  const unknown = (enabled || []).filter(id => !definitions.has(id));
+  if (unknown.length > 0) {
+    throw new Error(`passes.enabled: unknown pass ${unknown.map(id => `"${id}"`).join(', ')} (expected one of ${[...definitions.keys()].join(', ')})`);
+  }
+
+  const passes = (enabled ? enabled.map(id => definitions.get(id)!) : [...definitions.values()])
+    .filter(pass => pass.enabled)
+    .map(pass => {
+      const models = config.models as Record<string, HikmaConfig['models']['default'] | undefined>;
+      const model = models[pass.id] || pass.model ? routeModel(config.models.default, models[pass.id], pass.model) : undefined;
+      return { ...pass, model };
+    });
+  if (passes.length === 0) {
+    throw new Error('passes: at least one pass must be enabled');
+  }
+  return passes;
+};
+
+/**
+ * The pass results of a chunk analysis, whatever passes produced it
+ */
+export const getChunkPasses = (result: ChunkAnalysisResult): AnalysisPass[] =>
+  Object.entries(result)
+    .filter(([key, value]) => key !== 'plugin_findings' && !!value && !Array.isArray(value))
+    .map(([, value]) => value as AnalysisPass);
@@ -1,5 +1,7 @@
 import { HikmaPlugin, PluginAnalysisInput, PluginAnalysisOutput, PluginHook, PluginFinding } from '../types/plugins';
 import { LLMClient } from './llmService';
+import { SuppressionStore } from './suppressionStore';
+import { codeBetween } from './diffParser';
 import * as path from 'path';
 import * as fs from 'fs';
 
@@ -7,6 +9,9 @@ export class PluginService {
   private plugins: HikmaPlugin[] = [];
   private pluginDirectory: string;
   private llmClient?: LLMClient;
+  private enabledIds?: string[];
+  private disabledIds: string[] = [];
+  private suppressions?: SuppressionStore;
 
   constructor(pluginDirectory: string, llmClient?: LLMClient) {
     this.pluginDirectory = pluginDirectory;
@@ -17,6 +22,25 @@ export class PluginService {
     this.llmClient = llmClient;
   }
 
+  /**
+   * Restricts which loaded plugins run: only the enabled ones when a list is given, never the disabled ones
+   */
+  public setPluginSelection(selection: { enabled?: string[]; disabled?: string[] }): void {
+    this.enabledIds = selection.enabled;
+    this.disabledIds = selection.disabled || [];
+  }
+
+  /**
+   * Findings matching a suppression learned from false positives are not returned
+   */
+  public setSuppressions(suppressions?: SuppressionStore): void {
+    this.suppressions = suppressions;
+  }
+
+  private isActive(plugin: HikmaPlugin): boolean {
+    return (!this.enabledIds || this.enabledIds.includes(plugin.id)) && !this.disabledIds.includes(plugin.id);
+  }
+
   public async loadPlugins(): Promise<void> {
     this.plugins = []; // Clear existing plugins
     console.log(`Loading plugins from: ${this.pluginDirectory}`);
@@ -52,7 +76,7 @@ export class PluginService {
   public async runPlugins(hook: PluginHook, input: PluginAnalysisInput): Promise<PluginFinding[]> {
     let allFindings: PluginFinding[] = [];
     for (const plugin of this.plugins) {
-      if (plugin.hooks.includes(hook)) {
+      if (plugin.hooks.includes(hook) && this.isActive(plugin)) {
         try {
           // Provide LLM client if plugin needs it and we have one available
           const pluginInput: PluginAnalysisInput = {
@@ -63,6 +87,7 @@ export class PluginService {
           const output: PluginAnalysisOutput = await plugin.execute(pluginInput);
           const findingsWithPluginInfo = output.findings.map(finding => ({
             ...finding,
+            filePath: input.filePath,
             pluginId: plugin.id,
             pluginName: plugin.name,
           }));
@@ -72,6 +97,13 @@ export class PluginService {
         }
       }
     }
-    return allFindings;
+
+    if (!this.suppressions) return allFindings;
+    return this.suppressions.filter(allFindings, finding => ({
+      rule: finding.pluginId,
+      message: finding.message,
+      filePath: input.filePath,
+      code: finding.line ? codeBetween(input.diffLines, finding.line, finding.line) : undefined,
+    }));
   }
 }
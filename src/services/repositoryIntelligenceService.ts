@@ -15,6 +15,7 @@ import {
   GitCommit,
   HistoricalPattern
 } from '../types/analysis.js';
+import { extractSourceModule, sourceLanguageOf } from './sourceExtractor';
 
 export class RepositoryIntelligenceService {
   
@@ -644,23 +645,32 @@ export class RepositoryIntelligenceService {
     const testFiles: string[] = [];
     
     for (const file of changedFiles) {
-      const fileName = path.basename(file, path.extname(file));
-      const testPatterns = [
-        `${fileName}.test.js`,
-        `${fileName}.test.ts`,
-        `${fileName}.spec.js`,
-        `${fileName}.spec.ts`
-      ];
-      
-      for (const pattern of testPatterns) {
-        const testFiles = await this.findFilesWithPattern(repoPath, new RegExp(pattern));
-        testFiles.push(...testFiles);
+      for (const pattern of this.testFilePatterns(file)) {
+        const matches = await this.findFilesWithPattern(repoPath, pattern);
+        testFiles.push(...matches.filter(match => !testFiles.includes(match)));
       }
     }
     
     return testFiles;
   }
 
+  /**
+   * Names the tests of a file go by in its language
+   */
+  private testFilePatterns(file: string): RegExp[] {
+    const fileName = path.basename(file, path.extname(file)).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    switch (sourceLanguageOf(file)) {
+      case 'python':
+        return [new RegExp(`^test_${fileName}\\.py$`), new RegExp(`^${fileName}_test\\.py$`)];
+      case 'java':
+        return [new RegExp(`^${fileName}(Test|Tests|IT)\\.java$`)];
+      case 'go':
+        return [new RegExp(`^${fileName}_test\\.go$`)];
+      default:
+        return [new RegExp(`^${fileName}\\.(test|spec)\\.[jt]sx?$`)];
+    }
+  }
+
   private async findDocumentationFiles(changedFiles: string[], repoPath: string): Promise<string[]> {
     const docFiles = await this.findFilesWithPattern(repoPath, /\.(md|txt|rst|doc)$/i);
     return docFiles.slice(0, 5); // Limit to 5 documentation files
@@ -692,6 +702,16 @@ export class RepositoryIntelligenceService {
     // Simple implementation - extract imports
     try {
       const content = await this.getCompleteFile(file, repoPath);
+      const language = sourceLanguageOf(file);
+      if (language) {
+        const { imports, exports } = await extractSourceModule(content, language);
+        return {
+          imports: imports.map(imp => imp.module).slice(0, 10),
+          exports: exports.map(exp => exp.name),
+          transitiveDependencies: []
+        };
+      }
+
       const imports: string[] = [];
       
       const importPatterns = [
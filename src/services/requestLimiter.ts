@@ -0,0 +1,121 @@
+// Request Limiter - Bounds in-flight LLM requests per server and retries overloaded ones
+//
+// Chunks and passes are analyzed concurrently; every request to the same
+// server goes through one limiter, so the configured concurrency is the
+// number of requests that server sees at once. Servers that push back with
+// 429 (rate limited) or 503 (overloaded) are retried with exponential backoff.
+
+import chalk from 'chalk';
+
+const RETRYABLE_STATUSES = [429, 503];
+
+export interface RequestLimiterOptions {
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+const DEFAULT_OPTIONS: Required<RequestLimiterOptions> = {
+  maxRetries: 5,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+};
+
+const getStatus = (error: any): number | undefined => error?.response?.status ?? error?.status;
+
+/**
+ * Delay before the next attempt: the server's Retry-After when it sends
+ * one in seconds, else exponential backoff with a little jitter
+ */
+const getRetryDelay = (error: any, attempt: number, options: Required<RequestLimiterOptions>): number => {
+  const retryAfter = Number(error?.response?.headers?.['retry-after']);
+  if (Number.isFinite(retryAfter) && retryAfter >= 0) {
+    return Math.min(retryAfter * 1000, options.maxDelayMs);
+  }
+  const backoff = options.baseDelayMs * 2 ** attempt;
+  return Math.min(backoff + Math.random() * options.baseDelayMs, options.maxDelayMs);
+};
+
+export class RequestLimiter {
+  private limit: number;
+  private options: Required<RequestLimiterOptions>;
+  private active = 0;
+  private waiting: (() => void)[] = [];
+
+  constructor(limit: number, options: RequestLimiterOptions = {}) {
+    this.limit = Math.max(1, limit);
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  setLimit(limit: number): void {
+    this.limit = Math.max(1, limit);
+    this.wakeWaiting();
+  }
+
+  getLimit(): number {
+    return this.limit;
+  }
+
+  /**
+   * Runs the request once a slot is free, retrying it while the server is overloaded
+   */
+  async run<T>(request: () => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      await this.acquire();
+      let failure: unknown;
+      try {
+        return await request();
+      } catch (error) {
+        failure = error;
+      } finally {
+        this.release();
+      }
+
+      const status = getStatus(failure);
+      if (!status || !RETRYABLE_STATUSES.includes(status) || attempt >= this.options.maxRetries) {
+        throw failure;
+      }
+
+      // The slot is free while waiting, so other requests are not held up by this one
+      const delay = getRetryDelay(failure, attempt, this.options);
+      console.log(chalk.yellow(`⏳ LLM server returned ${status}, retrying in ${(delay / 1000).toFixed(1)}s (${attempt + 1}/${this.options.maxRetries})`));
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+
+  private acquire(): Promise<void> {
+    if (this.active < this.limit) {
+      this.active++;
+      return Promise.resolve();
+    }
+    return new Promise(resolve => this.waiting.push(() => {
+      this.active++;
+      resolve();
+    }));
+  }
+
+  private release(): void {
+    this.active--;
+    this.wakeWaiting();
+  }
+
+  private wakeWaiting(): void {
+    while (this.active < this.limit && this.waiting.length > 0) {
+      this.waiting.shift()!();
+    }
+  }
+}
+
+// One limiter per LLM server, shared by every client that talks to it
+const limiters = new Map<string, RequestLimiter>();
+
+export const getRequestLimiter = (server: string, limit: number): RequestLimiter => {
+  let limiter = limiters.get(server);
+  if (!limiter) {
+    limiter = new RequestLimiter(limit);
+    limiters.set(server, limiter);
+  } else if (limiter.getLimit() !== limit) {
+    limiter.setLimit(limit);
+  }
+  return limiter;
+};
@@ -0,0 +1,159 @@
+/**
+ * Review Gate
+ *
+ * Checks the stored results of a review against the CI policies of the
+ * `gate` config section: the highest risk any pass assessed, the synthesis
+ * decision, and the number of pass issues and plugin findings. Every check
+ * must pass for the gate to pass. Findings dismissed during triage do not
+ * count, and a finding reported by overlapping chunks counts once.
+ */
+import { HikmaConfig, ISSUE_SEVERITIES, PLUGIN_SEVERITIES, RISK_LEVELS, isOneOf } from '../config/hikmaConfig';
+import { AnalysisIssue, AnalysisPass, IssueSeverity } from '../types/analysis';
+import { ReviewTriage, collectTriageableFindings, isDismissed } from './findingTriage';
+
+export type GatePolicy = HikmaConfig['gate'];
+
+export interface GateCheck {
+  name: string;            // e.g. risk, decision, issues.high, plugin.security-analyzer
+  passed: boolean;
+  actual: number | string | null;
+  limit: number | string;
+  message: string;
+}
+
+export interface GateResult {
+  passed: boolean;
+  checks: GateCheck[];
+}
+
+export interface GateCounts {
+  risk: AnalysisPass['risk_level'] | null;          // Highest risk level of any pass
+  issues: Record<IssueSeverity, number>;            // Pass issues by severity
+  pluginFindings: Record<string, Record<string, number>>; // By plugin id, then severity
+}
+
+// Shapes match the ChunkAnalysis, AnalysisPass and PluginFinding rows
+export interface GateInput {
+  decision?: string | null;
+  chunks: { chunkId: string; filePath: string; diffContent: string }[];
+  passes: { id: string; chunkId: string; passType: string; riskLevel: string; issuesFound: unknown }[];
+  findings: { id: string; chunkId: string; pluginId: string; severity: string; message: string; filePath: string | null; line: number | null }[];
+  triage?: ReviewTriage;
+}
+
+const atOrAbove = <T extends string>(order: T[], value: T, threshold: T): boolean =>
+  order.indexOf(value) >= order.indexOf(threshold);
+
+/**
+ * Counts what the gate checks: the highest pass risk, and the issues and
+ * findings left after triage
+ */
+export const countReviewOutput = (input: GateInput): GateCounts => {
+  const dismissed = (id: string) => isDismissed(input.triage?.decisions.get(id));
+  const fingerprints = new Map(collectTriageableFindings(input.chunks, input.passes, input.findings)
+    .map(finding => [finding.id, finding.fingerprint]));
+
+  // Overlapping chunks report the same finding twice
+  const seen = new Set<string>();
+  const counted = (id: string): boolean => {
+    if (dismissed(id)) return false;
+    const fingerprint = fingerprints.get(id);
+    if (!fingerprint) return true;
+    if (seen.has(fingerprint)) return false;
+    seen.add(fingerprint);
+    return true;
+  };
+
+  const counts: GateCounts = {
+    risk: null,
+    issues: { info: 0, low: 0, medium: 0, high: 0, critical: 0 },
+    pluginFindings: {},
+  };
+
+  for (const pass of input.passes) {
+    if (isOneOf(RISK_LEVELS, pass.riskLevel) && (!counts.risk || atOrAbove(RISK_LEVELS, pass.riskLevel, counts.risk))) {
+      counts.risk = pass.riskLevel;
+    }
+    if (!Array.isArray(pass.issuesFound)) continue;
+
+    pass.issuesFound.forEach((entry: unknown, index) => {
+      // Reviews stored before passes answered in JSON hold plain strings, which have no severity
+      const issue = (typeof entry === 'object' && entry ? entry : {}) as Partial<AnalysisIssue>;
+      if (!issue.severity || !ISSUE_SEVERITIES.includes(issue.severity) || issue.category === 'analysis_error') return;
+      if (counted(`${pass.id}_${index}`)) counts.issues[issue.severity]++;
+    });
+  }
+
+  for (const finding of input.findings) {
+    if (!counted(finding.id)) continue;
+    const byPlugin = counts.pluginFindings[finding.pluginId] ||= {};
+    byPlugin[finding.severity] = (byPlugin[finding.severity] || 0) + 1;
+  }
+
+  return counts;
+};
+
+/**
+ * Evaluates every policy of the gate; the gate passes when all checks do
+ */
+export const evaluateReviewGate = (policy: GatePolicy, input: GateInput, counts = countReviewOutput(input)): GateResult => {
+  const checks: GateCheck[] = [];
+
+  if (policy.fail_on_risk) {
+    const passed = !counts.risk || !atOrAbove(RISK_LEVELS, counts.risk, policy.fail_on_risk);
+    checks.push({
+      name: 'risk',
+      passed,
+      actual: counts.risk,
+      limit: policy.fail_on_risk,
+      message: passed
+        ? `Highest pass risk ${counts.risk || 'none'} is below ${policy.fail_on_risk}`
+        : `A pass assessed ${counts.risk} risk (fails at ${policy.fail_on_risk} or above)`,
+    });
+  }
+
+  if (policy.fail_on_decision.length > 0) {
+    const decision = input.decision || null;
+    const passed = !decision || !isOneOf(policy.fail_on_decision, decision);
+    checks.push({
+      name: 'decision',
+      passed,
+      actual: decision,
+      limit: policy.fail_on_decision.join(', '),
+      message: passed
+        ? `Decision ${decision || 'none'} is allowed`
+        : `Decision ${decision} fails the gate`,
+    });
+  }
+
+  for (const severity of ISSUE_SEVERITIES) {
+    const max = policy.max_issues[severity];
+    if (max === undefined) continue;
+    const actual = ISSUE_SEVERITIES
+      .filter(candidate => atOrAbove(ISSUE_SEVERITIES, candidate, severity))
+      .reduce((sum, candidate) => sum + counts.issues[candidate], 0);
+    checks.push({
+      name: `issues.${severity}`,
+      passed: actual <= max,
+      actual,
+      limit: max,
+      message: `${actual} issue${actual === 1 ? '' : 's'} of ${severity} severity or above (at most ${max})`,
+    });
+  }
+
+  for (const [pluginId, { severity, max }] of Object.entries(policy.max_plugin_findings)) {
+    const bySeverity = counts.pluginFindings[pluginId] || {};
+    const actual = Object.entries(bySeverity)
+      .filter(([candidate]) => isOneOf(PLUGIN_SEVERITIES, candidate) && atOrAbove(PLUGIN_SEVERITIES, candidate, severity))
+      .reduce((sum, [, count]) => sum + count, 0);
+    checks.push({
+      name: `plugin.${pluginId}`,
+      passed: actual <= max,
+      actual,
+      limit: max,
+      message: `${actual} ${pluginId} finding${actual === 1 ? '' : 's'} of ${severity} severity or above (at most ${max})`,
+    });
+  }
+
+  return { passed: checks.every(check => check.passed), checks };
+};
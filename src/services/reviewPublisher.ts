@@ -0,0 +1,246 @@
+/**
+ * Review Publisher
+ *
+ * Turns the stored results of a review (analysis pass issues and plugin
+ * findings) into a single ReviewSubmission that a code host provider can
+ * post back to the pull request.
+ */
+import crypto from 'crypto';
+import { AnalysisIssue, ReviewState } from '../types/analysis';
+import { ReviewComment, ReviewEvent, ReviewSubmission } from '../types/codeHost';
+import { SUMMARY_MARKER, findingMarker } from '../codeHosts/reviewMarkers';
+import { ParsedDiffLine, parseUnifiedDiff } from './diffParser';
+
+// Keeps the summary well below the code hosts' comment size limits
+const MAX_SUMMARY_ITEMS = 50;
+
+const PASS_LABELS: Record<string, string> = {
+  syntax_logic: 'Syntax & Logic',
+  security_performance: 'Security & Performance',
+  architecture_design: 'Architecture & Design',
+  testing_docs: 'Testing & Docs',
+};
+
+/**
+ * Display name of a pass; configured passes are named after their id ("i18n_strings" becomes "I18n Strings")
+ */
+export const passLabel = (passType: string): string =>
+  PASS_LABELS[passType] || passType.replace(/[_-]+/g, ' ').replace(/\b\w/g, letter => letter.toUpperCase());
+
+const RISK_ORDER = ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'];
+
+const SEVERITY_ICONS: Record<string, string> = {
+  error: '🚨',
+  warning: '⚠️',
+  info: 'ℹ️',
+};
+
+const DECISION_ICONS: Record<string, string> = {
+  APPROVE: '✅',
+  REQUEST_CHANGES: '⚠️',
+  REJECT: '❌',
+};
+
+// Shapes match the ChunkAnalysis, AnalysisPass and PluginFinding rows
+export interface PublishableChunk {
+  chunkId: string;
+  filePath: string;
+  diffContent: string;
+  expandedLines?: unknown;  // Head lines the diff text shows as context that are not in the PR's diff
+}
+
+export interface PublishablePass {
+  chunkId: string;
+  passType: string;
+  riskLevel: string;
+  issuesFound: unknown;
+}
+
+export interface PublishableFinding {
+  chunkId: string;
+  pluginId: string;
+  pluginName: string;
+  message: string;
+  severity: string;
+  filePath: string | null;
+  line: number | null;  // New-file line; a line of the chunk's diff text when filePath is null
+}
+
+export interface PublishInput {
+  synthesis?: ReviewState['synthesis_data'];
+  headSha?: string;
+  chunks: PublishableChunk[];
+  passes: PublishablePass[];
+  findings: PublishableFinding[];
+}
+
+/**
+ * Maps the synthesis decision to a code host review event. REJECT has no
+ * equivalent on code hosts, so it requests changes as well.
+ */
+export const reviewEventFromDecision = (decision?: string): ReviewEvent => {
+  switch (decision) {
+    case 'APPROVE':
+      return 'APPROVE';
+    case 'REQUEST_CHANGES':
+    case 'REJECT':
+      return 'REQUEST_CHANGES';
+    default:
+      return 'COMMENT';
+  }
+};
+
+/**
+ * Identifies a finding independently of the review run, so publishing a
+ * later review of the same PR finds and updates the earlier comment.
+ */
+export const fingerprintFinding = (parts: string[]): string => {
+  return crypto.createHash('sha1').update(parts.join('\u0000')).digest('hex').slice(0, 16);
+};
+
+const formatCommentBody = (finding: PublishableFinding, fingerprint: string): string => {
+  const icon = SEVERITY_ICONS[finding.severity] || 'ℹ️';
+  const severity = finding.severity.charAt(0).toUpperCase() + finding.severity.slice(1);
+  return `${icon} **${severity}** · ${finding.pluginName}\n\n${finding.message}\n\n${findingMarker(fingerprint)}`;
+};
+
+/**
+ * Formats one stored pass issue. Reviews stored before passes answered in
+ * JSON hold plain strings instead of AnalysisIssue objects.
+ */
+const formatPassIssue = (issue: unknown): string | undefined => {
+  if (typeof issue === 'string') return issue;
+  if (!issue || typeof issue !== 'object') return undefined;
+
+  const { severity, title, line_start, suggested_fix } = issue as Partial<AnalysisIssue>;
+  if (!title) return undefined;
+
+  let text = severity ? `_${severity}_ ${title}` : title;
+  if (line_start) text += ` (line ${line_start})`;
+  if (suggested_fix) text += ` — ${suggested_fix}`;
+  return text;
+};
+
+const limitItems = (items: string[]): string[] => {
+  if (items.length <= MAX_SUMMARY_ITEMS) return items;
+  return [...items.slice(0, MAX_SUMMARY_ITEMS), `- _…and ${items.length - MAX_SUMMARY_ITEMS} more_`];
+};
+
+/**
+ * Builds the review: plugin findings on changed lines become inline
+ * comments, everything else is listed in the summary body.
+ */
+export const buildReviewSubmission = (input: PublishInput): ReviewSubmission => {
+  const chunksById = new Map(input.chunks.map(chunk => [chunk.chunkId, chunk]));
+  const parsedDiffs = new Map<string, ParsedDiffLine[]>();
+  const parseChunk = (chunk: PublishableChunk): ParsedDiffLine[] => {
+    if (!parsedDiffs.has(chunk.chunkId)) {
+      parsedDiffs.set(chunk.chunkId, parseUnifiedDiff(chunk.diffContent));
+    }
+    return parsedDiffs.get(chunk.chunkId)!;
+  };
+
+  // Head-version lines of each file that appear in the PR's diff, across all of its chunks
+  const fileLines = new Map<string, Map<number, ParsedDiffLine>>();
+  for (const chunk of input.chunks) {
+    const lines = fileLines.get(chunk.filePath) || new Map<number, ParsedDiffLine>();
+    const expanded = new Set(Array.isArray(chunk.expandedLines) ? chunk.expandedLines : []);
+    for (const line of parseChunk(chunk)) {
+      if (line.newLine !== undefined && !expanded.has(line.newLine)) lines.set(line.newLine, line);
+    }
+    fileLines.set(chunk.filePath, lines);
+  }
+
+  const comments: ReviewComment[] = [];
+  const seen = new Set<string>();
+  const unanchored: string[] = [];
+
+  for (const finding of input.findings) {
+    const chunk = chunksById.get(finding.chunkId);
+    if (!chunk) continue;
+
+    const filePath = finding.filePath || chunk.filePath;
+    let diffLine: ParsedDiffLine | undefined;
+    if (finding.line && finding.filePath) {
+      diffLine = fileLines.get(filePath)?.get(finding.line);
+    } else if (finding.line) {
+      // Findings stored without a file path predate real line numbers and count lines of the chunk's diff text
+      diffLine = parseChunk(chunk)[finding.line - 1];
+    }
+
+    if (!diffLine || diffLine.newLine === undefined) {
+      const icon = SEVERITY_ICONS[finding.severity] || 'ℹ️';
+      const location = finding.line && finding.filePath ? `${filePath}:${finding.line}` : filePath;
+      unanchored.push(`- ${icon} \`${location}\` — **${finding.pluginName}:** ${finding.message}`);
+      continue;
+    }
+
+    const fingerprint = fingerprintFinding([finding.pluginId, filePath, finding.message, diffLine.content.trim()]);
+    if (seen.has(fingerprint)) continue; // Overlapping chunks report the same line twice
+    seen.add(fingerprint);
+
+    comments.push({
+      fingerprint,
+      path: filePath,
+      line: diffLine.newLine,
+      oldLine: diffLine.type === 'context' ? diffLine.oldLine : undefined,
+      body: formatCommentBody(finding, fingerprint),
+    });
+  }
+
+  // Group LLM pass issues by file, keeping the highest risk level seen
+  const issuesByFile = new Map<string, { risk: string; issues: string[] }>();
+  for (const pass of input.passes) {
+    const chunk = chunksById.get(pass.chunkId);
+    if (!chunk) continue;
+
+    const entry = issuesByFile.get(chunk.filePath) || { risk: 'LOW', issues: [] };
+    if (RISK_ORDER.indexOf(pass.riskLevel) > RISK_ORDER.indexOf(entry.risk)) {
+      entry.risk = pass.riskLevel;
+    }
+
+    const issues = Array.isArray(pass.issuesFound) ? pass.issuesFound.map(formatPassIssue).filter(Boolean) : [];
+    for (const issue of issues) {
+      const item = `- **${passLabel(pass.passType)}:** ${issue}`;
+      if (!entry.issues.includes(item)) entry.issues.push(item);
+    }
+    issuesByFile.set(chunk.filePath, entry);
+  }
+
+  const passIssueCount = [...issuesByFile.values()].reduce((sum, entry) => sum + entry.issues.length, 0);
+  const synthesis = input.synthesis;
+
+  let body = `## 🔬 Hikma PR Review\n\n`;
+  if (synthesis) {
+    body += `**Decision:** ${DECISION_ICONS[synthesis.decision] || ''} ${synthesis.decision} — ${synthesis.reasoning}\n\n`;
+    body += `${synthesis.overall_assessment}\n\n`;
+  }
+  body += `**Findings:** ${comments.length} inline comment${comments.length === 1 ? '' : 's'}`;
+  body += ` · ${passIssueCount} analysis issue${passIssueCount === 1 ? '' : 's'}`;
+  body += ` · ${unanchored.length} other finding${unanchored.length === 1 ? '' : 's'}\n\n`;
+
+  const fileSections = [...issuesByFile.entries()]
+    .filter(([, entry]) => entry.issues.length > 0)
+    .sort(([, a], [, b]) => RISK_ORDER.indexOf(b.risk) - RISK_ORDER.indexOf(a.risk));
+
+  if (fileSections.length > 0) {
+    body += `### 📋 Issues by File\n\n`;
+    for (const [filePath, entry] of fileSections) {
+      body += `<details><summary><code>${filePath}</code> (${entry.risk})</summary>\n\n`;
+      body += `${limitItems(entry.issues).join('\n')}\n\n</details>\n\n`;
+    }
+  }
+
+  if (unanchored.length > 0) {
+    body += `### 🔌 Findings Outside the Diff\n\n${limitItems(unanchored).join('\n')}\n\n`;
+  }
+
+  body += SUMMARY_MARKER;
+
+  return {
+    body,
+    event: reviewEventFromDecision(synthesis?.decision),
+    comments,
+    commitSha: input.headSha,
+  };
+};
@@ -0,0 +1,174 @@
+/**
+ * SARIF Exporter
+ *
+ * Turns the stored results of a review (plugin findings and typed pass
+ * issues) into a SARIF 2.1.0 log for code-scanning dashboards. Each plugin
+ * and each analysis pass is a rule; findings dismissed during triage are
+ * kept as suppressed results.
+ */
+import { AnalysisIssue } from '../types/analysis';
+import { DiffLine } from '../types/plugins';
+import { SarifLevel, SarifLocation, SarifLog, SarifResult, SarifRule } from '../types/sarif';
+import { codeBetween, diffIndexToFileLine, toDiffLines } from './diffParser';
+import { ReviewTriage, collectTriageableFindings, isDismissed } from './findingTriage';
+import { passLabel } from './reviewPublisher';
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+const INFORMATION_URI = 'https://github.com/foyzulkarim/hikma-pr';
+
+// Paths of findings are relative to the root of the reviewed repository
+const SOURCE_ROOT = '%SRCROOT%';
+
+const PLUGIN_LEVELS: Record<string, SarifLevel> = {
+  error: 'error',
+  warning: 'warning',
+  info: 'note',
+};
+
+const ISSUE_LEVELS: Record<string, SarifLevel> = {
+  critical: 'error',
+  high: 'error',
+  medium: 'warning',
+  low: 'note',
+  info: 'note',
+};
+
+// Shapes match the Review, ChunkAnalysis, AnalysisPass and PluginFinding rows
+export interface SarifExportInput {
+  review: {
+    id: string;
+    prUrl: string;
+    modelProvider: string | null;
+    modelName: string | null;
+    headSha: string | null;
+    startedAt: Date | null;
+    completedAt: Date | null;
+  };
+  chunks: { chunkId: string; filePath: string; diffContent: string }[];
+  passes: { id: string; chunkId: string; passType: string; issuesFound: unknown }[];
+  findings: {
+    id: string;
+    chunkId: string;
+    pluginId: string;
+    pluginName: string;
+    message: string;
+    severity: string;
+    filePath: string | null;
+    line: number | null;
+  }[];
+  triage?: ReviewTriage;
+}
+
+/**
+ * Builds a single-run SARIF log of a review
+ */
+export const buildSarifLog = (input: SarifExportInput): SarifLog => {
+  const chunksById = new Map(input.chunks.map(chunk => [chunk.chunkId, chunk]));
+  const fingerprints = new Map(collectTriageableFindings(input.chunks, input.passes, input.findings)
+    .map(finding => [finding.id, finding.fingerprint]));
+
+  const rules: SarifRule[] = [];
+  const ruleIndex = (id: string, name: string, description: string): number => {
+    const index = rules.findIndex(rule => rule.id === id);
+    if (index >= 0) return index;
+    rules.push({ id, name, shortDescription: { text: description } });
+    return rules.length - 1;
+  };
+
+  const results: SarifResult[] = [];
+  const seen = new Set<string>();
+  const addResult = (result: Omit<SarifResult, 'partialFingerprints' | 'suppressions'>, findingId: string) => {
+    const fingerprint = fingerprints.get(findingId);
+    if (fingerprint) {
+      if (seen.has(fingerprint)) return; // Overlapping chunks report the same finding twice
+      seen.add(fingerprint);
+    }
+
+    const decision = input.triage?.decisions.get(findingId);
+    results.push({
+      ...result,
+      ...(fingerprint ? { partialFingerprints: { 'hikmaFinding/v1': fingerprint } } : {}),
+      ...(isDismissed(decision)
+        ? { suppressions: [{ kind: 'external' as const, status: 'accepted' as const, justification: decision!.note || decision!.status }] }
+        : {}),
+      properties: { ...result.properties, ...(decision ? { triageStatus: decision.status } : {}) },
+    });
+  };
+
+  // Findings without lines point at the whole file
+  const location = (filePath: string, lines: DiffLine[], start?: number, end?: number): SarifLocation => {
+    const artifactLocation = { uri: filePath, uriBaseId: SOURCE_ROOT };
+    if (!start) return { physicalLocation: { artifactLocation } };
+
+    const region: NonNullable<SarifLocation['physicalLocation']['region']> = { startLine: start };
+    if (end && end > start) region.endLine = end;
+    const snippet = codeBetween(lines, start, end ?? start);
+    if (snippet) region.snippet = { text: snippet };
+    return { physicalLocation: { artifactLocation, region } };
+  };
+
+  for (const finding of input.findings) {
+    const chunk = chunksById.get(finding.chunkId);
+    if (!chunk) continue;
+
+    // Findings stored without a file path count lines of the chunk's diff text
+    const line = finding.line && !finding.filePath ? diffIndexToFileLine(chunk.diffContent, finding.line) : finding.line ?? undefined;
+    addResult({
+      ruleId: finding.pluginId,
+      ruleIndex: ruleIndex(finding.pluginId, finding.pluginName, `Findings of the ${finding.pluginName} plugin`),
+      level: PLUGIN_LEVELS[finding.severity] || 'note',
+      message: { text: finding.message },
+      locations: [location(finding.filePath || chunk.filePath, toDiffLines(chunk.diffContent), line)],
+      properties: { source: 'plugin', severity: finding.severity },
+    }, finding.id);
+  }
+
+  for (const pass of input.passes) {
+    const chunk = chunksById.get(pass.chunkId);
+    if (!chunk || !Array.isArray(pass.issuesFound)) continue;
+
+    const lines = toDiffLines(chunk.diffContent);
+    const label = passLabel(pass.passType);
+    pass.issuesFound.forEach((entry: unknown, index) => {
+      // Reviews stored before passes answered in JSON hold plain strings
+      const issue: Partial<AnalysisIssue> = typeof entry === 'string' ? { title: entry } : (entry || {}) as Partial<AnalysisIssue>;
+      if (!issue.title || issue.category === 'analysis_error') return;
+
+      const text = issue.suggested_fix ? `${issue.title}\n\nSuggested fix: ${issue.suggested_fix}` : issue.title;
+      addResult({
+        ruleId: pass.passType,
+        ruleIndex: ruleIndex(pass.passType, label, `${label} analysis pass`),
+        level: ISSUE_LEVELS[issue.severity || ''] || 'note',
+        message: { text },
+        locations: [location(issue.file_path || chunk.filePath, lines, issue.line_start, issue.line_end)],
+        properties: { source: 'analysis', ...(issue.severity ? { severity: issue.severity } : {}), ...(issue.category ? { category: issue.category } : {}) },
+      }, `${pass.id}_${index}`);
+    });
+  }
+
+  const { review } = input;
+  return {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: 'hikma-pr',
+          informationUri: INFORMATION_URI,
+          rules,
+        },
+      },
+      originalUriBaseIds: { [SOURCE_ROOT]: { description: { text: 'Root of the reviewed repository' } } },
+      results,
+      properties: {
+        reviewId: review.id,
+        prUrl: review.prUrl,
+        model: review.modelName,
+        provider: review.modelProvider,
+        headSha: review.headSha,
+        startedAt: review.startedAt?.toISOString() ?? null,
+        completedAt: review.completedAt?.toISOString() ?? null,
+      },
+    }],
+  };
+};
@@ -0,0 +1,57 @@
+// Source Extractor - Picks the extractor for a file by its extension
+//
+// Scripts go to the JS/TS extractor; Python, Java and Go go to tree-sitter.
+
+import * as path from 'path';
+import { extractJsModule, ScriptLanguage } from './jsAstExtractor';
+import { extractTreeSitterModule, TreeSitterLanguage } from './treeSitterExtractor';
+import { OutlineSymbol, SourceModule } from './sourceModule';
+
+export type SourceLanguage = ScriptLanguage | TreeSitterLanguage;
+
+const SOURCE_LANGUAGES: Record<string, SourceLanguage> = {
+  '.js': 'javascript',
+  '.mjs': 'javascript',
+  '.cjs': 'javascript',
+  '.jsx': 'jsx',
+  '.ts': 'typescript',
+  '.mts': 'typescript',
+  '.cts': 'typescript',
+  '.tsx': 'tsx',
+  '.py': 'python',
+  '.pyi': 'python',
+  '.java': 'java',
+  '.go': 'go',
+};
+
+const SCRIPT_LANGUAGES = new Set<SourceLanguage>(['javascript', 'jsx', 'typescript', 'tsx']);
+
+export const sourceLanguageOf = (filePath: string): SourceLanguage | undefined =>
+  SOURCE_LANGUAGES[path.extname(filePath).toLowerCase()];
+
+/**
+ * Extracts the declarations, imports, exports, calls and data flows of a source file
+ */
+export const extractSourceModule = async (content: string, language: SourceLanguage): Promise<SourceModule> =>
+  SCRIPT_LANGUAGES.has(language)
+    ? extractJsModule(content, language as ScriptLanguage)
+    : extractTreeSitterModule(content, language as TreeSitterLanguage);
+
+/**
+ * Functions, methods, classes and types of a source file, outer declarations
+ * first; undefined when the language is not supported or the file does not parse
+ */
+export const outlineSource = async (filePath: string, content: string): Promise<OutlineSymbol[] | undefined> => {
+  const language = sourceLanguageOf(filePath);
+  if (!language) return undefined;
+
+  try {
+    const { functions, types } = await extractSourceModule(content, language);
+    return [
+      ...functions.map(({ name, kind, signature, startLine, endLine }) => ({ name, kind, signature, startLine, endLine })),
+      ...types.map(({ name, type, signature, startLine, endLine }) => ({ name, kind: type, signature, startLine, endLine })),
+    ].sort((a, b) => a.startLine - b.startLine || b.endLine - a.endLine);
+  } catch {
+    return undefined;
+  }
+};
@@ -0,0 +1,80 @@
+// Source Module - What the extractors read from a source file, in any language
+//
+// The JS/TS extractor and the tree-sitter extractor both return a SourceModule:
+// declarations with their spans, imports, exports, call sites and data flows.
+// Names and types are the source text, so they come out as written in the file.
+
+import { Parameter, Property } from '../types/analysis';
+
+export interface SourceSpan {
+  startLine: number;
+  endLine: number;
+}
+
+export interface ExtractedFunction extends SourceSpan {
+  name: string;                 // Methods are qualified by their class: Class.method
+  kind: 'function' | 'arrow' | 'method';
+  parameters: Parameter[];
+  returnType: string;           // 'unknown' when not annotated
+  signature: string;            // Declaration up to its body: async save(user: User): Promise<void>
+  isAsync: boolean;
+  isStatic: boolean;
+  visibility: 'public' | 'private' | 'protected';
+}
+
+export interface ExtractedType extends SourceSpan {
+  name: string;
+  type: 'interface' | 'class' | 'enum' | 'type';
+  properties: Property[];
+  extends: string[];            // Base class, implemented and extended interfaces
+  signature: string;            // Declaration up to its body: class UserService extends Base
+}
+
+export interface ExtractedImport {
+  module: string;
+  imports: string[];            // Imported names; the local name of default and namespace imports
+  isDefault: boolean;
+  lineNumber: number;
+}
+
+export interface ExtractedExport {
+  name: string;
+  type: 'default' | 'named';
+  lineNumber: number;
+}
+
+export interface ExtractedCall {
+  caller: string;               // Enclosing named function, or <module>
+  callee: string;               // Callee as written: save, this.repo.save, new Parser
+  lineNumber: number;
+}
+
+export interface ExtractedDataFlow {
+  source: string;
+  target: string;
+  type: 'assignment' | 'parameter' | 'return';
+  lineNumber: number;
+}
+
+export interface SourceModule {
+  functions: ExtractedFunction[];
+  types: ExtractedType[];
+  imports: ExtractedImport[];
+  exports: ExtractedExport[];
+  calls: ExtractedCall[];
+  dataFlows: ExtractedDataFlow[];
+}
+
+/**
+ * A declaration of a source file, as found in the outline of the file
+ */
+export interface OutlineSymbol extends SourceSpan {
+  name: string;
+  kind: ExtractedFunction['kind'] | ExtractedType['type'];
+  signature: string;
+}
+
+export const MODULE_SCOPE = '<module>';
+
+export const emptySourceModule = (): SourceModule =>
+  ({ functions: [], types: [], imports: [], exports: [], calls: [], dataFlows: [] });
@@ -0,0 +1,217 @@
+// Suppression Store - Patterns learned from findings triaged as false positives
+//
+// Each false positive becomes a suppression keyed by the rule that raised it,
+// a pattern of its message, a glob of the files it applies to and a
+// fingerprint of the code it pointed at. Findings of later reviews of the
+// repository that match one are dropped before they are stored, and the
+// dismissed examples are shown to the model as known non-issues.
+
+import crypto from 'crypto';
+import { PrismaClient } from '@prisma/client';
+import { normalizeCode } from './diffParser';
+import { TriageableFinding } from './findingTriage';
+import { matchesPatterns } from './ignoreRules';
+import chalk from 'chalk';
+
+// Known non-issues added to one analysis prompt
+const MAX_PROMPT_EXAMPLES = 5;
+
+export interface Suppression {
+  id: string;
+  rule: string;
+  messagePattern: string;
+  fileGlob: string;
+  codeFingerprint: string | null;
+  example: string;
+  reason: string | null;
+  reviewId: string;
+}
+
+/**
+ * A finding about to be reported; code is the raw code it points at, if any
+ */
+export interface SuppressionCandidate {
+  rule: string;
+  message: string;
+  filePath: string;
+  code?: string;
+}
+
+export interface SuppressedFinding extends SuppressionCandidate {
+  suppressionId: string;
+  reason: string; // Why it was suppressed, for the report
+}
+
+export interface SuppressionSessionStats {
+  suppressed: number;
+  bySuppression: { rule: string; fileGlob: string; reason: string; count: number }[];
+}
+
+/**
+ * Hash of the normalized code; null when there is no code to recognise a finding by
+ */
+export const fingerprintCode = (code?: string): string | null => {
+  const normalized = normalizeCode(code || '');
+  return normalized ? crypto.createHash('sha256').update(normalized).digest('hex') : null;
+};
+
+/**
+ * Regular expression of a message that also matches its variants: numbers
+ * and quoted names may differ, whitespace is ignored
+ */
+export const toMessagePattern = (message: string): string => {
+  const parts = message.trim().split(/(\d+|'[^']*'|"[^"]*"|`[^`]*`|\s+)/);
+  const pattern = parts.filter(Boolean).map(part => {
+    if (/^\s+$/.test(part)) return '\\s+';
+    if (/^\d+$/.test(part)) return '\\d+';
+    if (/^(['"`]).*\1$/.test(part)) return `${part[0]}[^${part[0]}]*${part[0]}`;
+    return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  });
+  return `^${pattern.join('')}$`;
+};
+
+const describeExample = (finding: TriageableFinding): string =>
+  finding.code ? `${finding.title} — on: ${finding.code.split('\n')[0].slice(0, 120)}` : finding.title;
+
+/**
+ * Learns a suppression from a finding triaged as a false positive, or forgets
+ * the one learned from it when it is triaged any other way
+ */
+export const updateSuppression = async (
+  prisma: PrismaClient,
+  params: {
+    reviewId: string;
+    repository: string;
+    finding: TriageableFinding;
+    falsePositive: boolean;
+    reason?: string;
+    fileGlob?: string;
+  }
+): Promise<void> => {
+  const { reviewId, repository, finding } = params;
+  if (!params.falsePositive) {
+    await prisma.findingSuppression.deleteMany({ where: { reviewId, findingId: finding.id } });
+    return;
+  }
+
+  const data = {
+    repository,
+    rule: finding.rule,
+    messagePattern: toMessagePattern(finding.title),
+    // A file at the root is anchored, since a glob without a slash matches at any depth
+    fileGlob: params.fileGlob || (finding.filePath.includes('/') ? finding.filePath : `/${finding.filePath}`),
+    codeFingerprint: fingerprintCode(finding.code),
+    example: describeExample(finding),
+    reason: params.reason ?? null,
+  };
+  await prisma.findingSuppression.upsert({
+    where: { reviewId_findingId: { reviewId, findingId: finding.id } },
+    create: { reviewId, findingId: finding.id, ...data },
+    update: data,
+  });
+};
+
+export class SuppressionStore {
+  private suppressions: Suppression[];
+  private prisma?: PrismaClient;
+  private suppressed: SuppressedFinding[] = [];
+
+  constructor(suppressions: Suppression[], prisma?: PrismaClient) {
+    this.suppressions = suppressions;
+    this.prisma = prisma;
+  }
+
+  /**
+   * Suppressions learned in a repository; an unreadable store suppresses nothing
+   */
+  static async load(prisma: PrismaClient, repository: string): Promise<SuppressionStore> {
+    try {
+      const rows = await prisma.findingSuppression.findMany({ where: { repository }, orderBy: { createdAt: 'desc' } });
+      if (rows.length > 0) {
+        console.log(chalk.blue(`🔇 Loaded ${chalk.yellow(rows.length)} suppression${rows.length === 1 ? '' : 's'} learned from false positives`));
+      }
+      return new SuppressionStore(rows, prisma);
+    } catch (error) {
+      console.log(chalk.yellow(`⚠️  Could not load learned suppressions: ${(error as Error).message}`));
+      return new SuppressionStore([], prisma);
+    }
+  }
+
+  get size(): number {
+    return this.suppressions.length;
+  }
+
+  /**
+   * The suppression a finding matches and why: the same rule in a matching
+   * file, on the same code or with a message matching the dismissed one
+   */
+  match(candidate: SuppressionCandidate): { suppression: Suppression; reason: string } | undefined {
+    const fingerprint = fingerprintCode(candidate.code);
+    for (const suppression of this.suppressions) {
+      if (suppression.rule !== candidate.rule || !matchesPatterns([suppression.fileGlob], candidate.filePath)) continue;
+
+      const note = suppression.reason ? `: ${suppression.reason}` : '';
+      if (fingerprint && fingerprint === suppression.codeFingerprint) {
+        return { suppression, reason: `same code as a false positive${note}` };
+      }
+      if (new RegExp(suppression.messagePattern, 'i').test(candidate.message.trim())) {
+        return { suppression, reason: `same message as a false positive${note}` };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Drops the items that match a suppression; counts towards the stats of this run
+   */
+  async filter<T>(items: T[], toCandidate: (item: T) => SuppressionCandidate): Promise<T[]> {
+    if (this.suppressions.length === 0) return items;
+
+    const kept: T[] = [];
+    const hits: string[] = [];
+    for (const item of items) {
+      const candidate = toCandidate(item);
+      const matched = this.match(candidate);
+      if (!matched) {
+        kept.push(item);
+        continue;
+      }
+      this.suppressed.push({ ...candidate, suppressionId: matched.suppression.id, reason: matched.reason });
+      hits.push(matched.suppression.id);
+    }
+
+    if (hits.length > 0 && this.prisma) {
+      await Promise.all(hits.map(id => this.prisma!.findingSuppression.update({
+        where: { id },
+        data: { hits: { increment: 1 }, lastHitAt: new Date() }
+      }).catch(() => undefined))); // Hit counters are informational only
+    }
+    return kept;
+  }
+
+  /**
+   * Dismissed examples of the given rules for a file, for analysis prompts
+   */
+  getKnownNonIssues(filePath: string, rulePrefix: string): string[] {
+    const examples = this.suppressions
+      .filter(suppression => suppression.rule.startsWith(rulePrefix) && matchesPatterns([suppression.fileGlob], filePath))
+      .map(suppression => suppression.reason ? `${suppression.example} (${suppression.reason})` : suppression.example);
+    return [...new Set(examples)].slice(0, MAX_PROMPT_EXAMPLES);
+  }
+
+  getSessionStats(): SuppressionSessionStats {
+    const bySuppression = new Map<string, SuppressionSessionStats['bySuppression'][number]>();
+    for (const finding of this.suppressed) {
+      const suppression = this.suppressions.find(candidate => candidate.id === finding.suppressionId)!;
+      const key = `${finding.suppressionId}\u0000${finding.reason}`;
+      const entry = bySuppression.get(key)
+        || { rule: suppression.rule, fileGlob: suppression.fileGlob, reason: finding.reason, count: 0 };
+      entry.count++;
+      bySuppression.set(key, entry);
+    }
+    return {
+      suppressed: this.suppressed.length,
+      bySuppression: [...bySuppression.values()].sort((a, b) => b.count - a.count),
+    };
+  }
+}
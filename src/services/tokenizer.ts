@@ -0,0 +1,90 @@
+// Tokenizer - Counts prompt tokens the way the model reading them does
+//
+// OpenAI models are counted exactly with their BPE encoding. Local model
+// families (llama, qwen, mistral, ...) ship their own BPE or sentencepiece
+// vocabularies; their counts are estimated from cl100k_base, scaled by how many
+// more tokens the family needs for the same code, and rounded up.
+
+import { getEncoding, Tiktoken, TiktokenEncoding } from 'js-tiktoken';
+
+export interface Tokenizer {
+  name: string;     // Encoding, and the family it is scaled for when estimated
+  exact: boolean;   // False when counts are estimated from another vocabulary
+  count(text: string): number;
+  /**
+   * The longest prefix of whole lines within maxTokens; a single line longer
+   * than that is cut
+   */
+  truncate(text: string, maxTokens: number): string;
+}
+
+interface TokenizerFamily {
+  family: string;
+  pattern: RegExp;  // Matched against the lower-case model name without its namespace
+  encoding: TiktokenEncoding;
+  scale: number;    // Tokens of the family per token of the encoding, measured on code
+}
+
+const FAMILIES: TokenizerFamily[] = [
+  { family: 'gpt-4o', pattern: /^(gpt-4o|gpt-4\.1|gpt-5|o[134](-|$))/, encoding: 'o200k_base', scale: 1 },
+  { family: 'gpt-4', pattern: /^(gpt-4|gpt-3\.5|text-embedding)/, encoding: 'cl100k_base', scale: 1 },
+  // Large BPE vocabularies close to cl100k_base
+  { family: 'llama3', pattern: /llama-?3/, encoding: 'cl100k_base', scale: 1.05 },
+  { family: 'qwen', pattern: /qwen/, encoding: 'cl100k_base', scale: 1.05 },
+  { family: 'deepseek', pattern: /deepseek-(v[23]|r1|coder-v2)/, encoding: 'cl100k_base', scale: 1.1 },
+  { family: 'gemma', pattern: /gemma/, encoding: 'cl100k_base', scale: 1.15 },
+  // 32k sentencepiece and BPE vocabularies split code into many more pieces
+  { family: 'llama2', pattern: /codellama|code-llama|llama-?2|mistral|mixtral|codestral|phi-?3|deepseek-coder|starcoder/, encoding: 'cl100k_base', scale: 1.35 },
+];
+
+// Models of unknown families are estimated on the safe side
+const UNKNOWN_FAMILY: TokenizerFamily = { family: 'unknown', pattern: /$^/, encoding: 'cl100k_base', scale: 1.25 };
+
+const encodings = new Map<TiktokenEncoding, Tiktoken>();
+const tokenizers = new Map<string, Tokenizer>();
+
+const loadEncoding = (name: TiktokenEncoding): Tiktoken => {
+  let encoding = encodings.get(name);
+  if (!encoding) {
+    encoding = getEncoding(name);
+    encodings.set(name, encoding);
+  }
+  return encoding;
+};
+
+const createTokenizer = ({ family, encoding: encodingName, scale }: TokenizerFamily): Tokenizer => {
+  const encoding = loadEncoding(encodingName);
+  const exact = scale === 1;
+  // Diffs may contain special-token text like <|endoftext|>; it counts as plain text
+  const encode = (text: string) => encoding.encode(text, [], []);
+
+  return {
+    name: exact ? encodingName : `${encodingName} x${scale} (${family})`,
+    exact,
+    count: text => Math.ceil(encode(text).length * scale),
+    truncate: (text, maxTokens) => {
+      const tokens = encode(text);
+      const limit = Math.max(0, Math.floor(maxTokens / scale));
+      if (tokens.length <= limit) return text;
+
+      const prefix = encoding.decode(tokens.slice(0, limit));
+      const lineEnd = prefix.lastIndexOf('\n');
+      return lineEnd > 0 ? prefix.slice(0, lineEnd) : prefix;
+    },
+  };
+};
+
+/**
+ * Tokenizer of a model, e.g. `gpt-4o-mini`, `qwen2.5-coder:14b` or `mistralai/codestral-22b`
+ */
+export const getTokenizer = (model: string): Tokenizer => {
+  const name = model.toLowerCase().split('/').pop() || '';
+  const family = FAMILIES.find(candidate => candidate.pattern.test(name)) || UNKNOWN_FAMILY;
+
+  let tokenizer = tokenizers.get(family.family);
+  if (!tokenizer) {
+    tokenizer = createTokenizer(family);
+    tokenizers.set(family.family, tokenizer);
+  }
+  return tokenizer;
+};
@@ -0,0 +1,773 @@
+// Tree-sitter Extractor - Declarations, imports, calls and data flow of a Python, Java or Go file
+//
+// Files are parsed with the tree-sitter WASM grammars of @vscode/tree-sitter-wasm,
+// which run in-process and need no network or native build. Each language has
+// its own walker over the syntax tree; all of them fill the same SourceModule
+// as the JS/TS extractor, so chunking and analysis treat the languages alike.
+
+import * as path from 'path';
+import { Language, Node, Parser } from '@vscode/tree-sitter-wasm';
+import { Parameter, Property } from '../types/analysis';
+import {
+  emptySourceModule,
+  ExtractedDataFlow,
+  ExtractedExport,
+  ExtractedFunction,
+  ExtractedType,
+  MODULE_SCOPE,
+  SourceModule,
+  SourceSpan,
+} from './sourceModule';
+
+export type TreeSitterLanguage = 'python' | 'java' | 'go';
+
+const GRAMMAR_DIR = path.dirname(require.resolve('@vscode/tree-sitter-wasm'));
+
+let runtime: Promise<void> | undefined;
+const parsers = new Map<TreeSitterLanguage, Promise<Parser>>();
+
+/**
+ * Parser of a language; the runtime and each grammar are loaded once, on first use
+ */
+const loadParser = (language: TreeSitterLanguage): Promise<Parser> => {
+  let parser = parsers.get(language);
+  if (!parser) {
+    runtime ??= Parser.init({ locateFile: file => path.join(GRAMMAR_DIR, file) });
+    parser = runtime
+      .then(() => Language.load(path.join(GRAMMAR_DIR, `tree-sitter-${language}.wasm`)))
+      .then(grammar => {
+        const instance = new Parser();
+        instance.setLanguage(grammar);
+        return instance;
+      });
+    // A grammar that fails to load is retried on the next file
+    parser.catch(() => parsers.delete(language));
+    parsers.set(language, parser);
+  }
+  return parser;
+};
+
+const children = (node: Node | null | undefined): Node[] =>
+  node ? node.namedChildren.filter((child): child is Node => !!child) : [];
+
+const field = (node: Node, name: string): Node | undefined => node.childForFieldName(name) ?? undefined;
+
+const fields = (node: Node, name: string): Node[] =>
+  node.childrenForFieldName(name).filter((child): child is Node => !!child && child.isNamed);
+
+const hasToken = (node: Node, token: string): boolean =>
+  node.children.some(child => child?.type === token);
+
+/**
+ * What the walkers share: spans, signatures, and the module they fill
+ */
+abstract class TreeExtractor {
+  protected module = emptySourceModule();
+
+  constructor(private content: string) {}
+
+  run(root: Node): SourceModule {
+    this.visit(root, MODULE_SCOPE, undefined);
+    return this.module;
+  }
+
+  /**
+   * Visits a node written in the function `scope` and, for declarations, the type `owner`
+   */
+  protected abstract visit(node: Node, scope: string, owner: string | undefined): void;
+
+  // A node read as one value: a variable, or a member of this or self
+  protected abstract isReference(node: Node): boolean;
+  protected abstract isNestedFunction(node: Node): boolean;
+
+  protected visitChildren(node: Node, scope: string, owner: string | undefined): void {
+    for (const child of children(node)) this.visit(child, scope, owner);
+  }
+
+  protected line(node: Node): number {
+    return node.startPosition.row + 1;
+  }
+
+  protected span(node: Node): SourceSpan {
+    return { startLine: node.startPosition.row + 1, endLine: node.endPosition.row + 1 };
+  }
+
+  protected text(node: Node | null | undefined): string {
+    return node ? this.content.slice(node.startIndex, node.endIndex) : '';
+  }
+
+  /**
+   * Source of a declaration from `start` up to its body, on one line and
+   * without the colon or semicolon that ends it
+   */
+  protected signature(start: number, node: Node, body: Node | undefined): string {
+    const text = this.content.slice(start, body?.startIndex ?? node.endIndex).replace(/\s+/g, ' ').replace(/\s*[:;]?\s*$/, '').trim();
+    return text.length > 160 ? `${text.slice(0, 157)}...` : text;
+  }
+
+  protected shorten(node: Node): string {
+    const text = this.text(node).replace(/\s+/g, ' ');
+    return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+  }
+
+  protected addFunction(fn: Omit<ExtractedFunction, 'isAsync' | 'isStatic' | 'visibility'> & Partial<ExtractedFunction>): void {
+    this.module.functions.push({ isAsync: false, isStatic: false, visibility: 'public', ...fn });
+  }
+
+  protected addType(type: ExtractedType): void {
+    this.module.types.push(type);
+  }
+
+  protected addExport(name: string, lineNumber: number, type: ExtractedExport['type'] = 'named'): void {
+    this.module.exports.push({ name, type, lineNumber });
+  }
+
+  protected addCall(callee: string, args: Node[], scope: string, node: Node): void {
+    this.module.calls.push({ caller: scope, callee, lineNumber: this.line(node) });
+
+    // Arguments flow into the callee's parameters
+    for (const argument of args) {
+      if (this.isReference(argument)) this.addFlows([this.text(argument)], callee, 'parameter', argument);
+    }
+  }
+
+  protected addFlows(sources: string[], target: string, type: ExtractedDataFlow['type'], node: Node): void {
+    const lineNumber = this.line(node);
+    for (const source of sources) {
+      if (source === target) continue;
+      const duplicate = this.module.dataFlows.some(flow => flow.source === source && flow.target === target && flow.type === type && flow.lineNumber === lineNumber);
+      if (!duplicate) this.module.dataFlows.push({ source, target, type, lineNumber });
+    }
+  }
+
+  protected addReturn(value: Node | undefined, scope: string, node: Node): void {
+    if (value && scope !== MODULE_SCOPE) this.addFlows(this.referencedNames(value), scope, 'return', node);
+  }
+
+  /**
+   * Values an expression reads: variables and member chains, not the
+   * functions nested in it or the names it calls
+   */
+  protected referencedNames(node: Node): string[] {
+    const names = new Set<string>();
+    const collect = (current: Node) => {
+      if (this.isNestedFunction(current)) return;
+      if (this.isReference(current)) {
+        names.add(this.text(current));
+        return;
+      }
+      for (const child of this.valueChildren(current)) collect(child);
+    };
+    collect(node);
+    return [...names];
+  }
+
+  /**
+   * Children of a node that may hold values; languages leave out callees and member names
+   */
+  protected valueChildren(node: Node): Node[] {
+    return children(node);
+  }
+}
+
+// _name is internal by convention and __name is mangled; __init__ and other dunders are public
+const pythonVisibility = (name: string): ExtractedFunction['visibility'] =>
+  name.startsWith('__') && name.endsWith('__') ? 'public'
+    : name.startsWith('__') ? 'private'
+    : name.startsWith('_') ? 'protected'
+    : 'public';
+
+class PythonExtractor extends TreeExtractor {
+  private publicNames: { name: string; lineNumber: number }[] = [];
+  private declaredExports = false;
+
+  run(root: Node): SourceModule {
+    const module = super.run(root);
+    // Without __all__, every public top-level name is importable
+    if (!this.declaredExports) {
+      this.publicNames.forEach(({ name, lineNumber }) => this.addExport(name, lineNumber));
+    }
+    return module;
+  }
+
+  protected isNestedFunction(node: Node): boolean {
+    return node.type === 'lambda' || node.type === 'function_definition' || node.type === 'class_definition';
+  }
+
+  protected isReference(node: Node): boolean {
+    if (node.type === 'identifier') return true;
+    // self.repo is read as a whole, like this.repo
+    return node.type === 'attribute' && field(node, 'object')?.type === 'identifier' && ['self', 'cls'].includes(field(node, 'object')!.text);
+  }
+
+  protected valueChildren(node: Node): Node[] {
+    switch (node.type) {
+      case 'call': {
+        const callee = field(node, 'function');
+        // A function called by name is not a value passed along; the object a method is called on is
+        return [callee?.type === 'identifier' ? undefined : callee, field(node, 'arguments')].filter((child): child is Node => !!child);
+      }
+      case 'attribute':
+        return [field(node, 'object')!].filter(Boolean);
+      case 'keyword_argument':
+        return [field(node, 'value')!].filter(Boolean);
+      default:
+        return children(node);
+    }
+  }
+
+  private calleeName(node: Node): string {
+    if (node.type === 'identifier') return node.text;
+    if (node.type === 'attribute') return `${this.calleeName(field(node, 'object')!)}.${field(node, 'attribute')!.text}`;
+    return this.shorten(node);
+  }
+
+  private parameters(node: Node | undefined, isMethod: boolean): Parameter[] {
+    const params = children(node).flatMap((param): Parameter[] => {
+      switch (param.type) {
+        case 'identifier':
+          return [{ name: param.text, type: 'unknown', optional: false }];
+        case 'typed_parameter': {
+          const [name] = children(param);
+          const splat = name.type !== 'identifier';
+          return [{ name: name.text, type: field(param, 'type')?.text || 'unknown', optional: splat }];
+        }
+        case 'default_parameter':
+        case 'typed_default_parameter':
+          return [{ name: field(param, 'name')!.text, type: field(param, 'type')?.text || 'unknown', optional: true }];
+        case 'list_splat_pattern':
+        case 'dictionary_splat_pattern':
+          return [{ name: param.text, type: 'unknown', optional: true }];
+        default:
+          // The bare * and / separators
+          return [];
+      }
+    });
+    // The instance or class a method is bound to is not an argument
+    return isMethod && params[0] && ['self', 'cls'].includes(params[0].name) ? params.slice(1) : params;
+  }
+
+  private visitFunction(node: Node, owner: string | undefined, decorated: Node | undefined): void {
+    const shortName = field(node, 'name')!.text;
+    const name = owner ? `${owner}.${shortName}` : shortName;
+    const decorators = children(decorated).filter(child => child.type === 'decorator').map(decorator => this.text(decorator).slice(1).trim());
+    const isStatic = decorators.includes('staticmethod');
+    const body = field(node, 'body');
+
+    this.addFunction({
+      name,
+      kind: owner ? 'method' : 'function',
+      parameters: this.parameters(field(node, 'parameters'), !!owner && !isStatic),
+      returnType: field(node, 'return_type')?.text || 'unknown',
+      signature: this.signature(node.startIndex, node, body),
+      isAsync: hasToken(node, 'async'),
+      isStatic: isStatic || decorators.includes('classmethod'),
+      visibility: pythonVisibility(shortName),
+      ...this.span(decorated || node),
+    });
+    this.visitChildren(field(node, 'parameters')!, name, undefined);
+    if (body) this.visitChildren(body, name, undefined);
+  }
+
+  private visitClass(node: Node, owner: string | undefined, decorated: Node | undefined): void {
+    const name = owner ? `${owner}.${field(node, 'name')!.text}` : field(node, 'name')!.text;
+    const body = field(node, 'body');
+    const properties: Property[] = [];
+    const addProperty = (property: Property) => {
+      if (!properties.some(existing => existing.name === property.name)) properties.push(property);
+    };
+
+    for (const statement of children(body)) {
+      const assignment = statement.type === 'expression_statement' ? children(statement)[0] : undefined;
+      const target = assignment?.type === 'assignment' ? field(assignment, 'left') : undefined;
+      if (target?.type === 'identifier') {
+        addProperty({ name: target.text, type: field(assignment!, 'type')?.text || 'unknown', optional: false });
+      }
+      // Attributes set on self in __init__ are instance properties
+      const definition = statement.type === 'decorated_definition' ? field(statement, 'definition') : statement;
+      if (definition?.type === 'function_definition' && field(definition, 'name')?.text === '__init__') {
+        for (const attribute of definition.descendantsOfType('assignment').filter((node): node is Node => !!node)) {
+          const left = field(attribute, 'left');
+          if (left?.type === 'attribute' && field(left, 'object')?.text === 'self') {
+            addProperty({ name: field(left, 'attribute')!.text, type: field(attribute, 'type')?.text || 'unknown', optional: false });
+          }
+        }
+      }
+    }
+
+    const superclasses = field(node, 'superclasses');
+    this.addType({
+      name,
+      type: 'class',
+      properties,
+      extends: children(superclasses).filter(base => base.type !== 'keyword_argument').map(base => base.text),
+      signature: this.signature(node.startIndex, node, body),
+      ...this.span(decorated || node),
+    });
+    if (superclasses) this.visitChildren(superclasses, MODULE_SCOPE, undefined);
+    if (body) this.visitChildren(body, name, name);
+  }
+
+  private visitDefinition(node: Node, scope: string, owner: string | undefined, decorated: Node | undefined): void {
+    const name = field(node, 'name')!.text;
+    if (scope === MODULE_SCOPE && !owner && !name.startsWith('_')) {
+      this.publicNames.push({ name, lineNumber: this.line(decorated || node) });
+    }
+    if (node.type === 'function_definition') this.visitFunction(node, owner, decorated);
+    else this.visitClass(node, owner, decorated);
+  }
+
+  private visitImport(node: Node): void {
+    const lineNumber = this.line(node);
+    if (node.type === 'import_statement') {
+      // import os.path, json as j
+      for (const name of fields(node, 'name')) {
+        const module = name.type === 'aliased_import' ? field(name, 'name')!.text : name.text;
+        const local = name.type === 'aliased_import' ? field(name, 'alias')!.text : name.text;
+        this.module.imports.push({ module, imports: [local], isDefault: true, lineNumber });
+      }
+      return;
+    }
+    // from .repo import Repo as R, helper
+    const names = fields(node, 'name').map(name => name.type === 'aliased_import' ? field(name, 'name')!.text : name.text);
+    const wildcard = children(node).some(child => child.type === 'wildcard_import');
+    this.module.imports.push({
+      module: field(node, 'module_name')!.text,
+      imports: wildcard ? ['*'] : names,
+      isDefault: false,
+      lineNumber,
+    });
+  }
+
+  private visitAssignment(node: Node, scope: string): void {
+    const left = field(node, 'left');
+    const right = field(node, 'right');
+    if (!left || !right) return;
+
+    if (scope === MODULE_SCOPE && left.text === '__all__') {
+      this.declaredExports = true;
+      for (const entry of right.descendantsOfType('string_content').filter((entry): entry is Node => !!entry)) {
+        this.addExport(entry.text, this.line(node));
+      }
+    }
+    const targets = left.type === 'pattern_list' || left.type === 'tuple_pattern' ? children(left) : [left];
+    for (const target of targets) {
+      this.addFlows(this.referencedNames(right), target.type === 'attribute' ? this.calleeName(target) : target.text, 'assignment', node);
+    }
+  }
+
+  protected visit(node: Node, scope: string, owner: string | undefined): void {
+    switch (node.type) {
+      case 'decorated_definition':
+        for (const decorator of children(node).filter(child => child.type === 'decorator')) {
+          this.visitChildren(decorator, scope, undefined);
+        }
+        this.visitDefinition(field(node, 'definition')!, scope, owner, node);
+        return;
+      case 'function_definition':
+      case 'class_definition':
+        this.visitDefinition(node, scope, owner, undefined);
+        return;
+      case 'import_statement':
+      case 'import_from_statement':
+        this.visitImport(node);
+        return;
+      case 'assignment':
+      case 'augmented_assignment':
+        this.visitAssignment(node, scope);
+        break;
+      case 'return_statement':
+        this.addReturn(children(node)[0], scope, node);
+        break;
+      case 'call': {
+        const args = children(field(node, 'arguments')).map(argument => argument.type === 'keyword_argument' ? field(argument, 'value')! : argument);
+        this.addCall(this.calleeName(field(node, 'function')!), args, scope, node);
+        break;
+      }
+    }
+    this.visitChildren(node, scope, undefined);
+  }
+}
+
+const JAVA_TYPES: Record<string, ExtractedType['type']> = {
+  class_declaration: 'class',
+  record_declaration: 'class',
+  interface_declaration: 'interface',
+  annotation_type_declaration: 'interface',
+  enum_declaration: 'enum',
+};
+
+class JavaExtractor extends TreeExtractor {
+  protected isNestedFunction(node: Node): boolean {
+    return node.type === 'lambda_expression' || node.type === 'class_body';
+  }
+
+  protected isReference(node: Node): boolean {
+    if (node.type === 'identifier') return true;
+    // this.repo is read as a whole
+    return node.type === 'field_access' && field(node, 'object')?.type === 'this';
+  }
+
+  protected valueChildren(node: Node): Node[] {
+    switch (node.type) {
+      case 'method_invocation':
+        return [field(node, 'object'), field(node, 'arguments')].filter((child): child is Node => !!child);
+      case 'field_access':
+        return [field(node, 'object')!];
+      default:
+        return children(node);
+    }
+  }
+
+  /**
+   * Start of a declaration after its annotations
+   */
+  private declarationStart(node: Node): number {
+    const modifiers = children(node).find(child => child.type === 'modifiers');
+    const annotations = children(modifiers).filter(child => child.type.endsWith('annotation'));
+    if (annotations.length === 0) return node.startIndex;
+    const annotationsEnd = annotations[annotations.length - 1].endIndex;
+    return [...modifiers!.children, ...node.children].find(child => !!child && child.startIndex >= annotationsEnd)?.startIndex ?? annotationsEnd;
+  }
+
+  private keywords(node: Node): (string | undefined)[] {
+    return (children(node).find(child => child.type === 'modifiers')?.children || []).map(child => child?.type);
+  }
+
+  private modifiers(node: Node): Partial<ExtractedFunction> {
+    const keywords = this.keywords(node);
+    return {
+      isStatic: keywords.includes('static'),
+      visibility: keywords.includes('private') ? 'private' : keywords.includes('protected') ? 'protected' : 'public',
+    };
+  }
+
+  private calleeName(node: Node): string {
+    if (node.type === 'method_invocation') {
+      const object = field(node, 'object');
+      return `${object ? `${this.calleeName(object)}.` : ''}${field(node, 'name')!.text}`;
+    }
+    if (node.type === 'field_access') return `${this.calleeName(field(node, 'object')!)}.${field(node, 'field')!.text}`;
+    if (['identifier', 'this', 'super', 'scoped_identifier', 'type_identifier'].includes(node.type)) return node.text;
+    return this.shorten(node);
+  }
+
+  private parameters(node: Node | undefined): Parameter[] {
+    return children(node).flatMap((param): Parameter[] => {
+      if (param.type === 'formal_parameter') {
+        return [{ name: field(param, 'name')!.text, type: field(param, 'type')?.text || 'unknown', optional: false }];
+      }
+      if (param.type === 'spread_parameter') {
+        const declarator = children(param).find(child => child.type === 'variable_declarator');
+        const type = children(param).find(child => child !== declarator && child.type !== 'modifiers');
+        return [{ name: declarator ? field(declarator, 'name')!.text : param.text, type: `${type?.text || 'unknown'}...`, optional: true }];
+      }
+      // Receiver parameters name no argument
+      return [];
+    });
+  }
+
+  private visitMethod(node: Node, owner: string): void {
+    const name = `${owner}.${field(node, 'name')!.text}`;
+    const body = field(node, 'body');
+    this.addFunction({
+      name,
+      kind: 'method',
+      parameters: this.parameters(field(node, 'parameters')),
+      returnType: field(node, 'type')?.text || 'unknown',
+      signature: this.signature(this.declarationStart(node), node, body),
+      ...this.modifiers(node),
+      ...this.span(node),
+    });
+    if (body) this.visitChildren(body, name, undefined);
+  }
+
+  private fieldProperties(node: Node): Property[] {
+    const type = field(node, 'type')?.text || 'unknown';
+    return fields(node, 'declarator').map(declarator => ({ name: field(declarator, 'name')!.text, type, optional: false }));
+  }
+
+  private visitType(node: Node, owner: string | undefined): void {
+    const name = owner ? `${owner}.${field(node, 'name')!.text}` : field(node, 'name')!.text;
+    const body = field(node, 'body');
+    const properties: Property[] = node.type === 'record_declaration' ? this.parameters(field(node, 'parameters')) : [];
+    const members = children(body).flatMap(member => member.type === 'enum_body_declarations' ? children(member) : [member]);
+
+    for (const member of members) {
+      switch (member.type) {
+        case 'field_declaration':
+        case 'constant_declaration':
+          properties.push(...this.fieldProperties(member));
+          this.visitChildren(member, name, undefined);
+          break;
+        case 'enum_constant':
+          properties.push({ name: field(member, 'name')!.text, type: name, optional: false });
+          break;
+        case 'method_declaration':
+        case 'constructor_declaration':
+        case 'compact_constructor_declaration':
+          this.visitMethod(member, name);
+          break;
+        default:
+          this.visit(member, name, name);
+      }
+    }
+
+    const superclass = field(node, 'superclass');
+    const interfaces = field(node, 'interfaces') || children(node).find(child => child.type === 'extends_interfaces');
+    this.addType({
+      name,
+      type: JAVA_TYPES[node.type],
+      properties,
+      extends: [
+        ...children(superclass).map(base => base.text),
+        ...children(interfaces).flatMap(list => list.type === 'type_list' ? children(list) : [list]).map(base => base.text),
+      ],
+      signature: this.signature(this.declarationStart(node), node, body),
+      ...this.span(node),
+    });
+    if (!owner && this.keywords(node).includes('public')) this.addExport(name, this.line(node));
+  }
+
+  protected visit(node: Node, scope: string, owner: string | undefined): void {
+    switch (node.type) {
+      case 'class_declaration':
+      case 'record_declaration':
+      case 'interface_declaration':
+      case 'annotation_type_declaration':
+      case 'enum_declaration':
+        this.visitType(node, owner);
+        return;
+      case 'import_declaration': {
+        // import java.util.List; import static java.lang.Math.max; import a.c.*;
+        const target = children(node).find(child => child.type === 'scoped_identifier' || child.type === 'identifier')!;
+        const wildcard = children(node).some(child => child.type === 'asterisk');
+        const scopeName = target.type === 'scoped_identifier' && !wildcard ? field(target, 'scope')!.text : target.text;
+        this.module.imports.push({
+          module: scopeName,
+          imports: [wildcard ? '*' : target.type === 'scoped_identifier' ? field(target, 'name')!.text : target.text],
+          isDefault: false,
+          lineNumber: this.line(node),
+        });
+        return;
+      }
+      case 'variable_declarator': {
+        const value = field(node, 'value');
+        if (value) this.addFlows(this.referencedNames(value), field(node, 'name')!.text, 'assignment', node);
+        break;
+      }
+      case 'assignment_expression':
+        this.addFlows(this.referencedNames(field(node, 'right')!), this.calleeName(field(node, 'left')!), 'assignment', node);
+        break;
+      case 'return_statement':
+        this.addReturn(children(node)[0], scope, node);
+        break;
+      case 'method_invocation':
+        this.addCall(this.calleeName(node), children(field(node, 'arguments')), scope, node);
+        break;
+      case 'object_creation_expression': {
+        const type = field(node, 'type')!;
+        const typeName = type.type === 'generic_type' ? children(type)[0].text : type.text;
+        this.addCall(`new ${typeName}`, children(field(node, 'arguments')), scope, node);
+        break;
+      }
+      case 'explicit_constructor_invocation':
+        this.addCall(field(node, 'constructor')?.text || 'this', children(field(node, 'arguments')), scope, node);
+        break;
+      case 'method_declaration':
+      case 'constructor_declaration':
+        // Members of anonymous classes belong to the method the class is written in
+        if (field(node, 'body')) this.visitChildren(field(node, 'body')!, scope, undefined);
+        return;
+    }
+    this.visitChildren(node, scope, owner);
+  }
+}
+
+// Go exports the names that start with an upper-case letter
+const isExportedGoName = (name: string): boolean => name.charAt(0) !== name.charAt(0).toLowerCase();
+
+class GoExtractor extends TreeExtractor {
+  protected isNestedFunction(node: Node): boolean {
+    return node.type === 'func_literal';
+  }
+
+  protected isReference(node: Node): boolean {
+    return node.type === 'identifier';
+  }
+
+  protected valueChildren(node: Node): Node[] {
+    switch (node.type) {
+      case 'call_expression': {
+        const callee = field(node, 'function');
+        const args = field(node, 'arguments');
+        // A function called by name is not a value passed along; the value a method is called on is
+        return [callee?.type === 'identifier' ? undefined : callee, args].filter((child): child is Node => !!child);
+      }
+      case 'selector_expression':
+        return [field(node, 'operand')!];
+      case 'keyed_element':
+        return children(node).slice(1);
+      default:
+        return children(node);
+    }
+  }
+
+  private calleeName(node: Node): string {
+    if (node.type === 'identifier') return node.text;
+    if (node.type === 'selector_expression') return `${this.calleeName(field(node, 'operand')!)}.${field(node, 'field')!.text}`;
+    return this.shorten(node);
+  }
+
+  private parameters(node: Node | undefined): Parameter[] {
+    return children(node).flatMap((param): Parameter[] => {
+      const type = field(param, 'type')?.text || 'unknown';
+      if (param.type === 'variadic_parameter_declaration') {
+        return [{ name: field(param, 'name')?.text || '_', type: `...${type}`, optional: true }];
+      }
+      if (param.type !== 'parameter_declaration') return [];
+      // a, b int declares two parameters; an unnamed parameter is only its type
+      const names = fields(param, 'name');
+      return names.length > 0 ? names.map(name => ({ name: name.text, type, optional: false })) : [{ name: '_', type, optional: false }];
+    });
+  }
+
+  /**
+   * Type a method is declared on, without pointer and type parameters
+   */
+  private receiverType(receiver: Node): string {
+    const [param] = children(receiver);
+    const type = param ? field(param, 'type') : undefined;
+    const named = type?.type === 'pointer_type' ? children(type)[0] : type;
+    return named?.type === 'generic_type' ? field(named, 'type')!.text : named?.text || 'unknown';
+  }
+
+  private visitFunction(node: Node): void {
+    const shortName = field(node, 'name')!.text;
+    const receiver = field(node, 'receiver');
+    const name = receiver ? `${this.receiverType(receiver)}.${shortName}` : shortName;
+    const body = field(node, 'body');
+
+    this.addFunction({
+      name,
+      kind: receiver ? 'method' : 'function',
+      parameters: this.parameters(field(node, 'parameters')),
+      returnType: field(node, 'result')?.text || 'void',
+      signature: this.signature(node.startIndex, node, body),
+      visibility: isExportedGoName(shortName) ? 'public' : 'private',
+      ...this.span(node),
+    });
+    if (!receiver && isExportedGoName(name)) this.addExport(name, this.line(node));
+    if (body) this.visitChildren(body, name, undefined);
+  }
+
+  private visitTypeSpec(spec: Node, declaration: Node): void {
+    const name = field(spec, 'name')!.text;
+    const definition = field(spec, 'type');
+    const properties: Property[] = [];
+    const bases: string[] = [];
+    let type: ExtractedType['type'] = 'type';
+
+    if (definition?.type === 'struct_type') {
+      type = 'class';
+      for (const member of definition.descendantsOfType('field_declaration').filter((member): member is Node => !!member)) {
+        const memberType = field(member, 'type')?.text || 'unknown';
+        const names = fields(member, 'name');
+        // Embedded structs are what the struct is built on
+        if (names.length === 0) bases.push(memberType.replace(/^\*/, ''));
+        names.forEach(memberName => properties.push({ name: memberName.text, type: memberType, optional: false }));
+      }
+    } else if (definition?.type === 'interface_type') {
+      type = 'interface';
+      for (const member of children(definition)) {
+        if (member.type === 'method_elem') {
+          const params = this.parameters(field(member, 'parameters')).map(param => `${param.name} ${param.type}`).join(', ');
+          const result = field(member, 'result')?.text;
+          properties.push({ name: field(member, 'name')!.text, type: `func(${params})${result ? ` ${result}` : ''}`, optional: false });
+        } else if (member.type === 'type_elem') {
+          bases.push(member.text);
+        }
+      }
+    }
+
+    // A declaration of one type spans its type keyword; a grouped one spans each spec
+    const owner = children(declaration).length === 1 ? declaration : spec;
+    this.addType({
+      name,
+      type,
+      properties,
+      extends: bases,
+      signature: this.signature(owner.startIndex, owner, definition && ['struct_type', 'interface_type'].includes(definition.type)
+        ? definition.children.find(child => child?.type === 'field_declaration_list' || child?.type === '{') ?? undefined
+        : undefined),
+      ...this.span(owner),
+    });
+    if (isExportedGoName(name)) this.addExport(name, this.line(spec));
+  }
+
+  private visitAssignment(left: Node[], right: Node[], node: Node): void {
+    left.forEach((target, index) => {
+      // a, b := f() assigns both from the one call
+      const values = right.length === left.length ? [right[index]] : right;
+      const sources = values.flatMap(value => this.referencedNames(value));
+      this.addFlows(sources, this.calleeName(target), 'assignment', node);
+    });
+  }
+
+  protected visit(node: Node, scope: string, owner: string | undefined): void {
+    switch (node.type) {
+      case 'function_declaration':
+      case 'method_declaration':
+        this.visitFunction(node);
+        return;
+      case 'type_declaration':
+        for (const spec of children(node)) {
+          if (spec.type === 'type_spec' || spec.type === 'type_alias') this.visitTypeSpec(spec, node);
+        }
+        return;
+      case 'import_spec': {
+        const importPath = field(node, 'path')!.text.replace(/^["`]|["`]$/g, '');
+        const alias = field(node, 'name')?.text;
+        this.module.imports.push({ module: importPath, imports: [alias || importPath.split('/').pop()!], isDefault: true, lineNumber: this.line(node) });
+        return;
+      }
+      case 'short_var_declaration':
+      case 'assignment_statement':
+        this.visitAssignment(children(field(node, 'left')), children(field(node, 'right')), node);
+        break;
+      case 'var_spec':
+      case 'const_spec':
+        this.visitAssignment(fields(node, 'name'), children(field(node, 'value')), node);
+        break;
+      case 'return_statement':
+        for (const value of children(children(node)[0])) this.addReturn(value, scope, node);
+        break;
+      case 'call_expression':
+        this.addCall(this.calleeName(field(node, 'function')!), children(field(node, 'arguments')), scope, node);
+        break;
+    }
+    this.visitChildren(node, scope, owner);
+  }
+}
+
+const EXTRACTORS: Record<TreeSitterLanguage, new (content: string) => TreeExtractor> = {
+  python: PythonExtractor,
+  java: JavaExtractor,
+  go: GoExtractor,
+};
+
+/**
+ * Extracts the declarations, imports, exports, calls and data flows of a
+ * Python, Java or Go file; syntax errors leave the rest of the tree intact
+ */
+export const extractTreeSitterModule = async (content: string, language: TreeSitterLanguage): Promise<SourceModule> => {
+  const parser = await loadParser(language);
+  const tree = parser.parse(content);
+  if (!tree) throw new Error(`tree-sitter could not parse the ${language} source`);
+
+  try {
+    return new EXTRACTORS[language](content).run(tree.rootNode);
+  } finally {
+    tree.delete();
+  }
+};
@@ -1,6 +1,7 @@
 // Analysis Types for Multi-Pass PR Review Architecture
 
-import { PluginFinding } from './plugins';
+import { DiffLine, PluginFinding } from './plugins';
+import { PullRequestDetails } from './codeHost';
 
 export interface PrContext {
   repo_name: string;
@@ -12,6 +13,13 @@ export interface PrContext {
   diff_summary: string;
 }
 
+// A local checkout reviewed without a hosted PR (base...head)
+export interface LocalSource {
+  repo_path: string;
+  base: string;
+  head: string;
+}
+
 export interface ChunkInfo {
   id: string;
   file_path: string;
@@ -21,19 +29,68 @@ export interface ChunkInfo {
   context_before?: string;
   context_after?: string;
   diff_content: string;
+  diff_lines?: DiffLine[];             // diff_content with real file line numbers
   is_complete_file: boolean;
 }
 
+export type IssueSeverity = 'critical' | 'high' | 'medium' | 'low' | 'info';
+
+/**
+ * One issue reported by an analysis pass, as defined by PASS_OUTPUT_SCHEMA
+ */
+export interface AnalysisIssue {
+  severity: IssueSeverity;
+  category: string;        // e.g. logic, security, performance, design, testing, docs
+  title: string;
+  file_path?: string;      // Set from the analyzed chunk, not by the model
+  line_start?: number;     // New-file line numbers, only kept when they fall inside the chunk
+  line_end?: number;
+  evidence?: string;       // Offending code, quoted from the diff
+  suggested_fix?: string;
+}
+
+/**
+ * Validated JSON reply of a single analysis pass
+ */
+export interface PassOutput {
+  risk_level: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
+  risk_reason: string;
+  issues: AnalysisIssue[];
+  recommendations: string[];
+}
+
+/**
+ * An analysis pass run on every chunk it applies to (see passRegistry)
+ */
+export interface PassDefinition {
+  id: string;
+  template: string;                    // Prompt with {file_path}, {chunk_context}, {diff_chunk} and {output_contract}
+  files: string[];                     // Globs of the files it applies to; every file when empty
+  languages: Exclude<ProjectConfig['language'], 'auto'>[]; // Languages of the files it applies to; every one when empty
+  model?: { provider?: string; url?: string; model?: string; context_window?: number };
+  enabled: boolean;
+}
+
+/**
+ * What one chunk's analysis produced: a result per pass id, and plugin findings
+ */
+export interface ChunkAnalysisResult {
+  [pass_type: string]: AnalysisPass | PluginFinding[] | undefined;
+  plugin_findings?: PluginFinding[];
+}
+
 export interface AnalysisPass {
   id: string;
   chunk_id: string;
-  pass_type: 'syntax_logic' | 'security_performance' | 'architecture_design' | 'testing_docs';
+  pass_type: string;                   // Id of the pass definition
   analysis_result: string;
   risk_level: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
-  issues_found: string[];
+  issues_found: AnalysisIssue[];
   recommendations: string[];
   tokens_used: number;
   duration_ms: number;
+  model_provider?: string;             // Provider and model that produced the result
+  model_name?: string;
   timestamp: Date;
 }
 
@@ -41,12 +98,7 @@ export interface FileAnalysisResult {
   file_path: string;
   total_chunks: number;
   chunk_analyses: {
-    [chunk_id: string]: {
-      syntax_logic?: AnalysisPass;
-      security_performance?: AnalysisPass;
-      architecture_design?: AnalysisPass;
-      testing_docs?: AnalysisPass;
-    };
+    [chunk_id: string]: ChunkAnalysisResult;
   };
   file_synthesis: string;
   overall_risk: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
@@ -58,21 +110,22 @@ export interface ReviewState {
   // Core identification
   pr_url: string;
   task_id: string;
+  local_source?: LocalSource;          // Set when reviewing a local branch instead of a PR
+  
+  // Incremental re-review
+  previous_review_id?: string;         // Earlier review of the same PR to carry results forward from
+  changed_since_previous?: string[];   // Files changed between the previous and current head, when known
+  reused_chunk_ids?: string[];         // Chunks whose analysis was carried forward instead of re-run
   
   // Context establishment
-  pr_details?: {
-    title: string;
-    body: string | null;
-    author: string;
-    state: string;
-    additions: number;
-    deletions: number;
-  };
+  pr_details?: PullRequestDetails;
   pr_context?: PrContext;
   
   // File processing
   all_changed_files?: string[];        // All files changed in PR
   filtered_files?: string[];           // Files that will be analyzed
+  language_mix?: LanguageMix;          // Languages the file filter was configured for
+  excluded_files?: ExcludedFile[];     // Changed files that are not analyzed, with why
   files_to_process?: string[];         // Queue of files remaining
   current_file?: string;               // File currently being processed
   full_pr_diff?: string;               // Complete PR diff (fetched once)
@@ -84,17 +137,11 @@ export interface ReviewState {
   current_chunks?: ChunkInfo[];        // Chunks for current file
   chunks_to_process?: ChunkInfo[];     // Queue of chunks remaining
   current_chunk?: ChunkInfo;           // Chunk currently being analyzed
-  current_pass?: 'syntax_logic' | 'security_performance' | 'architecture_design' | 'testing_docs';
+  current_pass?: string;
   
   // Analysis results
   chunk_analyses?: {
-    [chunk_id: string]: {
-      syntax_logic?: AnalysisPass;
-      security_performance?: AnalysisPass;
-      architecture_design?: AnalysisPass;
-      testing_docs?: AnalysisPass;
-      plugin_findings?: PluginFinding[]; // Add this line
-    };
+    [chunk_id: string]: ChunkAnalysisResult;
   };
   file_results?: {
     [file_path: string]: FileAnalysisResult;
@@ -122,12 +169,43 @@ export interface ReviewState {
   };
 }
 
+// A piece of a streamed LLM reply
+export interface LLMToken {
+  source: string; // Pass type, or file_synthesis
+  file_path: string;
+  chunk_id?: string;
+  text: string;
+}
+
 export interface ProjectConfig {
   language: 'typescript' | 'javascript' | 'python' | 'java' | 'go' | 'rust' | 'auto';
   file_extensions: string[];
+  include_patterns?: string[]; // When set, only files matching one of these are analyzed
   exclude_patterns: string[];
+  exclude_generated?: boolean; // Lockfiles, snapshots and generated code; excluded unless false
   max_chunk_tokens: number;
   context_lines: number;
+  chunk_strategy?: 'syntax' | 'lines';  // syntax when unset; files that do not parse are split by lines
+}
+
+export type ProjectLanguage = Exclude<ProjectConfig['language'], 'auto'>;
+
+/**
+ * Languages of the files a review analyzes, most changed files first
+ */
+export interface LanguageMix {
+  languages: { language: ProjectLanguage; files: number }[];
+  manifests: string[];         // Manifests found at the repository root, like go.mod
+  detected: boolean;           // False when the language is set in the configuration
+}
+
+/**
+ * A changed file the review does not analyze, and why
+ */
+export interface ExcludedFile {
+  file: string;
+  reason: string;              // Source of the rule that excludes it, like .hikmaignore, or unsupported extension
+  pattern?: string;            // The rule, when a rule excludes it
 }
 
 export interface PromptTemplate {
@@ -165,7 +243,15 @@ export interface AnalysisConfig {
     provider: string;
     providerUrl: string;
     modelName: string;
-  }
+    contextWindow?: number;            // models.default.context_window
+  };
+  concurrency?: Record<string, number>; // Max LLM requests in flight, by provider
+  passes?: PassDefinition[];           // Passes to run, in order; the built-in ones when unset
+  synthesisModels?: Partial<Record<'file_synthesis' | 'synthesis', { provider?: string; url?: string; model?: string; context_window?: number }>>; // modelInfo when unset
+  thresholds?: {
+    min_issue_severity: IssueSeverity;
+    min_plugin_severity: 'info' | 'warning' | 'error';
+  };
 } 
 
 // Enhanced types for comprehensive analysis system
@@ -374,11 +460,15 @@ export interface HistoricalContext {
 }
 
 export interface FunctionSignature {
-  name: string;
+  name: string;                  // Methods are qualified by their class: Class.method
   parameters: Parameter[];
   returnType: string;
   file: string;
   lineNumber: number;
+  endLine: number;
+  isAsync?: boolean;
+  isStatic?: boolean;
+  visibility?: 'public' | 'private' | 'protected';
 }
 
 export interface TypeDefinition {
@@ -386,6 +476,8 @@ export interface TypeDefinition {
   type: 'interface' | 'class' | 'enum' | 'type';
   properties: Property[];
   file: string;
+  lineNumber?: number;
+  endLine?: number;
 }
 
 export interface ImportExportChain {
@@ -406,6 +498,7 @@ export interface DataFlow {
   target: string;
   type: 'assignment' | 'parameter' | 'return';
   file: string;
+  lineNumber?: number;
 }
 
 export interface SemanticBoundary {
@@ -489,11 +582,13 @@ export interface ImportStatement {
   module: string;
   imports: string[];
   isDefault: boolean;
+  lineNumber?: number;
 }
 
 export interface ExportStatement {
   name: string;
   type: 'default' | 'named';
+  lineNumber?: number;
 }
 
 export interface RepositorySize {
@@ -0,0 +1,153 @@
+/**
+ * Shapes served by the reviews REST API to the web UI
+ * (hikma-pr-ui/src/data/mockData.ts mirrors these)
+ */
+import { LLMToken, ReviewState } from './analysis';
+import { DiffLine } from './plugins';
+
+export type ReviewStatus = 'completed' | 'in-progress' | 'failed';
+
+export interface ApiFinding {
+  id: string;
+  severity: string;        // critical/high/medium/low/info for pass issues, error/warning/info for plugins
+  type: string;
+  title: string;
+  description: string;
+  file: string;
+  line: number;
+  plugin: string;
+  recommendation: string;
+  triage?: ApiFindingTriage; // Only for findings that can be triaged
+}
+
+export interface ApiFindingTriage {
+  status: string;              // open, accepted, false-positive, wont-fix or fixed
+  note: string | null;
+  author: string | null;
+  updatedAt: string | null;    // null while the finding is untriaged
+  dismissed: boolean;          // Hidden from reports
+  inheritedFrom?: string;      // Review whose dismissal of the same finding applies here
+}
+
+export interface ApiReview {
+  id: string;
+  title: string;
+  repository: string;
+  author: string;
+  date: string;
+  url: string;
+  status: ReviewStatus;
+  qualityScore: number;
+  findings: ApiFinding[];
+  filesAnalyzed: number;
+  linesOfCode: number;
+  linesAdded: number;
+  linesRemoved: number;
+  semantic: {
+    summary: string;
+    impact: string;
+    suggestions: string[];
+  };
+  quality: {
+    security: number;
+    performance: number;
+    maintainability: number;
+    standards: number;
+  };
+  analysisPerformance: {
+    llmProvider: string;
+    modelUsed: string;
+    startTime: string;
+    endTime: string;
+    totalDuration: string;
+    averagePerFile: string;
+  };
+}
+
+/**
+ * A single review, with what only the detail page needs
+ */
+export interface ApiReviewDetail extends ApiReview {
+  error: string | null;
+  headSha: string | null;
+  previousReviewId: string | null;
+  finalReport: string | null;
+  progress: ReviewProgress | null;
+}
+
+export type ReviewProgress = NonNullable<ReviewState['progress']>;
+
+export interface ApiSummaryStats {
+  totalReviews: number;
+  criticalFindings: number;
+  avgQualityScore: number;
+  activeRepos: number;
+}
+
+export interface ApiReviewPage {
+  reviews: ApiReview[];
+  page: number;
+  pageSize: number;
+  total: number;
+  totalPages: number;
+}
+
+export interface ApiChunkSummary {
+  chunkId: string;
+  startLine: number | null;
+  endLine: number | null;
+  sizeTokens: number;
+  riskLevel: string | null;    // Highest risk of the chunk's passes
+  issueCount: number;
+  pluginFindingCount: number;
+}
+
+export interface ApiReviewFile {
+  filePath: string;
+  analysis: string | null;     // File synthesis, once the file is done
+  diffSize: number | null;
+  riskLevel: string | null;
+  issueCount: number;
+  pluginFindingCount: number;
+  linesAdded: number;
+  linesRemoved: number;
+  chunks: ApiChunkSummary[];
+}
+
+/**
+ * A reviewed chunk of a file's diff with the findings raised on it
+ */
+export interface ApiDiffChunk {
+  chunkId: string;
+  startLine: number | null;
+  endLine: number | null;
+  riskLevel: string | null;
+  lines: DiffLine[];           // Lines already shown by the previous, overlapping chunk are left out
+  findings: ApiFinding[];
+}
+
+export interface ApiFileDiff {
+  filePath: string;
+  chunks: ApiDiffChunk[];
+}
+
+/**
+ * Body of POST /api/reviews; the model defaults to models.default of the server's configuration
+ */
+export interface ApiReviewRequest {
+  url: string;
+  provider?: string;
+  server?: string;
+  model?: string;
+}
+
+export type ReviewRunStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+/**
+ * Events of a running review, streamed by GET /api/reviews/:id/events
+ */
+export type ReviewEvent =
+  | { type: 'status'; status: ReviewRunStatus; position?: number; error?: string }  // position: 1 = next to run
+  | { type: 'node'; node: string }
+  | { type: 'progress'; progress: ReviewProgress | null; currentFile: string | null }
+  | { type: 'token'; token: LLMToken };
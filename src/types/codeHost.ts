@@ -0,0 +1,83 @@
+// Code Host Types - Abstraction over GitHub, GitLab, Bitbucket Server and local git
+
+export type CodeHostType = 'github' | 'gitlab' | 'bitbucket-server' | 'local';
+
+// How GitHub is reached: the REST API (requires GITHUB_TOKEN) or the gh CLI
+export type GitHubMethod = 'sdk' | 'cli';
+
+/**
+ * A pull/merge request identified from its web URL
+ */
+export interface PullRequestRef {
+  host: CodeHostType;
+  url: string;
+  origin: string;          // Scheme + host of the web UI, e.g. https://gitlab.example.com
+  owner: string;           // GitHub owner, GitLab namespace (may contain slashes) or Bitbucket project key
+  repo: string;
+  number: number;
+}
+
+export interface PullRequestDetails {
+  title: string;
+  body: string | null;
+  author: string;
+  state: string;
+  additions: number;
+  deletions: number;
+  source_branch?: string;
+  target_branch?: string;
+  head_sha?: string;
+}
+
+export interface CodeHostProviderOptions {
+  token?: string;          // Falls back to GITHUB_TOKEN / GITLAB_TOKEN / BITBUCKET_TOKEN
+  apiBaseUrl?: string;     // Overrides the REST endpoint derived from the URL (self-hosted, tests)
+  githubMethod?: GitHubMethod;
+}
+
+export type ReviewEvent = 'APPROVE' | 'REQUEST_CHANGES' | 'COMMENT';
+
+/**
+ * An inline comment anchored to a line of the PR diff
+ */
+export interface ReviewComment {
+  fingerprint: string;     // Stable id embedded in the body so re-publishing updates the comment
+  path: string;
+  line: number;            // Head-version line number; must be part of the diff
+  oldLine?: number;        // Base-version line for unchanged context lines (GitLab needs both)
+  body: string;
+}
+
+/**
+ * One complete review to post back to the code host
+ */
+export interface ReviewSubmission {
+  body: string;            // Summary, carries the summary marker
+  event: ReviewEvent;
+  comments: ReviewComment[];
+  commitSha?: string;      // Head commit the findings were produced for
+}
+
+export interface PublishResult {
+  created: number;         // New inline comments
+  updated: number;         // Inline comments from an earlier publish that were edited
+  summaryUpdated: boolean; // True when an earlier summary was edited instead of posted again
+  url?: string;
+}
+
+/**
+ * Everything the review workflow needs from wherever the change lives
+ */
+export interface CodeHostProvider {
+  readonly type: CodeHostType;
+  readonly ref: PullRequestRef;
+
+  getDetails(): Promise<PullRequestDetails>;
+  getChangedFiles(): Promise<string[]>;
+  getFullDiff(): Promise<string | null>;          // Unified diff in `git diff` format
+  getFileContent(filePath: string, gitRef: string): Promise<string | null>;
+  getChangedFilesBetween(fromSha: string, toSha: string): Promise<string[]>;  // Files that differ between two commits
+
+  // Optional: only hosted providers can post reviews
+  publishReview?(review: ReviewSubmission): Promise<PublishResult>;
+}
@@ -1,14 +1,27 @@
 import { LLMClient } from '../services/llmService';
 
+/**
+ * One code line of a diff chunk with its real position in the file
+ */
+export interface DiffLine {
+  type: 'addition' | 'deletion' | 'context';
+  content: string;  // Line text without the leading +/-/space marker
+  newLine?: number; // Line number in the new version of the file (additions and context)
+  oldLine?: number; // Line number in the old version of the file (deletions and context)
+  expanded?: boolean; // Unchanged head line added to reach a whole declaration; not part of the PR's diff
+}
+
 export interface PluginAnalysisInput {
   filePath: string;
-  chunkContent: string;
+  chunkContent: string; // Raw diff text, including @@ headers and removed lines
+  diffLines: DiffLine[]; // Structured view of chunkContent; report findings against newLine
   llmClient?: LLMClient; // Optional LLM client for advanced analysis
   // Add more context here as needed, e.g., fullFileContent, projectConfig
 }
 
 export interface PluginFinding {
-  line?: number; // Optional: line number of the finding
+  line?: number; // Optional: line number in the new version of the file
+  filePath?: string; // Set by the plugin service from the analyzed chunk
   message: string;
   severity: 'info' | 'warning' | 'error';
   pluginId: string; // To identify which plugin generated the finding
@@ -0,0 +1,59 @@
+/**
+ * The subset of SARIF 2.1.0 that review exports use
+ * (https://docs.oasis-open.org/sarif/sarif/v2.1.0/sarif-v2.1.0.html)
+ */
+
+export type SarifLevel = 'error' | 'warning' | 'note' | 'none';
+
+export interface SarifLog {
+  $schema: string;
+  version: '2.1.0';
+  runs: SarifRun[];
+}
+
+export interface SarifRun {
+  tool: { driver: SarifToolDriver };
+  originalUriBaseIds?: Record<string, { uri?: string; description?: { text: string } }>;
+  results: SarifResult[];
+  properties?: Record<string, unknown>;
+}
+
+export interface SarifToolDriver {
+  name: string;
+  version?: string;
+  informationUri?: string;
+  rules: SarifRule[];
+}
+
+export interface SarifRule {
+  id: string;
+  name: string;
+  shortDescription: { text: string };
+  fullDescription?: { text: string };
+  defaultConfiguration?: { level: SarifLevel };
+  properties?: Record<string, unknown>;
+}
+
+export interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: SarifLevel;
+  message: { text: string };
+  locations: SarifLocation[];
+  partialFingerprints?: Record<string, string>;
+  suppressions?: SarifSuppression[];
+  properties?: Record<string, unknown>;
+}
+
+export interface SarifLocation {
+  physicalLocation: {
+    artifactLocation: { uri: string; uriBaseId?: string };
+    region?: { startLine: number; endLine?: number; snippet?: { text: string } };
+  };
+}
+
+export interface SarifSuppression {
+  kind: 'inSource' | 'external';
+  status?: 'accepted' | 'underReview' | 'rejected';
+  justification?: string;
+}
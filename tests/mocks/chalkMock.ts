@@ -0,0 +1,16 @@
+/**
+ * Chalk Mock
+ * chalk v5 is ESM-only and cannot be loaded by ts-jest in CommonJS mode.
+ * Every style (including chained ones like chalk.bold.blue) returns the input text unchanged.
+ */
+
+const createChalkMock = (): any => {
+  const format = (...text: unknown[]) => text.join(' ');
+  return new Proxy(format, {
+    get: (_target, property) => (property === 'default' ? chalkMock : createChalkMock())
+  });
+};
+
+const chalkMock = createChalkMock();
+
+export default chalkMock;
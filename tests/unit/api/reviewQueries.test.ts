@@ -0,0 +1,184 @@
+/**
+ * Review Queries Tests
+ * Checks query validation, filtering and paging of the reviews API
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+
+jest.mock('chalk', () => require('../../mocks/chalkMock'));
+
+import { backfillRepositories, getFileDiff, getSummaryStats, listReviews, parseReviewListQuery } from '../../../src/api/reviewQueries';
+import { toApiReview } from '../../../src/api/reviewPresenter';
+
+const review = (id: string, prUrl: string, day: number, extra: Record<string, unknown> = {}) => ({
+  id,
+  prUrl,
+  error: null,
+  createdAt: new Date(Date.UTC(2026, 9, day)),
+  modelProvider: 'ollama',
+  modelName: 'qwen',
+  startedAt: new Date(Date.UTC(2026, 9, day, 10, 0, 0)),
+  completedAt: new Date(Date.UTC(2026, 9, day, 10, 2, 0)),
+  repository: null as string | null,
+  ...extra,
+});
+
+const REVIEWS = [
+  review('r3', 'https://github.com/acme/api/pull/3', 3, { repository: 'acme/api' }),
+  review('r2', 'https://gitlab.com/acme/web/-/merge_requests/2', 2, { repository: 'acme/web' }),
+  // Stored before the repository column existed
+  review('r1', 'https://github.com/acme/api/pull/1', 1, { repository: null }),
+];
+
+const NO_ISSUES = { criticalIssues: 0, highIssues: 0, mediumIssues: 0, lowIssues: 0, infoIssues: 0 };
+const PASSES = [
+  { id: 'p1', reviewId: 'r1', passType: 'security_performance', issuesFound: [{ severity: 'critical', category: 'security', title: 'SQL injection', line_start: 4, file_path: 'src/db.ts' }], recommendations: ['Use parameters'], ...NO_ISSUES, criticalIssues: 1 },
+  { id: 'p3', reviewId: 'r3', passType: 'syntax_logic', issuesFound: [{ severity: 'low', category: 'style', title: 'Long line' }], recommendations: [], ...NO_ISSUES, lowIssues: 1 },
+];
+const PLUGIN_FINDINGS = [
+  { id: 'f2', reviewId: 'r2', pluginName: 'Lint', message: 'No var', severity: 'warning', filePath: 'src/app.ts', line: 3 },
+];
+
+// Only the filters the queries under test use
+const inReviews = (where: any) => (row: any) => !where?.reviewId?.in || where.reviewId.in.includes(row.reviewId);
+const hasRelated = (review: any) => (filter: any) => filter.analysisPasses
+  ? PASSES.some((pass: any) => pass.reviewId === review.id
+    && Object.entries(filter.analysisPasses.some).every(([column, { gt }]: [string, any]) => pass[column] > gt))
+  : PLUGIN_FINDINGS.some(finding => finding.reviewId === review.id && finding.severity === filter.pluginFindings.some.severity);
+const matchesReview = (where: any = {}) => (row: any) =>
+  (where.repository === undefined || row.repository === where.repository)
+  && (!where.id?.in || where.id.in.includes(row.id))
+  && (!where.OR || where.OR.some(hasRelated(row)));
+
+const createPrisma = () => {
+  const reviews = REVIEWS.map(row => ({ ...row }));
+  return {
+    review: {
+      findMany: async ({ where, skip = 0, take }: any) => reviews.filter(matchesReview(where)).slice(skip, take === undefined ? undefined : skip + take),
+      count: async ({ where }: any = {}) => reviews.filter(matchesReview(where)).length,
+      updateMany: async ({ where, data }: any) => reviews.filter(matchesReview(where)).forEach(row => Object.assign(row, data)),
+      groupBy: async () => [...new Set(reviews.map(row => row.repository))].map(repository => ({ repository })),
+    },
+    analysisPass: {
+      findMany: async ({ where }: any) => PASSES.filter(inReviews(where)),
+      groupBy: async () => [...new Set(PASSES.map(pass => pass.reviewId))].map(reviewId => ({
+        reviewId,
+        _sum: PASSES.filter(pass => pass.reviewId === reviewId).reduce((sum: any, pass: any) =>
+          Object.fromEntries(Object.keys(NO_ISSUES).map(column => [column, sum[column] + pass[column]])), { ...NO_ISSUES }),
+      })),
+    },
+    pluginFinding: {
+      findMany: async ({ where }: any) => PLUGIN_FINDINGS.filter(inReviews(where)),
+    },
+    fileAnalysis: { findMany: async ({ where }: any) => [{ reviewId: 'r1', analysis: 'Adds a query helper' }].filter(inReviews(where)) },
+    chunkAnalysis: { groupBy: async () => [{ reviewId: 'r1', _sum: { sizeTokens: 120 } }] },
+  } as any;
+};
+
+describe('parseReviewListQuery', () => {
+  it('should apply defaults and cap the page size', () => {
+    expect(parseReviewListQuery({ pageSize: '500' }).value).toEqual({ page: 1, pageSize: 100 });
+  });
+
+  it('should make a date-only end of range include that day', () => {
+    const { value } = parseReviewListQuery({ from: '2026-10-01', to: '2026-10-02' });
+    expect(value?.from?.toISOString()).toBe('2026-10-01T00:00:00.000Z');
+    expect(value?.to?.toISOString()).toBe('2026-10-03T00:00:00.000Z');
+  });
+
+  it('should report every invalid parameter', () => {
+    expect(parseReviewListQuery({ page: '0', status: 'done', from: 'yesterday', repo: ['a', 'b'] }).errors).toEqual([
+      'repo: expected a single value',
+      'page: expected a whole number of at least 1, got "0"',
+      'status: expected one of completed, in-progress, failed, got "done"',
+      'from: expected a date (YYYY-MM-DD or ISO 8601), got "yesterday"',
+    ]);
+  });
+});
+
+describe('listReviews', () => {
+  it('should page reviews newest first', async () => {
+    const page = await listReviews(createPrisma(), { page: 2, pageSize: 2 });
+
+    expect(page).toMatchObject({ page: 2, pageSize: 2, total: 3, totalPages: 2 });
+    expect(page.reviews.map(r => r.id)).toEqual(['r1']);
+    expect(page.reviews[0]).toMatchObject({ filesAnalyzed: 1, linesOfCode: 120, qualityScore: 80, status: 'completed' });
+  });
+
+  it('should filter by repository name across code hosts once older reviews are filled in', async () => {
+    const prisma = createPrisma();
+    await backfillRepositories(prisma);
+
+    expect((await listReviews(prisma, { page: 1, pageSize: 20, repo: 'ACME/api' })).reviews.map(r => r.id)).toEqual(['r3', 'r1']);
+    expect((await listReviews(prisma, { page: 1, pageSize: 20, repo: 'acme/web' })).reviews.map(r => r.title)).toEqual(['MR !2']);
+  });
+
+  it('should keep reviews with a pass issue or plugin finding of the requested severity', async () => {
+    const page = await listReviews(createPrisma(), { page: 1, pageSize: 20, severity: 'critical' });
+
+    expect(page.total).toBe(1);
+    expect(page.reviews[0].findings).toEqual([expect.objectContaining({ severity: 'critical', file: 'src/db.ts', line: 4, type: 'Security Performance' })]);
+    expect((await listReviews(createPrisma(), { page: 1, pageSize: 20, severity: 'warning' })).reviews.map(r => r.id)).toEqual(['r2']);
+  });
+});
+
+describe('getSummaryStats', () => {
+  it('should total reviews, critical findings, scores and repositories from aggregates', async () => {
+    const prisma = createPrisma();
+    await backfillRepositories(prisma);
+
+    expect(await getSummaryStats(prisma)).toEqual({ totalReviews: 3, criticalFindings: 1, avgQualityScore: 93, activeRepos: 2 });
+  });
+
+  it('should only read the database', async () => {
+    const prisma = createPrisma();
+    prisma.review.updateMany = jest.fn();
+
+    await getSummaryStats(prisma);
+    await listReviews(prisma, { page: 1, pageSize: 20 });
+    expect(prisma.review.updateMany).not.toHaveBeenCalled();
+  });
+});
+
+describe('toApiReview', () => {
+  it('should report reviews without a completion time by their error', () => {
+    const base = { analysisPasses: [], pluginFindings: [], fileAnalyses: [], chunkTokens: 0 };
+    const failed = toApiReview({ ...review('r4', 'local:///work/app?base=main&head=feature', 4, { completedAt: null, error: 'LLM down' }), ...base });
+
+    expect(failed).toMatchObject({ status: 'failed', title: 'Local main...feature', repository: 'local/app' });
+    expect(failed.analysisPerformance.totalDuration).toBe('Unknown');
+  });
+});
+
+describe('getFileDiff', () => {
+  // A hunk split in two pieces that share the line `const b = 2;`
+  const chunks = [
+    {
+      chunkId: 'c1', startLine: 1, endLine: 2, diffContent: '@@ -1,1 +1,2 @@\n-const a = 0;\n+const a = 1;\n+const b = 2;',
+      analysisPasses: [{ id: 'p1', passType: 'syntax_logic', riskLevel: 'HIGH', issuesFound: [{ severity: 'high', title: 'Magic number', line_start: 2 }], chunk: { filePath: 'src/a.ts' } }],
+      pluginFindings: [{ id: 'f1', pluginName: 'Lint', message: 'No var', severity: 'warning', filePath: null, line: 1, chunk: { filePath: 'src/a.ts' } }],
+    },
+    {
+      chunkId: 'c2', startLine: 2, endLine: 3, diffContent: '@@ -1,0 +2,2 @@\n+const b = 2;\n+const c = 3;',
+      analysisPasses: [], pluginFindings: [],
+    },
+  ];
+  const diffPrisma = { chunkAnalysis: { findMany: async ({ where }: any) => (where.filePath === 'src/a.ts' ? chunks : []) } } as any;
+
+  it('should leave out lines an earlier chunk already showed', async () => {
+    const diff = await getFileDiff(diffPrisma, 'r1', 'src/a.ts');
+
+    expect(diff?.chunks.map(chunk => chunk.lines.map(line => line.content))).toEqual([
+      ['const a = 0;', 'const a = 1;', 'const b = 2;'],
+      ['const c = 3;'],
+    ]);
+    expect(diff?.chunks[0].riskLevel).toBe('HIGH');
+    expect(await getFileDiff(diffPrisma, 'r1', 'src/missing.ts')).toBeNull();
+  });
+
+  it('should place findings without a file of their own in the chunk file', async () => {
+    const diff = await getFileDiff(diffPrisma, 'r1', 'src/a.ts');
+
+    expect(diff?.chunks[0].findings.map(finding => [finding.file, finding.line])).toEqual([['src/a.ts', 1], ['src/a.ts', 2]]);
+  });
+});
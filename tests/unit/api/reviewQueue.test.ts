@@ -0,0 +1,96 @@
+/**
+ * Review Queue Tests
+ * Checks that reviews started from the web UI run one at a time and that watchers can catch up
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+
+jest.mock('chalk', () => require('../../mocks/chalkMock'));
+jest.mock('ora', () => jest.fn()); // ESM-only; the review handler is not run here
+
+import { ReviewJob, ReviewQueue } from '../../../src/api/reviewQueue';
+import { parseReviewRequest } from '../../../src/api/reviewRunner';
+import { DEFAULT_HIKMA_CONFIG } from '../../../src/config/hikmaConfig';
+import { ReviewEvent } from '../../../src/types/api';
+
+const job = (id: string): ReviewJob => ({ id, url: `https://github.com/acme/api/pull/${id}`, provider: 'ollama', llmUrl: 'http://localhost:11434', llmModel: 'qwen' });
+
+const tick = () => new Promise(resolve => setImmediate(resolve));
+
+describe('ReviewQueue', () => {
+  it('should run reviews one at a time in the order they were queued', async () => {
+    const started: string[] = [];
+    const finishers: (() => void)[] = [];
+    const queue = new ReviewQueue(queued => {
+      started.push(queued.id);
+      return new Promise<void>(resolve => finishers.push(resolve));
+    });
+
+    expect(queue.enqueue(job('1'))).toBe(1);
+    expect(queue.enqueue(job('2'))).toBe(1);
+    await tick();
+    expect(started).toEqual(['1']);
+    expect(queue.getSnapshot('2')).toEqual([{ type: 'status', status: 'queued', position: 1 }]);
+
+    finishers[0]();
+    await tick();
+    expect(started).toEqual(['1', '2']);
+    expect(queue.getSnapshot('1')).toEqual([{ type: 'status', status: 'completed' }]);
+  });
+
+  it('should stream events to watchers and replay the latest to late ones', async () => {
+    const received: ReviewEvent[] = [];
+    let finish = () => {};
+    const queue = new ReviewQueue((queued, emit) => {
+      emit({ type: 'status', status: 'running' });
+      emit({ type: 'node', node: 'filterFiles' });
+      emit({ type: 'token', token: { source: 'syntax_logic', file_path: 'src/a.ts', text: '{' } });
+      return new Promise<void>(resolve => { finish = resolve; });
+    });
+
+    const unsubscribe = queue.subscribe('1', event => received.push(event));
+    queue.enqueue(job('1'));
+    await tick();
+
+    expect(received.map(event => event.type)).toEqual(['status', 'status', 'node', 'token']);
+    expect(queue.getSnapshot('1')).toEqual([{ type: 'node', node: 'filterFiles' }, { type: 'status', status: 'running' }]);
+
+    unsubscribe();
+    finish();
+    await tick();
+    expect(received).toHaveLength(4);
+  });
+
+  it('should report reviews that fail before the workflow starts', async () => {
+    const queue = new ReviewQueue(async () => {
+      throw new Error('Pull request not found');
+    });
+
+    queue.enqueue(job('1'));
+    await tick();
+
+    expect(queue.getSnapshot('1')).toEqual([{ type: 'status', status: 'failed', error: 'Pull request not found' }]);
+    expect(queue.getSnapshot('unknown')).toBeUndefined();
+  });
+});
+
+describe('parseReviewRequest', () => {
+  it('should fill in the model from the configuration', () => {
+    const config = { ...DEFAULT_HIKMA_CONFIG, models: { default: { provider: 'ollama', url: 'http://localhost:11434', model: 'qwen' } } };
+    const { value } = parseReviewRequest({ url: 'https://github.com/acme/api/pull/7', model: 'llama3' }, config);
+
+    expect(value).toMatchObject({ url: 'https://github.com/acme/api/pull/7', provider: 'ollama', llmUrl: 'http://localhost:11434', llmModel: 'llama3' });
+  });
+
+  it('should report every invalid field', () => {
+    const { value, errors } = parseReviewRequest({ url: 'https://example.com/acme', provider: 'vllm', server: 'localhost:1234' }, DEFAULT_HIKMA_CONFIG);
+
+    expect(value).toBeUndefined();
+    expect(errors).toEqual([
+      'model: required',
+      'url: not a GitHub, GitLab or Bitbucket Server pull request URL, got "https://example.com/acme"',
+      'provider: expected one of ollama, lmstudio, openai, got "vllm"',
+      'server: expected an http(s) URL, got "localhost:1234"',
+    ]);
+  });
+});
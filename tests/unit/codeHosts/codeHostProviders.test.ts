@@ -0,0 +1,225 @@
+/**
+ * Code Host Provider Tests
+ * Exercises URL detection and the REST providers against a local mock HTTP server
+ */
+
+import { describe, it, expect, beforeAll, afterAll, jest } from '@jest/globals';
+import http from 'http';
+import { AddressInfo } from 'net';
+
+jest.mock('chalk', () => require('../../mocks/chalkMock'));
+jest.mock('octokit', () => ({ Octokit: jest.fn() }));
+
+import { parseReviewUrl, tryParseReviewUrl } from '../../../src/codeHosts/reviewUrl';
+import { createCodeHostProvider } from '../../../src/codeHosts/codeHostFactory';
+import { GitHubProvider } from '../../../src/codeHosts/githubProvider';
+import { GitLabProvider } from '../../../src/codeHosts/gitlabProvider';
+import { BitbucketServerProvider } from '../../../src/codeHosts/bitbucketServerProvider';
+import { findingMarker, SUMMARY_MARKER } from '../../../src/codeHosts/reviewMarkers';
+
+type Route = { status?: number; body: unknown };
+
+describe('Code host providers', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  const routes: Record<string, Route> = {};
+  const requests: http.IncomingMessage[] = [];
+  const bodies: { method: string; url: string; body: any }[] = [];
+
+  beforeAll(async () => {
+    server = http.createServer(async (req, res) => {
+      requests.push(req);
+      let raw = '';
+      for await (const chunk of req) raw += chunk;
+      if (raw) bodies.push({ method: req.method || '', url: req.url || '', body: JSON.parse(raw) });
+
+      // Write routes are keyed by method, reads by path alone
+      const route = routes[`${req.method} ${req.url}`] || routes[req.url || ''];
+      if (!route) {
+        res.writeHead(404, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ message: 'Not Found' }));
+        return;
+      }
+      const isText = typeof route.body === 'string';
+      res.writeHead(route.status || 200, { 'Content-Type': isText ? 'text/plain' : 'application/json' });
+      res.end(isText ? route.body as string : JSON.stringify(route.body));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  describe('URL detection', () => {
+    it('should detect GitHub, GitLab and Bitbucket Server URLs', () => {
+      expect(parseReviewUrl('https://github.com/owner/repo/pull/12')).toMatchObject({
+        host: 'github', owner: 'owner', repo: 'repo', number: 12
+      });
+      expect(parseReviewUrl('https://gitlab.example.com/group/sub/project/-/merge_requests/7')).toMatchObject({
+        host: 'gitlab', origin: 'https://gitlab.example.com', owner: 'group/sub', repo: 'project', number: 7
+      });
+      expect(parseReviewUrl('https://git.example.com/bitbucket/projects/PROJ/repos/api/pull-requests/3/overview')).toMatchObject({
+        host: 'bitbucket-server', origin: 'https://git.example.com/bitbucket', owner: 'PROJ', repo: 'api', number: 3
+      });
+    });
+
+    it('should reject unknown URLs', () => {
+      expect(tryParseReviewUrl('https://example.com/not/a/review')).toBeNull();
+      expect(() => parseReviewUrl('not a url')).toThrow('Unsupported review URL');
+    });
+
+    it('should pick the provider from the URL', () => {
+      expect(createCodeHostProvider({ url: 'https://github.com/o/r/pull/1' })).toBeInstanceOf(GitHubProvider);
+      expect(createCodeHostProvider({ url: 'https://gitlab.com/g/p/-/merge_requests/1' })).toBeInstanceOf(GitLabProvider);
+      expect(createCodeHostProvider({ url: 'https://bb.example.com/projects/P/repos/r/pull-requests/1' })).toBeInstanceOf(BitbucketServerProvider);
+    });
+  });
+
+  describe('GitLabProvider', () => {
+    const mrPath = '/api/v4/projects/group%2Fproject/merge_requests/5';
+
+    beforeAll(() => {
+      routes[mrPath] = {
+        body: {
+          title: 'Add caching', description: 'Speeds things up', state: 'opened',
+          author: { username: 'alice' }, source_branch: 'cache', target_branch: 'main', sha: 'abc123'
+        }
+      };
+      routes[`${mrPath}/diffs?per_page=100&page=1`] = {
+        body: [
+          { old_path: 'src/a.ts', new_path: 'src/a.ts', diff: '@@ -1 +1,2 @@\n-old\n+new\n+more\n', new_file: false, renamed_file: false, deleted_file: false },
+          { old_path: 'src/b.ts', new_path: 'src/b.ts', diff: '@@ -0,0 +1 @@\n+created\n', new_file: true, renamed_file: false, deleted_file: false }
+        ]
+      };
+      routes['/api/v4/projects/group%2Fproject/repository/files/src%2Fa.ts/raw?ref=abc123'] = { body: 'new\nmore\n' };
+    });
+
+    const provider = () => createCodeHostProvider({ url: `${baseUrl}/group/project/-/merge_requests/5` }, { token: 'secret' });
+
+    it('should map merge request details', async () => {
+      const details = await provider().getDetails();
+      expect(details).toMatchObject({
+        title: 'Add caching', author: 'alice', source_branch: 'cache', target_branch: 'main',
+        head_sha: 'abc123', additions: 3, deletions: 1
+      });
+      expect(requests[requests.length - 1].headers['private-token']).toBe('secret');
+    });
+
+    it('should build a git-format diff and file list', async () => {
+      const gitlab = provider();
+      expect(await gitlab.getChangedFiles()).toEqual(['src/a.ts', 'src/b.ts']);
+
+      const diff = await gitlab.getFullDiff();
+      expect(diff).toContain('diff --git a/src/a.ts b/src/a.ts\n--- a/src/a.ts\n+++ b/src/a.ts\n@@ -1 +1,2 @@');
+      expect(diff).toContain('new file mode 100644\n--- /dev/null\n+++ b/src/b.ts');
+    });
+
+    it('should fetch file contents and return null for missing files', async () => {
+      expect(await provider().getFileContent('src/a.ts', 'abc123')).toBe('new\nmore\n');
+      expect(await provider().getFileContent('src/missing.ts', 'abc123')).toBeNull();
+    });
+  });
+
+  describe('BitbucketServerProvider', () => {
+    const prPath = '/rest/api/1.0/projects/PROJ/repos/api/pull-requests/9';
+    const diff = 'diff --git a/app.js b/app.js\n--- a/app.js\n+++ b/app.js\n@@ -1 +1 @@\n-a\n+b\n';
+
+    beforeAll(() => {
+      routes[prPath] = {
+        body: {
+          title: 'Fix bug', description: null, state: 'OPEN', author: { user: { name: 'bob' } },
+          fromRef: { displayId: 'fix', latestCommit: 'def456' }, toRef: { displayId: 'develop' }
+        }
+      };
+      routes[`${prPath}.diff`] = { body: diff };
+      routes[`${prPath}/changes?start=0&limit=100`] = {
+        body: { values: [{ path: { toString: 'app.js' } }], isLastPage: false, nextPageStart: 1 }
+      };
+      routes[`${prPath}/changes?start=1&limit=100`] = {
+        body: { values: [{ path: { toString: 'lib/util.js' } }], isLastPage: true }
+      };
+    });
+
+    const provider = () => createCodeHostProvider({ url: `${baseUrl}/projects/PROJ/repos/api/pull-requests/9` });
+
+    it('should map pull request details', async () => {
+      expect(await provider().getDetails()).toMatchObject({
+        title: 'Fix bug', body: null, author: 'bob', source_branch: 'fix', target_branch: 'develop',
+        head_sha: 'def456', additions: 1, deletions: 1
+      });
+    });
+
+    it('should follow change pagination and return the raw diff', async () => {
+      expect(await provider().getChangedFiles()).toEqual(['app.js', 'lib/util.js']);
+      expect(await provider().getFullDiff()).toBe(diff);
+    });
+  });
+
+  describe('GitHubProvider (REST)', () => {
+    beforeAll(() => {
+      routes['/repos/owner/repo/pulls/4'] = {
+        body: {
+          title: 'Refactor', body: 'Cleanup', state: 'open', user: { login: 'carol' }, additions: 10, deletions: 2,
+          head: { ref: 'refactor', sha: 'fff000' }, base: { ref: 'main' }
+        }
+      };
+      routes['/repos/owner/repo/pulls/4/files?per_page=100&page=1'] = { body: [{ filename: 'index.ts' }] };
+    });
+
+    const provider = () => createCodeHostProvider(
+      { url: 'https://github.com/owner/repo/pull/4' },
+      { githubMethod: 'sdk', apiBaseUrl: baseUrl, token: 'gh-token' }
+    );
+
+    it('should map pull request details and files', async () => {
+      const github = provider();
+      expect(await github.getDetails()).toMatchObject({
+        title: 'Refactor', author: 'carol', additions: 10, deletions: 2,
+        source_branch: 'refactor', target_branch: 'main', head_sha: 'fff000'
+      });
+      expect(requests[requests.length - 1].headers.authorization).toBe('Bearer gh-token');
+      expect(await github.getChangedFiles()).toEqual(['index.ts']);
+    });
+
+    it('should publish a review and update earlier comments on re-publish', async () => {
+      const pull = '/repos/owner/repo/pulls/4';
+      routes[`${pull}/comments?per_page=100&page=1`] = {
+        body: [
+          { id: 11, body: `old text\n\n${findingMarker('aaaa')}` },
+          { id: 12, body: 'A human comment' }
+        ]
+      };
+      routes[`${pull}/reviews?per_page=100&page=1`] = {
+        body: [{ id: 21, body: `Old summary\n\n${SUMMARY_MARKER}`, state: 'CHANGES_REQUESTED', html_url: 'https://github.com/r/21' }]
+      };
+      routes['PATCH /repos/owner/repo/pulls/comments/11'] = { body: {} };
+      routes[`PUT ${pull}/reviews/21`] = { body: {} };
+      routes[`POST ${pull}/reviews`] = { body: { html_url: 'https://github.com/r/22' } };
+      bodies.length = 0;
+
+      const result = await provider().publishReview!({
+        body: `New summary\n\n${SUMMARY_MARKER}`,
+        event: 'REQUEST_CHANGES',
+        commitSha: 'fff000',
+        comments: [
+          { fingerprint: 'aaaa', path: 'index.ts', line: 3, body: `updated\n\n${findingMarker('aaaa')}` },
+          { fingerprint: 'bbbb', path: 'index.ts', line: 9, body: `fresh\n\n${findingMarker('bbbb')}` }
+        ]
+      });
+
+      expect(result).toEqual({ created: 1, updated: 1, summaryUpdated: true, url: 'https://github.com/r/22' });
+      expect(bodies.map(request => `${request.method} ${request.url}`)).toEqual([
+        'PATCH /repos/owner/repo/pulls/comments/11',
+        `PUT ${pull}/reviews/21`,
+        `POST ${pull}/reviews`
+      ]);
+
+      const posted = bodies[2].body;
+      expect(posted).toMatchObject({ commit_id: 'fff000', event: 'REQUEST_CHANGES' });
+      expect(posted.comments).toEqual([{ path: 'index.ts', line: 9, side: 'RIGHT', body: `fresh\n\n${findingMarker('bbbb')}` }]);
+      expect(posted.body).not.toContain(SUMMARY_MARKER);
+    });
+  });
+});
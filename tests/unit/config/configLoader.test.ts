@@ -0,0 +1,186 @@
+/**
+ * Config Loader Tests
+ * Checks .hikmapr.yml validation and the precedence of configuration layers
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+jest.mock('chalk', () => require('../../mocks/chalkMock'));
+
+import { loadConfiguration, toAnalysisConfig } from '../../../src/config/configLoader';
+import { DEFAULT_HIKMA_CONFIG, validateHikmaConfig, validateIntegerFlag } from '../../../src/config/hikmaConfig';
+
+describe('validateHikmaConfig', () => {
+  it('should accept an empty file', () => {
+    expect(validateHikmaConfig(null)).toEqual({ value: {}, errors: [] });
+  });
+
+  it('should report every invalid key with its path', () => {
+    const { errors } = validateHikmaConfig({
+      language: 'cobol',
+      chunking: { strategy: 'ast', max_tokens: 'many' },
+      passes: { enabled: ['syntax_logic', 'Style'] },
+      models: { security_performance: { provider: 'acme' }, synthesis: { context_window: 512 } },
+      thresholds: { min_severity: 'high' },
+    });
+
+    expect(errors).toEqual([
+      expect.stringMatching(/^language: expected one of .*, got "cobol"$/),
+      expect.stringMatching(/^chunking\.strategy: expected one of syntax, lines, got "ast"$/),
+      expect.stringMatching(/^chunking\.max_tokens: expected a whole number/),
+      expect.stringMatching(/^passes\.enabled\[1\]: expected a pass id of lowercase letters, digits, _ and -, got "Style"$/),
+      expect.stringMatching(/^models\.security_performance\.provider: expected one of ollama, lmstudio, openai/),
+      'models.synthesis.context_window: expected a whole number of at least 1024, got number 512',
+      expect.stringMatching(/^thresholds\.min_severity: unknown key \(expected one of min_issue_severity, min_plugin_severity\)$/),
+    ]);
+  });
+
+  it('should validate gate policies, with plugin limits keyed by plugin id', () => {
+    const { value, errors } = validateHikmaConfig({
+      gate: {
+        fail_on_risk: null,
+        fail_on_decision: ['REJECT', 'REQUEST_CHANGES'],
+        max_issues: { high: 0, medium: -1 },
+        max_plugin_findings: { 'security-analyzer': { max: 3 }, 'code-smell': { severity: 'fatal', max: 1 } },
+      },
+    });
+
+    expect(errors).toEqual([
+      expect.stringMatching(/^gate\.max_issues\.medium: expected a whole number of at least 0, got number -1$/),
+      expect.stringMatching(/^gate\.max_plugin_findings\.code-smell\.severity: expected one of info, warning, error, got "fatal"$/),
+    ]);
+    expect(value.gate).toEqual({
+      fail_on_risk: null,
+      fail_on_decision: ['REJECT', 'REQUEST_CHANGES'],
+      max_issues: { high: 0 },
+      max_plugin_findings: { 'security-analyzer': { severity: 'error', max: 3 } },
+    });
+  });
+
+  it('should reject a config that disables every pass', () => {
+    expect(validateHikmaConfig({ passes: { enabled: [] } }).errors).toEqual(['passes.enabled: at least one pass must be enabled']);
+  });
+});
+
+describe('validateIntegerFlag', () => {
+  it('should check a flag like the config file setting and name the flag', () => {
+    expect(validateIntegerFlag('3', '--concurrency')).toEqual({ value: 3, errors: [] });
+    expect(validateIntegerFlag('abc', '--concurrency').errors).toEqual(['--concurrency: expected a whole number of at least 1, got "abc"']);
+    expect(validateIntegerFlag('-3', '--concurrency').errors).toEqual(['--concurrency: expected a whole number of at least 1, got number -3']);
+    expect(validateIntegerFlag('2.5', '--concurrency').value).toBeUndefined();
+  });
+});
+
+describe('loadConfiguration', () => {
+  let repoPath: string;
+
+  beforeEach(() => {
+    repoPath = fs.mkdtempSync(path.join(os.tmpdir(), 'hikma-config-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(repoPath, { recursive: true, force: true });
+  });
+
+  it('should layer the repository file, --config file and flags over the defaults', () => {
+    fs.writeFileSync(path.join(repoPath, '.hikmapr.yml'), [
+      'files:',
+      '  exclude: ["src/generated/**"]',
+      'models:',
+      '  default: { provider: lmstudio, url: "http://localhost:1234", model: small }',
+      'thresholds:',
+      '  min_issue_severity: medium',
+    ].join('\n'));
+    const explicit = path.join(repoPath, 'ci.yml');
+    fs.writeFileSync(explicit, 'thresholds:\n  min_issue_severity: high\n');
+
+    const { config, sources } = loadConfiguration({
+      repoPath,
+      configPath: explicit,
+      overrides: { models: { default: { model: 'large', url: undefined } } },
+    });
+
+    expect(config.models.default).toEqual({ provider: 'lmstudio', url: 'http://localhost:1234', model: 'large' });
+    expect(config.thresholds).toEqual({ min_issue_severity: 'high', min_plugin_severity: 'info' });
+    expect(config.files).toEqual({ include: [], exclude: ['src/generated/**'], exclude_generated: true });
+    expect(config.passes).toEqual(DEFAULT_HIKMA_CONFIG.passes);
+    expect(sources.map(source => source.name)).toEqual(expect.arrayContaining(['defaults', 'repository', '--config', 'command line']));
+  });
+
+  it('should name the file when it is invalid', () => {
+    fs.writeFileSync(path.join(repoPath, '.hikmapr.yml'), 'github:\n  method: api\n');
+
+    expect(() => loadConfiguration({ repoPath })).toThrow(
+      `Invalid configuration file ${path.join(repoPath, '.hikmapr.yml')}:\n  - github.method: expected one of cli, sdk, got "api"`
+    );
+  });
+
+  it('should map per-pass models over the default model', () => {
+    const { config } = loadConfiguration({
+      repoPath,
+      overrides: { models: { default: { provider: 'ollama', url: 'http://localhost:11434', model: 'small' }, security_performance: { model: 'large' } } },
+    });
+
+    expect(toAnalysisConfig(config).passes?.map(pass => [pass.id, pass.model])).toEqual([
+      ['syntax_logic', undefined],
+      ['security_performance', { provider: 'ollama', url: 'http://localhost:11434', model: 'large' }],
+      ['architecture_design', undefined],
+      ['testing_docs', undefined],
+    ]);
+  });
+
+  it('should route file and final synthesis to their own models', () => {
+    const { config } = loadConfiguration({
+      repoPath,
+      overrides: { models: { default: { provider: 'ollama', url: 'http://localhost:11434', model: 'small' }, synthesis: { provider: 'openai', url: 'https://api.openai.com/v1', model: 'large' } } },
+    });
+
+    // File synthesis has no model of its own and keeps using the default one
+    expect(toAnalysisConfig(config).synthesisModels).toEqual({
+      synthesis: { provider: 'openai', url: 'https://api.openai.com/v1', model: 'large' },
+    });
+  });
+
+  it('should only carry the default context window over to steps that keep the default model', () => {
+    const { config } = loadConfiguration({
+      repoPath,
+      overrides: {
+        models: {
+          default: { provider: 'ollama', url: 'http://localhost:11434', model: 'small', context_window: 4096 },
+          file_synthesis: { url: 'http://gpu:11434' },
+          synthesis: { provider: 'openai', url: 'https://api.openai.com/v1', model: 'gpt-4o' },
+        },
+      },
+    });
+
+    expect(toAnalysisConfig(config).synthesisModels).toEqual({
+      file_synthesis: { provider: 'ollama', url: 'http://gpu:11434', model: 'small', context_window: 4096 },
+      synthesis: { provider: 'openai', url: 'https://api.openai.com/v1', model: 'gpt-4o' },
+    });
+  });
+
+  it('should resolve passes defined in one layer and enabled in another', () => {
+    fs.writeFileSync(path.join(repoPath, '.hikmapr.yml'), [
+      'passes:',
+      '  definitions:',
+      '    accessibility:',
+      '      template: "ANALYZE: Accessibility\\n{diff_chunk}"',
+      '      files: ["src/**/*.tsx"]',
+      '    testing_docs:',
+      '      enabled: false',
+    ].join('\n'));
+
+    const { config } = loadConfiguration({ repoPath, overrides: { passes: { enabled: ['accessibility', 'syntax_logic', 'testing_docs'] } } });
+    expect(toAnalysisConfig(config).passes?.map(pass => [pass.id, pass.files])).toEqual([
+      ['accessibility', ['src/**/*.tsx']],
+      ['syntax_logic', []],
+    ]);
+
+    expect(() => loadConfiguration({ repoPath, overrides: { passes: { enabled: ['i18n'] } } })).toThrow(
+      'Invalid configuration: passes.enabled: unknown pass "i18n" (expected one of syntax_logic, security_performance, architecture_design, testing_docs, accessibility)'
+    );
+  });
+});
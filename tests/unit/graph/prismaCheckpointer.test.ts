@@ -0,0 +1,113 @@
+/**
+ * Prisma Checkpointer Tests
+ * Runs a small graph against an in-memory table and resumes it after a failure
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { StateGraph, END } from '@langchain/langgraph';
+import { PrismaCheckpointSaver } from '../../../src/graph/prismaCheckpointer';
+
+// Just enough of a Prisma delegate for the checkpointer: equality, notIn and lt filters
+const createTable = (keyFields: string[]) => {
+  const rows = new Map<string, any>();
+  const keyOf = (row: any) => JSON.stringify(keyFields.map(field => row[field]));
+  const matches = (row: any, where: any = {}) => Object.entries(where).every(([field, condition]: [string, any]) => {
+    if (condition === undefined) return true;
+    if (condition && typeof condition === 'object' && 'notIn' in condition) return !condition.notIn.includes(row[field]);
+    if (condition && typeof condition === 'object' && 'lt' in condition) return row[field] < condition.lt;
+    return row[field] === condition;
+  });
+  const sorted = (where: any, orderBy: any) => {
+    const [[field, direction]] = Object.entries([orderBy].flat()[0] || { [keyFields[0]]: 'asc' });
+    return [...rows.values()]
+      .filter(row => matches(row, where))
+      .sort((a, b) => (a[field] < b[field] ? -1 : a[field] > b[field] ? 1 : 0) * (direction === 'desc' ? -1 : 1));
+  };
+
+  return {
+    rows,
+    findUnique: async ({ where }: any) => rows.get(keyOf(Object.values(where)[0])) || null,
+    findFirst: async ({ where, orderBy }: any) => sorted(where, orderBy)[0] || null,
+    findMany: async ({ where, orderBy }: any) => sorted(where, orderBy),
+    upsert: async ({ where, create, update }: any) => {
+      const key = keyOf(Object.values(where)[0]);
+      rows.set(key, rows.has(key) ? { ...rows.get(key), ...update } : { checkpointNs: '', ...create });
+      return rows.get(key);
+    },
+    deleteMany: async ({ where }: any) => {
+      const doomed = [...rows.entries()].filter(([, row]) => matches(row, where));
+      doomed.forEach(([key]) => rows.delete(key));
+      return { count: doomed.length };
+    },
+  };
+};
+
+const createPrisma = () => ({
+  workflowCheckpoint: createTable(['threadId', 'checkpointNs', 'checkpointId']),
+  workflowCheckpointWrite: createTable(['threadId', 'checkpointNs', 'checkpointId', 'taskId', 'idx']),
+}) as any;
+
+interface CountState {
+  steps: string[];
+  chunks_to_process: number[];
+}
+
+const buildGraph = (prisma: any, failOnChunk?: number) => {
+  const graph = new StateGraph<CountState>({
+    channels: {
+      steps: { value: (x: string[], y: string[]) => [...x, ...y], default: () => [] },
+      chunks_to_process: { value: (x: number[], y: number[]) => y, default: () => [] },
+    }
+  });
+
+  graph.addNode('setup', async () => ({ steps: ['setup'], chunks_to_process: [1, 2, 3] }));
+  graph.addNode('analyze', async (state: CountState) => {
+    const [chunk, ...rest] = state.chunks_to_process;
+    if (chunk === failOnChunk) throw new Error(`LLM server went away at chunk ${chunk}`);
+    return { steps: [`chunk ${chunk}`], chunks_to_process: rest };
+  });
+
+  (graph as any).setEntryPoint('setup');
+  (graph as any).addEdge('setup', 'analyze');
+  (graph as any).addConditionalEdges('analyze', (state: CountState) => state.chunks_to_process.length > 0 ? 'analyze' : END);
+
+  return graph.compile({ checkpointer: new PrismaCheckpointSaver(prisma) });
+};
+
+describe('PrismaCheckpointSaver', () => {
+  it('should resume an interrupted run at the chunk where it stopped', async () => {
+    const prisma = createPrisma();
+    const config = { configurable: { thread_id: 'review-1' } };
+
+    await expect((async () => {
+      for await (const _ of await buildGraph(prisma, 2).stream({}, config)) { /* run until the failure */ }
+    })()).rejects.toThrow('chunk 2');
+
+    const interrupted = await buildGraph(prisma).getState(config);
+    expect(interrupted.next).toEqual(['analyze']);
+    expect(interrupted.values.chunks_to_process).toEqual([2, 3]);
+
+    // A fresh process: new graph and saver over the same database
+    const resumed = buildGraph(prisma);
+    for await (const _ of await resumed.stream(null, config)) { /* run to the end */ }
+
+    const finished = await resumed.getState(config);
+    expect(finished.next).toEqual([]);
+    expect(finished.values.steps).toEqual(['setup', 'chunk 1', 'chunk 2', 'chunk 3']);
+  });
+
+  it('should keep only the latest checkpoint of a thread and its parent', async () => {
+    const prisma = createPrisma();
+    const app = buildGraph(prisma);
+    const config = { configurable: { thread_id: 'review-2' } };
+
+    await app.invoke({}, config);
+
+    const stored = [...prisma.workflowCheckpoint.rows.values()];
+    expect(stored).toHaveLength(2);
+
+    const latest = await app.getState(config);
+    expect(stored.map((row: any) => row.checkpointId)).toContain(latest.config.configurable?.checkpoint_id);
+    expect(latest.values.steps).toHaveLength(4);
+  });
+});
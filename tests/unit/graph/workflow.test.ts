@@ -0,0 +1,37 @@
+/**
+ * Workflow Tests
+ * Checks that one process can set up the review workflow for one review after another
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+
+jest.mock('chalk', () => require('../../mocks/chalkMock'));
+
+import { getAppWithConfig } from '../../../src/graph/workflow';
+import { toAnalysisConfig } from '../../../src/config/configLoader';
+import { DEFAULT_HIKMA_CONFIG } from '../../../src/config/hikmaConfig';
+
+// A review database without checkpoints; records which client the workflow reads from
+const createPrisma = (reads: string[], name: string) => ({
+  workflowCheckpoint: {
+    findFirst: async () => { reads.push(name); return null; },
+    findUnique: async () => { reads.push(name); return null; },
+  },
+}) as any;
+
+const modelInfo = { provider: 'ollama', providerUrl: 'http://localhost:11434', modelName: 'qwen', contextWindow: 8192 };
+
+describe('getAppWithConfig', () => {
+  it('should set up the workflow for reviews run one after another in the same process', async () => {
+    const reads: string[] = [];
+
+    for (const name of ['first', 'second']) {
+      const { app, config } = getAppWithConfig({ ...toAnalysisConfig(DEFAULT_HIKMA_CONFIG), modelInfo, prisma: createPrisma(reads, name) });
+      const snapshot = await app.getState({ configurable: { thread_id: `review-${name}` }, ...config });
+      expect(snapshot.values).toEqual({});
+    }
+
+    // Each review checkpoints in the database client its caller handed in
+    expect([...new Set(reads)]).toEqual(['first', 'second']);
+  });
+});
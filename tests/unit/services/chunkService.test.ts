@@ -0,0 +1,157 @@
+/**
+ * Chunk Service Tests
+ * Verifies that chunks carry real file line numbers for plugins, and follow
+ * declarations when chunked by syntax
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import { spawnSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+jest.mock('chalk', () => require('../../mocks/chalkMock'));
+jest.mock('octokit', () => ({ Octokit: jest.fn() }));
+
+import { ChunkService } from '../../../src/services/chunkService';
+import { getExpandedLines, parseUnifiedDiff } from '../../../src/services/diffParser';
+import { getTokenizer } from '../../../src/services/tokenizer';
+
+const fileDiff = [
+  'diff --git a/src/app.ts b/src/app.ts',
+  '--- a/src/app.ts',
+  '+++ b/src/app.ts',
+  '@@ -20,3 +20,3 @@ class App {',
+  '   start() {',
+  '-    init();',
+  '+    init(config);',
+  '   }',
+].join('\n');
+
+describe('ChunkService', () => {
+  it('should attach new-file line numbers to a single-chunk diff', async () => {
+    const [chunk] = await new ChunkService({ max_chunk_tokens: 1000 }).chunkFileDiff('src/app.ts', fileDiff);
+
+    expect(chunk.diff_lines).toEqual([
+      { type: 'context', content: '  start() {', oldLine: 20, newLine: 20 },
+      { type: 'deletion', content: '    init();', oldLine: 21, newLine: undefined },
+      { type: 'addition', content: '    init(config);', oldLine: undefined, newLine: 21 },
+      { type: 'context', content: '  }', oldLine: 22, newLine: 22 },
+    ]);
+  });
+
+  it('should give every piece of a split hunk its own line numbers and header', async () => {
+    const added = Array.from({ length: 120 }, (_, i) => `+const value${i} = ${i}; // padding to make the hunk large`);
+    const diff = ['@@ -1,0 +100,120 @@', ...added].join('\n');
+
+    const chunks = await new ChunkService({ max_chunk_tokens: 400 }).chunkFileDiff('src/big.ts', diff);
+    expect(chunks.length).toBeGreaterThan(1);
+
+    for (const chunk of chunks) {
+      const firstLine = chunk.diff_lines![0];
+      expect(chunk.start_line).toBe(firstLine.newLine);
+      expect(firstLine.content).toBe(`const value${firstLine.newLine! - 100} = ${firstLine.newLine! - 100}; // padding to make the hunk large`);
+
+      // The chunk's own diff text resolves to the same lines
+      const parsed = parseUnifiedDiff(chunk.diff_content).filter(line => line.type === 'addition');
+      expect(parsed.map(line => line.newLine)).toEqual(chunk.diff_lines!.map(line => line.newLine));
+    }
+  });
+
+  it('should keep every piece within the budget of the analysis models', async () => {
+    const tokenizer = getTokenizer('gpt-4');
+    const added = Array.from({ length: 60 }, (_, i) => `+const value${i} = ${i}; // padding to make the hunk large`);
+    const diff = ['@@ -1,0 +1,60 @@', ...added].join('\n');
+
+    const chunks = await new ChunkService({ max_chunk_tokens: 4000 }, { tokenizer, maxTokens: 150 }).chunkFileDiff('src/big.ts', diff);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.size_tokens).toBe(tokenizer.count(chunk.diff_content));
+      expect(chunk.size_tokens).toBeLessThanOrEqual(150);
+    }
+    // Pieces overlap, and together cover every line
+    expect(chunks[chunks.length - 1].end_line).toBe(60);
+    expect(chunks[1].start_line).toBeLessThan(chunks[0].end_line! + 1);
+  });
+});
+
+describe('ChunkService syntax strategy', () => {
+  const steps = (count: number, changed: number[] = []) =>
+    Array.from({ length: count }, (_, i) => `    step${i}(user${changed.includes(i) ? ', true' : ''});`);
+
+  const source = (changed: number[], helperBody: string) => [
+    "import { Repo } from './repo';",
+    '',
+    'export class UserService {',
+    '  constructor(private repo: Repo) {}',
+    '',
+    '  async save(user: User): Promise<void> {',
+    ...steps(12, changed),
+    '  }',
+    '}',
+    '',
+    ...Array.from({ length: 8 }, (_, i) => `export const constant${i} = ${i};`),
+    '',
+    'export function helper(): number {',
+    '  const base = 1;',
+    `  return ${helperBody};`,
+    '}',
+    ''
+  ].join('\n');
+
+  const before = source([], 'base');
+  const head = source([0, 11], 'base + 1');
+
+  // A real unified diff of the two versions, as git produces it
+  const gitDiff = (oldContent: string, newContent: string) => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'hikma-chunks-'));
+    fs.writeFileSync(path.join(dir, 'old.ts'), oldContent);
+    fs.writeFileSync(path.join(dir, 'new.ts'), newContent);
+    const diff = spawnSync('git', ['diff', '--no-index', 'old.ts', 'new.ts'], { cwd: dir }).stdout.toString();
+    fs.rmSync(dir, { recursive: true, force: true });
+    return diff;
+  };
+  const diff = gitDiff(before, head);
+
+  it('should grow hunks to the declarations they change and merge hunks of the same declaration', async () => {
+    const service = new ChunkService({ max_chunk_tokens: 160, chunk_strategy: 'syntax' });
+    expect(service.usesSyntax('src/users.ts')).toBe(true);
+
+    const chunks = await service.chunkFileDiffBySyntax('src/users.ts', diff, head);
+
+    // Two hunks in save() share a chunk; the hunk in helper() gets its own
+    expect(chunks.map(chunk => [chunk.start_line, chunk.end_line])).toEqual([[6, 19], [31, 34]]);
+    expect(chunks[0].context_before).toBe('Enclosing symbols:\nclass UserService');
+    expect(chunks[1].context_before).toBeUndefined();
+
+    // The unchanged lines between the hunks are context with both line numbers, marked as not in the PR's diff
+    const between = chunks[0].diff_lines!.find(line => line.newLine === 12)!;
+    expect(between).toEqual({ type: 'context', content: '    step5(user);', oldLine: 12, newLine: 12, expanded: true });
+    expect(chunks[1].diff_lines![0]).toEqual({ type: 'context', content: 'export function helper(): number {', oldLine: 31, newLine: 31 });
+    expect(getExpandedLines(chunks[0].diff_lines!)).toContain(12);
+    expect(getExpandedLines(chunks[0].diff_lines!)).not.toContain(7);
+
+    // The chunk's diff text resolves to the same lines
+    const parsed = parseUnifiedDiff(chunks[0].diff_content).filter(line => line.type !== 'hunk');
+    expect(parsed.map(line => line.newLine)).toEqual(chunks[0].diff_lines!.map(line => line.newLine));
+    expect(parsed.map(line => line.oldLine)).toEqual(chunks[0].diff_lines!.map(line => line.oldLine));
+  });
+
+  it('should keep the whole file in one chunk when it fits', async () => {
+    const chunks = await new ChunkService({ max_chunk_tokens: 4000 }).chunkFileDiffBySyntax('src/users.ts', diff, head);
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0]).toMatchObject({ start_line: 6, end_line: 34, is_complete_file: true });
+  });
+
+  it('should split by lines when the head version is missing or does not parse', async () => {
+    const service = new ChunkService({ max_chunk_tokens: 160 });
+    const byLines = (await service.chunkFileDiff('src/users.ts', diff)).map(chunk => chunk.diff_content);
+
+    expect((await service.chunkFileDiffBySyntax('src/users.ts', diff, null)).map(chunk => chunk.diff_content)).toEqual(byLines);
+    expect((await service.chunkFileDiffBySyntax('src/users.ts', diff, 'class {')).map(chunk => chunk.diff_content)).toEqual(byLines);
+    expect(new ChunkService({ chunk_strategy: 'lines' }).usesSyntax('src/users.ts')).toBe(false);
+    expect(service.usesSyntax('docs/users.md')).toBe(false);
+  });
+});
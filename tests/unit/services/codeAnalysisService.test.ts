@@ -3,6 +3,10 @@
  */
 
 import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { CodeAnalysisService } from '../../../src/services/codeAnalysisService';
 
 describe('CodeAnalysisService', () => {
   let mockService: any;
@@ -30,3 +34,59 @@ describe('CodeAnalysisService', () => {
     await expect(mockService.analyzeCode('invalid')).rejects.toThrow('Error');
   });
 });
+
+describe('CodeAnalysisService semantic chunks', () => {
+  const source = [
+    "import { Repo } from './repo';",
+    '',
+    'export interface User {',
+    '  id: string;',
+    '}',
+    '',
+    '/** Stores users */',
+    'export class UserService {',
+    '  constructor(private repo: Repo) {}',
+    '',
+    '  save(user: User) {',
+    '    return this.repo.save(user);',
+    '  }',
+    '}',
+    '',
+    'export const format = (user: User) => {',
+    "  const label = '}';",
+    '  return label + user.id;',
+    '};',
+    '',
+    'export function main() {',
+    "  return new UserService(new Repo()).save({ id: format({ id: '1' }) });",
+    '}',
+    ''
+  ].join('\n');
+
+  it('should split on top-level functions and classes with the code between them as module chunks', async () => {
+    const repoPath = fs.mkdtempSync(path.join(os.tmpdir(), 'hikma-semantic-'));
+    fs.writeFileSync(path.join(repoPath, 'users.ts'), source);
+    const service = new CodeAnalysisService();
+
+    const analysis = await service.performSemanticAnalysis(['users.ts'], repoPath);
+    const chunks = await service.createSemanticChunks(['users.ts'], analysis, repoPath);
+
+    expect(analysis.functionSignatures.find(f => f.name === 'UserService.save')).toMatchObject({ lineNumber: 11, endLine: 13 });
+    expect(chunks.map(chunk => chunk.semanticBoundaries[0])).toEqual([
+      { type: 'module', name: 'users.ts', startLine: 1, endLine: 5 },
+      { type: 'class', name: 'UserService', startLine: 7, endLine: 14 },
+      { type: 'function', name: 'format', startLine: 16, endLine: 19 },
+      { type: 'function', name: 'main', startLine: 21, endLine: 23 }
+    ]);
+    expect(chunks[1].content.startsWith('/** Stores users */')).toBe(true);
+    expect(chunks[1].relatedTypes).toEqual(['User']);
+    expect(chunks[3].relatedTypes).toEqual(['UserService']);
+    expect(chunks[3].crossReferences).toEqual([
+      { target: 'UserService.save', type: 'function', file: 'users.ts', lineNumber: 22 },
+      { target: 'UserService', type: 'type', file: 'users.ts', lineNumber: 22 },
+      { target: 'format', type: 'function', file: 'users.ts', lineNumber: 22 }
+    ]);
+
+    fs.rmSync(repoPath, { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Context Budget Tests
+ * Checks token counting per model family and how prompts are fitted to a context window
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+
+jest.mock('chalk', () => require('../../mocks/chalkMock'));
+
+import { ContextBudget, ContextBudgetLog, resolveContextWindow } from '../../../src/services/contextBudget';
+import { getTokenizer } from '../../../src/services/tokenizer';
+import { PromptBuilder } from '../../../src/prompts/templates';
+
+const code = Array.from({ length: 40 }, (_, i) => `const value${i} = compute(${i}, 'label-${i}');`).join('\n');
+
+describe('tokenizer', () => {
+  it('should count OpenAI models exactly and estimate local families on the safe side', () => {
+    const gpt = getTokenizer('gpt-4o-mini');
+    const mistral = getTokenizer('mistral:7b-instruct');
+
+    expect(gpt).toMatchObject({ name: 'o200k_base', exact: true });
+    expect(getTokenizer('gpt-4').name).toBe('cl100k_base');
+    expect(getTokenizer('Qwen/Qwen2.5-Coder-14B').name).toBe('cl100k_base x1.05 (qwen)');
+    expect(mistral.exact).toBe(false);
+    expect(mistral.count(code)).toBeGreaterThan(getTokenizer('gpt-4').count(code));
+  });
+
+  it('should count special-token text as plain text', () => {
+    expect(getTokenizer('gpt-4').count('<|endoftext|>')).toBeGreaterThan(1);
+  });
+
+  it('should truncate to whole lines within the limit', () => {
+    const tokenizer = getTokenizer('qwen2.5-coder:14b');
+    const kept = tokenizer.truncate(code, 100);
+
+    expect(tokenizer.count(kept)).toBeLessThanOrEqual(100);
+    expect(code.startsWith(`${kept}\n`)).toBe(true);
+  });
+});
+
+describe('ContextBudget', () => {
+  it('should use the configured window, the local server default or the known window of the model', () => {
+    expect(resolveContextWindow({ provider: 'ollama', model: 'qwen2.5-coder:14b', contextWindow: 16384 })).toBe(16384);
+    expect(resolveContextWindow({ provider: 'ollama', model: 'qwen2.5-coder:14b' })).toBe(4096);
+    expect(resolveContextWindow({ provider: 'openai', model: 'gpt-4o-mini' })).toBe(128000);
+    expect(resolveContextWindow({ provider: 'openai', model: 'some-finetune' })).toBe(8192);
+  });
+
+  it('should fill a prompt unchanged when the text fits', () => {
+    const budget = new ContextBudget({ provider: 'openai', model: 'gpt-4o' });
+
+    expect(budget.fill('DIFF:\n{diff}\nEND', '{diff}', 'a $& b', { step: 'syntax_logic', subject: 'the diff', replyTokens: 1024 }))
+      .toBe('DIFF:\na $& b\nEND');
+  });
+
+  it('should cut the text to the room the prompt and reply leave, and record the drop', () => {
+    const log = new ContextBudgetLog();
+    const budget = new ContextBudget({ provider: 'ollama', model: 'qwen2.5-coder:14b', contextWindow: 1200 }, log);
+    const target = { budget, step: 'synthesis', replyTokens: 300 };
+
+    const prompt = PromptBuilder.buildSynthesisPrompt('Add parser', 'author', 3, 5, code.repeat(10), target);
+
+    expect(budget.tokenizer.count(prompt)).toBeLessThanOrEqual(budget.promptLimit(300));
+    expect(prompt).toContain('[... truncated to fit the context window]');
+    const [drop] = log.getDrops();
+    expect(drop).toMatchObject({ step: 'synthesis', subject: 'the file analyses', model: 'qwen2.5-coder:14b' });
+    expect(drop.keptTokens + drop.droppedTokens).toBe(budget.tokenizer.count(code.repeat(10)));
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * File Filter Service Tests
+ * Checks language detection from changed files and manifests, and filtering by the merged rules
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+
+jest.mock('chalk', () => require('../../mocks/chalkMock'));
+
+import { FileFilterService } from '../../../src/services/fileFilterService';
+
+const changedFiles = [
+  'api/service.py',
+  'api/models.py',
+  'api/test_service.py',
+  'web/src/App.tsx',
+  'web/src/index.js',
+  'cmd/main.go',
+  'vendor/lib/client.go',
+  'README.md',
+];
+
+describe('FileFilterService', () => {
+  it('should detect the languages of a multi-language change and filter by all of their rules', () => {
+    const service = new FileFilterService({ language: 'auto' });
+
+    const mix = service.detectLanguages(changedFiles, ['pyproject.toml']);
+
+    expect(mix).toEqual({
+      languages: [{ language: 'python', files: 3 }, { language: 'typescript', files: 2 }, { language: 'go', files: 2 }],
+      manifests: ['pyproject.toml'],
+      detected: true,
+    });
+    // Tests and vendored code are excluded by the rules of their language
+    expect(service.filterFiles(changedFiles)).toEqual(['api/service.py', 'api/models.py', 'web/src/App.tsx', 'web/src/index.js', 'cmd/main.go']);
+  });
+
+  it('should count JavaScript as JavaScript without TypeScript in the change or the repository', () => {
+    const service = new FileFilterService();
+
+    expect(service.detectLanguages(['lib/index.js', 'lib/util.mjs'], ['package.json']).languages).toEqual([{ language: 'javascript', files: 2 }]);
+    expect(new FileFilterService().detectLanguages(['lib/index.js'], ['package.json', 'tsconfig.json']).languages).toEqual([{ language: 'typescript', files: 1 }]);
+  });
+
+  it('should fall back to the manifests, then TypeScript, when no changed file has a known extension', () => {
+    const service = new FileFilterService({ language: 'auto' });
+
+    expect(service.detectLanguages(['Dockerfile'], ['go.mod', 'Cargo.toml']).languages).toEqual([{ language: 'go', files: 0 }, { language: 'rust', files: 0 }]);
+    expect(service.getConfig().file_extensions).toEqual(['.go', '.rs']);
+    expect(service.detectLanguages(['Dockerfile']).languages).toEqual([{ language: 'typescript', files: 0 }]);
+  });
+
+  it('should only ask for the manifests that can change the detected languages', () => {
+    const service = new FileFilterService();
+
+    expect(service.getManifestsToProbe(changedFiles)).toEqual([]);
+    expect(service.getManifestsToProbe(['lib/index.js', 'README.md'])).toEqual(['tsconfig.json']);
+    expect(service.getManifestsToProbe(['Dockerfile'])).toContain('go.mod');
+    expect(new FileFilterService({ language: 'python' }).getManifestsToProbe(['Dockerfile'])).toEqual([]);
+  });
+
+  it('should keep a configured language and only count its files', () => {
+    const service = new FileFilterService({ language: 'python', exclude_patterns: ['api/models.py'] });
+
+    expect(service.detectsLanguages()).toBe(false);
+    expect(service.detectLanguages(changedFiles)).toEqual({ languages: [{ language: 'python', files: 3 }], manifests: [], detected: false });
+    expect(service.filterFiles(changedFiles)).toEqual(['api/service.py']);
+  });
+
+  it('should give the rule behind each exclusion, with the ignore files after the configured patterns', () => {
+    const service = new FileFilterService({ language: 'typescript', exclude_patterns: ['src/legacy/'] });
+    service.useIgnoreFile('.hikmaignore', '# Not reviewed\nscripts/\n!src/legacy/keep.ts\n');
+
+    const files = [
+      'src/app.ts',
+      'src/types/foo.d.ts',
+      'packages/web/node_modules/react/index.js',
+      'package-lock.json',
+      'src/__snapshots__/app.test.ts.snap',
+      'prisma/migrations/20240101_init/migration.sql',
+      'scripts/release.ts',
+      'src/legacy/old.ts',
+      'src/legacy/keep.ts',
+      'README.md',
+    ];
+
+    expect(service.filterFiles(files)).toEqual(['src/app.ts', 'src/legacy/keep.ts']);
+    expect(service.getExcludedFiles(files)).toEqual([
+      { file: 'src/types/foo.d.ts', reason: 'language defaults', pattern: '*.d.ts' },
+      { file: 'packages/web/node_modules/react/index.js', reason: 'language defaults', pattern: 'node_modules/' },
+      { file: 'package-lock.json', reason: 'generated files', pattern: 'package-lock.json' },
+      { file: 'src/__snapshots__/app.test.ts.snap', reason: 'generated files', pattern: '__snapshots__/' },
+      { file: 'prisma/migrations/20240101_init/migration.sql', reason: 'generated files', pattern: '**/prisma/migrations/' },
+      { file: 'scripts/release.ts', reason: '.hikmaignore', pattern: 'scripts/' },
+      { file: 'src/legacy/old.ts', reason: 'files.exclude', pattern: 'src/legacy/' },
+      { file: 'README.md', reason: 'unsupported extension' },
+    ]);
+  });
+
+  it('should keep generated files when their exclusion is turned off or overridden', () => {
+    const files = ['src/client.generated.ts', 'src/app.min.js'];
+
+    expect(new FileFilterService({ language: 'typescript' }).filterFiles(files)).toEqual([]);
+    expect(new FileFilterService({ language: 'typescript', exclude_generated: false }).filterFiles(files)).toEqual(['src/client.generated.ts']);
+
+    const service = new FileFilterService({ language: 'typescript' });
+    service.useIgnoreFile('.hikmaignore', '!*.generated.ts');
+    expect(service.filterFiles(files)).toEqual(['src/client.generated.ts']);
+  });
+});
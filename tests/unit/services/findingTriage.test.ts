@@ -0,0 +1,77 @@
+/**
+ * Finding Triage Tests
+ * Checks triage input validation, fingerprints across reviews and suppression of dismissed findings
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+
+jest.mock('chalk', () => require('../../mocks/chalkMock'));
+import {
+  ReviewTriage,
+  collectTriageableFindings,
+  countDismissed,
+  getTriageRepository,
+  parseTriageInput,
+  withoutDismissed
+} from '../../../src/services/findingTriage';
+
+const hunk = (start: number, indent = '  ') => [
+  `@@ -${start},3 +${start},4 @@ export function run() {`,
+  '   const a = 1;',
+  '-  const b = 2;',
+  `+${indent}const b = 3;`,
+  '+  console.log(a, b);',
+  '   return a + b;',
+].join('\n');
+
+const collect = (chunkId: string, start: number, indent?: string) => collectTriageableFindings(
+  [{ chunkId, filePath: 'src/app.ts', diffContent: hunk(start, indent) }],
+  [{
+    id: `pass-${chunkId}`, chunkId, passType: 'syntax_logic',
+    issuesFound: [
+      { severity: 'medium', category: 'logic', title: 'Magic number', line_start: start + 1 },
+      { severity: 'info', category: 'analysis_error', title: 'Analysis failed: timeout' },
+      'Plain-text issue of an older review'
+    ]
+  }],
+  [{ id: `finding-${chunkId}`, chunkId, pluginId: 'code-smell', message: 'Console statement', filePath: 'src/app.ts', line: start + 2 }]
+);
+
+describe('findingTriage', () => {
+  it('should validate triage input', () => {
+    expect(parseTriageInput({ status: "Won't-Fix", note: ' Legacy code ', author: '' }).value)
+      .toEqual({ status: 'wont-fix', note: 'Legacy code', author: undefined });
+    expect(parseTriageInput({}).errors).toEqual(['status: required']);
+    expect(parseTriageInput({ status: 'ignored', note: 3 }).errors).toHaveLength(2);
+  });
+
+  it('should give the same finding the same fingerprint in a later review', () => {
+    const first = collect('a', 10);
+    // The code moved down and was re-indented
+    const second = collect('b', 25, '      ');
+
+    expect(first.map(finding => finding.id)).toEqual(['finding-a', 'pass-a_0']);
+    expect(second.map(finding => finding.fingerprint)).toEqual(first.map(finding => finding.fingerprint));
+    expect(first[1]).toMatchObject({ source: 'analysis', rule: 'syntax_logic/logic', line: 11 });
+  });
+
+  it('should leave dismissed findings out and keep the others in place', () => {
+    const findings = collect('a', 10);
+    const decision = (status: any) => ({ reviewId: 'r1', status, note: null, author: null, updatedAt: new Date() });
+    const triage: ReviewTriage = {
+      findings,
+      decisions: new Map([['finding-a', decision('accepted')], ['pass-a_0', decision('false-positive')]]),
+    };
+
+    const passes = [{ id: 'pass-a', chunkId: 'a', passType: 'syntax_logic', issuesFound: ['first', 'second'] }];
+    const result = withoutDismissed(triage, passes, [{ id: 'finding-a' }]);
+    expect(result.passes[0].issuesFound).toEqual(['second']);
+    expect(result.findings).toEqual([{ id: 'finding-a' }]);
+    expect(countDismissed(triage)).toEqual({ 'false-positive': 1 });
+  });
+
+  it('should scope dismissals to the repository', () => {
+    expect(getTriageRepository('https://github.com/acme/app/pull/1')).toBe(getTriageRepository('https://github.com/acme/app/pull/2'));
+    expect(getTriageRepository('https://github.com/acme/app/pull/1')).not.toBe(getTriageRepository('https://github.com/acme/web/pull/1'));
+  });
+});
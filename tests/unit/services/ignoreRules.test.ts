@@ -0,0 +1,72 @@
+/**
+ * Ignore Rules Tests
+ * Checks .gitignore-style matching: anchoring, directories, braces and negations
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { IgnoreRules, matchesPatterns, parseIgnoreFile } from '../../../src/services/ignoreRules';
+
+describe('IgnoreRules', () => {
+  it('should match patterns without a slash at any depth and anchor the others to the root', () => {
+    const rules = new IgnoreRules().add(['*.d.ts', '/docs/*.md', 'src/gen/**'], 'test');
+
+    expect(rules.excludes('src/types/foo.d.ts')).toBe(true);
+    expect(rules.excludes('foo.d.ts')).toBe(true);
+    expect(rules.excludes('docs/intro.md')).toBe(true);
+    expect(rules.excludes('api/docs/intro.md')).toBe(false);
+    expect(rules.excludes('src/gen/deep/client.ts')).toBe(true);
+    expect(rules.excludes('lib/src/gen/client.ts')).toBe(false);
+  });
+
+  it('should exclude every file under a matching directory, and only directories for a trailing slash', () => {
+    const rules = new IgnoreRules().add(['node_modules/', 'build'], 'test');
+
+    expect(rules.excludes('node_modules/lodash/index.js')).toBe(true);
+    expect(rules.excludes('packages/web/node_modules/react/index.js')).toBe(true);
+    expect(rules.excludes('src/node_modules')).toBe(false);
+    expect(rules.excludes('tools/build/run.ts')).toBe(true);
+    expect(rules.excludes('tools/build')).toBe(true);
+  });
+
+  it('should expand braces and character classes', () => {
+    const rules = new IgnoreRules().add(['*.{snap,lock}', 'v[0-9].ts'], 'test');
+
+    expect(rules.excludes('tests/__snapshots__/app.test.ts.snap')).toBe(true);
+    expect(rules.excludes('yarn.lock')).toBe(true);
+    expect(rules.excludes('api/v2.ts')).toBe(true);
+    expect(rules.excludes('api/vX.ts')).toBe(false);
+  });
+
+  it('should let the last matching rule decide, so negations re-include', () => {
+    const rules = new IgnoreRules()
+      .add(['dist/', '*.lock'], 'defaults')
+      .add(['!dist/keep.js', '!yarn.lock'], '.hikmaignore')
+      .add(['*.js'], 'files.exclude');
+
+    expect(rules.match('yarn.lock')).toEqual({ pattern: '!yarn.lock', source: '.hikmaignore', negated: true });
+    expect(rules.excludes('yarn.lock')).toBe(false);
+    expect(rules.excludes('Cargo.lock')).toBe(true);
+    expect(rules.match('dist/keep.js')).toEqual({ pattern: '*.js', source: 'files.exclude', negated: false });
+    expect(rules.match('src/app.ts')).toBeUndefined();
+  });
+});
+
+describe('parseIgnoreFile', () => {
+  it('should keep one pattern per line without blank lines and comments', () => {
+    expect(parseIgnoreFile('# Generated\ndist/\n\n  *.snap  \r\n\\#notes.md\n!dist/keep.js\n'))
+      .toEqual(['dist/', '*.snap', '\\#notes.md', '!dist/keep.js']);
+    expect(new IgnoreRules().add(['\\#notes.md'], 'test').excludes('#notes.md')).toBe(true);
+  });
+});
+
+describe('matchesPatterns', () => {
+  it('should select files like an ignore file excludes them', () => {
+    expect(matchesPatterns(['src/app.ts'], 'src/app.ts')).toBe(true);
+    expect(matchesPatterns(['src/app.ts'], 'src/appXts')).toBe(false);
+    expect(matchesPatterns(['src/*.ts'], 'src/lib/app.ts')).toBe(false);
+    expect(matchesPatterns(['src/**/*.ts'], 'src/lib/deep/app.ts')).toBe(true);
+    expect(matchesPatterns(['*.sql', '!seeds/'], 'db/migrations/001.sql')).toBe(true);
+    expect(matchesPatterns(['*.sql', '!seeds/'], 'seeds/users.sql')).toBe(false);
+    expect(matchesPatterns(['/app.ts'], 'src/app.ts')).toBe(false);
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Incremental Review Tests
+ * Checks chunk matching across reviews and the resolved/open/new comparison
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  chunkContentKey,
+  collectFindings,
+  compareFindings,
+  mapChunkLines
+} from '../../../src/services/incrementalReview';
+
+const hunk = (start: number) => [
+  `@@ -${start},3 +${start},4 @@ export function run() {`,
+  '   const a = 1;',
+  '-  const b = 2;',
+  '+  const b = 3;',
+  '+  console.log(a, b);',
+  '   return a + b;',
+].join('\n');
+
+describe('incrementalReview', () => {
+  it('should treat a chunk that only moved in the file as unchanged', () => {
+    expect(chunkContentKey(hunk(10))).toBe(chunkContentKey(hunk(25)));
+    expect(chunkContentKey(hunk(10))).not.toBe(chunkContentKey(hunk(10).replace('b = 3', 'b = 4')));
+
+    const lines = mapChunkLines(hunk(10), hunk(25));
+    expect(lines.get(12)).toBe(27);
+    expect(lines.get(13)).toBe(28);
+  });
+
+  it('should split findings of two reviews into resolved, still open and new', () => {
+    const previous = collectFindings(
+      [{ chunkId: 'old', filePath: 'src/app.ts', diffContent: hunk(10) }],
+      [{
+        chunkId: 'old', passType: 'syntax_logic', analysisResult: '', riskLevel: 'MEDIUM', recommendations: [],
+        issuesFound: [
+          { severity: 'medium', category: 'logic', title: 'Off-by-one in run()', line_start: 12 },
+          { severity: 'low', category: 'quality', title: 'Unclear name' }
+        ]
+      }],
+      [{ chunkId: 'old', pluginId: 'code-smell', pluginName: 'Code Smell Detector', message: 'Console statement', severity: 'warning', filePath: 'src/app.ts', line: 13 }]
+    );
+
+    // The same code moved down by 15 lines, one issue was fixed and another appeared
+    const current = collectFindings(
+      [{ chunkId: 'new', filePath: 'src/app.ts', diffContent: hunk(25) }],
+      [{
+        chunkId: 'new', passType: 'syntax_logic', analysisResult: '', riskLevel: 'MEDIUM', recommendations: [],
+        issuesFound: [
+          { severity: 'medium', category: 'logic', title: 'Off-by-one in run()', line_start: 27 },
+          { severity: 'high', category: 'logic', title: 'Missing null check' },
+          { severity: 'info', category: 'analysis_error', title: 'Analysis failed: timeout' }
+        ]
+      }],
+      [{ chunkId: 'new', pluginId: 'code-smell', pluginName: 'Code Smell Detector', message: 'Console statement', severity: 'warning', filePath: 'src/app.ts', line: 28 }]
+    );
+
+    const comparison = compareFindings(previous, current);
+
+    expect(comparison.resolved.map(finding => finding.title)).toEqual(['Unclear name']);
+    expect(comparison.stillOpen.map(finding => finding.title)).toEqual(['Off-by-one in run()', 'Console statement']);
+    expect(comparison.introduced.map(finding => finding.title)).toEqual(['Missing null check']);
+    expect(comparison.introduced[0]).toMatchObject({ label: 'Syntax & Logic', severity: 'high', filePath: 'src/app.ts' });
+  });
+});
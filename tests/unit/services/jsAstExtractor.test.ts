@@ -0,0 +1,114 @@
+/**
+ * JS/TS AST Extractor Tests
+ * Checks spans, parameters, imports, exports and call targets read from parsed sources
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { extractJsModule } from '../../../src/services/jsAstExtractor';
+import { MODULE_SCOPE } from '../../../src/services/sourceModule';
+
+const source = `import { Repo } from './repo';
+const fs = require('fs');
+
+export interface User {
+  id: string;
+  name?: string;
+}
+
+@injectable()
+export class UserService extends Base {
+  constructor(private repo: Repo) {
+    super();
+  }
+
+  async save(user: User, { force }: { force: boolean } = { force: false }): Promise<Map<string, User>> {
+    const saved = await this.repo.save(user);
+    return saved;
+  }
+
+  private static create = (repo: Repo) => new UserService(repo);
+}
+
+export default function main(...args: string[]) {
+  if (args.length) { return '}'; }
+  return UserService.create(new Repo());
+}
+module.exports.helper = main;
+`;
+
+describe('extractJsModule', () => {
+  const module = extractJsModule(source, 'typescript');
+
+  it('should read functions and methods with their spans, parameters and modifiers', () => {
+    const save = module.functions.find(fn => fn.name === 'UserService.save');
+    expect(save).toMatchObject({
+      kind: 'method',
+      startLine: 15,
+      endLine: 18,
+      isAsync: true,
+      returnType: 'Promise<Map<string, User>>',
+      parameters: [
+        { name: 'user', type: 'User', optional: false },
+        { name: '{ force }', type: '{ force: boolean }', optional: true },
+      ],
+    });
+    expect(module.functions.find(fn => fn.name === 'UserService.create'))
+      .toMatchObject({ kind: 'method', isStatic: true, visibility: 'private', startLine: 20, endLine: 20 });
+    // A brace inside a string does not end the function
+    expect(module.functions.find(fn => fn.name === 'main')).toMatchObject({ startLine: 23, endLine: 26 });
+  });
+
+  it('should read types with decorators in their span and constructor parameter properties', () => {
+    expect(module.types.find(type => type.name === 'User')).toMatchObject({
+      type: 'interface',
+      startLine: 4,
+      endLine: 7,
+      properties: [{ name: 'id', type: 'string', optional: false }, { name: 'name', type: 'string', optional: true }],
+    });
+    expect(module.types.find(type => type.name === 'UserService')).toMatchObject({
+      type: 'class',
+      startLine: 9,
+      endLine: 21,
+      extends: ['Base'],
+      properties: [{ name: 'repo', type: 'Repo' }],
+    });
+  });
+
+  it('should read ES and CommonJS imports and exports', () => {
+    expect(module.imports).toEqual([
+      { module: './repo', imports: ['Repo'], isDefault: false, lineNumber: 1 },
+      { module: 'fs', imports: ['fs'], isDefault: true, lineNumber: 2 },
+    ]);
+    expect(module.exports).toEqual([
+      { name: 'User', type: 'named', lineNumber: 4 },
+      { name: 'UserService', type: 'named', lineNumber: 9 },
+      { name: 'main', type: 'default', lineNumber: 23 },
+      { name: 'helper', type: 'named', lineNumber: 27 },
+    ]);
+  });
+
+  it('should attribute each call to the function it is written in', () => {
+    expect(module.calls).toEqual(expect.arrayContaining([
+      { caller: MODULE_SCOPE, callee: 'require', lineNumber: 2 },
+      { caller: 'UserService.save', callee: 'this.repo.save', lineNumber: 16 },
+      { caller: 'UserService.create', callee: 'new UserService', lineNumber: 20 },
+      { caller: 'main', callee: 'UserService.create', lineNumber: 25 },
+    ]));
+  });
+
+  it('should trace assignments, arguments and returns', () => {
+    expect(module.dataFlows).toEqual(expect.arrayContaining([
+      { source: 'user', target: 'this.repo.save', type: 'parameter', lineNumber: 16 },
+      { source: 'user', target: 'saved', type: 'assignment', lineNumber: 16 },
+      { source: 'saved', target: 'UserService.save', type: 'return', lineNumber: 17 },
+    ]));
+    expect(module.dataFlows.some(flow => flow.source === 'require')).toBe(false);
+  });
+
+  it('should parse JSX', () => {
+    const jsx = extractJsModule('export const App = () => <div>{render()}</div>;\n', 'jsx');
+
+    expect(jsx.functions[0]).toMatchObject({ name: 'App', kind: 'arrow', startLine: 1, endLine: 1 });
+    expect(jsx.calls).toContainEqual({ caller: 'App', callee: 'render', lineNumber: 1 });
+  });
+});
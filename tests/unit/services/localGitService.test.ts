@@ -0,0 +1,95 @@
+/**
+ * LocalGitService Tests
+ * Builds a throwaway git repository and checks that review inputs are read from it
+ */
+
+import { describe, it, expect, beforeAll, afterAll, jest } from '@jest/globals';
+import { execSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+jest.mock('chalk', () => require('../../mocks/chalkMock'));
+
+import {
+  buildLocalReviewUrl,
+  validateLocalSource,
+  getPrDetailsViaGit,
+  getChangedFilesViaGit,
+  getFullDiffViaGit,
+  getChangedFilesBetweenViaGit
+} from '../../../src/services/localGitService';
+import { LocalSource } from '../../../src/types/analysis';
+
+describe('LocalGitService', () => {
+  let repoPath: string;
+  let source: LocalSource;
+
+  const git = (command: string) => execSync(`git ${command}`, { cwd: repoPath, stdio: 'pipe' }).toString();
+
+  beforeAll(() => {
+    repoPath = fs.mkdtempSync(path.join(os.tmpdir(), 'hikma-local-git-'));
+    git('init -q -b main');
+    git('config user.email "dev@example.com"');
+    git('config user.name "Dev Example"');
+
+    fs.writeFileSync(path.join(repoPath, 'app.ts'), 'export const a = 1;\n');
+    fs.writeFileSync(path.join(repoPath, 'old.ts'), 'export const old = true;\n');
+    git('add -A');
+    git('commit -q -m "Initial commit"');
+
+    git('checkout -q -b feature-x');
+    fs.writeFileSync(path.join(repoPath, 'app.ts'), 'export const a = 2;\nexport const b = 3;\n');
+    fs.rmSync(path.join(repoPath, 'old.ts'));
+    git('add -A');
+    git('commit -q -m "Update constants" -m "Bumps a and adds b."');
+
+    source = { repo_path: repoPath, base: 'main', head: 'feature-x' };
+  });
+
+  afterAll(() => {
+    fs.rmSync(repoPath, { recursive: true, force: true });
+  });
+
+  it('should build a stable local review url', () => {
+    expect(buildLocalReviewUrl(source)).toBe(`local://${path.resolve(repoPath)}?base=main&head=feature-x`);
+  });
+
+  it('should reject unknown refs', async () => {
+    await expect(validateLocalSource({ ...source, head: 'does-not-exist' })).rejects.toThrow('Unknown git ref');
+    await expect(validateLocalSource(source)).resolves.toBeUndefined();
+  });
+
+  it('should derive PR details from the commit range', async () => {
+    const details = await getPrDetailsViaGit(source);
+
+    expect(details.title).toBe('Update constants');
+    expect(details.body).toBe('Bumps a and adds b.');
+    expect(details.author).toBe('Dev Example');
+    expect(details.additions).toBe(2);
+    expect(details.deletions).toBe(2);
+    expect(details.head_sha).toBe(git('rev-parse feature-x').trim());
+  });
+
+  it('should list files changed between two commits', async () => {
+    const files = await getChangedFilesBetweenViaGit(source, 'main', 'feature-x');
+    expect(files).toEqual(['app.ts', 'old.ts']);
+  });
+
+  it('should list changed files without deletions', async () => {
+    const files = await getChangedFilesViaGit(source);
+    expect(files).toEqual(['app.ts']);
+  });
+
+  it('should return the full diff in gh-compatible format', async () => {
+    const diff = await getFullDiffViaGit(source);
+
+    expect(diff).toContain('diff --git a/app.ts b/app.ts');
+    expect(diff).toContain('+export const b = 3;');
+  });
+
+  it('should return null when there is nothing to review', async () => {
+    const diff = await getFullDiffViaGit({ ...source, head: 'main' });
+    expect(diff).toBeNull();
+  });
+});
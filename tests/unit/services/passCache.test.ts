@@ -0,0 +1,81 @@
+/**
+ * Pass Cache Tests
+ * Checks cache keys and hit/miss accounting against an in-memory table
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+
+jest.mock('chalk', () => require('../../mocks/chalkMock'));
+
+import { PassCache, passCacheKey } from '../../../src/services/passCache';
+import { PassOutput } from '../../../src/types/analysis';
+
+// Just enough of PrismaClient.passCacheEntry for the cache
+const createPrisma = () => {
+  const rows = new Map<string, any>();
+  const passCacheEntry = {
+    findUnique: async ({ where }: any) => rows.get(where.key) || null,
+    update: async ({ where, data }: any) => {
+      const row = rows.get(where.key);
+      row.hits += data.hits.increment;
+      row.lastHitAt = data.lastHitAt;
+      return row;
+    },
+    upsert: async ({ where, create }: any) => {
+      rows.set(where.key, { ...create, hits: 0, createdAt: new Date() });
+      return rows.get(where.key);
+    },
+    findMany: async () => [...rows.values()],
+    deleteMany: async () => {
+      const count = rows.size;
+      rows.clear();
+      return { count };
+    },
+  };
+  return { passCacheEntry } as any;
+};
+
+const keyInput = {
+  templateVersion: 1,
+  passType: 'syntax_logic',
+  diffContent: '@@ -1 +1 @@\n-a\n+b',
+  model: 'qwen2.5-coder:14b',
+  provider: 'ollama',
+  temperature: 0.1,
+  contextWindow: 4096,
+};
+
+const output: PassOutput = { risk_level: 'LOW', risk_reason: 'Small change.', issues: [], recommendations: [] };
+
+describe('PassCache', () => {
+  it('should change the key when anything that affects the reply changes', () => {
+    const key = passCacheKey(keyInput);
+
+    expect(passCacheKey({ ...keyInput })).toBe(key);
+    expect(passCacheKey({ ...keyInput, templateVersion: 2 })).not.toBe(key);
+    expect(passCacheKey({ ...keyInput, model: 'llama3:8b' })).not.toBe(key);
+    expect(passCacheKey({ ...keyInput, temperature: 0.2 })).not.toBe(key);
+    expect(passCacheKey({ ...keyInput, contextWindow: 32768 })).not.toBe(key);
+    expect(passCacheKey({ ...keyInput, diffContent: '@@ -1 +1 @@\n-a\n+c' })).not.toBe(key);
+    expect(passCacheKey({ ...keyInput, template: 'ANALYZE: i18n\n{diff_chunk}' })).not.toBe(key);
+  });
+
+  it('should serve stored passes and count hits and misses', async () => {
+    const cache = new PassCache(createPrisma());
+    const key = passCacheKey(keyInput);
+
+    expect(await cache.get(key)).toBeUndefined();
+    await cache.set(key, { response: '{}', output, passType: 'syntax_logic', provider: 'ollama', model: 'qwen2.5-coder:14b' });
+    expect(await cache.get(key)).toEqual({ response: '{}', output });
+    await cache.get(key);
+
+    expect(cache.getSessionStats()).toEqual({ hits: 2, misses: 1, hitRate: 2 / 3 });
+
+    const stats = await cache.getStats();
+    expect(stats.entries).toBe(1);
+    expect(stats.totalHits).toBe(2);
+    expect(stats.byModel).toEqual([{ provider: 'ollama', model: 'qwen2.5-coder:14b', entries: 1, hits: 2 }]);
+
+    expect(await cache.clear()).toBe(1);
+  });
+});
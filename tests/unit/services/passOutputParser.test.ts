@@ -0,0 +1,100 @@
+/**
+ * Pass Output Parser Tests
+ * Checks validation of the JSON contract that analysis passes answer with
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { parsePassOutput } from '../../../src/services/passOutputParser';
+import { PromptBuilder, SYNTAX_LOGIC_TEMPLATE } from '../../../src/prompts/templates';
+import { ChunkInfo } from '../../../src/types/analysis';
+
+const reply = {
+  risk_level: 'high',
+  risk_reason: 'Unchecked input reaches the query.',
+  issues: [
+    {
+      severity: 'HIGH',
+      category: 'Input Validation',
+      title: 'User id is not validated',
+      line_start: 12,
+      line_end: 11,
+      evidence: 'db.query(id)',
+      suggested_fix: 'Parse the id as a number first'
+    },
+    { severity: 'low', category: 'quality', title: 'Made-up line', line_start: 99 }
+  ],
+  recommendations: ['Add a test for invalid ids']
+};
+
+describe('parsePassOutput', () => {
+  it('should extract and normalize a reply wrapped in prose and code fences', () => {
+    const raw = 'Here is the analysis:\n```json\n' + JSON.stringify(reply) + '\n```';
+    const result = parsePassOutput(raw, new Set([10, 11, 12]));
+
+    expect(result.errors).toEqual([]);
+    expect(result.value?.risk_level).toBe('HIGH');
+    expect(result.value?.issues[0]).toMatchObject({
+      severity: 'high',
+      category: 'input_validation',
+      line_start: 12,
+      line_end: 12,
+      suggested_fix: 'Parse the id as a number first'
+    });
+    expect(result.value?.issues[1].line_start).toBeUndefined();
+    expect(result.value?.recommendations).toEqual(['Add a test for invalid ids']);
+  });
+
+  it('should report every contract violation so the model can repair its reply', () => {
+    const result = parsePassOutput(JSON.stringify({
+      risk_level: 'SEVERE',
+      issues: [{ severity: 'urgent', title: 'Broken' }],
+      recommendations: 'none'
+    }));
+
+    expect(result.value).toBeUndefined();
+    expect(result.errors).toEqual([
+      'risk_level must be one of LOW, MEDIUM, HIGH, CRITICAL',
+      'risk_reason must be a string',
+      'issues[0].severity must be one of critical, high, medium, low, info',
+      'issues[0].category must be a non-empty string',
+      'recommendations must be an array of strings'
+    ]);
+  });
+
+  it('should reject replies without a parseable JSON object', () => {
+    expect(parsePassOutput('RISK: LOW - looks fine').errors).toEqual(['Reply does not contain a JSON object']);
+    expect(parsePassOutput('{ "risk_level": "LOW", }').errors[0]).toMatch(/^Reply is not valid JSON/);
+  });
+});
+
+describe('PromptBuilder', () => {
+  const chunk: ChunkInfo = {
+    id: 'c1',
+    file_path: 'src/app.ts',
+    diff_content: '@@ -1,2 +1,2 @@\n-const a = 1;\n+const a = 2;\n const b = 3;',
+    diff_lines: [
+      { type: 'deletion', content: 'const a = 1;', oldLine: 1 },
+      { type: 'addition', content: 'const a = 2;', newLine: 1 },
+      { type: 'context', content: 'const b = 3;', oldLine: 2, newLine: 2 }
+    ],
+    start_line: 1,
+    end_line: 2,
+    size_tokens: 20,
+    is_complete_file: false
+  };
+
+  it('should number diff lines and include the JSON contract in analysis prompts', () => {
+    const prompt = PromptBuilder.buildAnalysisPrompt(SYNTAX_LOGIC_TEMPLATE, chunk);
+
+    expect(prompt).toContain('      -const a = 1;\n    1 +const a = 2;\n    2  const b = 3;');
+    expect(prompt).toContain('RESPOND WITH JSON ONLY');
+    expect(prompt).not.toContain('{output_contract}');
+  });
+
+  it('should list validation errors in the repair prompt', () => {
+    const prompt = PromptBuilder.buildRepairPrompt('not json', ['Reply does not contain a JSON object']);
+
+    expect(prompt).toContain('- Reply does not contain a JSON object');
+    expect(prompt).toContain('PREVIOUS REPLY:\nnot json');
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Pass Registry Tests
+ * Checks how configured pass definitions combine with the built-in passes
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+
+jest.mock('chalk', () => require('../../mocks/chalkMock'));
+
+import { DEFAULT_HIKMA_CONFIG } from '../../../src/config/hikmaConfig';
+import { BUILT_IN_PASSES, getChunkPasses, passAppliesTo, resolvePasses } from '../../../src/services/passRegistry';
+import { AnalysisPass } from '../../../src/types/analysis';
+
+const I18N_TEMPLATE = 'ANALYZE: Hard-coded user-facing strings\n\nDIFF:\n{diff_chunk}';
+
+const configWith = (passes: Partial<typeof DEFAULT_HIKMA_CONFIG.passes>, models = DEFAULT_HIKMA_CONFIG.models) => ({
+  passes: { ...DEFAULT_HIKMA_CONFIG.passes, ...passes },
+  models,
+});
+
+describe('passRegistry', () => {
+  it('should run the built-in passes by default', () => {
+    expect(resolvePasses(DEFAULT_HIKMA_CONFIG)).toEqual(BUILT_IN_PASSES);
+  });
+
+  it('should add new passes after the built-in ones and apply changes to built-in ones', () => {
+    const passes = resolvePasses(configWith({
+      definitions: {
+        i18n: { template: I18N_TEMPLATE, languages: ['typescript'], model: { model: 'large' } },
+        testing_docs: { enabled: false },
+        security_performance: { files: ['src/api/**'] },
+      },
+    }, { default: { provider: 'ollama', url: 'http://localhost:11434', model: 'small' } }));
+
+    expect(passes.map(pass => pass.id)).toEqual(['syntax_logic', 'security_performance', 'architecture_design', 'i18n']);
+    expect(passes[1].files).toEqual(['src/api/**']);
+    expect(passes[3]).toMatchObject({
+      template: I18N_TEMPLATE,
+      model: { provider: 'ollama', url: 'http://localhost:11434', model: 'large' },
+    });
+  });
+
+  it('should run the listed passes in order', () => {
+    const passes = resolvePasses(configWith({ enabled: ['i18n', 'syntax_logic'], definitions: { i18n: { template: I18N_TEMPLATE } } }));
+
+    expect(passes.map(pass => pass.id)).toEqual(['i18n', 'syntax_logic']);
+  });
+
+  it('should reject new passes without a template and configs that run no pass', () => {
+    expect(() => resolvePasses(configWith({ definitions: { i18n: { files: ['src/**'] } } })))
+      .toThrow('passes.definitions.i18n: a new pass needs a template');
+    expect(() => resolvePasses(configWith({ enabled: ['testing_docs'], definitions: { testing_docs: { enabled: false } } })))
+      .toThrow('passes: at least one pass must be enabled');
+  });
+
+  it('should apply a pass to the files matching its globs and languages', () => {
+    const pass = { ...BUILT_IN_PASSES[0], files: ['src/**'], languages: ['python' as const] };
+
+    expect(passAppliesTo(BUILT_IN_PASSES[0], 'docs/readme.md')).toBe(true);
+    expect(passAppliesTo(pass, 'src/app/main.py')).toBe(true);
+    expect(passAppliesTo(pass, 'src/app/main.ts')).toBe(false);
+    expect(passAppliesTo(pass, 'scripts/build.py')).toBe(false);
+    // Same pattern rules as files.exclude: no slash matches at any depth
+    expect(passAppliesTo({ ...BUILT_IN_PASSES[0], files: ['*.sql'] }, 'db/migrations/001.sql')).toBe(true);
+  });
+
+  it('should list the pass results of a chunk without its plugin findings', () => {
+    const pass = { id: 'p1', pass_type: 'i18n' } as AnalysisPass;
+    const findings = [{ pluginId: 'code-smell', pluginName: 'Code Smell', message: 'Console statement', severity: 'warning' as const }];
+
+    expect(getChunkPasses({ i18n: pass, plugin_findings: findings })).toEqual([pass]);
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Request Limiter Tests
+ * Checks the in-flight bound and the retry behaviour on overloaded servers
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+
+jest.mock('chalk', () => require('../../mocks/chalkMock'));
+
+import { RequestLimiter } from '../../../src/services/requestLimiter';
+
+const httpError = (status: number, headers: Record<string, string> = {}) =>
+  Object.assign(new Error(`Request failed with status code ${status}`), { response: { status, headers } });
+
+describe('RequestLimiter', () => {
+  it('should never run more requests at once than its limit', async () => {
+    const limiter = new RequestLimiter(2);
+    let inFlight = 0;
+    let peak = 0;
+
+    const results = await Promise.all([1, 2, 3, 4, 5].map(value => limiter.run(async () => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      inFlight--;
+      return value * 10;
+    })));
+
+    expect(peak).toBe(2);
+    expect(results).toEqual([10, 20, 30, 40, 50]);
+  });
+
+  it('should retry 429 and 503 replies and give up on other errors', async () => {
+    const limiter = new RequestLimiter(1, { baseDelayMs: 1, maxRetries: 2 });
+
+    let calls = 0;
+    const reply = await limiter.run(async () => {
+      calls++;
+      if (calls === 1) throw httpError(429, { 'retry-after': '0' });
+      if (calls === 2) throw httpError(503);
+      return 'ok';
+    });
+    expect(reply).toBe('ok');
+    expect(calls).toBe(3);
+
+    const badRequest = jest.fn(async () => { throw httpError(400); });
+    await expect(limiter.run(badRequest)).rejects.toThrow('status code 400');
+    expect(badRequest).toHaveBeenCalledTimes(1);
+
+    const overloaded = jest.fn(async () => { throw httpError(503); });
+    await expect(limiter.run(overloaded)).rejects.toThrow('status code 503');
+    expect(overloaded).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Review Gate Tests
+ * Checks the CI gate policies against stored review output
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+
+jest.mock('chalk', () => require('../../mocks/chalkMock'));
+
+import { DEFAULT_HIKMA_CONFIG } from '../../../src/config/hikmaConfig';
+import { countReviewOutput, evaluateReviewGate } from '../../../src/services/reviewGate';
+
+const diffContent = [
+  '@@ -1,2 +1,3 @@',
+  ' const query = build();',
+  '+db.raw(`SELECT * FROM users WHERE id = ${id}`);',
+  '+console.log(query);',
+].join('\n');
+
+const input = () => ({
+  decision: 'REQUEST_CHANGES',
+  chunks: [{ chunkId: 'c1', filePath: 'src/db.ts', diffContent }],
+  passes: [
+    {
+      id: 'p1', chunkId: 'c1', passType: 'security_performance', riskLevel: 'HIGH',
+      issuesFound: [
+        { severity: 'critical', category: 'security', title: 'SQL injection', line_start: 2 },
+        { severity: 'medium', category: 'performance', title: 'Unbounded query', line_start: 2 },
+        { severity: 'info', category: 'analysis_error', title: 'Analysis failed: timeout' },
+        'Plain-text issue of an older review',
+      ],
+    },
+    { id: 'p2', chunkId: 'c1', passType: 'syntax_logic', riskLevel: 'LOW', issuesFound: [] },
+  ],
+  findings: [
+    { id: 'f1', chunkId: 'c1', pluginId: 'security-analyzer', severity: 'error', message: 'Raw SQL', filePath: 'src/db.ts', line: 2 },
+    // Overlapping chunk reporting the same line again
+    { id: 'f2', chunkId: 'c1', pluginId: 'security-analyzer', severity: 'error', message: 'Raw SQL', filePath: 'src/db.ts', line: 2 },
+    { id: 'f3', chunkId: 'c1', pluginId: 'code-smell', severity: 'warning', message: 'Console statement', filePath: 'src/db.ts', line: 3 },
+  ],
+});
+
+describe('reviewGate', () => {
+  it('should count the highest risk and each finding once', () => {
+    expect(countReviewOutput(input())).toEqual({
+      risk: 'HIGH',
+      issues: { info: 0, low: 0, medium: 1, high: 0, critical: 1 },
+      pluginFindings: { 'security-analyzer': { error: 1 }, 'code-smell': { warning: 1 } },
+    });
+  });
+
+  it('should pass the default policy below critical risk without a REJECT decision', () => {
+    const result = evaluateReviewGate(DEFAULT_HIKMA_CONFIG.gate, input());
+
+    expect(result.passed).toBe(true);
+    expect(result.checks.map(check => [check.name, check.passed])).toEqual([['risk', true], ['decision', true]]);
+  });
+
+  it('should fail when any policy is broken, counting issues at the severity or above', () => {
+    const result = evaluateReviewGate({
+      fail_on_risk: 'HIGH',
+      fail_on_decision: ['REJECT'],
+      max_issues: { high: 0, medium: 2 },
+      max_plugin_findings: { 'security-analyzer': { severity: 'error', max: 0 }, 'code-smell': { severity: 'error', max: 0 } },
+    }, input());
+
+    expect(result.passed).toBe(false);
+    expect(result.checks.map(check => [check.name, check.passed, check.actual])).toEqual([
+      ['risk', false, 'HIGH'],
+      ['decision', true, 'REQUEST_CHANGES'],
+      ['issues.medium', true, 2],
+      ['issues.high', false, 1],
+      ['plugin.security-analyzer', false, 1],
+      ['plugin.code-smell', true, 0],
+    ]);
+  });
+
+  it('should not count findings dismissed during triage', () => {
+    const decision = (status: 'false-positive' | 'accepted') => ({ reviewId: 'r1', status, note: null, author: null, updatedAt: new Date() });
+    const triage = { findings: [], decisions: new Map([['p1_0', decision('false-positive')], ['f3', decision('accepted')]]) };
+    const counts = countReviewOutput({ ...input(), triage });
+
+    expect(counts.issues.critical).toBe(0);
+    expect(counts.pluginFindings['code-smell']).toEqual({ warning: 1 });
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Review Publisher Tests
+ * Checks how stored findings become inline comments and a review summary
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { buildReviewSubmission, reviewEventFromDecision } from '../../../src/services/reviewPublisher';
+import { getCommentableLines, parseUnifiedDiff } from '../../../src/services/diffParser';
+import { SUMMARY_MARKER, extractFingerprint } from '../../../src/codeHosts/reviewMarkers';
+
+const diff = [
+  'diff --git a/src/app.ts b/src/app.ts',
+  '--- a/src/app.ts',
+  '+++ b/src/app.ts',
+  '@@ -10,3 +10,4 @@ export function run() {',
+  '   const a = 1;',
+  '-  const b = 2;',
+  '+  const b = 3;',
+  '+  console.log(a, b);',
+  '   return a + b;',
+].join('\n');
+
+const chunks = [{ chunkId: 'c1', filePath: 'src/app.ts', diffContent: diff }];
+
+describe('diffParser', () => {
+  it('should map diff lines to base and head line numbers', () => {
+    const lines = parseUnifiedDiff(diff);
+    expect(lines[4]).toMatchObject({ type: 'context', oldLine: 10, newLine: 10 });
+    expect(lines[5]).toMatchObject({ type: 'deletion', oldLine: 11 });
+    expect(lines[5].newLine).toBeUndefined();
+    expect(lines[7]).toMatchObject({ type: 'addition', newLine: 12, content: '  console.log(a, b);' });
+    expect([...getCommentableLines(diff)]).toEqual([10, 11, 12, 13]);
+  });
+});
+
+describe('reviewPublisher', () => {
+  it('should map the synthesis decision to a review event', () => {
+    expect(reviewEventFromDecision('APPROVE')).toBe('APPROVE');
+    expect(reviewEventFromDecision('REJECT')).toBe('REQUEST_CHANGES');
+    expect(reviewEventFromDecision(undefined)).toBe('COMMENT');
+  });
+
+  it('should anchor plugin findings to head lines and list the rest in the summary', () => {
+    const submission = buildReviewSubmission({
+      synthesis: {
+        critical_issues: [], important_recommendations: [], minor_suggestions: [],
+        overall_assessment: 'Analyzed 1 files.', decision: 'REQUEST_CHANGES', reasoning: 'Needs work.'
+      },
+      headSha: 'abc',
+      chunks,
+      passes: [
+        { chunkId: 'c1', passType: 'syntax_logic', riskLevel: 'MEDIUM', issuesFound: ['Off-by-one in run()'] },
+        { chunkId: 'c1', passType: 'security_performance', riskLevel: 'HIGH', issuesFound: [
+          { severity: 'high', category: 'security', title: 'Logs user data', file_path: 'src/app.ts', line_start: 12, suggested_fix: 'Remove the log' }
+        ] }
+      ],
+      findings: [
+        { chunkId: 'c1', pluginId: 'code-smell', pluginName: 'Code Smell Detector', message: 'Console statement', severity: 'warning', filePath: 'src/app.ts', line: 12 },
+        { chunkId: 'c1', pluginId: 'code-smell', pluginName: 'Code Smell Detector', message: 'Outside the diff', severity: 'info', filePath: 'src/app.ts', line: 40 }
+      ]
+    });
+
+    expect(submission.event).toBe('REQUEST_CHANGES');
+    expect(submission.commitSha).toBe('abc');
+    expect(submission.comments).toHaveLength(1);
+    expect(submission.comments[0]).toMatchObject({ path: 'src/app.ts', line: 12, oldLine: undefined });
+    expect(extractFingerprint(submission.comments[0].body)).toBe(submission.comments[0].fingerprint);
+
+    expect(submission.body).toContain('REQUEST_CHANGES — Needs work.');
+    expect(submission.body).toContain('<code>src/app.ts</code> (HIGH)');
+    expect(submission.body).toContain('**Syntax & Logic:** Off-by-one in run()');
+    expect(submission.body).toContain('**Security & Performance:** _high_ Logs user data (line 12) — Remove the log');
+    expect(submission.body).toContain('`src/app.ts:40` — **Code Smell Detector:** Outside the diff');
+    expect(submission.body.endsWith(SUMMARY_MARKER)).toBe(true);
+  });
+
+  it('should not anchor findings to head lines a chunk only shows as context around its hunks', () => {
+    const submission = buildReviewSubmission({
+      chunks: [{ ...chunks[0], expandedLines: [10] }],
+      passes: [],
+      findings: [
+        { chunkId: 'c1', pluginId: 'code-smell', pluginName: 'Code Smell Detector', message: 'Magic number', severity: 'info', filePath: 'src/app.ts', line: 10 },
+        { chunkId: 'c1', pluginId: 'code-smell', pluginName: 'Code Smell Detector', message: 'Console statement', severity: 'warning', filePath: 'src/app.ts', line: 12 }
+      ]
+    });
+
+    expect(submission.comments.map(comment => comment.line)).toEqual([12]);
+    expect(submission.body).toContain('`src/app.ts:10` — **Code Smell Detector:** Magic number');
+  });
+
+  it('should map diff-text line numbers of findings stored before file lines existed', () => {
+    const submission = buildReviewSubmission({
+      chunks,
+      passes: [],
+      findings: [
+        { chunkId: 'c1', pluginId: 'code-smell', pluginName: 'Code Smell Detector', message: 'Console statement', severity: 'warning', filePath: null, line: 8 },
+        { chunkId: 'c1', pluginId: 'code-smell', pluginName: 'Code Smell Detector', message: 'Removed constant', severity: 'info', filePath: null, line: 6 }
+      ]
+    });
+
+    expect(submission.comments.map(comment => comment.line)).toEqual([12]);
+    expect(submission.body).toContain('`src/app.ts` — **Code Smell Detector:** Removed constant');
+  });
+
+  it('should produce the same fingerprint for the same finding across review runs', () => {
+    const finding = { pluginId: 'code-smell', pluginName: 'Code Smell Detector', message: 'Console statement', severity: 'warning', filePath: 'src/app.ts', line: 12 };
+    const first = buildReviewSubmission({ chunks, passes: [], findings: [{ chunkId: 'c1', ...finding }] });
+    const second = buildReviewSubmission({
+      chunks: [{ ...chunks[0], chunkId: 'c2' }],
+      passes: [],
+      findings: [{ chunkId: 'c2', ...finding }, { chunkId: 'c2', ...finding }]
+    });
+
+    expect(second.comments).toHaveLength(1);
+    expect(second.comments[0].fingerprint).toBe(first.comments[0].fingerprint);
+    expect(first.event).toBe('COMMENT');
+  });
+});
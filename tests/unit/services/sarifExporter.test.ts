@@ -0,0 +1,70 @@
+/**
+ * SARIF Exporter Tests
+ * Checks rules, levels, locations and suppressions of exported review findings
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+
+jest.mock('chalk', () => require('../../mocks/chalkMock'));
+
+import { buildSarifLog } from '../../../src/services/sarifExporter';
+
+const diffContent = [
+  '@@ -10,3 +10,4 @@ export function run() {',
+  '   const a = 1;',
+  '-  const b = 2;',
+  '+  const b = 3;',
+  '+  console.log(a, b);',
+  '   return a + b;',
+].join('\n');
+
+const input = () => ({
+  review: {
+    id: 'r1', prUrl: 'https://github.com/acme/app/pull/7', modelProvider: 'ollama', modelName: 'qwen2.5-coder',
+    headSha: 'abc123', startedAt: new Date('2026-10-01T10:00:00Z'), completedAt: new Date('2026-10-01T10:05:00Z'),
+  },
+  chunks: [{ chunkId: 'c1', filePath: 'src/app.ts', diffContent }],
+  passes: [{
+    id: 'p1', chunkId: 'c1', passType: 'security_performance',
+    issuesFound: [
+      { severity: 'high', category: 'security', title: 'Secret logged', line_start: 11, line_end: 12, suggested_fix: 'Remove the log' },
+      { severity: 'info', category: 'analysis_error', title: 'Analysis failed: timeout' },
+      'Plain-text issue of an older review'
+    ]
+  }],
+  findings: [
+    { id: 'f1', chunkId: 'c1', pluginId: 'code-smell', pluginName: 'Code Smell Detector', message: 'Console statement', severity: 'warning', filePath: 'src/app.ts', line: 12 },
+    // Overlapping chunk reporting the same line again
+    { id: 'f2', chunkId: 'c1', pluginId: 'code-smell', pluginName: 'Code Smell Detector', message: 'Console statement', severity: 'warning', filePath: 'src/app.ts', line: 12 },
+  ],
+});
+
+describe('sarifExporter', () => {
+  it('should map findings and pass issues to results with a rule per plugin and pass', () => {
+    const run = buildSarifLog(input()).runs[0];
+
+    expect(run.tool.driver.rules.map(rule => rule.id)).toEqual(['code-smell', 'security_performance']);
+    expect(run.results.map(result => [result.ruleId, result.ruleIndex, result.level])).toEqual([
+      ['code-smell', 0, 'warning'],
+      ['security_performance', 1, 'error'],
+      ['security_performance', 1, 'note'],
+    ]);
+    expect(run.results[1].message.text).toBe('Secret logged\n\nSuggested fix: Remove the log');
+    expect(run.results[1].locations[0].physicalLocation).toEqual({
+      artifactLocation: { uri: 'src/app.ts', uriBaseId: '%SRCROOT%' },
+      region: { startLine: 11, endLine: 12, snippet: { text: 'const b = 3;\nconsole.log(a, b);' } },
+    });
+    expect(run.results[2].locations[0].physicalLocation.region).toBeUndefined();
+    expect(run.results[0].partialFingerprints?.['hikmaFinding/v1']).toHaveLength(16);
+    expect(run.properties).toMatchObject({ model: 'qwen2.5-coder', provider: 'ollama', headSha: 'abc123' });
+  });
+
+  it('should keep dismissed findings as suppressed results', () => {
+    const decision = { reviewId: 'r1', status: 'false-positive' as const, note: 'Debug build only', author: 'sam', updatedAt: new Date() };
+    const run = buildSarifLog({ ...input(), triage: { findings: [], decisions: new Map([['f1', decision]]) } }).runs[0];
+
+    expect(run.results[0].suppressions).toEqual([{ kind: 'external', status: 'accepted', justification: 'Debug build only' }]);
+    expect(run.results[0].properties).toMatchObject({ triageStatus: 'false-positive' });
+    expect(run.results[1].suppressions).toBeUndefined();
+  });
+});
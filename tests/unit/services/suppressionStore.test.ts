@@ -0,0 +1,72 @@
+/**
+ * Suppression Store Tests
+ * Checks message patterns and matching of findings against learned false positives
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+
+jest.mock('chalk', () => require('../../mocks/chalkMock'));
+import {
+  Suppression,
+  SuppressionStore,
+  fingerprintCode,
+  toMessagePattern
+} from '../../../src/services/suppressionStore';
+import { PromptBuilder, SYNTAX_LOGIC_TEMPLATE } from '../../../src/prompts/templates';
+
+const suppression = (overrides: Partial<Suppression>): Suppression => ({
+  id: 's1',
+  rule: 'code-smell',
+  messagePattern: toMessagePattern('Console statement'),
+  fileGlob: 'src/app.ts',
+  codeFingerprint: fingerprintCode('console.log(a, b);'),
+  example: 'Console statement — on: console.log(a, b);',
+  reason: 'Debug output is intended',
+  reviewId: 'r1',
+  ...overrides,
+});
+
+describe('suppressionStore', () => {
+  it('should match variants of a dismissed message', () => {
+    const pattern = new RegExp(toMessagePattern('Function \'run\' has 42 lines (max 30)'), 'i');
+    expect(pattern.test('Function \'start\' has 57 lines (max 30)')).toBe(true);
+    expect(pattern.test('Function   \'run\' has 42 lines (max 30)')).toBe(true);
+    expect(pattern.test('Class \'run\' has 42 lines (max 30)')).toBe(false);
+  });
+
+  it('should suppress findings with the same code or message and record why', async () => {
+    const store = new SuppressionStore([
+      suppression({}),
+      suppression({ id: 's2', rule: 'syntax_logic/quality', messagePattern: toMessagePattern('Unclear name \'x\''), fileGlob: 'src/**', codeFingerprint: null, reason: null })
+    ]);
+
+    const kept = await store.filter([
+      { rule: 'code-smell', message: 'Console statement found', filePath: 'src/app.ts', code: '  console.log(a,  b);' },
+      { rule: 'code-smell', message: 'Console statement', filePath: 'src/app.ts', code: 'console.warn(a);' },
+      { rule: 'code-smell', message: 'Console statement', filePath: 'src/other.ts', code: 'console.log(a, b);' },
+      { rule: 'syntax_logic/quality', message: 'Unclear name \'y\'', filePath: 'src/lib/util.ts' },
+      { rule: 'syntax_logic/logic', message: 'Unclear name \'y\'', filePath: 'src/lib/util.ts' },
+    ], candidate => candidate);
+
+    expect(kept.map(candidate => candidate.filePath)).toEqual(['src/other.ts', 'src/lib/util.ts']);
+    expect(store.getSessionStats()).toEqual({
+      suppressed: 3,
+      bySuppression: [
+        { rule: 'code-smell', fileGlob: 'src/app.ts', reason: 'same code as a false positive: Debug output is intended', count: 1 },
+        { rule: 'code-smell', fileGlob: 'src/app.ts', reason: 'same message as a false positive: Debug output is intended', count: 1 },
+        { rule: 'syntax_logic/quality', fileGlob: 'src/**', reason: 'same message as a false positive', count: 1 },
+      ],
+    });
+  });
+
+  it('should list dismissed examples of a pass as known non-issues in its prompt', () => {
+    const store = new SuppressionStore([suppression({ rule: 'syntax_logic/quality', example: 'Magic number — on: const b = 3;' })]);
+    const examples = store.getKnownNonIssues('src/app.ts', 'syntax_logic/');
+    expect(examples).toEqual(['Magic number — on: const b = 3; (Debug output is intended)']);
+    expect(store.getKnownNonIssues('src/app.ts', 'security_performance/')).toEqual([]);
+
+    const chunk = { id: 'c1', file_path: 'src/app.ts', diff_content: '+const b = 3;', size_tokens: 5 } as any;
+    expect(PromptBuilder.buildAnalysisPrompt(SYNTAX_LOGIC_TEMPLATE, chunk, undefined, examples)).toContain('KNOWN NON-ISSUES');
+    expect(PromptBuilder.buildAnalysisPrompt(SYNTAX_LOGIC_TEMPLATE, chunk)).not.toContain('KNOWN NON-ISSUES');
+  });
+});
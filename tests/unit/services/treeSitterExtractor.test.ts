@@ -0,0 +1,221 @@
+/**
+ * Tree-sitter Extractor Tests
+ * Checks declarations, imports, exports and call targets read from Python, Java and Go sources
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { extractTreeSitterModule } from '../../../src/services/treeSitterExtractor';
+import { outlineSource } from '../../../src/services/sourceExtractor';
+
+const python = `from .repo import Repo as R, helper
+import os.path, json as j
+
+@dataclass
+class UserService(Base, metaclass=Meta):
+    limit: int = 10
+
+    def __init__(self, repo: R, *args, key=None, **options) -> None:
+        self.repo = repo
+
+    @staticmethod
+    async def load(path: str, retries: int = 3):
+        data = os.path.join(path)
+        return data
+
+    def save(self, user):
+        saved = self.repo.save(user)
+        return saved
+
+def _internal():
+    pass
+`;
+
+const java = `package com.example.users;
+
+import java.util.List;
+import static java.lang.Math.max;
+import com.example.db.*;
+
+@Service
+public class UserService extends Base implements Store {
+  private final Repo repo;
+
+  public UserService(Repo repo) {
+    this.repo = repo;
+  }
+
+  @Override
+  public static List<User> save(final User user, String... tags) {
+    User saved = repo.save(user);
+    return new ArrayList<>(saved);
+  }
+}
+
+enum Role { ADMIN, USER }
+`;
+
+const go = `package users
+
+import (
+\t"fmt"
+\tdb "example.com/storage"
+)
+
+type UserService struct {
+\tBase
+\trepo *db.Repo
+\tName, Alias string
+}
+
+type Store interface {
+\tGet(id string) (*User, error)
+}
+
+func (s *UserService) Save(ctx context.Context, users ...User) error {
+\tsaved := s.repo.Save(ctx)
+\treturn fmt.Errorf("%v", saved)
+}
+
+func newService() *UserService { return &UserService{} }
+`;
+
+describe('extractTreeSitterModule', () => {
+  it('should read Python functions, methods and classes with decorators in their span', async () => {
+    const module = await extractTreeSitterModule(python, 'python');
+
+    expect(module.functions.find(fn => fn.name === 'UserService.__init__')).toMatchObject({
+      kind: 'method',
+      startLine: 8,
+      endLine: 9,
+      returnType: 'None',
+      visibility: 'public',
+      parameters: [
+        { name: 'repo', type: 'R', optional: false },
+        { name: '*args', type: 'unknown', optional: true },
+        { name: 'key', type: 'unknown', optional: true },
+        { name: '**options', type: 'unknown', optional: true },
+      ],
+    });
+    expect(module.functions.find(fn => fn.name === 'UserService.load')).toMatchObject({
+      startLine: 11,
+      endLine: 14,
+      isAsync: true,
+      isStatic: true,
+      signature: 'async def load(path: str, retries: int = 3)',
+    });
+    expect(module.functions.find(fn => fn.name === '_internal')).toMatchObject({ kind: 'function', visibility: 'protected' });
+    expect(module.types).toEqual([{
+      name: 'UserService',
+      type: 'class',
+      properties: [{ name: 'limit', type: 'int', optional: false }, { name: 'repo', type: 'unknown', optional: false }],
+      extends: ['Base'],
+      signature: 'class UserService(Base, metaclass=Meta)',
+      startLine: 4,
+      endLine: 18,
+    }]);
+  });
+
+  it('should read Python imports, public names and calls', async () => {
+    const module = await extractTreeSitterModule(python, 'python');
+
+    expect(module.imports).toEqual([
+      { module: '.repo', imports: ['Repo', 'helper'], isDefault: false, lineNumber: 1 },
+      { module: 'os.path', imports: ['os.path'], isDefault: true, lineNumber: 2 },
+      { module: 'json', imports: ['j'], isDefault: true, lineNumber: 2 },
+    ]);
+    expect(module.exports).toEqual([{ name: 'UserService', type: 'named', lineNumber: 4 }]);
+    expect(module.calls).toEqual([
+      { caller: 'UserService.load', callee: 'os.path.join', lineNumber: 13 },
+      { caller: 'UserService.save', callee: 'self.repo.save', lineNumber: 17 },
+    ]);
+    expect(module.dataFlows).toEqual(expect.arrayContaining([
+      { source: 'repo', target: 'self.repo', type: 'assignment', lineNumber: 9 },
+      { source: 'user', target: 'self.repo.save', type: 'parameter', lineNumber: 17 },
+      { source: 'saved', target: 'UserService.save', type: 'return', lineNumber: 18 },
+    ]));
+  });
+
+  it('should read Java types, members and modifiers without annotations in signatures', async () => {
+    const module = await extractTreeSitterModule(java, 'java');
+
+    expect(module.functions.find(fn => fn.name === 'UserService.save')).toMatchObject({
+      startLine: 15,
+      endLine: 19,
+      isStatic: true,
+      visibility: 'public',
+      returnType: 'List<User>',
+      signature: 'public static List<User> save(final User user, String... tags)',
+      parameters: [{ name: 'user', type: 'User', optional: false }, { name: 'tags', type: 'String...', optional: true }],
+    });
+    expect(module.functions.find(fn => fn.name === 'UserService.UserService')).toMatchObject({ startLine: 11, endLine: 13 });
+    expect(module.types.find(type => type.name === 'UserService')).toMatchObject({
+      type: 'class',
+      startLine: 7,
+      endLine: 20,
+      extends: ['Base', 'Store'],
+      properties: [{ name: 'repo', type: 'Repo', optional: false }],
+      signature: 'public class UserService extends Base implements Store',
+    });
+    expect(module.types.find(type => type.name === 'Role')).toMatchObject({ type: 'enum', properties: [{ name: 'ADMIN' }, { name: 'USER' }] });
+  });
+
+  it('should read Java imports, public types and calls', async () => {
+    const module = await extractTreeSitterModule(java, 'java');
+
+    expect(module.imports).toEqual([
+      { module: 'java.util', imports: ['List'], isDefault: false, lineNumber: 3 },
+      { module: 'java.lang.Math', imports: ['max'], isDefault: false, lineNumber: 4 },
+      { module: 'com.example.db', imports: ['*'], isDefault: false, lineNumber: 5 },
+    ]);
+    expect(module.exports).toEqual([{ name: 'UserService', type: 'named', lineNumber: 7 }]);
+    expect(module.calls).toEqual([
+      { caller: 'UserService.save', callee: 'repo.save', lineNumber: 17 },
+      { caller: 'UserService.save', callee: 'new ArrayList', lineNumber: 18 },
+    ]);
+    expect(module.dataFlows).toContainEqual({ source: 'repo', target: 'this.repo', type: 'assignment', lineNumber: 12 });
+  });
+
+  it('should read Go functions, methods on their receiver type and struct fields', async () => {
+    const module = await extractTreeSitterModule(go, 'go');
+
+    expect(module.functions.map(fn => [fn.name, fn.kind, fn.visibility, fn.startLine, fn.endLine])).toEqual([
+      ['UserService.Save', 'method', 'public', 18, 21],
+      ['newService', 'function', 'private', 23, 23],
+    ]);
+    expect(module.functions[0]).toMatchObject({
+      returnType: 'error',
+      parameters: [{ name: 'ctx', type: 'context.Context', optional: false }, { name: 'users', type: '...User', optional: true }],
+    });
+    expect(module.types.map(({ name, type, extends: bases, signature }) => ({ name, type, bases, signature }))).toEqual([
+      { name: 'UserService', type: 'class', bases: ['Base'], signature: 'type UserService struct' },
+      { name: 'Store', type: 'interface', bases: [], signature: 'type Store interface' },
+    ]);
+    expect(module.types[0].properties.map(property => property.name)).toEqual(['repo', 'Name', 'Alias']);
+    expect(module.types[1].properties).toEqual([{ name: 'Get', type: 'func(id string) (*User, error)', optional: false }]);
+  });
+
+  it('should read Go imports, exported names and calls', async () => {
+    const module = await extractTreeSitterModule(go, 'go');
+
+    expect(module.imports).toEqual([
+      { module: 'fmt', imports: ['fmt'], isDefault: true, lineNumber: 4 },
+      { module: 'example.com/storage', imports: ['db'], isDefault: true, lineNumber: 5 },
+    ]);
+    expect(module.exports.map(exp => exp.name)).toEqual(['UserService', 'Store']);
+    expect(module.calls).toEqual([
+      { caller: 'UserService.Save', callee: 's.repo.Save', lineNumber: 19 },
+      { caller: 'UserService.Save', callee: 'fmt.Errorf', lineNumber: 20 },
+    ]);
+    expect(module.dataFlows).toContainEqual({ source: 'saved', target: 'UserService.Save', type: 'return', lineNumber: 20 });
+  });
+});
+
+describe('outlineSource', () => {
+  it('should outline any supported language, outer declarations first', async () => {
+    expect((await outlineSource('users/service.go', go))!.map(symbol => symbol.name))
+      .toEqual(['UserService', 'Store', 'UserService.Save', 'newService']);
+    expect((await outlineSource('users/service.py', python))!.slice(0, 2).map(symbol => symbol.name))
+      .toEqual(['UserService', 'UserService.__init__']);
+    expect(await outlineSource('README.md', '# Users')).toBeUndefined();
+  });
+});